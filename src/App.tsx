@@ -1,13 +1,23 @@
 import { useState, useCallback } from 'react';
 import { SessionProvider } from './context/SessionContext';
 import { WeighingScreen } from './features/weighing';
-import { SettlementScreen } from './features/settlement';
+import { SettlementScreen, MoneySettingsPanel } from './features/settlement';
 import { HistoryScreen } from './features/history';
+import { AuditScreen } from './features/audit';
+import { AccountScreen } from './features/accounts';
 import { ConfirmModal } from './components/ui/ConfirmModal';
-import { factoryReset, getStorageStats } from './services/storage';
+import { SyncIndicator } from './components/SyncIndicator';
+import { StorageErrorBanner } from './components/StorageErrorBanner';
+import { PrinterPanel } from './components/PrinterPanel';
+import { SharedJornadaPanel } from './features/collab';
+import { JornadaPanel } from './features/jornada';
+import { BackupPanel } from './features/backup';
+import { BatchSizeSetting } from './features/session';
+import { PriceListPanel } from './features/prices';
+import { factoryReset, getStorageStats, reloadWhenSaved } from './services/storage';
 import './App.css';
 
-type AppView = 'weighing' | 'records' | 'settlement' | 'settings';
+type AppView = 'weighing' | 'records' | 'settlement' | 'accounts' | 'audit' | 'settings';
 
 function App() {
   const [currentView, setCurrentView] = useState<AppView>('weighing');
@@ -25,8 +35,8 @@ function App() {
   // Factory Reset Handler
   const handleFactoryReset = useCallback(() => {
     factoryReset();
-    // Reload the page to reset all React state
-    window.location.reload();
+    // Reload the page (once the deletes are saved) to reset all React state
+    void reloadWhenSaved();
   }, []);
 
   // Settings View Component
@@ -49,9 +59,73 @@ function App() {
               <span className="settings-info-label">Espacio usado:</span>
               <span className="settings-info-value">{stats.estimatedSize}</span>
             </div>
+            <div className="settings-info-item">
+              <span className="settings-info-label">Almacenamiento:</span>
+              <span className="settings-info-value">
+                {stats.backend === 'indexeddb' ? 'IndexedDB' : 'localStorage'}
+              </span>
+            </div>
+            <div className="settings-info-item">
+              <span className="settings-info-label">Versión de datos:</span>
+              <span className="settings-info-value">v{stats.schemaVersion}</span>
+            </div>
+            {stats.quarantinedKeys > 0 && (
+              <div className="settings-info-item">
+                <span className="settings-info-label">Datos dañados apartados:</span>
+                <span className="settings-info-value">{stats.quarantinedKeys}</span>
+              </div>
+            )}
           </div>
         </section>
 
+        {/* Weighing Section */}
+        <section className="settings-section">
+          <h3 className="settings-section-title">⚖️ Pesaje</h3>
+          <BatchSizeSetting />
+        </section>
+
+        {/* Price List Section */}
+        <section className="settings-section">
+          <h3 className="settings-section-title">🏷️ Lista de Precios</h3>
+          <PriceListPanel />
+        </section>
+
+        {/* Money Section */}
+        <section className="settings-section">
+          <h3 className="settings-section-title">💱 Moneda y Redondeo</h3>
+          <MoneySettingsPanel />
+        </section>
+
+        {/* Backup Section */}
+        <section className="settings-section">
+          <h3 className="settings-section-title">💾 Respaldo</h3>
+          <BackupPanel />
+        </section>
+
+        {/* Cloud Sync Section */}
+        <section className="settings-section">
+          <h3 className="settings-section-title">☁️ Sincronización</h3>
+          <SyncIndicator variant="detailed" />
+        </section>
+
+        {/* Jornada Section */}
+        <section className="settings-section">
+          <h3 className="settings-section-title">📅 Jornada</h3>
+          <JornadaPanel />
+        </section>
+
+        {/* Shared Jornada Section */}
+        <section className="settings-section">
+          <h3 className="settings-section-title">👥 Jornada Compartida</h3>
+          <SharedJornadaPanel />
+        </section>
+
+        {/* Thermal Printer Section */}
+        <section className="settings-section">
+          <h3 className="settings-section-title">🖨️ Impresora Térmica</h3>
+          <PrinterPanel />
+        </section>
+
         {/* Danger Zone Section */}
         <section className="settings-section settings-section--danger">
           <h3 className="settings-section-title">⚠️ Zona de Peligro</h3>
@@ -94,6 +168,10 @@ function App() {
         return <HistoryScreen />;
       case 'settlement':
         return <SettlementScreen />;
+      case 'accounts':
+        return <AccountScreen />;
+      case 'audit':
+        return <AuditScreen />;
       case 'settings':
         return <SettingsView />;
       default:
@@ -104,6 +182,9 @@ function App() {
   return (
     <SessionProvider>
       <div className="app">
+        {/* Unsaved Changes Warning */}
+        <StorageErrorBanner />
+
         {/* Main Content */}
         <main className="app-main app-main--full">
           {renderView()}
@@ -132,11 +213,28 @@ function App() {
             <span className="nav-icon">💰</span>
             <span className="nav-label">Liquidar</span>
           </button>
+          <button
+            className={`nav-item ${currentView === 'accounts' ? 'active' : ''}`}
+            onClick={() => setCurrentView('accounts')}
+          >
+            <span className="nav-icon">💵</span>
+            <span className="nav-label">Cuentas</span>
+          </button>
+          <button
+            className={`nav-item ${currentView === 'audit' ? 'active' : ''}`}
+            onClick={() => setCurrentView('audit')}
+          >
+            <span className="nav-icon">📜</span>
+            <span className="nav-label">Auditoría</span>
+          </button>
           <button
             className={`nav-item ${currentView === 'settings' ? 'active' : ''}`}
             onClick={() => setCurrentView('settings')}
           >
-            <span className="nav-icon">⚙️</span>
+            <span className="nav-icon">
+              ⚙️
+              <SyncIndicator />
+            </span>
             <span className="nav-label">Ajustes</span>
           </button>
         </nav>
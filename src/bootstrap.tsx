@@ -0,0 +1,23 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import App from './App.tsx'
+import { startSyncEngine } from './services/sync'
+import { runStorageMigrations } from './services/storage/migrations'
+
+/**
+ * Start the app. Called by main.tsx once storage is loaded, because several
+ * services (jornada, sync, printer) read storage as soon as they are imported.
+ */
+export function startApp() {
+  // Replay pending cloud changes and watch connectivity
+  startSyncEngine()
+
+  // Upgrade stored data to the current schema (migrated values are mirrored too)
+  runStorageMigrations()
+
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+}
@@ -0,0 +1,120 @@
+import { useCallback } from 'react';
+import { usePrinter } from '../hooks/usePrinter';
+import {
+    createEscPosEncoder,
+    CHARS_PER_LINE,
+    isPrinterTransportSupported,
+    printBytes,
+    type PaperWidth,
+    type PrinterStatus,
+    type PrinterTransportType,
+} from '../services/printer';
+import './PrinterPanel.css';
+
+const TRANSPORT_LABELS: Record<PrinterTransportType, string> = {
+    bluetooth: '📶 Bluetooth',
+    serial: '🔌 Cable (Serial)',
+    file: '💾 Archivo (prueba)',
+};
+
+const STATUS_LABELS: Record<PrinterStatus, string> = {
+    disconnected: 'Desconectada',
+    connecting: 'Conectando...',
+    connected: 'Lista',
+    printing: 'Imprimiendo...',
+    error: 'Error',
+};
+
+/**
+ * PrinterPanel - Thermal printer settings (used in Settings)
+ * Transport, paper width, automatic batch tickets and a test print
+ */
+export function PrinterPanel() {
+    const { status, settings, error, isReady, connect, disconnect, updateSettings } = usePrinter();
+
+    const isConnected = status === 'connected' || status === 'printing';
+
+    const handleTestPrint = useCallback(() => {
+        const encoder = createEscPosEncoder(CHARS_PER_LINE[settings.paperWidth]);
+        const bytes = encoder
+            .initialize()
+            .align('center')
+            .bold(true)
+            .line('PRUEBA DE IMPRESIÓN')
+            .bold(false)
+            .separator()
+            .line(`Papel ${settings.paperWidth}mm`)
+            .feed(3)
+            .cut()
+            .encode();
+        void printBytes(bytes).catch(() => undefined);
+    }, [settings.paperWidth]);
+
+    return (
+        <div className="printer-panel">
+            <div className="printer-panel__row">
+                <select
+                    className="printer-panel__select"
+                    value={settings.transport}
+                    onChange={(e) => updateSettings({ transport: e.target.value as PrinterTransportType })}
+                    aria-label="Conexión de impresora"
+                >
+                    {(Object.keys(TRANSPORT_LABELS) as PrinterTransportType[]).map((type) => (
+                        <option key={type} value={type} disabled={!isPrinterTransportSupported(type)}>
+                            {TRANSPORT_LABELS[type]}
+                        </option>
+                    ))}
+                </select>
+
+                <select
+                    className="printer-panel__select printer-panel__select--narrow"
+                    value={settings.paperWidth}
+                    onChange={(e) => updateSettings({ paperWidth: Number(e.target.value) as PaperWidth })}
+                    aria-label="Ancho de papel"
+                >
+                    <option value={58}>58mm</option>
+                    <option value={80}>80mm</option>
+                </select>
+            </div>
+
+            <label className="printer-panel__toggle">
+                <input
+                    type="checkbox"
+                    checked={settings.autoPrintBatches}
+                    onChange={(e) => updateSettings({ autoPrintBatches: e.target.checked })}
+                />
+                <span>Imprimir ticket al cerrar cada lote</span>
+            </label>
+
+            <div className="printer-panel__row">
+                <span className={`printer-panel__status printer-panel__status--${status}`}>
+                    {STATUS_LABELS[status]}
+                </span>
+
+                {settings.transport !== 'file' && (
+                    <button
+                        type="button"
+                        className="printer-panel__btn"
+                        onClick={() => void (isConnected ? disconnect() : connect().catch(() => undefined))}
+                        disabled={status === 'connecting'}
+                    >
+                        {isConnected ? 'Desconectar' : 'Conectar'}
+                    </button>
+                )}
+
+                <button
+                    type="button"
+                    className="printer-panel__btn printer-panel__btn--secondary"
+                    onClick={handleTestPrint}
+                    disabled={!isReady || status === 'printing'}
+                >
+                    🖨️ Prueba
+                </button>
+            </div>
+
+            {error && <p className="printer-panel__error">{error}</p>}
+        </div>
+    );
+}
+
+export default PrinterPanel;
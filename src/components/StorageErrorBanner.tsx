@@ -0,0 +1,37 @@
+import { useStorageError } from '../hooks/useStorageError';
+import { retryStorageWrites } from '../services/storage';
+import './StorageErrorBanner.css';
+
+/**
+ * Persistent warning shown while changes could not be saved on this device.
+ * Stays visible until a retry (or any later write) succeeds; a reload that
+ * waited for the writes happens on the successful retry.
+ */
+export function StorageErrorBanner() {
+    const error = useStorageError();
+    if (!error) return null;
+
+    return (
+        <div className="storage-error" role="alert">
+            <span className="storage-error__icon">⚠️</span>
+            <div className="storage-error__text">
+                <strong>{error.message}</strong>
+                <span>
+                    {error.isQuotaExceeded
+                        ? 'Exporte un respaldo y cierre jornadas antiguas para liberar espacio.'
+                        : `${error.pendingKeys} registro(s) pendientes de guardar.`}
+                    {error.reloadPending && ' La app se recargará cuando se guarden.'}
+                </span>
+            </div>
+            <button
+                type="button"
+                className="storage-error__retry"
+                onClick={() => void retryStorageWrites()}
+            >
+                Reintentar
+            </button>
+        </div>
+    );
+}
+
+export default StorageErrorBanner;
@@ -0,0 +1,93 @@
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { flushOutbox, type SyncStatus } from '../services/sync';
+import { reloadWhenSaved } from '../services/storage';
+import './SyncIndicator.css';
+
+interface SyncIndicatorProps {
+    variant?: 'compact' | 'detailed';
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+    disabled: 'Solo local',
+    offline: 'Sin conexión',
+    pending: 'Pendiente',
+    syncing: 'Sincronizando...',
+    synced: 'Sincronizado',
+    error: 'Error de sincronización',
+};
+
+/**
+ * SyncIndicator - Shows the cloud sync state
+ * Compact: a colored dot (used in the bottom navigation)
+ * Detailed: status, pending changes and a manual sync button (used in Settings)
+ * Open screens pick up changes pulled from another device as they arrive;
+ * reloading the app refreshes the rest.
+ */
+export function SyncIndicator({ variant = 'compact' }: SyncIndicatorProps) {
+    const { status, pendingCount, lastSyncedAt, lastError, remoteChanges } = useSyncStatus();
+
+    if (variant === 'compact') {
+        return (
+            <span
+                className={`sync-dot sync-dot--${status}`}
+                title={`${STATUS_LABELS[status]}${pendingCount > 0 ? ` (${pendingCount})` : ''}${
+                    remoteChanges > 0 ? ' · cambios de otro equipo' : ''
+                }`}
+                aria-label={STATUS_LABELS[status]}
+            />
+        );
+    }
+
+    const lastSyncedLabel = lastSyncedAt
+        ? new Date(lastSyncedAt).toLocaleTimeString('es-PE', { hour: '2-digit', minute: '2-digit' })
+        : '—';
+
+    return (
+        <div className="sync-indicator">
+            <div className="settings-info-grid">
+                <div className="settings-info-item">
+                    <span className="settings-info-label">Estado:</span>
+                    <span className="sync-indicator__status">
+                        <span className={`sync-dot sync-dot--${status}`} />
+                        {STATUS_LABELS[status]}
+                    </span>
+                </div>
+                <div className="settings-info-item">
+                    <span className="settings-info-label">Cambios pendientes:</span>
+                    <span className="settings-info-value">{pendingCount}</span>
+                </div>
+                <div className="settings-info-item">
+                    <span className="settings-info-label">Última sincronización:</span>
+                    <span className="settings-info-value">{lastSyncedLabel}</span>
+                </div>
+            </div>
+
+            {lastError && status === 'error' && (
+                <p className="sync-indicator__error">{lastError}</p>
+            )}
+
+            {remoteChanges > 0 && (
+                <button
+                    type="button"
+                    className="sync-indicator__btn sync-indicator__btn--remote"
+                    onClick={() => void reloadWhenSaved()}
+                >
+                    ⬇️ {remoteChanges} cambio{remoteChanges === 1 ? '' : 's'} de otro equipo · Recargar
+                </button>
+            )}
+
+            {status !== 'disabled' && (
+                <button
+                    type="button"
+                    className="sync-indicator__btn"
+                    onClick={() => void flushOutbox()}
+                    disabled={status === 'syncing' || status === 'offline'}
+                >
+                    🔄 Sincronizar ahora
+                </button>
+            )}
+        </div>
+    );
+}
+
+export default SyncIndicator;
@@ -7,8 +7,9 @@ interface ToastProps extends ToastState {
 
 /**
  * Toast notification component for visual feedback
+ * An optional action button (e.g. "Deshacer") runs and closes the toast
  */
-export function Toast({ message, type, isVisible, onClose }: ToastProps) {
+export function Toast({ message, type, isVisible, action, onClose }: ToastProps) {
     if (!isVisible) return null;
 
     const getIcon = () => {
@@ -27,6 +28,17 @@ export function Toast({ message, type, isVisible, onClose }: ToastProps) {
         <div className={`toast toast--${type} ${isVisible ? 'visible' : ''}`} role="alert">
             <span className="toast__icon">{getIcon()}</span>
             <span className="toast__message">{message}</span>
+            {action && (
+                <button
+                    className="toast__action"
+                    onClick={() => {
+                        action.onClick();
+                        onClose();
+                    }}
+                >
+                    {action.label}
+                </button>
+            )}
             <button className="toast__close" onClick={onClose} aria-label="Cerrar">
                 ✕
             </button>
@@ -1,43 +1,47 @@
 import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from 'react';
-import type { OperationMode, Entity, EntityType } from '../types/domain';
-import { WAREHOUSE_ENTITY, DEFAULT_ENTITY, generateId } from '../types/domain';
+import type { OperationMode, Entity, EntityType, WeightDeduction } from '../types/domain';
+import { WAREHOUSE_ENTITY, DEFAULT_ENTITY, BATCH_SIZE, generateId } from '../types/domain';
+import {
+    ALL_STORAGE_KEYS,
+    loadFromStorage,
+    loadListFromStorage,
+    saveToStorage,
+    subscribeRemoteChanges,
+} from '../services/storage';
+import { isEntity, isFiniteNumber, isOperationMode, isString } from '../utils/validation';
+import { isValidDeduction, withDeduction } from '../utils/deductionUtils';
+import { publishSharedChange, subscribeSharedEntities } from '../services/collab';
+import { appendAuditRecord } from '../services/audit';
 
 // ============================================
-// localStorage Keys
+// Storage Keys
 // ============================================
 const STORAGE_KEYS = {
-    MODE: 'shpl_session_mode',
-    ENTITIES_DESCARGA: 'shpl_entities_descarga',
-    ENTITIES_TRANSBORDO: 'shpl_entities_transbordo',
-    ACTIVE_ENTITY_DESCARGA: 'shpl_active_entity_descarga',
-    ACTIVE_ENTITY_TRANSBORDO: 'shpl_active_entity_transbordo',
+    MODE: ALL_STORAGE_KEYS.SESSION_MODE,
+    ENTITIES_DESCARGA: ALL_STORAGE_KEYS.ENTITIES_DESCARGA,
+    ENTITIES_TRANSBORDO: ALL_STORAGE_KEYS.ENTITIES_TRANSBORDO,
+    ACTIVE_ENTITY_DESCARGA: ALL_STORAGE_KEYS.ACTIVE_ENTITY_DESCARGA,
+    ACTIVE_ENTITY_TRANSBORDO: ALL_STORAGE_KEYS.ACTIVE_ENTITY_TRANSBORDO,
+    DEFAULT_BATCH_SIZE: ALL_STORAGE_KEYS.DEFAULT_BATCH_SIZE,
 } as const;
 
 // ============================================
 // Helper Functions
 // ============================================
 
-function loadFromStorage<T>(key: string, defaultValue: T): T {
-    try {
-        const stored = localStorage.getItem(key);
-        return stored ? JSON.parse(stored) : defaultValue;
-    } catch {
-        return defaultValue;
-    }
-}
-
-function saveToStorage<T>(key: string, value: T): void {
-    try {
-        localStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-        console.error('Error saving to localStorage:', error);
-    }
-}
-
 function getEntityTypeForMode(mode: OperationMode): EntityType {
     return mode === 'DESCARGA' ? 'PROVIDER' : 'CLIENT';
 }
 
+/**
+ * Same name and deductions (what other devices of a shared jornada can edit)
+ */
+function isSameEntity(a: Entity, b: Entity): boolean {
+    return a.name === b.name &&
+        a.tarePerSack === b.tarePerSack &&
+        a.shrinkagePercent === b.shrinkagePercent;
+}
+
 // ============================================
 // Context Types
 // ============================================
@@ -48,6 +52,7 @@ interface SessionContextValue {
     entities: Entity[];
     activeEntityId: string;
     activeEntity: Entity | null;
+    defaultBatchSize: number;  // Sacks per batch for categories without their own size
 
     // Mode Actions
     setMode: (mode: OperationMode) => void;
@@ -57,6 +62,10 @@ interface SessionContextValue {
     removeEntity: (id: string) => boolean;
     renameEntity: (id: string, newName: string) => boolean;
     setActiveEntity: (id: string) => void;
+    setEntityDeduction: (id: string, field: keyof WeightDeduction, value: number | null) => boolean;
+
+    // Settings Actions
+    setDefaultBatchSize: (size: number) => void;
 
     // Helpers
     getTotalEntitiesWithData: () => number;
@@ -75,21 +84,26 @@ interface SessionProviderProps {
 export function SessionProvider({ children }: SessionProviderProps) {
     // Load initial mode from storage
     const [mode, setModeState] = useState<OperationMode>(() =>
-        loadFromStorage(STORAGE_KEYS.MODE, 'DESCARGA')
+        loadFromStorage<OperationMode>(STORAGE_KEYS.MODE, 'DESCARGA', isOperationMode)
     );
 
     // Load entities for current mode
     const [entitiesByMode, setEntitiesByMode] = useState<Record<OperationMode, Entity[]>>(() => ({
-        DESCARGA: loadFromStorage(STORAGE_KEYS.ENTITIES_DESCARGA, [DEFAULT_ENTITY]),
-        TRANSBORDO: loadFromStorage(STORAGE_KEYS.ENTITIES_TRANSBORDO, [WAREHOUSE_ENTITY]),
+        DESCARGA: loadListFromStorage(STORAGE_KEYS.ENTITIES_DESCARGA, [DEFAULT_ENTITY], isEntity),
+        TRANSBORDO: loadListFromStorage(STORAGE_KEYS.ENTITIES_TRANSBORDO, [WAREHOUSE_ENTITY], isEntity),
     }));
 
     // Load active entity per mode
     const [activeEntityByMode, setActiveEntityByMode] = useState<Record<OperationMode, string>>(() => ({
-        DESCARGA: loadFromStorage(STORAGE_KEYS.ACTIVE_ENTITY_DESCARGA, DEFAULT_ENTITY.id),
-        TRANSBORDO: loadFromStorage(STORAGE_KEYS.ACTIVE_ENTITY_TRANSBORDO, WAREHOUSE_ENTITY.id),
+        DESCARGA: loadFromStorage(STORAGE_KEYS.ACTIVE_ENTITY_DESCARGA, DEFAULT_ENTITY.id, isString),
+        TRANSBORDO: loadFromStorage(STORAGE_KEYS.ACTIVE_ENTITY_TRANSBORDO, WAREHOUSE_ENTITY.id, isString),
     }));
 
+    // Default batch size for this session
+    const [defaultBatchSize, setDefaultBatchSizeState] = useState<number>(() =>
+        loadFromStorage(STORAGE_KEYS.DEFAULT_BATCH_SIZE, BATCH_SIZE, isFiniteNumber)
+    );
+
     // Derived state for current mode
     const entities = entitiesByMode[mode];
     const activeEntityId = activeEntityByMode[mode];
@@ -124,6 +138,59 @@ export function SessionProvider({ children }: SessionProviderProps) {
         saveToStorage(STORAGE_KEYS.ACTIVE_ENTITY_TRANSBORDO, activeEntityByMode.TRANSBORDO);
     }, [activeEntityByMode.TRANSBORDO]);
 
+    // Persist default batch size
+    useEffect(() => {
+        saveToStorage(STORAGE_KEYS.DEFAULT_BATCH_SIZE, defaultBatchSize);
+    }, [defaultBatchSize]);
+
+    // Reload the entities another device synced, so the next save doesn't write over them
+    useEffect(() => {
+        return subscribeRemoteChanges((keys) => {
+            if (!keys.includes(STORAGE_KEYS.ENTITIES_DESCARGA) && !keys.includes(STORAGE_KEYS.ENTITIES_TRANSBORDO)) return;
+            setEntitiesByMode({
+                DESCARGA: loadListFromStorage(STORAGE_KEYS.ENTITIES_DESCARGA, [DEFAULT_ENTITY], isEntity),
+                TRANSBORDO: loadListFromStorage(STORAGE_KEYS.ENTITIES_TRANSBORDO, [WAREHOUSE_ENTITY], isEntity),
+            });
+        });
+    }, []);
+
+    // Apply entities added, edited or removed on other devices of the shared jornada
+    useEffect(() => {
+        return subscribeSharedEntities((sharedEntities) => {
+            setEntitiesByMode(prev => {
+                let changed = false;
+                const next = { ...prev };
+
+                for (const { mode: entityMode, removed, ...entity } of sharedEntities) {
+                    if (removed) {
+                        // Removed tombstones may lack the mode; look in both
+                        (Object.keys(next) as OperationMode[]).forEach((key) => {
+                            const remaining = next[key].filter(e => e.id !== entity.id);
+                            if (remaining.length !== next[key].length && remaining.length > 0) {
+                                next[key] = remaining;
+                                changed = true;
+                            }
+                        });
+                        continue;
+                    }
+
+                    const list = next[entityMode];
+                    if (!list) continue;
+                    const existing = list.find(e => e.id === entity.id);
+                    if (!existing) {
+                        next[entityMode] = [...list, entity];
+                        changed = true;
+                    } else if (!isSameEntity(existing, entity)) {
+                        next[entityMode] = list.map(e => (e.id === entity.id ? entity : e));
+                        changed = true;
+                    }
+                }
+
+                return changed ? next : prev;
+            });
+        });
+    }, []);
+
     // ============================================
     // Mode Actions
     // ============================================
@@ -164,6 +231,8 @@ export function SessionProvider({ children }: SessionProviderProps) {
             [mode]: newEntity.id,
         }));
 
+        publishSharedChange({ type: 'entity-added', entity: { ...newEntity, mode } });
+
         return newEntity;
     }, [mode, entities]);
 
@@ -183,6 +252,18 @@ export function SessionProvider({ children }: SessionProviderProps) {
             [mode]: prev[mode].filter(e => e.id !== id),
         }));
 
+        publishSharedChange({ type: 'entity-removed', entityId: id });
+
+        const removed = currentEntities.find(e => e.id === id);
+        appendAuditRecord({
+            action: 'entity-removed',
+            entityId: id,
+            entityName: removed?.name,
+            ...(removed && { entity: removed }),
+            previousValue: null,
+            newValue: null,
+        });
+
         // If removing active entity, switch to first available
         if (activeEntityByMode[mode] === id) {
             const remaining = currentEntities.filter(e => e.id !== id);
@@ -216,16 +297,52 @@ export function SessionProvider({ children }: SessionProviderProps) {
             return false;
         }
 
+        const entity = entities.find((e) => e.id === id);
+        if (!entity) return false;
+        const renamed = { ...entity, name: trimmedName };
+
+        setEntitiesByMode((prev) => ({
+            ...prev,
+            [mode]: prev[mode].map((e) => (e.id === id ? renamed : e)),
+        }));
+
+        publishSharedChange({ type: 'entity-updated', entity: { ...renamed, mode } });
+
+        return true;
+    }, [mode, entities]);
+
+    /**
+     * Set the tare per sack or shrinkage % of an entity (null = use the category's)
+     */
+    const setEntityDeduction = useCallback((
+        id: string,
+        field: keyof WeightDeduction,
+        value: number | null
+    ): boolean => {
+        const entity = entities.find((e) => e.id === id);
+        if (!isValidDeduction(field, value) || !entity) return false;
+        const updated = withDeduction(entity, field, value);
+
         setEntitiesByMode((prev) => ({
             ...prev,
-            [mode]: prev[mode].map((e) =>
-                e.id === id ? { ...e, name: trimmedName } : e
-            ),
+            [mode]: prev[mode].map((e) => (e.id === id ? updated : e)),
         }));
 
+        publishSharedChange({ type: 'entity-updated', entity: { ...updated, mode } });
+
         return true;
     }, [mode, entities]);
 
+    // ============================================
+    // Settings Actions
+    // ============================================
+
+    const setDefaultBatchSize = useCallback((size: number) => {
+        if (Number.isInteger(size) && size >= 1) {
+            setDefaultBatchSizeState(size);
+        }
+    }, []);
+
     // ============================================
     // Helpers
     // ============================================
@@ -247,11 +364,14 @@ export function SessionProvider({ children }: SessionProviderProps) {
         entities,
         activeEntityId: activeEntity?.id || '',
         activeEntity,
+        defaultBatchSize,
         setMode,
         addEntity,
         removeEntity,
         renameEntity,
         setActiveEntity,
+        setEntityDeduction,
+        setDefaultBatchSize,
         getTotalEntitiesWithData,
     };
 
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import type { AccountMovement, CurrencyCode } from '../../types/domain';
+import { useSession } from '../../context/SessionContext';
+import { EntitySwitcher } from '../session/components/EntitySwitcher';
+import { useWeighingBatch } from '../weighing/hooks/useWeighingBatch';
+import { useSettlement } from '../settlement/hooks/useSettlement';
+import { ConfirmModal } from '../../components/ui/ConfirmModal';
+import { useMoneySettings } from '../../hooks/useMoneySettings';
+import { AccountMovementForm } from './components/AccountMovementForm';
+import { useAccount } from './hooks/useAccount';
+import { getMovementCurrency } from '../../services/accounts';
+import './AccountScreen.css';
+
+const KIND_LABELS: Record<AccountMovement['kind'], string> = {
+    advance: 'Adelanto',
+    repayment: 'Pago recibido',
+    settlement: 'Descuento en liquidación',
+};
+
+function formatDate(time: number): string {
+    return new Date(time).toLocaleDateString('es-PE', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+    });
+}
+
+/**
+ * AccountScreen - Statement of an entity's advances and what is still owed
+ * Advances raise the balance; repayments and settlement deductions lower it.
+ * Each currency has its own balance.
+ * The current jornada's deduction is shown pending until the jornada closes.
+ */
+export function AccountScreen() {
+    const { activeEntityId, activeEntity, defaultBatchSize } = useSession();
+    const { statement, balances, addMovement, removeMovement } = useAccount(activeEntityId);
+    const { settings, formatMoney } = useMoneySettings();
+
+    // Currencies something is owed in (zero in the default currency when nothing is)
+    const owed = (Object.entries(balances) as [CurrencyCode, number][]).filter(([, amount]) => amount > 0);
+    const shownBalances: [CurrencyCode, number][] = owed.length > 0 ? owed : [[settings.currency, 0]];
+
+    // Deduction the open jornada's settlement will make
+    const { categories, batchesByKey } = useWeighingBatch(activeEntityId, defaultBatchSize);
+    const { summary } = useSettlement({
+        entityId: activeEntityId,
+        entityName: activeEntity?.name || 'Sin selección',
+        entity: activeEntity,
+        categories,
+        batchesByKey,
+    });
+
+    const [removing, setRemoving] = useState<AccountMovement | null>(null);
+
+    return (
+        <div className="account-screen">
+            {/* Header */}
+            <header className="account-header">
+                <h1 className="account-header__title">
+                    💵 Cuenta de: <EntitySwitcher />
+                </h1>
+                <div className="account-balance">
+                    <span className="account-balance__label">Saldo pendiente</span>
+                    {shownBalances.map(([currency, balance]) => (
+                        <span
+                            key={currency}
+                            className={`account-balance__amount ${balance > 0 ? 'account-balance__amount--owed' : ''}`}
+                        >
+                            {formatMoney(balance, currency)}
+                        </span>
+                    ))}
+                </div>
+                {summary.advanceDeduction > 0 && (
+                    <p className="account-header__pending">
+                        La liquidación de esta jornada descuenta {formatMoney(summary.advanceDeduction, summary.currency)}
+                        {summary.advanceBalance > 0 &&
+                            ` · quedan ${formatMoney(summary.advanceBalance, summary.currency)} para la siguiente`}
+                    </p>
+                )}
+            </header>
+
+            <div className="account-content">
+                <AccountMovementForm onSubmit={addMovement} />
+
+                {/* Statement */}
+                {statement.length === 0 ? (
+                    <div className="account-empty">
+                        <span className="account-empty__icon">💵</span>
+                        <p>Sin adelantos para {activeEntity?.name ?? 'esta entidad'}.</p>
+                    </div>
+                ) : (
+                    <ol className="account-statement">
+                        {statement.map(({ movement, balance: runningBalance }) => (
+                            <li key={movement.id} className={`account-line account-line--${movement.kind}`}>
+                                <div className="account-line__main">
+                                    <span className="account-line__kind">{KIND_LABELS[movement.kind]}</span>
+                                    <span className="account-line__amount">
+                                        {movement.kind === 'advance' ? '+' : '−'} {formatMoney(movement.amount, getMovementCurrency(movement))}
+                                    </span>
+                                </div>
+                                <div className="account-line__detail">
+                                    <span>{formatDate(movement.date)}</span>
+                                    <span className="account-line__concept">{movement.concept}</span>
+                                    <span className="account-line__balance">Saldo {formatMoney(runningBalance, getMovementCurrency(movement))}</span>
+                                    {movement.kind !== 'settlement' && (
+                                        <button
+                                            type="button"
+                                            className="account-line__remove"
+                                            onClick={() => setRemoving(movement)}
+                                            aria-label="Eliminar movimiento"
+                                        >
+                                            🗑️
+                                        </button>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </div>
+
+            <ConfirmModal
+                isOpen={removing !== null}
+                onClose={() => setRemoving(null)}
+                onConfirm={() => {
+                    if (removing) removeMovement(removing.id);
+                    setRemoving(null);
+                }}
+                title="Eliminar movimiento"
+                message={removing
+                    ? `¿Eliminar "${removing.concept}" por ${formatMoney(removing.amount, getMovementCurrency(removing))}? El saldo se recalculará.`
+                    : ''}
+            />
+        </div>
+    );
+}
+
+export default AccountScreen;
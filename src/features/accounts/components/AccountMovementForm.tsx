@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import type { AccountMovementKind, CurrencyCode } from '../../../types/domain';
+import { CURRENCY_SYMBOLS } from '../../../types/domain';
+import { parseLocalDate, toLocalDateString } from '../../../services/jornada';
+import { useMoneySettings } from '../../../hooks/useMoneySettings';
+import './AccountMovementForm.css';
+
+type ManualKind = Exclude<AccountMovementKind, 'settlement'>;
+
+interface AccountMovementFormProps {
+    onSubmit: (kind: ManualKind, date: number, amount: number, currency: CurrencyCode, concept: string) => boolean;
+}
+
+/**
+ * AccountMovementForm - Record an advance given to the entity or a repayment received
+ * (in the currency of the money settings unless another is chosen)
+ */
+export function AccountMovementForm({ onSubmit }: AccountMovementFormProps) {
+    const { settings } = useMoneySettings();
+    const [kind, setKind] = useState<ManualKind>('advance');
+    const [currency, setCurrency] = useState<CurrencyCode>(settings.currency);
+    const [date, setDate] = useState(() => toLocalDateString());
+    const [amount, setAmount] = useState('');
+    const [concept, setConcept] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const added = onSubmit(kind, parseLocalDate(date).getTime(), parseFloat(amount), currency, concept);
+        if (!added) {
+            setError('Ingrese un monto y un concepto');
+            return;
+        }
+        setAmount('');
+        setConcept('');
+        setError(null);
+    };
+
+    return (
+        <form className="account-form" onSubmit={handleSubmit}>
+            <div className="account-form__kinds" role="radiogroup" aria-label="Tipo de movimiento">
+                <button
+                    type="button"
+                    role="radio"
+                    aria-checked={kind === 'advance'}
+                    className={`account-form__kind ${kind === 'advance' ? 'active' : ''}`}
+                    onClick={() => setKind('advance')}
+                >
+                    📤 Adelanto
+                </button>
+                <button
+                    type="button"
+                    role="radio"
+                    aria-checked={kind === 'repayment'}
+                    className={`account-form__kind ${kind === 'repayment' ? 'active' : ''}`}
+                    onClick={() => setKind('repayment')}
+                >
+                    📥 Pago recibido
+                </button>
+            </div>
+
+            <div className="account-form__row">
+                <input
+                    type="date"
+                    className="account-form__input"
+                    value={date}
+                    onChange={(e) => e.target.value && setDate(e.target.value)}
+                    aria-label="Fecha"
+                />
+                <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    inputMode="decimal"
+                    className="account-form__input account-form__input--amount"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder={`${CURRENCY_SYMBOLS[currency]} 0.00`}
+                    aria-label="Monto"
+                />
+                <select
+                    className="account-form__input account-form__input--currency"
+                    value={currency}
+                    onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                    aria-label="Moneda"
+                >
+                    {(Object.keys(CURRENCY_SYMBOLS) as CurrencyCode[]).map((code) => (
+                        <option key={code} value={code}>{CURRENCY_SYMBOLS[code]}</option>
+                    ))}
+                </select>
+            </div>
+            <input
+                type="text"
+                className="account-form__input"
+                value={concept}
+                onChange={(e) => setConcept(e.target.value)}
+                placeholder={kind === 'advance' ? 'Ej. Semilla, efectivo para jornales' : 'Ej. Pago en efectivo'}
+                aria-label="Concepto"
+            />
+
+            {error && <p className="account-form__error">{error}</p>}
+
+            <button type="submit" className="account-form__submit">
+                Registrar
+            </button>
+        </form>
+    );
+}
+
+export default AccountMovementForm;
@@ -0,0 +1,49 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { AccountMovementKind, CurrencyCode } from '../../../types/domain';
+import {
+    addAccountMovement,
+    getAccountBalances,
+    getAccountMovements,
+    getAccountStatement,
+    removeAccountMovement,
+    subscribeAccountMovements,
+} from '../../../services/accounts';
+
+/**
+ * Custom hook for one entity's account of advances
+ * Returns the statement (oldest first, with running balance) and what is still
+ * owed in each currency
+ */
+export function useAccount(entityId: string) {
+    const movements = useSyncExternalStore(subscribeAccountMovements, getAccountMovements, getAccountMovements);
+
+    const statement = useMemo(() => getAccountStatement(movements, entityId), [movements, entityId]);
+    const balances = useMemo(() => getAccountBalances(movements, entityId), [movements, entityId]);
+
+    /**
+     * Record an advance given or a repayment received
+     * @returns false if the amount or concept is missing
+     */
+    const addMovement = useCallback((
+        kind: Exclude<AccountMovementKind, 'settlement'>,
+        date: number,
+        amount: number,
+        currency: CurrencyCode,
+        concept: string
+    ): boolean => {
+        const trimmed = concept.trim();
+        if (!(amount > 0) || !trimmed) return false;
+
+        addAccountMovement({ entityId, kind, date, amount, currency, concept: trimmed });
+        return true;
+    }, [entityId]);
+
+    return {
+        statement,
+        balances,
+        addMovement,
+        removeMovement: removeAccountMovement,
+    };
+}
+
+export default useAccount;
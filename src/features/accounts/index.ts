@@ -0,0 +1,6 @@
+// Feature: Accounts Module (Adelantos)
+// Advances and debts per entity, deducted in settlement
+
+export { AccountScreen } from './AccountScreen';
+export { AccountMovementForm } from './components/AccountMovementForm';
+export { useAccount } from './hooks/useAccount';
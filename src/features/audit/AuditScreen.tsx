@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import type { AuditRecord } from '../../types/domain';
+import { useSession } from '../../context/SessionContext';
+import { EntitySwitcher } from '../session/components/EntitySwitcher';
+import { AUDIT_ACTION_LABELS } from '../../services/audit';
+import { useAuditLog } from './hooks/useAuditLog';
+import './AuditScreen.css';
+
+function formatValue(value: number | null): string {
+    return value === null ? '—' : `${value.toFixed(2)} kg`;
+}
+
+function formatTimestamp(timestamp: number): string {
+    return new Date(timestamp).toLocaleString('es-PE', {
+        day: '2-digit',
+        month: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    });
+}
+
+/**
+ * AuditScreen - Read-only trail of every change to the weights of an entity
+ * Newest first; the log can't be edited from the app
+ */
+export function AuditScreen() {
+    const { activeEntityId, activeEntity, entities } = useSession();
+    const log = useAuditLog();
+
+    // Show every entity (including removed ones) instead of the active one
+    const [showAll, setShowAll] = useState(false);
+
+    const records = useMemo(() => {
+        const visible = showAll ? log : log.filter(record => record.entityId === activeEntityId);
+        return [...visible].reverse();
+    }, [log, showAll, activeEntityId]);
+
+    const entityName = (record: AuditRecord): string =>
+        entities.find(e => e.id === record.entityId)?.name ?? record.entityName ?? 'Entidad eliminada';
+
+    return (
+        <div className="audit-screen">
+            {/* Header */}
+            <header className="audit-header">
+                <h1 className="audit-header__title">
+                    📜 Auditoría de: <EntitySwitcher />
+                </h1>
+                <label className="audit-header__toggle">
+                    <input
+                        type="checkbox"
+                        checked={showAll}
+                        onChange={(e) => setShowAll(e.target.checked)}
+                    />
+                    Ver todas las entidades
+                </label>
+            </header>
+
+            {/* Records */}
+            <div className="audit-content">
+                {records.length === 0 ? (
+                    <div className="audit-empty">
+                        <span className="audit-empty__icon">📜</span>
+                        <h2>Sin cambios registrados</h2>
+                        <p>
+                            {showAll
+                                ? 'Aquí aparecerá cada peso registrado, corregido o eliminado.'
+                                : `Aún no hay cambios para ${activeEntity?.name ?? 'esta entidad'}.`}
+                        </p>
+                    </div>
+                ) : (
+                    <ol className="audit-list">
+                        {records.map(record => (
+                            <li key={record.id} className={`audit-item audit-item--${record.action}`}>
+                                <div className="audit-item__main">
+                                    <span className="audit-item__action">{AUDIT_ACTION_LABELS[record.action]}</span>
+                                    <span className="audit-item__time">{formatTimestamp(record.timestamp)}</span>
+                                </div>
+                                <div className="audit-item__detail">
+                                    {showAll && <span>{entityName(record)}</span>}
+                                    {record.categoryName && <span>{record.categoryName}</span>}
+                                    {(record.previousValue !== null || record.newValue !== null) && (
+                                        <span className="audit-item__values">
+                                            {formatValue(record.previousValue)} → {formatValue(record.newValue)}
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="audit-item__meta">
+                                    <span>📱 {record.deviceName}</span>
+                                    {record.note && <span className="audit-item__note">{record.note}</span>}
+                                </div>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default AuditScreen;
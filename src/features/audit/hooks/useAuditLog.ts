@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getAuditLog, subscribeAuditLog } from '../../../services/audit';
+
+/**
+ * Custom hook for the append-only audit log (oldest record first)
+ */
+export function useAuditLog() {
+    return useSyncExternalStore(subscribeAuditLog, getAuditLog, getAuditLog);
+}
+
+export default useAuditLog;
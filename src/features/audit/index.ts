@@ -0,0 +1,4 @@
+// Audit Feature Module
+export { AuditScreen } from './AuditScreen';
+export { useAuditLog } from './hooks/useAuditLog';
+export { default } from './AuditScreen';
@@ -0,0 +1,137 @@
+import { useState, useCallback, useRef } from 'react';
+import { useBackup } from '../hooks/useBackup';
+import { ConfirmModal } from '../../../components/ui/ConfirmModal';
+import { formatWeight } from '../../../utils/notebookUtils';
+import type { RestoreMode } from '../../../services/backup';
+import { reloadWhenSaved } from '../../../services/storage';
+import './BackupPanel.css';
+
+/**
+ * BackupPanel - Save all data to a file and restore it on another phone
+ * Restoring shows what the file contains and lets the user merge or replace
+ */
+export function BackupPanel() {
+    const { isBusy, error, pending, save, loadFile, restore, cancel } = useBackup();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [confirmMode, setConfirmMode] = useState<RestoreMode | null>(null);
+    const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+    const handleSave = useCallback(async () => {
+        const result = await save();
+        if (result) {
+            setSavedMessage(result === 'shared' ? 'Respaldo compartido' : 'Respaldo descargado');
+        }
+    }, [save]);
+
+    const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) void loadFile(file);
+        // Allow choosing the same file again
+        e.target.value = '';
+    }, [loadFile]);
+
+    const handleRestore = useCallback(() => {
+        if (confirmMode && restore(confirmMode)) {
+            // Reload the page (once saved) so every screen reads the restored data
+            void reloadWhenSaved();
+        }
+    }, [confirmMode, restore]);
+
+    return (
+        <div className="backup-panel">
+            <div className="backup-panel__actions">
+                <button
+                    type="button"
+                    className="backup-panel__btn"
+                    onClick={() => void handleSave()}
+                    disabled={isBusy}
+                >
+                    💾 Guardar respaldo
+                </button>
+                <button
+                    type="button"
+                    className="backup-panel__btn backup-panel__btn--secondary"
+                    onClick={() => fileInputRef.current?.click()}
+                >
+                    📂 Restaurar
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="backup-panel__file"
+                    onChange={handleFileChange}
+                />
+            </div>
+
+            {savedMessage && !pending && <p className="backup-panel__hint">✓ {savedMessage}</p>}
+
+            {/* Preview of the selected backup */}
+            {pending && (
+                <div className="backup-preview">
+                    <h4 className="backup-preview__title">{pending.fileName}</h4>
+                    <dl className="backup-preview__grid">
+                        <dt>Creado</dt>
+                        <dd>{new Date(pending.summary.createdAt).toLocaleString('es-PE')}</dd>
+                        {pending.summary.deviceName && (
+                            <>
+                                <dt>Equipo</dt>
+                                <dd>{pending.summary.deviceName}</dd>
+                            </>
+                        )}
+                        <dt>Entidades</dt>
+                        <dd>{pending.summary.entityCount}</dd>
+                        <dt>Categorías</dt>
+                        <dd>{pending.summary.categoryCount}</dd>
+                        <dt>Pesos</dt>
+                        <dd>{pending.summary.entryCount} ({formatWeight(pending.summary.totalWeight)} kg)</dd>
+                        <dt>Liquidaciones</dt>
+                        <dd>{pending.summary.settlementCount}</dd>
+                        <dt>Jornadas archivadas</dt>
+                        <dd>{pending.summary.archivedJornadaCount}</dd>
+                    </dl>
+
+                    <div className="backup-preview__actions">
+                        <button
+                            type="button"
+                            className="backup-panel__btn"
+                            onClick={() => setConfirmMode('merge')}
+                        >
+                            ➕ Combinar
+                        </button>
+                        <button
+                            type="button"
+                            className="backup-panel__btn backup-panel__btn--danger"
+                            onClick={() => setConfirmMode('replace')}
+                        >
+                            ♻️ Reemplazar
+                        </button>
+                        <button
+                            type="button"
+                            className="backup-panel__btn backup-panel__btn--secondary"
+                            onClick={cancel}
+                        >
+                            Cancelar
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="backup-panel__error">{error}</p>}
+
+            <ConfirmModal
+                isOpen={confirmMode !== null}
+                onClose={() => setConfirmMode(null)}
+                onConfirm={handleRestore}
+                title={confirmMode === 'replace' ? '♻️ ¿Reemplazar todos los datos?' : '➕ ¿Combinar el respaldo?'}
+                message={confirmMode === 'replace'
+                    ? 'Los datos actuales de este equipo se borrarán y se usarán los del respaldo.'
+                    : 'Se agregarán los pesos, entidades, categorías y jornadas del respaldo que no existan en este equipo. Los datos actuales se conservan.'}
+                variant={confirmMode === 'replace' ? 'danger' : 'info'}
+                confirmText={confirmMode === 'replace' ? 'Sí, Reemplazar' : 'Combinar'}
+            />
+        </div>
+    );
+}
+
+export default BackupPanel;
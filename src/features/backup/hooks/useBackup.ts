@@ -0,0 +1,89 @@
+import { useState, useCallback } from 'react';
+import {
+    saveBackupFile,
+    parseBackup,
+    summarizeBackup,
+    restoreBackup,
+    type BackupFile,
+    type BackupSummary,
+    type RestoreMode,
+} from '../../../services/backup';
+
+interface PendingRestore {
+    backup: BackupFile;
+    summary: BackupSummary;
+    fileName: string;
+}
+
+/**
+ * Custom hook for creating a backup file and restoring one after a preview
+ */
+export function useBackup() {
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [pending, setPending] = useState<PendingRestore | null>(null);
+
+    /**
+     * Share or download a backup of all data
+     */
+    const save = useCallback(async () => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            return await saveBackupFile();
+        } catch (err) {
+            console.error('[SHPL] Error creating backup:', err);
+            setError('No se pudo crear el respaldo');
+            return null;
+        } finally {
+            setIsBusy(false);
+        }
+    }, []);
+
+    /**
+     * Read and validate a backup file, keeping it for preview
+     */
+    const loadFile = useCallback(async (file: File) => {
+        setError(null);
+        setPending(null);
+        try {
+            const backup = parseBackup(await file.text());
+            setPending({ backup, summary: summarizeBackup(backup), fileName: file.name });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'No se pudo leer el archivo');
+        }
+    }, []);
+
+    /**
+     * Apply the previewed backup
+     */
+    const restore = useCallback((mode: RestoreMode): boolean => {
+        if (!pending) return false;
+        try {
+            restoreBackup(pending.backup, mode);
+            setPending(null);
+            return true;
+        } catch (err) {
+            console.error('[SHPL] Error restoring backup:', err);
+            setError('No se pudo restaurar el respaldo');
+            return false;
+        }
+    }, [pending]);
+
+    const cancel = useCallback(() => {
+        setPending(null);
+        setError(null);
+    }, []);
+
+    return {
+        isBusy,
+        error,
+        pending,
+        save,
+        loadFile,
+        restore,
+        cancel,
+    };
+}
+
+export default useBackup;
@@ -0,0 +1,5 @@
+// Feature: Backup Module
+// Full backup file of all app data and restore (merge or replace)
+
+export { BackupPanel } from './components/BackupPanel';
+export { useBackup } from './hooks/useBackup';
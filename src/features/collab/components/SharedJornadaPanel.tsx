@@ -0,0 +1,117 @@
+import { useState, useCallback } from 'react';
+import { useSharedJornada } from '../hooks/useSharedJornada';
+import { getDeviceName, setDeviceName } from '../../../services/device';
+import { ConfirmModal } from '../../../components/ui/ConfirmModal';
+import './SharedJornadaPanel.css';
+
+/**
+ * SharedJornadaPanel - Create or join a jornada shared by several devices
+ * Every device weighing the same truck joins with the same code
+ */
+export function SharedJornadaPanel() {
+    const { code, isShared, isAvailable, isBusy, error, create, join, leave } = useSharedJornada();
+
+    const [joinCode, setJoinCode] = useState('');
+    const [deviceName, setDeviceNameValue] = useState(getDeviceName);
+    const [isLeaving, setIsLeaving] = useState(false);
+
+    const handleDeviceNameBlur = useCallback(() => {
+        setDeviceName(deviceName);
+        setDeviceNameValue(getDeviceName());
+    }, [deviceName]);
+
+    const handleJoin = useCallback(async () => {
+        if (await join(joinCode)) {
+            setJoinCode('');
+        }
+    }, [join, joinCode]);
+
+    if (!isAvailable) {
+        return (
+            <p className="shared-jornada__hint">
+                Configura Firebase en el archivo <code>.env</code> para pesar con varios equipos.
+            </p>
+        );
+    }
+
+    return (
+        <div className="shared-jornada">
+            {/* Device / operator name */}
+            <label className="shared-jornada__field">
+                <span className="settings-info-label">Nombre de este equipo:</span>
+                <input
+                    type="text"
+                    className="shared-jornada__input"
+                    value={deviceName}
+                    onChange={(e) => setDeviceNameValue(e.target.value)}
+                    onBlur={handleDeviceNameBlur}
+                    maxLength={20}
+                />
+            </label>
+
+            {isShared ? (
+                <>
+                    <div className="shared-jornada__active">
+                        <span className="settings-info-label">Código de la jornada:</span>
+                        <span className="shared-jornada__code">{code}</span>
+                        <span className="shared-jornada__hint">
+                            Ingresa este código en los otros equipos para pesar juntos.
+                        </span>
+                    </div>
+                    <button
+                        type="button"
+                        className="shared-jornada__btn shared-jornada__btn--secondary"
+                        onClick={() => setIsLeaving(true)}
+                    >
+                        🚪 Salir de la jornada
+                    </button>
+                </>
+            ) : (
+                <>
+                    <button
+                        type="button"
+                        className="shared-jornada__btn"
+                        onClick={() => void create()}
+                        disabled={isBusy}
+                    >
+                        ➕ Crear jornada compartida
+                    </button>
+
+                    <div className="shared-jornada__join">
+                        <input
+                            type="text"
+                            className="shared-jornada__input shared-jornada__input--code"
+                            placeholder="CÓDIGO"
+                            value={joinCode}
+                            onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                            onKeyDown={(e) => e.key === 'Enter' && void handleJoin()}
+                            maxLength={6}
+                        />
+                        <button
+                            type="button"
+                            className="shared-jornada__btn"
+                            onClick={() => void handleJoin()}
+                            disabled={isBusy || joinCode.trim().length === 0}
+                        >
+                            Unirse
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {error && <p className="shared-jornada__error">{error}</p>}
+
+            <ConfirmModal
+                isOpen={isLeaving}
+                onClose={() => setIsLeaving(false)}
+                onConfirm={leave}
+                title="Salir de la jornada"
+                message="Este equipo dejará de recibir los pesos de los demás. Los datos recibidos hasta ahora se conservan."
+                variant="info"
+                confirmText="Salir"
+            />
+        </div>
+    );
+}
+
+export default SharedJornadaPanel;
@@ -0,0 +1,74 @@
+import { useState, useCallback, useSyncExternalStore } from 'react';
+import {
+    createSharedJornada,
+    joinSharedJornada,
+    leaveSharedJornada,
+    getActiveJornadaCode,
+    subscribeJornadaCode,
+    isCollabAvailable,
+} from '../../../services/collab';
+
+/**
+ * Custom hook for creating, joining and leaving a shared jornada
+ */
+export function useSharedJornada() {
+    const code = useSyncExternalStore(subscribeJornadaCode, getActiveJornadaCode, getActiveJornadaCode);
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    /**
+     * Create a new jornada and return its join code
+     */
+    const create = useCallback(async (): Promise<string | null> => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            return await createSharedJornada();
+        } catch (err) {
+            console.error('[SHPL] Error creating shared jornada:', err);
+            setError('No se pudo crear la jornada compartida');
+            return null;
+        } finally {
+            setIsBusy(false);
+        }
+    }, []);
+
+    /**
+     * Join an existing jornada by code
+     */
+    const join = useCallback(async (joinCode: string): Promise<boolean> => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            const joined = await joinSharedJornada(joinCode);
+            if (!joined) {
+                setError('Código no encontrado');
+            }
+            return joined;
+        } catch (err) {
+            console.error('[SHPL] Error joining shared jornada:', err);
+            setError('No se pudo unir a la jornada');
+            return false;
+        } finally {
+            setIsBusy(false);
+        }
+    }, []);
+
+    const leave = useCallback(() => {
+        leaveSharedJornada();
+        setError(null);
+    }, []);
+
+    return {
+        code,
+        isShared: code !== null,
+        isAvailable: isCollabAvailable(),
+        isBusy,
+        error,
+        create,
+        join,
+        leave,
+    };
+}
+
+export default useSharedJornada;
@@ -0,0 +1,5 @@
+// Feature: Collaboration Module (Jornada Compartida)
+// Several devices weighing the same truck session in real time
+
+export { SharedJornadaPanel } from './components/SharedJornadaPanel';
+export { useSharedJornada } from './hooks/useSharedJornada';
@@ -1,29 +1,50 @@
-import { useMemo } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { useSession } from '../../context/SessionContext';
 import { EntitySwitcher } from '../session/components/EntitySwitcher';
 import { useWeighingBatch } from '../weighing/hooks/useWeighingBatch';
+import { MoveEntriesModal } from '../weighing/components/MoveEntriesModal';
 import { useSettlement } from '../settlement/hooks/useSettlement';
+import { useJornada } from '../jornada/hooks/useJornada';
+import { loadArchivedJornada, parseLocalDate } from '../../services/jornada';
+import { transformBatchesToNotebook, getFormattedDate } from '../../utils/notebookUtils';
 import {
-    transformBatchesToNotebook,
-    getFormattedDate,
-    formatWeight,
-    formatCurrency,
-    type NotebookColumn
-} from '../../utils/notebookUtils';
+    aggregateWeightsByCategory,
+    calculateSettlementSummary,
+    EMPTY_SETTLEMENT_DATA,
+    getSettlementCurrency,
+} from '../../utils/settlementUtils';
+import { exportNotebook, loadCurrentSettlements, type ExportFormat } from '../../services/export';
+import { filterAuditLog, getAuditLog } from '../../services/audit';
+import { getAccountBalance, getAccountMovements, getJornadaDeduction } from '../../services/accounts';
+import { NotebookSheet } from './components/NotebookSheet';
+import { ExportModal, type ExportScope } from './components/ExportModal';
+import { useToast } from '../../hooks/useToast';
+import { Toast } from '../../components/Toast';
 import './components/NotebookLayout.css';
 
+/** Select value for the jornada currently being recorded */
+const CURRENT_JORNADA = 'current';
+
 /**
  * HistoryScreen - Notebook/Ledger style view of weighing data
  * Replicates the physical notebook layout with weights in columns of 5
+ * Shows the current jornada, or any archived jornada picked by date
+ * Weights of the current jornada can be multi-selected and moved
  */
 export function HistoryScreen() {
-    const { activeEntityId, activeEntity } = useSession();
-    const { categories, batchesByKey } = useWeighingBatch(activeEntityId);
+    const { activeEntityId, activeEntity, entities, mode, defaultBatchSize } = useSession();
+    const { categories, batchesByKey, moveEntries } = useWeighingBatch(activeEntityId, defaultBatchSize);
+    const { jornada, archives } = useJornada();
+
+    // Jornada being viewed (current or archived)
+    const [selectedJornadaId, setSelectedJornadaId] = useState(CURRENT_JORNADA);
+    const [archivedEntityId, setArchivedEntityId] = useState<string | null>(null);
 
     // Settlement calculations for the footer
     const { summary, hasData } = useSettlement({
         entityId: activeEntityId,
         entityName: activeEntity?.name || 'Sin selección',
+        entity: activeEntity,
         categories,
         batchesByKey,
     });
@@ -33,19 +54,218 @@ export function HistoryScreen() {
         return transformBatchesToNotebook(batchesByKey, activeEntityId, categories);
     }, [batchesByKey, activeEntityId, categories]);
 
-    // Format current date
-    const formattedDate = getFormattedDate();
+    // ============================================
+    // Archived Jornada (read-only)
+    // ============================================
+
+    const archive = useMemo(() => {
+        return selectedJornadaId === CURRENT_JORNADA ? null : loadArchivedJornada(selectedJornadaId);
+    }, [selectedJornadaId]);
+
+    // Entities with weights in the archived jornada (current mode first)
+    const archivedEntities = useMemo(() => {
+        if (!archive) return [];
+        const otherMode = mode === 'DESCARGA' ? 'TRANSBORDO' : 'DESCARGA';
+        const candidates = [...archive.entities[mode], ...archive.entities[otherMode]];
+        return candidates.filter(entity =>
+            Object.keys(archive.batchesByKey).some(key => key.startsWith(`${entity.id}:`))
+        );
+    }, [archive, mode]);
+
+    const archivedEntity = archivedEntities.find(e => e.id === archivedEntityId) ?? archivedEntities[0];
+
+    const archivedView = useMemo(() => {
+        if (!archive || !archivedEntity) return null;
+        const settlementData = archive.settlements[archivedEntity.id] ?? EMPTY_SETTLEMENT_DATA;
+        return {
+            notebookData: transformBatchesToNotebook(archive.batchesByKey, archivedEntity.id, archive.categories),
+            // A finalized settlement keeps the amounts it was closed with
+            summary: settlementData.finalSummary ?? calculateSettlementSummary(
+                archive.categories,
+                aggregateWeightsByCategory(archive.batchesByKey, archivedEntity.id),
+                settlementData,
+                archivedEntity,
+                // What was posted to the account when the jornada closed
+                getJornadaDeduction(getAccountMovements(), archivedEntity.id, archive.id)
+            ),
+        };
+    }, [archive, archivedEntity]);
+
+    const isArchived = selectedJornadaId !== CURRENT_JORNADA;
+
+    // ============================================
+    // Multi-select (move weights)
+    // ============================================
+
+    const { toast, showToast, hideToast } = useToast();
+
+    // null = not selecting
+    const [selection, setSelection] = useState<Set<string> | null>(null);
+    const [isMoveOpen, setIsMoveOpen] = useState(false);
+
+    // Only weights still shown for the active entity count as selected
+    const selectedEntryIds = useMemo(() => {
+        if (!selection) return new Set<string>();
+        return new Set(notebookData.columns.flatMap(c => c.entryIds).filter(id => selection.has(id)));
+    }, [selection, notebookData]);
+
+    // A cell toggles itself; a column is selected, or cleared if it was fully selected
+    const handleToggleEntries = useCallback((entryIds: string[]) => {
+        setSelection(prev => {
+            const next = new Set(prev);
+            const allSelected = entryIds.every(id => next.has(id));
+            entryIds.forEach(id => (allSelected ? next.delete(id) : next.add(id)));
+            return next;
+        });
+    }, []);
+
+    const handleMoveEntries = useCallback((entityId: string, categoryId: string) => {
+        const { moved, blocked } = moveEntries([...selectedEntryIds], entityId, categoryId);
+        if (moved > 0) {
+            showToast(moved === 1 ? 'Peso movido' : `${moved} pesos movidos`, 'success');
+            setSelection(null);
+        } else if (blocked === 'locked') {
+            showToast('🔒 No se puede mover: afecta una liquidación finalizada', 'error');
+        } else {
+            showToast('Los pesos ya están en esa entidad y categoría', 'info');
+        }
+    }, [moveEntries, selectedEntryIds, showToast]);
+
+    // ============================================
+    // Spreadsheet Export
+    // ============================================
+
+    const [isExportOpen, setIsExportOpen] = useState(false);
+
+    const handleExport = useCallback((format: ExportFormat, scope: ExportScope) => {
+        const date = archive?.date ?? jornada.date;
+
+        if (archive) {
+            const selected = scope === 'all'
+                ? archivedEntities
+                : archivedEntities.filter(e => e.id === archivedEntity?.id);
+            exportNotebook({
+                entities: selected,
+                categories: archive.categories,
+                batchesByKey: archive.batchesByKey,
+                settlements: archive.settlements,
+                advanceDebts: Object.fromEntries(selected.map(e => [
+                    e.id,
+                    getJornadaDeduction(getAccountMovements(), e.id, archive.id),
+                ])),
+                auditLog: filterAuditLog(
+                    getAuditLog(),
+                    selected.map(e => e.id),
+                    archive.openedAt,
+                    archive.closedAt
+                ),
+            }, format, `cuaderno-${date}`);
+            return;
+        }
+
+        const selected = scope === 'all' ? entities : entities.filter(e => e.id === activeEntityId);
+        const settlements = loadCurrentSettlements(selected.map(e => e.id));
+        exportNotebook({
+            entities: selected,
+            categories,
+            batchesByKey,
+            settlements,
+            // Advances in the currency each settlement is paid in
+            advanceDebts: Object.fromEntries(selected.map(e => [
+                e.id,
+                getAccountBalance(
+                    getAccountMovements(),
+                    e.id,
+                    getSettlementCurrency(settlements[e.id] ?? EMPTY_SETTLEMENT_DATA)
+                ),
+            ])),
+            auditLog: filterAuditLog(getAuditLog(), selected.map(e => e.id), jornada.openedAt),
+        }, format, `cuaderno-${date}`);
+    }, [archive, archivedEntities, archivedEntity, jornada.date, jornada.openedAt, entities, activeEntityId, categories, batchesByKey]);
+
+    const canExport = isArchived ? archivedView !== null : hasData;
 
     return (
         <div className="notebook-container">
+            {/* Toast Notification */}
+            <Toast {...toast} onClose={hideToast} />
+
             {/* 1. SHEET HEADER */}
             <header className="notebook-header">
-                <EntitySwitcher />
-                <span className="notebook-date">{formattedDate}</span>
+                {isArchived ? (
+                    <select
+                        className="notebook-select notebook-select--entity"
+                        value={archivedEntity?.id ?? ''}
+                        onChange={(e) => setArchivedEntityId(e.target.value)}
+                        aria-label="Entidad"
+                    >
+                        {archivedEntities.map((entity) => (
+                            <option key={entity.id} value={entity.id}>
+                                {entity.name}
+                            </option>
+                        ))}
+                    </select>
+                ) : (
+                    <EntitySwitcher />
+                )}
+                <div className="notebook-header__actions">
+                    <select
+                        className="notebook-date notebook-select"
+                        value={selectedJornadaId}
+                        onChange={(e) => {
+                            setSelectedJornadaId(e.target.value);
+                            setArchivedEntityId(null);
+                        }}
+                        aria-label="Jornada"
+                    >
+                        <option value={CURRENT_JORNADA}>
+                            {getFormattedDate(parseLocalDate(jornada.date))} (actual)
+                        </option>
+                        {archives.map((info) => (
+                            <option key={info.id} value={info.id}>
+                                {getFormattedDate(parseLocalDate(info.date))}
+                            </option>
+                        ))}
+                    </select>
+                    {!isArchived && (
+                        <button
+                            type="button"
+                            className={`notebook-export-btn ${selection ? 'notebook-export-btn--active' : ''}`}
+                            onClick={() => setSelection(prev => (prev ? null : new Set()))}
+                            disabled={!hasData}
+                            aria-label="Seleccionar pesos"
+                            title="Seleccionar pesos para moverlos"
+                        >
+                            ☑️
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        className="notebook-export-btn"
+                        onClick={() => setIsExportOpen(true)}
+                        disabled={!canExport}
+                        aria-label="Exportar"
+                    >
+                        ⬇️
+                    </button>
+                </div>
             </header>
 
             {/* 2. GRID BODY */}
-            {!hasData ? (
+            {isArchived ? (
+                archivedView ? (
+                    <NotebookSheet
+                        notebookData={archivedView.notebookData}
+                        summary={archivedView.summary}
+                    />
+                ) : (
+                    <div className="notebook-empty">
+                        <span className="notebook-empty__icon">🗄️</span>
+                        <h2>Jornada sin datos</h2>
+                        <p>No se encontraron pesajes archivados para esta jornada.</p>
+                    </div>
+                )
+            ) : !hasData ? (
                 <div className="notebook-empty">
                     <span className="notebook-empty__icon">📓</span>
                     <h2>Cuaderno Vacío</h2>
@@ -53,149 +273,56 @@ export function HistoryScreen() {
                 </div>
             ) : (
                 <>
-                    <div className="notebook-body">
-                        <div className="notebook-grid">
-                            {notebookData.columns.map((column) => (
-                                <NotebookColumnComponent
-                                    key={column.batchId}
-                                    column={column}
-                                />
-                            ))}
-                        </div>
-                    </div>
-
-                    {/* 3. SETTLEMENT FOOTER */}
-                    <footer className="notebook-footer">
-                        <div className="notebook-summary">
-                            {/* Quick Stats */}
-                            <div className="notebook-stats">
-                                <div className="notebook-stat">
-                                    <span className="notebook-stat__label">Total Kgs</span>
-                                    <span className="notebook-stat__value">
-                                        {formatWeight(summary.totalWeight)}
-                                    </span>
-                                </div>
-                                <div className="notebook-stat">
-                                    <span className="notebook-stat__label">Categorías</span>
-                                    <span className="notebook-stat__value">
-                                        {summary.categoryBreakdown.length}
-                                    </span>
-                                </div>
-                                <div className="notebook-stat">
-                                    <span className="notebook-stat__label">Columnas</span>
-                                    <span className="notebook-stat__value">
-                                        {notebookData.columns.length}
-                                    </span>
-                                </div>
-                            </div>
-
-                            {/* Category calculation rows */}
-                            {summary.categoryBreakdown.map((line) => (
-                                <div key={line.categoryId} className="notebook-calc-row">
-                                    <div className="notebook-calc-category">
-                                        <span
-                                            className="notebook-calc-category__dot"
-                                            style={{ backgroundColor: line.categoryColor || '#3b82f6' }}
-                                        />
-                                        <span className="notebook-calc-category__name">
-                                            {line.categoryName}
-                                        </span>
-                                    </div>
-                                    <div className="notebook-calc-formula">
-                                        <span>{formatWeight(line.totalWeight)}</span>
-                                        <span>×</span>
-                                        <span>{line.unitPrice.toFixed(2)}</span>
-                                        <span>=</span>
-                                    </div>
-                                    <span className="notebook-calc-result">
-                                        {formatCurrency(line.subtotal)}
-                                    </span>
-                                </div>
-                            ))}
-
-                            {/* Freight deduction */}
-                            {summary.freightTotal > 0 && (
-                                <div className="notebook-deduction">
-                                    <span className="notebook-deduction__label">
-                                        🚚 Flete
-                                    </span>
-                                    <span className="notebook-deduction__value">
-                                        - {formatCurrency(summary.freightTotal)}
-                                    </span>
-                                </div>
-                            )}
-
-                            {/* Sack value (if any) */}
-                            {summary.sackValue > 0 && (
-                                <div className="notebook-calc-row">
-                                    <span className="notebook-deduction__label">
-                                        🧺 Sacos
-                                    </span>
-                                    <span className="notebook-calc-result" style={{ color: 'var(--success-color)' }}>
-                                        + {formatCurrency(summary.sackValue)}
-                                    </span>
-                                </div>
-                            )}
-
-                            <div className="notebook-divider--double" />
-
-                            {/* Final total */}
-                            <div className="notebook-total">
-                                <span className="notebook-total__label">A PAGAR</span>
-                                <span className="notebook-total__amount">
-                                    S/ {formatCurrency(summary.finalAmount)}
-                                </span>
-                            </div>
+                    {/* Selection bar */}
+                    {selection && (
+                        <div className="notebook-selection">
+                            <span className="notebook-selection__count">
+                                {selectedEntryIds.size === 0
+                                    ? 'Toca pesos o subtotales para seleccionar'
+                                    : `${selectedEntryIds.size} seleccionados`}
+                            </span>
+                            <button
+                                type="button"
+                                className="notebook-selection__btn notebook-selection__btn--primary"
+                                onClick={() => setIsMoveOpen(true)}
+                                disabled={selectedEntryIds.size === 0}
+                            >
+                                ↪️ Mover
+                            </button>
+                            <button
+                                type="button"
+                                className="notebook-selection__btn"
+                                onClick={() => setSelection(null)}
+                            >
+                                Cancelar
+                            </button>
                         </div>
-                    </footer>
+                    )}
+                    <NotebookSheet
+                        notebookData={notebookData}
+                        summary={summary}
+                        selectedEntryIds={selectedEntryIds}
+                        onToggleEntries={selection ? handleToggleEntries : undefined}
+                    />
                 </>
             )}
-        </div>
-    );
-}
 
-/**
- * Individual column component (one batch = one column)
- */
-interface NotebookColumnComponentProps {
-    column: NotebookColumn;
-}
-
-function NotebookColumnComponent({ column }: NotebookColumnComponentProps) {
-    const columnClasses = [
-        'notebook-column',
-        column.isFirstInCategory && 'notebook-column--category-start',
-        !column.isClosed && 'notebook-column--open',
-    ].filter(Boolean).join(' ');
+            <ExportModal
+                isOpen={isExportOpen}
+                onClose={() => setIsExportOpen(false)}
+                onExport={handleExport}
+                entityName={(isArchived ? archivedEntity?.name : activeEntity?.name) || 'Sin selección'}
+                entityCount={isArchived ? archivedEntities.length : entities.length}
+            />
 
-    return (
-        <div className="notebook-category-group">
-            {/* Category header - only visible on first column of each category */}
-            <div
-                className={`notebook-category-header ${!column.isFirstInCategory ? 'notebook-category-header--empty' : ''}`}
-                style={column.isFirstInCategory ? { borderBottomColor: column.categoryColor } : undefined}
-            >
-                {column.isFirstInCategory ? column.categoryName : '\u00A0'}
-            </div>
-
-            {/* Column with weight cells */}
-            <div className={columnClasses}>
-                <div className="notebook-cells">
-                    {column.weights.map((weight, idx) => (
-                        <div
-                            key={idx}
-                            className={`notebook-cell ${weight === null ? 'notebook-cell--empty' : ''}`}
-                        >
-                            {weight !== null ? weight : '—'}
-                        </div>
-                    ))}
-                </div>
-
-                {/* Subtotal */}
-                <div className={`notebook-subtotal ${!column.isClosed ? 'notebook-subtotal--partial' : ''}`}>
-                    {column.subtotal}
-                </div>
-            </div>
+            <MoveEntriesModal
+                isOpen={isMoveOpen}
+                onClose={() => setIsMoveOpen(false)}
+                onConfirm={handleMoveEntries}
+                entryCount={selectedEntryIds.size}
+                categories={categories}
+                sourceEntityId={activeEntityId}
+            />
         </div>
     );
 }
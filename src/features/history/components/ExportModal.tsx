@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Modal } from '../../../components/ui/Modal';
+import type { ExportFormat } from '../../../services/export';
+import './ExportModal.css';
+
+export type ExportScope = 'entity' | 'all';
+
+interface ExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onExport: (format: ExportFormat, scope: ExportScope) => void;
+    entityName: string;
+    entityCount: number;
+}
+
+/**
+ * ExportModal - Choose scope (one entity / all entities) and spreadsheet format
+ */
+export function ExportModal({ isOpen, onClose, onExport, entityName, entityCount }: ExportModalProps) {
+    const [scope, setScope] = useState<ExportScope>('entity');
+
+    const handleExport = (format: ExportFormat) => {
+        onExport(format, scope);
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose}>
+            <div className="modal-header">
+                <h2 className="modal-title">⬇️ Exportar Cuaderno</h2>
+            </div>
+
+            <div className="modal-body">
+                <div className="export-scope">
+                    <label className={`export-scope__option ${scope === 'entity' ? 'active' : ''}`}>
+                        <input
+                            type="radio"
+                            name="export-scope"
+                            checked={scope === 'entity'}
+                            onChange={() => setScope('entity')}
+                        />
+                        <span>Solo {entityName}</span>
+                    </label>
+                    <label className={`export-scope__option ${scope === 'all' ? 'active' : ''}`}>
+                        <input
+                            type="radio"
+                            name="export-scope"
+                            checked={scope === 'all'}
+                            onChange={() => setScope('all')}
+                        />
+                        <span>Todas las entidades ({entityCount})</span>
+                    </label>
+                </div>
+                <p className="export-hint">
+                    Incluye el cuaderno (5 pesos por columna), totales por categoría y la liquidación.
+                </p>
+            </div>
+
+            <div className="modal-actions">
+                <button
+                    type="button"
+                    className="modal-btn modal-btn--cancel"
+                    onClick={() => handleExport('csv')}
+                >
+                    CSV
+                </button>
+                <button
+                    type="button"
+                    className="modal-btn modal-btn--primary"
+                    onClick={() => handleExport('xlsx')}
+                >
+                    Excel (.xlsx)
+                </button>
+            </div>
+        </Modal>
+    );
+}
+
+export default ExportModal;
@@ -0,0 +1,314 @@
+import type { SettlementSummary } from '../../../types/domain';
+import { QUALITY_GRADE_MARKS } from '../../../types/domain';
+import {
+    formatWeight,
+    formatCurrency,
+    type NotebookColumn,
+    type NotebookData,
+} from '../../../utils/notebookUtils';
+import { formatAdjustmentRate } from '../../../utils/settlementUtils';
+import { useMoneySettings } from '../../../hooks/useMoneySettings';
+import './NotebookLayout.css';
+
+interface NotebookSheetProps {
+    notebookData: NotebookData;
+    summary: SettlementSummary;
+    selectedEntryIds?: ReadonlySet<string>;
+    onToggleEntries?: (entryIds: string[]) => void;   // Enables selection (cell or whole column)
+}
+
+/**
+ * NotebookSheet - Grid of weight columns plus the settlement footer
+ * Shared by the current jornada and archived jornadas in HistoryScreen
+ * With onToggleEntries, tapping a cell selects it and tapping a subtotal
+ * selects the whole column
+ */
+export function NotebookSheet({ notebookData, summary, selectedEntryIds, onToggleEntries }: NotebookSheetProps) {
+    const hasDeductions = summary.tareWeight > 0 || summary.shrinkageWeight > 0;
+    const { settings, formatMoney } = useMoneySettings();
+    const amount = (value: number) => formatCurrency(value, settings.locale);
+
+    return (
+        <>
+            <div className="notebook-body">
+                <div className="notebook-grid">
+                    {notebookData.columns.map((column) => (
+                        <NotebookColumnComponent
+                            key={column.batchId}
+                            column={column}
+                            selectedEntryIds={selectedEntryIds}
+                            onToggleEntries={onToggleEntries}
+                        />
+                    ))}
+                </div>
+            </div>
+
+            {/* 3. SETTLEMENT FOOTER */}
+            <footer className="notebook-footer">
+                <div className="notebook-summary">
+                    {/* Quick Stats */}
+                    <div className="notebook-stats">
+                        {hasDeductions ? (
+                            <>
+                                <div className="notebook-stat">
+                                    <span className="notebook-stat__label">Bruto</span>
+                                    <span className="notebook-stat__value">
+                                        {formatWeight(summary.grossWeight)}
+                                    </span>
+                                </div>
+                                <div className="notebook-stat">
+                                    <span className="notebook-stat__label">Tara</span>
+                                    <span className="notebook-stat__value">
+                                        {formatWeight(summary.tareWeight)}
+                                    </span>
+                                </div>
+                                {summary.shrinkageWeight > 0 && (
+                                    <div className="notebook-stat">
+                                        <span className="notebook-stat__label">Merma</span>
+                                        <span className="notebook-stat__value">
+                                            {formatWeight(summary.shrinkageWeight)}
+                                        </span>
+                                    </div>
+                                )}
+                                <div className="notebook-stat">
+                                    <span className="notebook-stat__label">Neto</span>
+                                    <span className="notebook-stat__value">
+                                        {formatWeight(summary.totalWeight)}
+                                    </span>
+                                </div>
+                            </>
+                        ) : (
+                            <div className="notebook-stat">
+                                <span className="notebook-stat__label">Total Kgs</span>
+                                <span className="notebook-stat__value">
+                                    {formatWeight(summary.totalWeight)}
+                                </span>
+                            </div>
+                        )}
+                        <div className="notebook-stat">
+                            <span className="notebook-stat__label">Categorías</span>
+                            <span className="notebook-stat__value">
+                                {summary.categoryBreakdown.length}
+                            </span>
+                        </div>
+                        <div className="notebook-stat">
+                            <span className="notebook-stat__label">Columnas</span>
+                            <span className="notebook-stat__value">
+                                {notebookData.columns.length}
+                            </span>
+                        </div>
+                        {notebookData.outlierCount > 0 && (
+                            <div className="notebook-stat notebook-stat--warning">
+                                <span className="notebook-stat__label">⚠️ Por revisar</span>
+                                <span className="notebook-stat__value">
+                                    {notebookData.outlierCount}
+                                </span>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Grade subtotals of the categories weighed by grade */}
+                    {notebookData.categoryTotals
+                        .filter((total) => total.gradeTotals.length > 0)
+                        .map((total) => (
+                            <div key={total.categoryId} className="notebook-grade-row">
+                                <span className="notebook-grade-row__category">{total.categoryName}</span>
+                                {total.gradeTotals.map((gradeTotal) => (
+                                    <span key={gradeTotal.grade ?? 'ungraded'} className="notebook-grade-row__item">
+                                        {gradeTotal.grade ? QUALITY_GRADE_MARKS[gradeTotal.grade] : 'S/G'}
+                                        {' '}
+                                        <strong>{formatWeight(gradeTotal.weight)}</strong>
+                                        {` (${gradeTotal.sacks})`}
+                                    </span>
+                                ))}
+                            </div>
+                        ))}
+
+                    {/* Category calculation rows */}
+                    {summary.categoryBreakdown.map((line) => (
+                        <div key={line.priceKey} className="notebook-calc-row">
+                            <div className="notebook-calc-category">
+                                <span
+                                    className="notebook-calc-category__dot"
+                                    style={{ backgroundColor: line.categoryColor || '#3b82f6' }}
+                                />
+                                <span className="notebook-calc-category__name">
+                                    {line.categoryName}
+                                </span>
+                                {/* Net weight = gross - tare - shrinkage */}
+                                {(line.tareWeight > 0 || line.shrinkageWeight > 0) && (
+                                    <span className="notebook-calc-category__detail">
+                                        {formatWeight(line.grossWeight)}
+                                        {line.tareWeight > 0 && ` − ${formatWeight(line.tareWeight)}`}
+                                        {line.shrinkageWeight > 0 && ` − ${formatWeight(line.shrinkageWeight)}`}
+                                    </span>
+                                )}
+                            </div>
+                            <div className="notebook-calc-formula">
+                                <span>{formatWeight(line.totalWeight)}</span>
+                                <span>×</span>
+                                <span>{amount(line.unitPrice)}</span>
+                                <span>=</span>
+                            </div>
+                            <span className="notebook-calc-result">
+                                {amount(line.subtotal)}
+                            </span>
+                        </div>
+                    ))}
+
+                    {/* Freight deduction */}
+                    {summary.freightTotal > 0 && (
+                        <div className="notebook-deduction">
+                            <span className="notebook-deduction__label">
+                                🚚 Flete
+                            </span>
+                            <span className="notebook-deduction__value">
+                                - {amount(summary.freightTotal)}
+                            </span>
+                        </div>
+                    )}
+
+                    {/* Sack value (if any) */}
+                    {summary.sackValue > 0 && (
+                        <div className="notebook-calc-row">
+                            <span className="notebook-deduction__label">
+                                🧺 Sacos
+                            </span>
+                            <span className="notebook-calc-result" style={{ color: 'var(--success-color)' }}>
+                                + {amount(summary.sackValue)}
+                            </span>
+                        </div>
+                    )}
+
+                    {/* Custom adjustment lines */}
+                    {summary.adjustments.filter((line) => line.amount > 0).map((line) => (
+                        <div key={line.id} className="notebook-deduction">
+                            <span className="notebook-deduction__label">
+                                {line.name || 'Ajuste'} ({formatAdjustmentRate(line, summary.currency)})
+                            </span>
+                            <span
+                                className="notebook-deduction__value"
+                                style={line.direction === 'add' ? { color: 'var(--success-color)' } : undefined}
+                            >
+                                {line.direction === 'add' ? '+' : '-'} {amount(line.amount)}
+                            </span>
+                        </div>
+                    ))}
+
+                    {/* Advances deducted from the entity's account */}
+                    {summary.advanceDeduction > 0 && (
+                        <div className="notebook-deduction">
+                            <span className="notebook-deduction__label">
+                                💵 Adelantos
+                            </span>
+                            <span className="notebook-deduction__value">
+                                - {amount(summary.advanceDeduction)}
+                            </span>
+                        </div>
+                    )}
+
+                    {/* Amount to pay rounded to 0.10 / 1.00 */}
+                    {summary.roundingDifference !== 0 && (
+                        <div className="notebook-calc-row">
+                            <span className="notebook-deduction__label">
+                                🪙 Redondeo
+                            </span>
+                            <span className="notebook-calc-result">
+                                {summary.roundingDifference > 0 ? '+' : '-'} {amount(Math.abs(summary.roundingDifference))}
+                            </span>
+                        </div>
+                    )}
+
+                    <div className="notebook-divider--double" />
+
+                    {/* Final total */}
+                    <div className="notebook-total">
+                        <span className="notebook-total__label">A PAGAR</span>
+                        <span className="notebook-total__amount">
+                            {formatMoney(summary.finalAmount, summary.currency)}
+                        </span>
+                    </div>
+                </div>
+            </footer>
+        </>
+    );
+}
+
+/**
+ * Individual column component (one batch = one column)
+ */
+interface NotebookColumnComponentProps {
+    column: NotebookColumn;
+    selectedEntryIds?: ReadonlySet<string>;
+    onToggleEntries?: (entryIds: string[]) => void;
+}
+
+function NotebookColumnComponent({ column, selectedEntryIds, onToggleEntries }: NotebookColumnComponentProps) {
+    const columnClasses = [
+        'notebook-column',
+        column.isFirstInCategory && 'notebook-column--category-start',
+        !column.isClosed && 'notebook-column--open',
+    ].filter(Boolean).join(' ');
+
+    return (
+        <div className="notebook-category-group">
+            {/* Category header - only visible on first column of each category */}
+            <div
+                className={`notebook-category-header ${!column.isFirstInCategory ? 'notebook-category-header--empty' : ''}`}
+                style={column.isFirstInCategory ? { borderBottomColor: column.categoryColor } : undefined}
+            >
+                {column.isFirstInCategory ? column.categoryName : '\u00A0'}
+            </div>
+
+            {/* Column with weight cells */}
+            <div className={columnClasses}>
+                <div className="notebook-cells">
+                    {column.weights.map((weight, idx) => (
+                        idx < column.size ? (
+                            <div
+                                key={idx}
+                                className={[
+                                    'notebook-cell',
+                                    weight === null && 'notebook-cell--empty',
+                                    column.outliers.includes(idx) && 'notebook-cell--outlier',
+                                    onToggleEntries && weight !== null && 'notebook-cell--selectable',
+                                    selectedEntryIds?.has(column.entryIds[idx]) && 'notebook-cell--selected',
+                                ].filter(Boolean).join(' ')}
+                                title={column.outliers.includes(idx) ? 'Peso atípico: revisar' : undefined}
+                                onClick={onToggleEntries && weight !== null
+                                    ? () => onToggleEntries([column.entryIds[idx]])
+                                    : undefined}
+                            >
+                                {weight !== null ? weight : '—'}
+                                {column.grades[idx] && (
+                                    <span className="notebook-cell__grade">
+                                        {QUALITY_GRADE_MARKS[column.grades[idx]]}
+                                    </span>
+                                )}
+                            </div>
+                        ) : (
+                            // Padding below a smaller batch
+                            <div key={idx} className="notebook-cell notebook-cell--unused">
+                                {'\u00A0'}
+                            </div>
+                        )
+                    ))}
+                </div>
+
+                {/* Subtotal */}
+                <div
+                    className={[
+                        'notebook-subtotal',
+                        !column.isClosed && 'notebook-subtotal--partial',
+                        onToggleEntries && 'notebook-subtotal--selectable',
+                    ].filter(Boolean).join(' ')}
+                    onClick={onToggleEntries ? () => onToggleEntries(column.entryIds) : undefined}
+                >
+                    {column.subtotal}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default NotebookSheet;
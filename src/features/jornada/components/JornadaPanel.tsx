@@ -0,0 +1,76 @@
+import { useState, useCallback } from 'react';
+import { useJornada } from '../hooks/useJornada';
+import { parseLocalDate } from '../../../services/jornada';
+import { reloadWhenSaved } from '../../../services/storage';
+import { getFormattedDate, formatWeight } from '../../../utils/notebookUtils';
+import { ConfirmModal } from '../../../components/ui/ConfirmModal';
+import './JornadaPanel.css';
+
+/**
+ * JornadaPanel - Current jornada info and the action to close it
+ * Closing archives the day's weighing and starts an empty ledger
+ */
+export function JornadaPanel() {
+    const { jornada, archives, close } = useJornada();
+    const [isClosing, setIsClosing] = useState(false);
+
+    const openedTime = new Date(jornada.openedAt).toLocaleTimeString('es-PE', {
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+
+    const handleClose = useCallback(() => {
+        close();
+        // Reload the page (once saved) so every screen drops the archived data
+        void reloadWhenSaved();
+    }, [close]);
+
+    return (
+        <div className="jornada-panel">
+            <div className="settings-info-grid">
+                <div className="settings-info-item">
+                    <span className="settings-info-label">Jornada abierta:</span>
+                    <span className="settings-info-value">
+                        {getFormattedDate(parseLocalDate(jornada.date))} · {openedTime}
+                    </span>
+                </div>
+                <div className="settings-info-item">
+                    <span className="settings-info-label">Jornadas archivadas:</span>
+                    <span className="settings-info-value">{archives.length}</span>
+                </div>
+            </div>
+
+            {archives.length > 0 && (
+                <ul className="jornada-panel__list">
+                    {archives.slice(0, 5).map((archive) => (
+                        <li key={archive.id} className="jornada-panel__item">
+                            <span>{getFormattedDate(parseLocalDate(archive.date))}</span>
+                            <span>{archive.entryCount} sacos</span>
+                            <span>{formatWeight(archive.totalWeight)} kg</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <button
+                type="button"
+                className="jornada-panel__btn"
+                onClick={() => setIsClosing(true)}
+            >
+                🔒 Cerrar Jornada
+            </button>
+
+            <ConfirmModal
+                isOpen={isClosing}
+                onClose={() => setIsClosing(false)}
+                onConfirm={handleClose}
+                title="🔒 ¿Cerrar la jornada?"
+                message="Los pesajes y liquidaciones de esta jornada se archivarán y podrás consultarlos en Registros. Se empezará una jornada nueva sin pesos."
+                variant="info"
+                confirmText="Cerrar Jornada"
+            />
+        </div>
+    );
+}
+
+export default JornadaPanel;
@@ -0,0 +1,42 @@
+import { useState, useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+    getCurrentJornada,
+    subscribeCurrentJornada,
+    closeCurrentJornada,
+    listArchivedJornadas,
+} from '../../../services/jornada';
+import { ALL_STORAGE_KEYS, subscribeRemoteChanges } from '../../../services/storage';
+import type { ArchivedJornadaInfo } from '../../../types/domain';
+
+/**
+ * Custom hook for the current jornada and the archive of closed ones
+ */
+export function useJornada() {
+    const jornada = useSyncExternalStore(subscribeCurrentJornada, getCurrentJornada, getCurrentJornada);
+    const [archives, setArchives] = useState<ArchivedJornadaInfo[]>(listArchivedJornadas);
+
+    // Jornadas closed on another device
+    useEffect(() => {
+        return subscribeRemoteChanges((keys) => {
+            if (keys.includes(ALL_STORAGE_KEYS.JORNADA_ARCHIVE_INDEX)) setArchives(listArchivedJornadas());
+        });
+    }, []);
+
+    /**
+     * Close the current jornada and archive it
+     * @returns The archive record, or null if there was nothing to archive
+     */
+    const close = useCallback((): ArchivedJornadaInfo | null => {
+        const archived = closeCurrentJornada();
+        setArchives(listArchivedJornadas());
+        return archived;
+    }, []);
+
+    return {
+        jornada,
+        archives,
+        close,
+    };
+}
+
+export default useJornada;
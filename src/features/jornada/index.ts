@@ -0,0 +1,5 @@
+// Feature: Jornada Module
+// Dated work sessions that are closed into an immutable archive
+
+export { JornadaPanel } from './components/JornadaPanel';
+export { useJornada } from './hooks/useJornada';
@@ -0,0 +1,259 @@
+import { useState, useCallback } from 'react';
+import type { PriceListVersion, QualityGrade } from '../../../types/domain';
+import { CURRENCY_SYMBOLS, QUALITY_GRADES, QUALITY_GRADE_LABELS } from '../../../types/domain';
+import { useSession } from '../../../context/SessionContext';
+import { useWeighingBatch } from '../../weighing/hooks/useWeighingBatch';
+import { usePriceList } from '../hooks/usePriceList';
+import { useMoneySettings } from '../../../hooks/useMoneySettings';
+import type { PriceListDraft } from '../../../services/prices';
+import { getPriceKey } from '../../../utils/settlementUtils';
+import './PriceListPanel.css';
+
+/** Scope value for the default prices (no entity) */
+const DEFAULT_SCOPE = '';
+
+/** Rows of each category: its own price, then one per grade */
+const PRICE_ROW_GRADES: (QualityGrade | undefined)[] = [undefined, ...QUALITY_GRADES];
+
+function formatVersionDate(time: number): string {
+    return new Date(time).toLocaleString('es-PE', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+}
+
+/**
+ * Value for a datetime-local input (local time, minutes precision)
+ */
+function toDateTimeInput(time: number): string {
+    const date = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Copy of a price map with one price set (null clears it)
+ */
+function withPrice(prices: Record<string, number>, priceKey: string, price: number | null): Record<string, number> {
+    const updated = { ...prices };
+    if (price === null) {
+        delete updated[priceKey];
+    } else {
+        updated[priceKey] = price;
+    }
+    return updated;
+}
+
+/**
+ * PriceListPanel - Edit the price list and browse its dated versions
+ * Prices are edited as a draft (default per category and grade, or overrides
+ * for one entity) and saved as a new version effective from the chosen time
+ */
+export function PriceListPanel() {
+    const { entities, activeEntityId, defaultBatchSize } = useSession();
+    const { categories } = useWeighingBatch(activeEntityId, defaultBatchSize);
+    const { history, current, save } = usePriceList();
+    const { settings } = useMoneySettings();
+
+    // null = not editing
+    const [draft, setDraft] = useState<PriceListDraft | null>(null);
+    const [scope, setScope] = useState(DEFAULT_SCOPE);
+
+    const handleStartDraft = useCallback(() => {
+        setDraft({
+            effectiveFrom: Date.now(),
+            prices: { ...current?.prices },
+            entityPrices: { ...current?.entityPrices },
+        });
+        setScope(DEFAULT_SCOPE);
+    }, [current]);
+
+    const handlePriceChange = useCallback((priceKey: string, input: string) => {
+        const parsed = parseFloat(input);
+        const price = input === '' || isNaN(parsed) ? null : Math.max(0, parsed);
+
+        setDraft((prev) => {
+            if (!prev) return prev;
+            if (scope === DEFAULT_SCOPE) {
+                return { ...prev, prices: withPrice(prev.prices, priceKey, price) };
+            }
+            return {
+                ...prev,
+                entityPrices: {
+                    ...prev.entityPrices,
+                    [scope]: withPrice(prev.entityPrices[scope] ?? {}, priceKey, price),
+                },
+            };
+        });
+    }, [scope]);
+
+    const handleSave = useCallback(() => {
+        if (!draft) return;
+        // Entities left without overrides are dropped
+        const entityPrices = Object.fromEntries(
+            Object.entries(draft.entityPrices).filter(([, prices]) => Object.keys(prices).length > 0)
+        );
+        save({ ...draft, entityPrices, ...(draft.note?.trim() && { note: draft.note.trim() }) });
+        setDraft(null);
+    }, [draft, save]);
+
+    const versionSummary = (version: PriceListVersion): string => {
+        const overrides = Object.keys(version.entityPrices).length;
+        const prices = `${Object.keys(version.prices).length} precios`;
+        return overrides > 0 ? `${prices} · ${overrides} con precio propio` : prices;
+    };
+
+    // Versions after the one in effect have not started yet
+    const currentIndex = history.findIndex((version) => version.id === current?.id);
+    const versionStatus = (index: number): string | null => {
+        if (index === currentIndex) return 'vigente';
+        return index > currentIndex ? 'programada' : null;
+    };
+    const newestFirst = history.map((version, index) => ({ version, status: versionStatus(index) })).reverse();
+
+    return (
+        <div className="price-list-panel">
+            <div className="settings-info-grid">
+                <div className="settings-info-item">
+                    <span className="settings-info-label">Lista vigente:</span>
+                    <span className="settings-info-value">
+                        {current ? `desde ${formatVersionDate(current.effectiveFrom)}` : 'Sin precios'}
+                    </span>
+                </div>
+            </div>
+
+            {draft ? (
+                <div className="price-list-panel__editor">
+                    <label className="price-list-panel__field">
+                        <span>Precios para</span>
+                        <select
+                            className="price-list-panel__input"
+                            value={scope}
+                            onChange={(e) => setScope(e.target.value)}
+                        >
+                            <option value={DEFAULT_SCOPE}>Todos (precio general)</option>
+                            {entities.map((entity) => (
+                                <option key={entity.id} value={entity.id}>{entity.name}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <ul className="price-list-panel__rows">
+                        {categories.flatMap((category) => PRICE_ROW_GRADES.map((grade) => {
+                            const priceKey = getPriceKey(category.id, grade);
+                            const scopePrices = scope === DEFAULT_SCOPE ? draft.prices : draft.entityPrices[scope];
+                            const value = scopePrices?.[priceKey];
+                            // What applies when left empty: the general price, then the category's
+                            const fallback = (scope !== DEFAULT_SCOPE ? draft.prices[priceKey] : undefined)
+                                ?? (grade ? scopePrices?.[category.id] ?? draft.prices[category.id] : undefined);
+
+                            return (
+                                <li
+                                    key={priceKey}
+                                    className={`price-list-panel__row ${grade ? 'price-list-panel__row--grade' : ''}`}
+                                >
+                                    <span
+                                        className="price-list-panel__dot"
+                                        style={{ backgroundColor: category.color }}
+                                    />
+                                    <span className="price-list-panel__name">
+                                        {grade ? QUALITY_GRADE_LABELS[grade] : category.name}
+                                    </span>
+                                    <span className="price-list-panel__currency">{CURRENCY_SYMBOLS[settings.currency]}</span>
+                                    <input
+                                        type="number"
+                                        step="0.01"
+                                        min="0"
+                                        inputMode="decimal"
+                                        className="price-list-panel__input price-list-panel__input--price"
+                                        value={value ?? ''}
+                                        onChange={(e) => handlePriceChange(priceKey, e.target.value)}
+                                        placeholder={fallback !== undefined ? fallback.toFixed(2) : '0.00'}
+                                    />
+                                </li>
+                            );
+                        }))}
+                    </ul>
+                    <p className="price-list-panel__hint">
+                        {scope !== DEFAULT_SCOPE
+                            ? 'Vacío = usa el precio general; un grado sin precio usa el de su categoría.'
+                            : 'Un grado sin precio usa el de su categoría.'}
+                    </p>
+
+                    <label className="price-list-panel__field">
+                        <span>Vigente desde</span>
+                        <input
+                            type="datetime-local"
+                            className="price-list-panel__input"
+                            value={toDateTimeInput(draft.effectiveFrom)}
+                            onChange={(e) => {
+                                const time = new Date(e.target.value).getTime();
+                                if (!isNaN(time)) setDraft({ ...draft, effectiveFrom: time });
+                            }}
+                        />
+                    </label>
+                    <label className="price-list-panel__field">
+                        <span>Nota</span>
+                        <input
+                            type="text"
+                            className="price-list-panel__input"
+                            value={draft.note ?? ''}
+                            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                            placeholder="Ej. Subida de precio de la tarde"
+                        />
+                    </label>
+
+                    <div className="price-list-panel__actions">
+                        <button
+                            type="button"
+                            className="price-list-panel__btn price-list-panel__btn--secondary"
+                            onClick={() => setDraft(null)}
+                        >
+                            Cancelar
+                        </button>
+                        <button
+                            type="button"
+                            className="price-list-panel__btn"
+                            onClick={handleSave}
+                        >
+                            💾 Guardar versión
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <button
+                    type="button"
+                    className="price-list-panel__btn"
+                    onClick={handleStartDraft}
+                >
+                    ✏️ {current ? 'Cambiar precios' : 'Crear lista de precios'}
+                </button>
+            )}
+
+            {history.length > 0 && (
+                <ul className="price-list-panel__history">
+                    {newestFirst.map(({ version, status }) => (
+                        <li key={version.id} className="price-list-panel__version">
+                            <span>
+                                {formatVersionDate(version.effectiveFrom)}
+                                {status && (
+                                    <span className={`price-list-panel__badge price-list-panel__badge--${status}`}>
+                                        {status}
+                                    </span>
+                                )}
+                            </span>
+                            <span>{versionSummary(version)}</span>
+                            {version.note && <span className="price-list-panel__note">{version.note}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+export default PriceListPanel;
@@ -0,0 +1,33 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { PriceListVersion } from '../../../types/domain';
+import {
+    getPriceHistory,
+    getPriceVersionAt,
+    savePriceVersion,
+    subscribePriceHistory,
+    type PriceListDraft,
+} from '../../../services/prices';
+
+/**
+ * Custom hook for the price list: every dated version and the one in effect
+ */
+export function usePriceList() {
+    const history = useSyncExternalStore(subscribePriceHistory, getPriceHistory, getPriceHistory);
+
+    const current = useMemo(() => (history.length > 0 ? getPriceVersionAt() : null), [history]);
+
+    /**
+     * Save the edited prices as a new version
+     */
+    const save = useCallback((draft: PriceListDraft): PriceListVersion => {
+        return savePriceVersion(draft);
+    }, []);
+
+    return {
+        history,
+        current,
+        save,
+    };
+}
+
+export default usePriceList;
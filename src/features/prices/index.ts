@@ -0,0 +1,5 @@
+// Feature: Price List Module
+// Default prices per category, per-entity overrides and their dated history
+
+export { PriceListPanel } from './components/PriceListPanel';
+export { usePriceList } from './hooks/usePriceList';
@@ -0,0 +1,30 @@
+import { useSession } from '../../../context/SessionContext';
+import { BATCH_SIZE_OPTIONS } from '../../../types/domain';
+import './BatchSizeSetting.css';
+
+/**
+ * BatchSizeSetting - Default sacks per batch for the session
+ * Categories with their own size (chosen on the weighing screen) ignore it;
+ * batches already started keep the size they were opened with
+ */
+export function BatchSizeSetting() {
+    const { defaultBatchSize, setDefaultBatchSize } = useSession();
+
+    return (
+        <div className="batch-size-setting">
+            <label className="batch-size-setting__label" htmlFor="batch-size-setting">
+                Sacos por lote (predeterminado)
+            </label>
+            <select
+                id="batch-size-setting"
+                className="batch-size-setting__select"
+                value={defaultBatchSize}
+                onChange={(e) => setDefaultBatchSize(Number(e.target.value))}
+            >
+                {BATCH_SIZE_OPTIONS.map((size) => (
+                    <option key={size} value={size}>{size} sacos</option>
+                ))}
+            </select>
+        </div>
+    );
+}
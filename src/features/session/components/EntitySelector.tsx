@@ -1,7 +1,9 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useSyncExternalStore } from 'react';
 import { useSession } from '../../../context/SessionContext';
 import type { OperationMode } from '../../../types/domain';
-import { DEFAULT_ENTITY, WAREHOUSE_ENTITY } from '../../../types/domain';
+import { DEFAULT_ENTITY, SETTLEMENT_STATUS_LABELS, WAREHOUSE_ENTITY } from '../../../types/domain';
+import { getSettlements, subscribeSettlements } from '../../../services/settlements';
+import { getSettlementStatus } from '../../../utils/settlementUtils';
 import { ConfirmModal } from '../../../components/ui/ConfirmModal';
 import { InputModal } from '../../../components/ui/InputModal';
 import './EntitySelector.css';
@@ -15,6 +17,7 @@ interface EntitySelectorProps {
  * EntitySelector - Compact, collapsible header for entity/mode management
  * Mobile-first design: always shows current entity, expands on tap for full list
  * Supports renaming and deleting entities
+ * Shows each entity's settlement status (draft, finalized, partially paid, paid)
  */
 export function EntitySelector({ getEntityStats, onEntityDeleted }: EntitySelectorProps) {
     const {
@@ -29,6 +32,8 @@ export function EntitySelector({ getEntityStats, onEntityDeleted }: EntitySelect
         setActiveEntity,
     } = useSession();
 
+    const settlements = useSyncExternalStore(subscribeSettlements, getSettlements, getSettlements);
+
     const [isExpanded, setIsExpanded] = useState(false);
     const [isAdding, setIsAdding] = useState(false);
     const [newEntityName, setNewEntityName] = useState('');
@@ -179,6 +184,7 @@ export function EntitySelector({ getEntityStats, onEntityDeleted }: EntitySelect
     };
 
     const activeStats = activeEntity ? getEntityStats(activeEntity.id) : { entries: 0 };
+    const activeStatus = getSettlementStatus(settlements[activeEntityId]);
 
     // Check if active entity can be edited/deleted
     const canEditActiveEntity = activeEntity &&
@@ -212,6 +218,11 @@ export function EntitySelector({ getEntityStats, onEntityDeleted }: EntitySelect
                             {activeStats.entries}
                         </span>
                     )}
+                    {activeStatus !== 'draft' && (
+                        <span className={`entity-status entity-status--${activeStatus}`}>
+                            {SETTLEMENT_STATUS_LABELS[activeStatus]}
+                        </span>
+                    )}
                 </div>
                 <span className={`entity-selector__arrow ${isExpanded ? 'up' : 'down'}`}>
                     ▼
@@ -269,6 +280,7 @@ export function EntitySelector({ getEntityStats, onEntityDeleted }: EntitySelect
                             {entities.map((entity) => {
                                 const isActive = entity.id === activeEntityId;
                                 const stats = getEntityStats(entity.id);
+                                const status = getSettlementStatus(settlements[entity.id]);
 
                                 return (
                                     <button
@@ -284,6 +296,11 @@ export function EntitySelector({ getEntityStats, onEntityDeleted }: EntitySelect
                                                 {stats.entries}
                                             </span>
                                         )}
+                                        {(stats.entries > 0 || status !== 'draft') && (
+                                            <span className={`entity-status entity-status--${status}`}>
+                                                {SETTLEMENT_STATUS_LABELS[status]}
+                                            </span>
+                                        )}
                                     </button>
                                 );
                             })}
@@ -1,4 +1,5 @@
 // Session Feature Module Exports
 export { EntitySelector } from './components/EntitySelector';
 export { EntitySwitcher } from './components/EntitySwitcher';
+export { BatchSizeSetting } from './components/BatchSizeSetting';
 export { SessionProvider, useSession } from '../../context/SessionContext';
@@ -1,19 +1,39 @@
+import { useCallback } from 'react';
+import type { CurrencyCode, PaymentMethod, RoundingPolicy, WeightDeduction } from '../../types/domain';
+import {
+    CURRENCY_LABELS,
+    CURRENCY_SYMBOLS,
+    ROUNDING_POLICY_LABELS,
+    SETTLEMENT_STATUS_LABELS,
+} from '../../types/domain';
 import { useSession } from '../../context/SessionContext';
 import { EntitySwitcher } from '../session/components/EntitySwitcher';
 import { useWeighingBatch } from '../weighing/hooks/useWeighingBatch';
 import { useSettlement } from './hooks/useSettlement';
 import { SettlementLineItem } from './components/SettlementLineItem';
+import { AdjustmentLineItem } from './components/AdjustmentLineItem';
+import { DeductionPanel } from './components/DeductionPanel';
+import { PaymentPanel } from './components/PaymentPanel';
+import { SettlementReceipt } from './components/SettlementReceipt';
+import { usePrinter } from '../../hooks/usePrinter';
+import { useMoneySettings } from '../../hooks/useMoneySettings';
+import { countOutliers } from '../../utils/outlierUtils';
+import { useToast } from '../../hooks/useToast';
+import { Toast } from '../../components/Toast';
 import './SettlementScreen.css';
 
 /**
  * SettlementScreen - Main settlement/liquidation screen
  * Calculates final payment based on weights, prices, freight, and sack values
+ * Once finalized the amounts are frozen and payments can be registered
  */
 export function SettlementScreen() {
-    const { activeEntityId, activeEntity } = useSession();
+    const { activeEntityId, activeEntity, mode, setEntityDeduction } = useSession();
+    const entityName = activeEntity?.name || 'Sin selección';
+    const entityLabel = mode === 'DESCARGA' ? 'Dueño/Agricultor' : 'Comprador';
 
     // Get weighing data (categories and batches)
-    const { categories, batchesByKey } = useWeighingBatch(activeEntityId);
+    const { categories, batchesByKey, setCategoryDeduction } = useWeighingBatch(activeEntityId);
 
     // Settlement calculations
     const {
@@ -22,14 +42,81 @@ export function SettlementScreen() {
         setPrice,
         setFreightRate,
         setSackValue,
+        setCurrency,
+        setRounding,
+        addAdjustment,
+        updateAdjustment,
+        removeAdjustment,
+        applyCurrentPrices,
+        finalizeSettlement,
+        reopenSettlement,
+        addPayment,
+        removePayment,
+        status,
+        isFinalized,
+        paidAmount,
+        pendingAmount,
+        usedPriceVersion,
+        isPriceListOutdated,
         hasData,
     } = useSettlement({
         entityId: activeEntityId,
-        entityName: activeEntity?.name || 'Sin selección',
+        entityName,
+        entity: activeEntity,
         categories,
         batchesByKey,
     });
 
+    // Amounts in the settlement's currency, written in the configured locale
+    const { formatMoney } = useMoneySettings();
+    const money = (amount: number) => formatMoney(amount, summary.currency);
+
+    // Accepted outliers should be reviewed before paying
+    const outlierCount = countOutliers(batchesByKey, activeEntityId);
+
+    // Deductions are only edited for categories being settled
+    const settledCategories = categories.filter(category =>
+        summary.categoryBreakdown.some(line => line.categoryId === category.id)
+    );
+
+    const handleEntityDeductionChange = useCallback((field: keyof WeightDeduction, value: number | null) => {
+        setEntityDeduction(activeEntityId, field, value);
+    }, [setEntityDeduction, activeEntityId]);
+
+    // Thermal printer ticket
+    const printer = usePrinter();
+    const { toast, showToast, hideToast } = useToast();
+
+    const handlePrintTicket = useCallback(async () => {
+        try {
+            await printer.printSettlement(summary, { entityName, entityLabel });
+            showToast('🧾 Ticket enviado a la impresora', 'success');
+        } catch {
+            showToast('No se pudo imprimir el ticket', 'error');
+        }
+    }, [printer, summary, entityName, entityLabel, showToast]);
+
+    // Finalize (freezes the amounts and locks the weights) or back to draft
+    const handleFinalizeToggle = useCallback(() => {
+        if (!isFinalized) {
+            if (finalizeSettlement()) {
+                showToast('🔒 Liquidación finalizada: los pesos quedan bloqueados', 'success');
+            }
+        } else if (reopenSettlement()) {
+            showToast('🔓 Liquidación reabierta', 'info');
+        } else {
+            showToast('Quite los pagos registrados antes de reabrir', 'error');
+        }
+    }, [isFinalized, finalizeSettlement, reopenSettlement, showToast]);
+
+    const handleAddPayment = useCallback((method: PaymentMethod, amount: number, reference?: string): boolean => {
+        const added = addPayment(method, amount, reference);
+        if (added) {
+            showToast(`💳 Pago de ${formatMoney(amount, summary.currency)} registrado`, 'success');
+        }
+        return added;
+    }, [addPayment, formatMoney, summary.currency, showToast]);
+
     // Format current date
     const currentDate = new Date().toLocaleDateString('es-PE', {
         weekday: 'long',
@@ -38,19 +125,44 @@ export function SettlementScreen() {
         day: 'numeric',
     });
 
+    // Price list version the prices were filled from
+    const priceListLabel = usedPriceVersion
+        ? `Precios de la lista del ${new Date(usedPriceVersion.effectiveFrom).toLocaleString('es-PE', {
+            day: '2-digit',
+            month: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+        })}`
+        : 'Precios escritos a mano';
+
     // Build formula string for display
     const formulaString = hasData
-        ? `${summary.grossTotal.toFixed(0)} - ${summary.freightTotal.toFixed(0)} + ${summary.sackValue.toFixed(0)}`
+        ? `${summary.grossTotal.toFixed(0)} - ${summary.freightTotal.toFixed(0)} + ${summary.sackValue.toFixed(0)}` +
+            (summary.adjustmentsTotal !== 0
+                ? ` ${summary.adjustmentsTotal > 0 ? '+' : '-'} ${Math.abs(summary.adjustmentsTotal).toFixed(0)}`
+                : '') +
+            (summary.advanceDeduction > 0 ? ` - ${summary.advanceDeduction.toFixed(0)}` : '') +
+            (summary.roundingDifference !== 0
+                ? ` ${summary.roundingDifference > 0 ? '+' : '-'} ${Math.abs(summary.roundingDifference).toFixed(2)}`
+                : '')
         : '';
 
     return (
         <div className="settlement-screen">
+            {/* Toast Notification */}
+            <Toast {...toast} onClose={hideToast} />
+
             {/* Header */}
             <header className="settlement-header">
                 <h1 className="settlement-header__title">
                     💰 Liquidando a: <EntitySwitcher />
                 </h1>
                 <p className="settlement-header__date">{currentDate}</p>
+                {hasData && (
+                    <span className={`settlement-status settlement-status--${status}`}>
+                        {SETTLEMENT_STATUS_LABELS[status]}
+                    </span>
+                )}
             </header>
 
             {/* Main Content */}
@@ -63,6 +175,14 @@ export function SettlementScreen() {
                     </div>
                 ) : (
                     <>
+                        {/* Outliers pending review */}
+                        {outlierCount > 0 && (
+                            <div className="settlement-warning" role="alert">
+                                ⚠️ {outlierCount === 1 ? 'Hay 1 peso atípico' : `Hay ${outlierCount} pesos atípicos`} sin
+                                revisar. Revísalos en Pesaje antes de liquidar.
+                            </div>
+                        )}
+
                         {/* Income Section - Category Table */}
                         <section className="settlement-section">
                             <h2 className="settlement-section__title">
@@ -70,10 +190,50 @@ export function SettlementScreen() {
                                 Ingresos por Categoría
                             </h2>
 
+                            {/* Price list version the prices came from */}
+                            <div className="settlement-price-list">
+                                <span>🏷️ {priceListLabel}</span>
+                                {isPriceListOutdated && !isFinalized && (
+                                    <button
+                                        type="button"
+                                        className="settlement-price-list__btn"
+                                        onClick={applyCurrentPrices}
+                                    >
+                                        Usar lista vigente
+                                    </button>
+                                )}
+                            </div>
+
+                            {/* Currency and rounding of this settlement */}
+                            <div className="settlement-money">
+                                <select
+                                    value={summary.currency}
+                                    onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+                                    className="settlement-money__select"
+                                    aria-label="Moneda"
+                                    disabled={isFinalized}
+                                >
+                                    {(Object.keys(CURRENCY_LABELS) as CurrencyCode[]).map((code) => (
+                                        <option key={code} value={code}>{CURRENCY_LABELS[code]}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={settlementData.rounding ?? 'half-up'}
+                                    onChange={(e) => setRounding(e.target.value as RoundingPolicy)}
+                                    className="settlement-money__select"
+                                    aria-label="Redondeo"
+                                    disabled={isFinalized}
+                                >
+                                    {(Object.keys(ROUNDING_POLICY_LABELS) as RoundingPolicy[]).map((policy) => (
+                                        <option key={policy} value={policy}>{ROUNDING_POLICY_LABELS[policy]}</option>
+                                    ))}
+                                </select>
+                            </div>
+
                             {/* Table Header */}
                             <div className="settlement-table-header">
                                 <span>Categoría</span>
-                                <span>Peso</span>
+                                <span>Peso neto</span>
                                 <span>Precio/kg</span>
                                 <span>Subtotal</span>
                             </div>
@@ -82,9 +242,11 @@ export function SettlementScreen() {
                             <div className="settlement-lines">
                                 {summary.categoryBreakdown.map((line) => (
                                     <SettlementLineItem
-                                        key={line.categoryId}
+                                        key={line.priceKey}
                                         line={line}
+                                        currency={summary.currency}
                                         onPriceChange={setPrice}
+                                        disabled={isFinalized}
                                     />
                                 ))}
                             </div>
@@ -93,11 +255,27 @@ export function SettlementScreen() {
                             <div className="settlement-subtotal">
                                 <span>Subtotal Bruto</span>
                                 <span className="settlement-subtotal__value">
-                                    S/ {summary.grossTotal.toFixed(2)}
+                                    {money(summary.grossTotal)}
                                 </span>
                             </div>
                         </section>
 
+                        {/* Weight Deductions Section (settings of the categories and the entity) */}
+                        {!isFinalized && (
+                            <section className="settlement-section">
+                                <h2 className="settlement-section__title">
+                                    <span className="settlement-section__icon">⚖️</span>
+                                    Tara y Merma
+                                </h2>
+                                <DeductionPanel
+                                    categories={settledCategories}
+                                    entity={activeEntity}
+                                    onCategoryChange={setCategoryDeduction}
+                                    onEntityChange={handleEntityDeductionChange}
+                                />
+                            </section>
+                        )}
+
                         {/* Deductions Section */}
                         <section className="settlement-section settlement-section--deductions">
                             <h2 className="settlement-section__title">
@@ -110,7 +288,7 @@ export function SettlementScreen() {
                                 <div className="settlement-adjustment__info">
                                     <span className="settlement-adjustment__label">🚚 Flete</span>
                                     <span className="settlement-adjustment__detail">
-                                        {summary.totalWeight.toFixed(0)} kg ×
+                                        {summary.grossWeight.toFixed(0)} kg ×
                                         <input
                                             type="number"
                                             step="0.01"
@@ -119,12 +297,13 @@ export function SettlementScreen() {
                                             onChange={(e) => setFreightRate(parseFloat(e.target.value) || 0)}
                                             placeholder="0.00"
                                             className="settlement-adjustment__input"
+                                            disabled={isFinalized}
                                         />
                                         /kg
                                     </span>
                                 </div>
                                 <span className="settlement-adjustment__value settlement-adjustment__value--negative">
-                                    - S/ {summary.freightTotal.toFixed(2)}
+                                    - {money(summary.freightTotal)}
                                 </span>
                             </div>
 
@@ -134,7 +313,7 @@ export function SettlementScreen() {
                                     <span className="settlement-adjustment__label">🧺 Pago por Sacos</span>
                                 </div>
                                 <div className="settlement-adjustment__input-group">
-                                    <span className="settlement-adjustment__currency">+ S/</span>
+                                    <span className="settlement-adjustment__currency">+ {CURRENCY_SYMBOLS[summary.currency]}</span>
                                     <input
                                         type="number"
                                         step="0.01"
@@ -143,10 +322,80 @@ export function SettlementScreen() {
                                         onChange={(e) => setSackValue(parseFloat(e.target.value) || 0)}
                                         placeholder="0.00"
                                         className="settlement-adjustment__input settlement-adjustment__input--wide"
+                                        disabled={isFinalized}
                                     />
                                 </div>
                             </div>
+
+                            {/* Custom adjustment lines */}
+                            {summary.adjustments.map((line) => (
+                                <AdjustmentLineItem
+                                    key={line.id}
+                                    line={line}
+                                    currency={summary.currency}
+                                    onChange={updateAdjustment}
+                                    onRemove={removeAdjustment}
+                                    disabled={isFinalized}
+                                />
+                            ))}
+
+                            {/* Advances Row (from the entity's account) */}
+                            {summary.advanceDebt > 0 && (
+                                <div className="settlement-adjustment settlement-adjustment--deduction">
+                                    <div className="settlement-adjustment__info">
+                                        <span className="settlement-adjustment__label">💵 Adelantos</span>
+                                        <span className="settlement-adjustment__detail">
+                                            Debe {money(summary.advanceDebt)}
+                                            {summary.advanceBalance > 0 &&
+                                                ` · pasa a la siguiente ${money(summary.advanceBalance)}`}
+                                        </span>
+                                    </div>
+                                    <span className="settlement-adjustment__value settlement-adjustment__value--negative">
+                                        - {money(summary.advanceDeduction)}
+                                    </span>
+                                </div>
+                            )}
+
+                            {/* Rounding of the amount to pay (to 0.10 / 1.00) */}
+                            {summary.roundingDifference !== 0 && (
+                                <div className="settlement-adjustment">
+                                    <div className="settlement-adjustment__info">
+                                        <span className="settlement-adjustment__label">🪙 Redondeo</span>
+                                    </div>
+                                    <span className="settlement-adjustment__value">
+                                        {summary.roundingDifference > 0 ? '+' : '-'}{' '}
+                                        {money(Math.abs(summary.roundingDifference))}
+                                    </span>
+                                </div>
+                            )}
+
+                            {!isFinalized && (
+                                <button
+                                    type="button"
+                                    className="settlement-adjustment-add"
+                                    onClick={addAdjustment}
+                                >
+                                    ➕ Agregar ajuste (estiba, comisión, bono...)
+                                </button>
+                            )}
                         </section>
+
+                        {/* Payments Section (finalized settlement) */}
+                        {isFinalized && (
+                            <section className="settlement-section">
+                                <h2 className="settlement-section__title">
+                                    <span className="settlement-section__icon">💳</span>
+                                    Pagos
+                                </h2>
+                                <PaymentPanel
+                                    payments={settlementData.payments ?? []}
+                                    pendingAmount={pendingAmount}
+                                    currency={summary.currency}
+                                    onAdd={handleAddPayment}
+                                    onRemove={removePayment}
+                                />
+                            </section>
+                        )}
                     </>
                 )}
             </div>
@@ -163,16 +412,51 @@ export function SettlementScreen() {
                     <div className="settlement-total">
                         <span className="settlement-total__label">A PAGAR</span>
                         <span className="settlement-total__amount">
-                            S/ {summary.finalAmount.toFixed(2)}
+                            {money(summary.finalAmount)}
                         </span>
                     </div>
+                    {isFinalized && (
+                        <div className="settlement-paid">
+                            <span>Pagado {money(paidAmount)}</span>
+                            <span>Pendiente {money(pendingAmount)}</span>
+                        </div>
+                    )}
 
-                    {/* Action Button */}
-                    <button className="settlement-submit">
-                        ✅ Guardar y Cerrar
-                    </button>
+                    {/* Action Buttons */}
+                    <div className="settlement-actions">
+                        <button
+                            className="settlement-print"
+                            onClick={() => window.print()}
+                        >
+                            🖨️ Recibo
+                        </button>
+                        {printer.isReady && (
+                            <button
+                                className="settlement-print"
+                                onClick={() => void handlePrintTicket()}
+                                disabled={printer.status === 'printing'}
+                            >
+                                🧾 Ticket
+                            </button>
+                        )}
+                        <button
+                            className={`settlement-submit ${isFinalized ? 'settlement-submit--reopen' : ''}`}
+                            onClick={handleFinalizeToggle}
+                        >
+                            {isFinalized ? '🔓 Reabrir' : '🔒 Finalizar'}
+                        </button>
+                    </div>
                 </footer>
             )}
+
+            {/* Printable receipt (hidden on screen) */}
+            {hasData && (
+                <SettlementReceipt
+                    entityName={entityName}
+                    entityLabel={entityLabel}
+                    summary={summary}
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,86 @@
+import type { AdjustmentBasis, AdjustmentLine, CurrencyCode, SettlementAdjustment } from '../../../types/domain';
+import { ADJUSTMENT_BASIS_LABELS } from '../../../types/domain';
+import { useMoneySettings } from '../../../hooks/useMoneySettings';
+
+interface AdjustmentLineItemProps {
+    line: AdjustmentLine;
+    currency: CurrencyCode;
+    onChange: (id: string, changes: Partial<Omit<SettlementAdjustment, 'id'>>) => void;
+    onRemove: (id: string) => void;
+    disabled?: boolean;    // Finalized settlement: read-only
+}
+
+/**
+ * A row for a custom adjustment (estiba, comisión, bonificación...):
+ * name, whether it adds or deducts, what the rate applies to, and the amount
+ */
+export function AdjustmentLineItem({ line, currency, onChange, onRemove, disabled = false }: AdjustmentLineItemProps) {
+    const { formatMoney } = useMoneySettings();
+    const isDeduction = line.direction === 'deduct';
+
+    return (
+        <div className={`settlement-adjustment settlement-adjustment--${isDeduction ? 'deduction' : 'addition'}`}>
+            <div className="settlement-adjustment__info">
+                <input
+                    type="text"
+                    value={line.name}
+                    onChange={(e) => onChange(line.id, { name: e.target.value })}
+                    placeholder="Concepto"
+                    className="settlement-adjustment__name"
+                    disabled={disabled}
+                    aria-label="Concepto del ajuste"
+                />
+                <span className="settlement-adjustment__detail">
+                    <button
+                        type="button"
+                        className="settlement-adjustment__direction"
+                        disabled={disabled}
+                        onClick={() => onChange(line.id, { direction: isDeduction ? 'add' : 'deduct' })}
+                        title={isDeduction ? 'Descuenta (tocar para sumar)' : 'Suma (tocar para descontar)'}
+                    >
+                        {isDeduction ? '−' : '+'}
+                    </button>
+                    <select
+                        value={line.basis}
+                        onChange={(e) => onChange(line.id, { basis: e.target.value as AdjustmentBasis })}
+                        className="settlement-adjustment__basis"
+                        disabled={disabled}
+                        aria-label="Tipo de ajuste"
+                    >
+                        {(Object.keys(ADJUSTMENT_BASIS_LABELS) as AdjustmentBasis[]).map((basis) => (
+                            <option key={basis} value={basis}>{ADJUSTMENT_BASIS_LABELS[basis]}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.rate || ''}
+                        onChange={(e) => onChange(line.id, { rate: parseFloat(e.target.value) || 0 })}
+                        placeholder={line.basis === 'percent' ? '0 %' : '0.00'}
+                        className="settlement-adjustment__input"
+                        disabled={disabled}
+                        aria-label="Tasa o monto"
+                    />
+                    {!disabled && (
+                        <button
+                            type="button"
+                            className="settlement-adjustment__remove"
+                            onClick={() => onRemove(line.id)}
+                            aria-label="Quitar ajuste"
+                        >
+                            🗑️
+                        </button>
+                    )}
+                </span>
+            </div>
+            <span
+                className={`settlement-adjustment__value settlement-adjustment__value--${isDeduction ? 'negative' : 'positive'}`}
+            >
+                {isDeduction ? '-' : '+'} {formatMoney(line.amount, currency)}
+            </span>
+        </div>
+    );
+}
+
+export default AdjustmentLineItem;
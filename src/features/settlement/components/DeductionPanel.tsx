@@ -0,0 +1,105 @@
+import type { Category, Entity, WeightDeduction } from '../../../types/domain';
+
+interface DeductionPanelProps {
+    categories: Category[];
+    entity: Entity | null;
+    onCategoryChange: (categoryId: string, field: keyof WeightDeduction, value: number | null) => void;
+    onEntityChange: (field: keyof WeightDeduction, value: number | null) => void;
+}
+
+/**
+ * DeductionPanel - Tare per sack and shrinkage (merma) inputs
+ * One row per category plus an entity row whose values override every category
+ */
+export function DeductionPanel({ categories, entity, onCategoryChange, onEntityChange }: DeductionPanelProps) {
+    return (
+        <div className="settlement-deductions">
+            {/* Table Header */}
+            <div className="settlement-deduction settlement-deduction--header">
+                <span>Aplica a</span>
+                <span>Tara/saco</span>
+                <span>Merma</span>
+            </div>
+
+            {categories.map((category) => (
+                <DeductionRow
+                    key={category.id}
+                    label={category.name}
+                    color={category.color}
+                    tarePerSack={category.tarePerSack}
+                    shrinkagePercent={category.shrinkagePercent}
+                    onChange={(field, value) => onCategoryChange(category.id, field, value)}
+                />
+            ))}
+
+            {entity && (
+                <DeductionRow
+                    label={`Todo de ${entity.name}`}
+                    tarePerSack={entity.tarePerSack}
+                    shrinkagePercent={entity.shrinkagePercent}
+                    onChange={onEntityChange}
+                />
+            )}
+        </div>
+    );
+}
+
+interface DeductionRowProps {
+    label: string;
+    color?: string;
+    tarePerSack?: number;
+    shrinkagePercent?: number;
+    onChange: (field: keyof WeightDeduction, value: number | null) => void;
+}
+
+/**
+ * Single row; an empty input clears the value
+ */
+function DeductionRow({ label, color, tarePerSack, shrinkagePercent, onChange }: DeductionRowProps) {
+    const handleChange = (field: keyof WeightDeduction) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = parseFloat(e.target.value);
+        onChange(field, isNaN(value) ? null : value);
+    };
+
+    return (
+        <div className={`settlement-deduction ${color ? '' : 'settlement-deduction--entity'}`}>
+            <div className="settlement-line__category">
+                {color && (
+                    <span className="settlement-line__color" style={{ backgroundColor: color }} />
+                )}
+                <span className="settlement-line__name">{label}</span>
+            </div>
+
+            <div className="settlement-line__price">
+                <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={tarePerSack ?? ''}
+                    onChange={handleChange('tarePerSack')}
+                    placeholder="0"
+                    className="settlement-line__input"
+                    aria-label={`Tara por saco de ${label}`}
+                />
+                <span className="settlement-line__unit">kg</span>
+            </div>
+
+            <div className="settlement-line__price">
+                <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    max="99"
+                    value={shrinkagePercent ?? ''}
+                    onChange={handleChange('shrinkagePercent')}
+                    placeholder="0"
+                    className="settlement-line__input"
+                    aria-label={`Merma de ${label}`}
+                />
+                <span className="settlement-line__unit">%</span>
+            </div>
+        </div>
+    );
+}
+
+export default DeductionPanel;
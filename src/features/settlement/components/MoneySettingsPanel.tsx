@@ -0,0 +1,59 @@
+import type { CurrencyCode, RoundingPolicy } from '../../../types/domain';
+import { CURRENCY_LABELS, MONEY_LOCALES, ROUNDING_POLICY_LABELS } from '../../../types/domain';
+import { useMoneySettings } from '../../../hooks/useMoneySettings';
+import './MoneySettingsPanel.css';
+
+/**
+ * MoneySettingsPanel - Currency, number format and rounding policy
+ * Currency and rounding apply to new settlements (each one can still be
+ * changed on the settlement screen); the number format applies everywhere
+ */
+export function MoneySettingsPanel() {
+    const { settings, updateSettings, formatMoney } = useMoneySettings();
+
+    return (
+        <div className="money-settings">
+            <label className="money-settings__row">
+                <span className="money-settings__label">Moneda</span>
+                <select
+                    className="money-settings__select"
+                    value={settings.currency}
+                    onChange={(e) => updateSettings({ currency: e.target.value as CurrencyCode })}
+                >
+                    {(Object.keys(CURRENCY_LABELS) as CurrencyCode[]).map((code) => (
+                        <option key={code} value={code}>{CURRENCY_LABELS[code]}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="money-settings__row">
+                <span className="money-settings__label">Formato</span>
+                <select
+                    className="money-settings__select"
+                    value={settings.locale}
+                    onChange={(e) => updateSettings({ locale: e.target.value })}
+                >
+                    {Object.entries(MONEY_LOCALES).map(([locale, label]) => (
+                        <option key={locale} value={locale}>{label}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="money-settings__row">
+                <span className="money-settings__label">Redondeo</span>
+                <select
+                    className="money-settings__select"
+                    value={settings.rounding}
+                    onChange={(e) => updateSettings({ rounding: e.target.value as RoundingPolicy })}
+                >
+                    {(Object.keys(ROUNDING_POLICY_LABELS) as RoundingPolicy[]).map((policy) => (
+                        <option key={policy} value={policy}>{ROUNDING_POLICY_LABELS[policy]}</option>
+                    ))}
+                </select>
+            </label>
+            <p className="money-settings__hint">
+                Ejemplo: {formatMoney(1234.5)} · Las liquidaciones ya empezadas conservan su moneda y redondeo.
+            </p>
+        </div>
+    );
+}
+
+export default MoneySettingsPanel;
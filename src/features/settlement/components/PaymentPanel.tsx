@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import type { CurrencyCode, PaymentMethod, SettlementPayment } from '../../../types/domain';
+import { PAYMENT_METHOD_LABELS } from '../../../types/domain';
+import { useMoneySettings } from '../../../hooks/useMoneySettings';
+
+interface PaymentPanelProps {
+    payments: SettlementPayment[];
+    pendingAmount: number;
+    currency: CurrencyCode;
+    onAdd: (method: PaymentMethod, amount: number, reference?: string) => boolean;
+    onRemove: (id: string) => void;
+}
+
+/**
+ * PaymentPanel - Payments made against a finalized settlement
+ * Each payment records how it was paid (cash, Yape, Plin, transfer) and an
+ * optional reference (operation number); the amount defaults to what is pending
+ */
+export function PaymentPanel({ payments, pendingAmount, currency, onAdd, onRemove }: PaymentPanelProps) {
+    const { formatMoney } = useMoneySettings();
+    const [method, setMethod] = useState<PaymentMethod>('cash');
+    const [amount, setAmount] = useState('');
+    const [reference, setReference] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = amount ? parseFloat(amount) : pendingAmount;
+        if (!onAdd(method, value, reference)) {
+            setError('Ingrese un monto mayor a cero');
+            return;
+        }
+        setAmount('');
+        setReference('');
+        setError(null);
+    };
+
+    return (
+        <div className="settlement-payments">
+            {payments.map((payment) => (
+                <div key={payment.id} className="settlement-payment">
+                    <div className="settlement-payment__info">
+                        <span className="settlement-payment__method">{PAYMENT_METHOD_LABELS[payment.method]}</span>
+                        <span className="settlement-payment__detail">
+                            {new Date(payment.paidAt).toLocaleString('es-PE', {
+                                day: '2-digit',
+                                month: '2-digit',
+                                hour: '2-digit',
+                                minute: '2-digit',
+                            })}
+                            {payment.reference && ` · Ref. ${payment.reference}`}
+                        </span>
+                    </div>
+                    <span className="settlement-payment__amount">{formatMoney(payment.amount, currency)}</span>
+                    <button
+                        type="button"
+                        className="settlement-payment__remove"
+                        onClick={() => onRemove(payment.id)}
+                        aria-label="Quitar pago"
+                    >
+                        🗑️
+                    </button>
+                </div>
+            ))}
+
+            {pendingAmount > 0 && (
+                <form className="settlement-payment-form" onSubmit={handleSubmit}>
+                    <div className="settlement-payment-form__row">
+                        <select
+                            value={method}
+                            onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                            className="settlement-payment-form__input"
+                            aria-label="Medio de pago"
+                        >
+                            {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map((key) => (
+                                <option key={key} value={key}>{PAYMENT_METHOD_LABELS[key]}</option>
+                            ))}
+                        </select>
+                        <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            inputMode="decimal"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            placeholder={formatMoney(pendingAmount, currency)}
+                            className="settlement-payment-form__input"
+                            aria-label="Monto pagado"
+                        />
+                    </div>
+                    {method !== 'cash' && (
+                        <input
+                            type="text"
+                            value={reference}
+                            onChange={(e) => setReference(e.target.value)}
+                            placeholder="N.º de operación"
+                            className="settlement-payment-form__input"
+                            aria-label="Referencia"
+                        />
+                    )}
+
+                    {error && <p className="settlement-payment-form__error">{error}</p>}
+
+                    <button type="submit" className="settlement-adjustment-add">
+                        💳 Registrar pago
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+}
+
+export default PaymentPanel;
@@ -1,17 +1,26 @@
-import type { CategoryLine } from '../../../types/domain';
+import type { CategoryLine, CurrencyCode } from '../../../types/domain';
+import { CURRENCY_SYMBOLS } from '../../../types/domain';
+import { useMoneySettings } from '../../../hooks/useMoneySettings';
+import { formatCurrency } from '../../../utils/notebookUtils';
 
 interface SettlementLineItemProps {
     line: CategoryLine;
-    onPriceChange: (categoryId: string, price: number) => void;
+    currency: CurrencyCode;
+    onPriceChange: (priceKey: string, price: number) => void;
+    disabled?: boolean;    // Finalized settlement: price can't change
 }
 
 /**
- * A row component for displaying a category's weight and price input
+ * A row component for displaying a category's (or grade's) net weight and price input
+ * Shows how the net weight was reached when tare or shrinkage apply
  */
-export function SettlementLineItem({ line, onPriceChange }: SettlementLineItemProps) {
+export function SettlementLineItem({ line, currency, onPriceChange, disabled = false }: SettlementLineItemProps) {
+    const { settings } = useMoneySettings();
+    const hasDeductions = line.tareWeight > 0 || line.shrinkageWeight > 0;
+
     const handlePriceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const value = parseFloat(e.target.value) || 0;
-        onPriceChange(line.categoryId, value);
+        onPriceChange(line.priceKey, value);
     };
 
     return (
@@ -33,7 +42,7 @@ export function SettlementLineItem({ line, onPriceChange }: SettlementLineItemPr
 
             {/* Price input */}
             <div className="settlement-line__price">
-                <span className="settlement-line__currency">S/</span>
+                <span className="settlement-line__currency">{CURRENCY_SYMBOLS[currency]}</span>
                 <input
                     type="number"
                     step="0.01"
@@ -42,16 +51,27 @@ export function SettlementLineItem({ line, onPriceChange }: SettlementLineItemPr
                     onChange={handlePriceChange}
                     placeholder="0.00"
                     className="settlement-line__input"
+                    disabled={disabled}
                 />
             </div>
 
             {/* Subtotal */}
             <div className="settlement-line__subtotal">
-                <span className="settlement-line__currency">S/</span>
+                <span className="settlement-line__currency">{CURRENCY_SYMBOLS[currency]}</span>
                 <span className="settlement-line__total-value">
-                    {line.subtotal.toFixed(2)}
+                    {formatCurrency(line.subtotal, settings.locale)}
                 </span>
             </div>
+
+            {/* Gross - tare - shrinkage = net */}
+            {hasDeductions && (
+                <div className="settlement-line__detail">
+                    Bruto {line.grossWeight.toFixed(1)}
+                    {line.tareWeight > 0 && ` − tara ${line.tareWeight.toFixed(1)}`}
+                    {line.shrinkageWeight > 0 && ` − merma ${line.shrinkageWeight.toFixed(1)}`}
+                    {` = neto ${line.totalWeight.toFixed(1)} kg`}
+                </div>
+            )}
         </div>
     );
 }
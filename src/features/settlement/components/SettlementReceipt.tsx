@@ -0,0 +1,150 @@
+import { createPortal } from 'react-dom';
+import type { SettlementSummary } from '../../../types/domain';
+import { formatCurrency, formatWeight } from '../../../utils/notebookUtils';
+import { useMoneySettings } from '../../../hooks/useMoneySettings';
+import './SettlementReceipt.css';
+
+interface SettlementReceiptProps {
+    entityName: string;
+    entityLabel: string;     // "Dueño/Agricultor" or "Comprador"
+    summary: SettlementSummary;
+    date?: Date;
+}
+
+/**
+ * SettlementReceipt - Print-only liquidation receipt
+ * Rendered via portal outside the app so print CSS can hide everything else.
+ * Printed with window.print(); "Guardar como PDF" in the print dialog exports it.
+ */
+export function SettlementReceipt({
+    entityName,
+    entityLabel,
+    summary,
+    date = new Date(),
+}: SettlementReceiptProps) {
+    const formattedDate = date.toLocaleDateString('es-PE', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+    });
+    const formattedTime = date.toLocaleTimeString('es-PE', {
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+
+    const hasDeductions = summary.tareWeight > 0 || summary.shrinkageWeight > 0;
+
+    const { settings, formatMoney } = useMoneySettings();
+    const money = (amount: number) => formatMoney(amount, summary.currency);
+
+    return createPortal(
+        <div className="receipt" aria-hidden="true">
+            {/* Header */}
+            <header className="receipt__header">
+                <h1 className="receipt__title">Liquidación</h1>
+                <p className="receipt__subtitle">Sistema Híbrido de Pesaje y Liquidación</p>
+            </header>
+
+            <dl className="receipt__meta">
+                <div>
+                    <dt>{entityLabel}:</dt>
+                    <dd>{entityName}</dd>
+                </div>
+                <div>
+                    <dt>Fecha:</dt>
+                    <dd>{formattedDate} {formattedTime}</dd>
+                </div>
+            </dl>
+
+            {/* Category lines */}
+            <table className="receipt__table">
+                <thead>
+                    <tr>
+                        <th>Categoría</th>
+                        <th>{hasDeductions ? 'Neto (kg)' : 'Peso (kg)'}</th>
+                        <th>Precio</th>
+                        <th>Subtotal</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {summary.categoryBreakdown.map((line) => (
+                        <tr key={line.priceKey}>
+                            <td>{line.categoryName}</td>
+                            <td>{formatWeight(line.totalWeight)}</td>
+                            <td>{formatCurrency(line.unitPrice, settings.locale)}</td>
+                            <td>{formatCurrency(line.subtotal, settings.locale)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+                <tfoot>
+                    <tr>
+                        <td>Total</td>
+                        <td>{formatWeight(summary.totalWeight)}</td>
+                        <td />
+                        <td>{money(summary.grossTotal)}</td>
+                    </tr>
+                </tfoot>
+            </table>
+
+            {/* Adjustments */}
+            <div className="receipt__adjustments">
+                {hasDeductions && (
+                    <div className="receipt__row">
+                        <span>Bruto {formatWeight(summary.grossWeight)} kg</span>
+                        <span>
+                            Tara {formatWeight(summary.tareWeight)} · Merma {formatWeight(summary.shrinkageWeight)}
+                        </span>
+                    </div>
+                )}
+                <div className="receipt__row">
+                    <span>Flete</span>
+                    <span>- {money(summary.freightTotal)}</span>
+                </div>
+                <div className="receipt__row">
+                    <span>Pago por sacos</span>
+                    <span>+ {money(summary.sackValue)}</span>
+                </div>
+                {summary.adjustments.filter((line) => line.amount > 0).map((line) => (
+                    <div key={line.id} className="receipt__row">
+                        <span>{line.name || 'Ajuste'}</span>
+                        <span>{line.direction === 'add' ? '+' : '-'} {money(line.amount)}</span>
+                    </div>
+                ))}
+                {summary.advanceDeduction > 0 && (
+                    <div className="receipt__row">
+                        <span>Adelantos</span>
+                        <span>- {money(summary.advanceDeduction)}</span>
+                    </div>
+                )}
+                {summary.roundingDifference !== 0 && (
+                    <div className="receipt__row">
+                        <span>Redondeo</span>
+                        <span>{summary.roundingDifference > 0 ? '+' : '-'} {money(Math.abs(summary.roundingDifference))}</span>
+                    </div>
+                )}
+                {summary.advanceBalance > 0 && (
+                    <div className="receipt__row">
+                        <span>Saldo pendiente</span>
+                        <span>{money(summary.advanceBalance)}</span>
+                    </div>
+                )}
+            </div>
+
+            {/* Final amount */}
+            <div className="receipt__total">
+                <span>A PAGAR</span>
+                <span>{money(summary.finalAmount)}</span>
+            </div>
+
+            {/* Signature */}
+            <div className="receipt__signature">
+                <div className="receipt__signature-line" />
+                <span>Recibí conforme</span>
+                <span className="receipt__signature-name">{entityName}</span>
+            </div>
+        </div>,
+        document.body
+    );
+}
+
+export default SettlementReceipt;
@@ -1,34 +1,37 @@
-import { useState, useCallback, useMemo, useEffect } from 'react';
-import type { Category, Batch, SettlementData, SettlementSummary, CategoryLine } from '../../../types/domain';
-import { safeAdd, safeSub, safeMult, roundToTwo, safeSum } from '../../../utils/math';
-
-// ============================================
-// localStorage Keys
-// ============================================
-const STORAGE_KEY_PREFIX = 'shpl_settlement_';
-
-// ============================================
-// Helper Functions
-// ============================================
-
-function loadFromStorage<T>(key: string, defaultValue: T): T {
-    try {
-        const stored = localStorage.getItem(key);
-        return stored ? JSON.parse(stored) : defaultValue;
-    } catch {
-        return defaultValue;
-    }
-}
-
-function saveToStorage<T>(key: string, value: T): void {
-    try {
-        localStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-        console.error('Error saving to localStorage:', error);
-    }
-}
-
-// NOTE: roundToTwo is now imported from '../../../utils/math'
+import { useCallback, useMemo, useEffect, useSyncExternalStore } from 'react';
+import type {
+    Category,
+    Batch,
+    CurrencyCode,
+    Entity,
+    PaymentMethod,
+    RoundingPolicy,
+    SettlementAdjustment,
+    SettlementData,
+    SettlementPayment,
+    SettlementSummary,
+} from '../../../types/domain';
+import { generateId } from '../../../types/domain';
+import {
+    aggregateWeightsByCategory,
+    calculateSettlementSummary,
+    EMPTY_SETTLEMENT_DATA,
+    freezeSettlement,
+    getPaidAmount,
+    getSettlementCurrency,
+    getSettlementStatus,
+} from '../../../utils/settlementUtils';
+import { roundMoney, safeSub } from '../../../utils/math';
+import { getSettlements, saveSettlement, subscribeSettlements } from '../../../services/settlements';
+import { applyMoneySettings } from '../../../services/money';
+import {
+    applyPriceList,
+    getPriceHistory,
+    getPriceVersionAt,
+    resolvePrices,
+    subscribePriceHistory,
+} from '../../../services/prices';
+import { getAccountBalance, getAccountMovements, subscribeAccountMovements } from '../../../services/accounts';
 
 // ============================================
 // Hook Definition
@@ -37,125 +40,128 @@ function saveToStorage<T>(key: string, value: T): void {
 interface UseSettlementParams {
     entityId: string;
     entityName: string;
+    entity?: Entity | null;     // Source of tare/shrinkage overrides
     categories: Category[];
     batchesByKey: Record<string, Batch[]>;
 }
 
 /**
  * Custom hook for settlement calculations.
- * Aggregates weights by category, calculates subtotals, freight, and final payment.
+ * Aggregates weights by category and grade, deducts tare and shrinkage, calculates
+ * subtotals, freight, and final payment.
+ * Prices start from the price list version in effect (recorded on the settlement),
+ * currency and rounding from the money settings.
+ * The entity's outstanding advances are deducted from the amount to pay.
+ * Finalizing freezes the summary and locks the entity's weights; payments are
+ * then registered against it.
  */
 export function useSettlement({
     entityId,
     entityName,
+    entity,
     categories,
     batchesByKey,
 }: UseSettlementParams) {
-    const storageKey = `${STORAGE_KEY_PREFIX}${entityId}`;
-
     // ============================================
     // State - Settlement Input Data
     // ============================================
-    const [settlementData, setSettlementData] = useState<SettlementData>(() =>
-        loadFromStorage(storageKey, {
-            prices: {},
-            freightRate: 0,
-            sackValue: 0,
-        })
+
+    const settlements = useSyncExternalStore(subscribeSettlements, getSettlements, getSettlements);
+    const storedData = settlements[entityId];
+
+    const priceHistory = useSyncExternalStore(subscribePriceHistory, getPriceHistory, getPriceHistory);
+    const accountMovements = useSyncExternalStore(
+        subscribeAccountMovements,
+        getAccountMovements,
+        getAccountMovements
+    );
+
+    const settlementData = useMemo(
+        () => applyMoneySettings(applyPriceList(storedData ?? EMPTY_SETTLEMENT_DATA, entityId), !storedData),
+        [storedData, entityId]
+    );
+
+    const updateSettlementData = useCallback((update: (prev: SettlementData) => SettlementData) => {
+        if (!entityId) return;
+        saveSettlement(entityId, update(settlementData));
+    }, [entityId, settlementData]);
+
+    // A finalized settlement keeps its input as it was until reopened
+    const isFinalized = settlementData.finalSummary !== undefined;
+
+    const updateDraft = useCallback((update: (prev: SettlementData) => SettlementData) => {
+        if (isFinalized) return;
+        updateSettlementData(update);
+    }, [isFinalized, updateSettlementData]);
+
+    // Price list versions: the one in effect and the one the prices came from
+    const currentPriceVersion = useMemo(
+        () => (priceHistory.length > 0 ? getPriceVersionAt() : null),
+        [priceHistory]
+    );
+    const usedPriceVersion = useMemo(
+        () => priceHistory.find((version) => version.id === settlementData.priceVersionId) ?? null,
+        [priceHistory, settlementData.priceVersionId]
     );
 
     // ============================================
     // Persistence
     // ============================================
+
+    // Keep the price list pre-fill (and a first settlement for the entity).
+    // No entity selected yet: nothing to save (it would create shpl_settlement_)
     useEffect(() => {
-        saveToStorage(storageKey, settlementData);
-    }, [settlementData, storageKey]);
+        if (entityId && settlementData !== storedData) {
+            saveSettlement(entityId, settlementData);
+        }
+    }, [settlementData, storedData, entityId]);
 
     // ============================================
     // Aggregate Weights by Category
     // ============================================
-    const weightsByCategory = useMemo(() => {
-        const weights: Record<string, number> = {};
-
-        Object.entries(batchesByKey).forEach(([key, batches]) => {
-            const [entId, catId] = key.split(':');
-            if (entId === entityId) {
-                // Use safe math for all weight calculations
-                const categoryWeight = batches.reduce((total, batch) => {
-                    const batchWeight = safeSum(batch.entries.map(e => e.value));
-                    return safeAdd(total, batchWeight);
-                }, 0);
-                weights[catId] = safeAdd(weights[catId] || 0, categoryWeight);
-            }
-        });
-
-        return weights;
-    }, [batchesByKey, entityId]);
+    const weightsByCategory = useMemo(
+        () => aggregateWeightsByCategory(batchesByKey, entityId),
+        [batchesByKey, entityId]
+    );
 
     // ============================================
     // Calculate Settlement Summary
     // ============================================
-    const summary: SettlementSummary = useMemo(() => {
-        const categoryBreakdown: CategoryLine[] = [];
-        let grossTotal = 0;
-        let totalWeight = 0;
-
-        // Build category breakdown using safe math
-        categories.forEach((category) => {
-            const weight = weightsByCategory[category.id] || 0;
-            if (weight > 0) {
-                const unitPrice = settlementData.prices[category.id] || 0;
-                // SubtotalCategoria = safeMult(PesoCategoria, PrecioCategoria)
-                const subtotal = safeMult(weight, unitPrice);
-
-                categoryBreakdown.push({
-                    categoryId: category.id,
-                    categoryName: category.name,
-                    categoryColor: category.color,
-                    totalWeight: weight,
-                    unitPrice,
-                    subtotal: roundToTwo(subtotal),
-                });
-
-                grossTotal = safeAdd(grossTotal, subtotal);
-                totalWeight = safeAdd(totalWeight, weight);
-            }
-        });
-
-        // FleteTotal = safeMult(TotalPeso, TasaFlete)
-        const freightTotal = safeMult(totalWeight, settlementData.freightRate);
-
-        // GranTotal = (SumaSubtotales - FleteTotal) + ValorSacos
-        const finalAmount = roundToTwo(safeAdd(safeSub(grossTotal, freightTotal), settlementData.sackValue));
-
-        return {
-            categoryBreakdown,
-            grossTotal: roundToTwo(grossTotal),
-            totalWeight,
-            freightTotal,
-            sackValue: settlementData.sackValue,
-            finalAmount,
-        };
-    }, [categories, weightsByCategory, settlementData]);
+    // Only advances in the currency the settlement is paid in are deducted
+    const settlementCurrency = getSettlementCurrency(settlementData);
+    const advanceDebt = useMemo(
+        () => getAccountBalance(accountMovements, entityId, settlementCurrency),
+        [accountMovements, entityId, settlementCurrency]
+    );
+
+    const liveSummary: SettlementSummary = useMemo(
+        () => calculateSettlementSummary(categories, weightsByCategory, settlementData, entity, advanceDebt),
+        [categories, weightsByCategory, settlementData, entity, advanceDebt]
+    );
+
+    // Once finalized, later weight or price changes no longer change what is owed
+    const summary = settlementData.finalSummary ?? liveSummary;
+    const paidAmount = getPaidAmount(settlementData);
 
     // ============================================
     // Actions
     // ============================================
 
     /**
-     * Update price for a specific category
+     * Update price for a specific category or grade
+     * @param priceKey - Category id, or `categoryId:GRADE` (see getPriceKey)
      */
-    const setPrice = useCallback((categoryId: string, price: number) => {
+    const setPrice = useCallback((priceKey: string, price: number) => {
         // Prevent negative prices
         const sanitizedPrice = Math.max(0, price);
-        setSettlementData((prev) => ({
+        updateDraft((prev) => ({
             ...prev,
             prices: {
                 ...prev.prices,
-                [categoryId]: sanitizedPrice,
+                [priceKey]: sanitizedPrice,
             },
         }));
-    }, []);
+    }, [updateDraft]);
 
     /**
      * Update freight rate
@@ -163,11 +169,11 @@ export function useSettlement({
     const setFreightRate = useCallback((rate: number) => {
         // Prevent negative rates
         const sanitizedRate = Math.max(0, rate);
-        setSettlementData((prev) => ({
+        updateDraft((prev) => ({
             ...prev,
             freightRate: sanitizedRate,
         }));
-    }, []);
+    }, [updateDraft]);
 
     /**
      * Update sack value
@@ -175,11 +181,76 @@ export function useSettlement({
     const setSackValue = useCallback((value: number) => {
         // Prevent negative values
         const sanitizedValue = Math.max(0, value);
-        setSettlementData((prev) => ({
+        updateDraft((prev) => ({
             ...prev,
             sackValue: sanitizedValue,
         }));
-    }, []);
+    }, [updateDraft]);
+
+    /**
+     * Currency this settlement is paid in (e.g. a buyer paying in USD)
+     */
+    const setCurrency = useCallback((currency: CurrencyCode) => {
+        updateDraft((prev) => ({ ...prev, currency }));
+    }, [updateDraft]);
+
+    /**
+     * How this settlement's amounts (and the amount to pay) are rounded
+     */
+    const setRounding = useCallback((rounding: RoundingPolicy) => {
+        updateDraft((prev) => ({ ...prev, rounding }));
+    }, [updateDraft]);
+
+    /**
+     * Add an empty adjustment line (a fixed deduction until edited)
+     */
+    const addAdjustment = useCallback(() => {
+        const adjustment: SettlementAdjustment = {
+            id: generateId(),
+            name: '',
+            basis: 'fixed',
+            rate: 0,
+            direction: 'deduct',
+        };
+        updateDraft((prev) => ({
+            ...prev,
+            adjustments: [...(prev.adjustments ?? []), adjustment],
+        }));
+    }, [updateDraft]);
+
+    /**
+     * Change the name, basis, rate or direction of an adjustment line
+     */
+    const updateAdjustment = useCallback((id: string, changes: Partial<Omit<SettlementAdjustment, 'id'>>) => {
+        updateDraft((prev) => ({
+            ...prev,
+            adjustments: (prev.adjustments ?? []).map((adjustment) =>
+                adjustment.id === id
+                    ? { ...adjustment, ...changes, rate: Math.max(0, changes.rate ?? adjustment.rate) }
+                    : adjustment
+            ),
+        }));
+    }, [updateDraft]);
+
+    const removeAdjustment = useCallback((id: string) => {
+        updateDraft((prev) => ({
+            ...prev,
+            adjustments: (prev.adjustments ?? []).filter((adjustment) => adjustment.id !== id),
+        }));
+    }, [updateDraft]);
+
+    /**
+     * Replace the prices with those of the version in effect
+     * (categories missing from the list keep their price)
+     */
+    const applyCurrentPrices = useCallback(() => {
+        if (!currentPriceVersion) return;
+        updateDraft((prev) => ({
+            ...prev,
+            prices: { ...prev.prices, ...resolvePrices(currentPriceVersion, entityId) },
+            priceVersionId: currentPriceVersion.id,
+        }));
+    }, [currentPriceVersion, entityId, updateDraft]);
 
     /**
      * Get price for a category
@@ -192,12 +263,63 @@ export function useSettlement({
      * Reset all settlement data for this entity
      */
     const resetSettlement = useCallback(() => {
-        setSettlementData({
-            prices: {},
-            freightRate: 0,
-            sackValue: 0,
-        });
-    }, []);
+        updateDraft(() => applyMoneySettings(applyPriceList(EMPTY_SETTLEMENT_DATA, entityId, currentPriceVersion), true));
+    }, [entityId, currentPriceVersion, updateDraft]);
+
+    // ============================================
+    // Finalize & Payments
+    // ============================================
+
+    /**
+     * Freeze the summary as it is now and lock the entity's weights
+     * @returns false if already finalized or there is nothing to settle
+     */
+    const finalizeSettlement = useCallback((): boolean => {
+        const finalized = freezeSettlement(settlementData, liveSummary);
+        if (!finalized) return false;
+        updateSettlementData(() => finalized);
+        return true;
+    }, [settlementData, liveSummary, updateSettlementData]);
+
+    /**
+     * Back to draft (weights editable, summary live again)
+     * @returns false once payments were registered (remove them first)
+     */
+    const reopenSettlement = useCallback((): boolean => {
+        if (!isFinalized || (settlementData.payments ?? []).length > 0) return false;
+        updateSettlementData((prev) => ({
+            ...prev,
+            finalizedAt: undefined,
+            finalSummary: undefined,
+            payments: undefined,
+        }));
+        return true;
+    }, [isFinalized, settlementData.payments, updateSettlementData]);
+
+    /**
+     * Register a payment against the finalized settlement
+     * @returns false if not finalized or the amount is not positive
+     */
+    const addPayment = useCallback((method: PaymentMethod, amount: number, reference?: string): boolean => {
+        if (!isFinalized || !(amount > 0)) return false;
+
+        const payment: SettlementPayment = {
+            id: generateId(),
+            method,
+            amount: roundMoney(amount, settlementData.rounding),
+            ...(reference?.trim() && { reference: reference.trim() }),
+            paidAt: Date.now(),
+        };
+        updateSettlementData((prev) => ({ ...prev, payments: [...(prev.payments ?? []), payment] }));
+        return true;
+    }, [isFinalized, settlementData.rounding, updateSettlementData]);
+
+    const removePayment = useCallback((id: string) => {
+        updateSettlementData((prev) => ({
+            ...prev,
+            payments: (prev.payments ?? []).filter((payment) => payment.id !== id),
+        }));
+    }, [updateSettlementData]);
 
     // ============================================
     // Return Value
@@ -208,16 +330,35 @@ export function useSettlement({
         entityName,
         settlementData,
         summary,
+        usedPriceVersion,
+        currentPriceVersion,
 
         // Actions
         setPrice,
         setFreightRate,
         setSackValue,
+        setCurrency,
+        setRounding,
+        addAdjustment,
+        updateAdjustment,
+        removeAdjustment,
+        applyCurrentPrices,
         getPrice,
         resetSettlement,
+        finalizeSettlement,
+        reopenSettlement,
+        addPayment,
+        removePayment,
+
+        // Finalize & payments
+        status: getSettlementStatus(settlementData),
+        isFinalized,
+        paidAmount,
+        pendingAmount: Math.max(0, safeSub(summary.finalAmount, paidAmount)),
 
         // Helpers
-        hasData: summary.totalWeight > 0,
+        hasData: summary.grossWeight > 0,
+        isPriceListOutdated: currentPriceVersion !== null && currentPriceVersion.id !== usedPriceVersion?.id,
     };
 }
 
@@ -4,3 +4,8 @@
 export { SettlementScreen } from './SettlementScreen';
 export { useSettlement } from './hooks/useSettlement';
 export { SettlementLineItem } from './components/SettlementLineItem';
+export { AdjustmentLineItem } from './components/AdjustmentLineItem';
+export { PaymentPanel } from './components/PaymentPanel';
+export { MoneySettingsPanel } from './components/MoneySettingsPanel';
+export { DeductionPanel } from './components/DeductionPanel';
+export { SettlementReceipt } from './components/SettlementReceipt';
@@ -1,13 +1,27 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { BigDisplay } from './components/BigDisplay';
 import { NumericKeypad } from './components/NumericKeypad';
 import { BatchList } from './components/BatchList';
 import { CategorySelector } from './components/CategorySelector';
+import { GradeSelector } from './components/GradeSelector';
+import { VoiceButton } from './components/VoiceButton';
+import { ScalePanel } from './components/ScalePanel';
+import { MoveEntriesModal } from './components/MoveEntriesModal';
 import { EntitySelector } from '../session/components/EntitySelector';
 import { useSession } from '../../context/SessionContext';
 import { useWeighingBatch } from './hooks/useWeighingBatch';
+import { useVoiceInput } from './hooks/useVoiceInput';
+import { useScale } from './hooks/useScale';
+import { useSharedJornada } from '../collab/hooks/useSharedJornada';
 import { useToast } from '../../hooks/useToast';
+import { usePrinter } from '../../hooks/usePrinter';
+import { getDeviceId } from '../../services/device';
+import { BATCH_SIZE_OPTIONS } from '../../types/domain';
+import { getBatchCapacity } from '../../utils/batchUtils';
+import { resolveDeduction } from '../../utils/deductionUtils';
+import type { OutlierCheck } from '../../utils/outlierUtils';
 import { Toast } from '../../components/Toast';
+import { ConfirmModal } from '../../components/ui/ConfirmModal';
 import './WeighingScreen.css';
 
 type ViewMode = 'input' | 'history';
@@ -25,36 +39,59 @@ export function WeighingScreen({ onWeightSubmit }: WeighingScreenProps) {
     const [inputValue, setInputValue] = useState<string>('');
     const [viewMode, setViewMode] = useState<ViewMode>('input');
 
+    // Suspicious weight waiting for confirmation
+    const [pendingOutlier, setPendingOutlier] = useState<OutlierCheck | null>(null);
+
+    // Weights waiting for a target in the move dialog
+    const [movingEntryIds, setMovingEntryIds] = useState<string[] | null>(null);
+
     // Get session context (entity management)
-    const { activeEntityId, activeEntity, mode } = useSession();
+    const { activeEntityId, activeEntity, mode, defaultBatchSize } = useSession();
 
     // Toast for user feedback
     const { toast, showToast, hideToast } = useToast();
 
+    // Shared jornada (multi-device) indicator
+    const { code: sharedCode } = useSharedJornada();
+
     // Weighing batch hook now depends on activeEntityId
     const {
         categories,
         activeCategoryId,
         activeCategory,
+        activeGrade,
         batches,
+        isLocked,
         addCategory,
         deleteCategory,
         renameCategory,
+        setCategoryBatchSize,
         switchCategory,
+        setActiveGrade,
         addWeight,
+        insertWeight,
         deleteWeight,
         updateWeight,
+        markWeightReviewed,
+        moveEntries,
+        checkWeight,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
         getCurrentBatch,
         getTotalWeight,
         getTotalEntries,
         getCategoryStats,
         getGrandTotal,
         getEntityStats,
-        BATCH_SIZE,
-    } = useWeighingBatch(activeEntityId);
+        activeBatchSize,
+    } = useWeighingBatch(activeEntityId, defaultBatchSize);
 
     const currentBatch = getCurrentBatch();
     const currentProgress = currentBatch ? currentBatch.entries.length : 0;
+    // Size of the batch being filled (a started batch keeps its size)
+    const currentBatchSize = currentBatch ? getBatchCapacity(currentBatch, activeBatchSize) : activeBatchSize;
     const grandTotal = getGrandTotal();
 
     const handleDigit = useCallback((digit: string) => {
@@ -74,46 +111,195 @@ export function WeighingScreen({ onWeightSubmit }: WeighingScreenProps) {
         setInputValue((prev) => prev.slice(0, -1));
     }, []);
 
+    /**
+     * Register a weight from any input source (keypad or voice)
+     * Outliers are held until the operator confirms them
+     */
+    const registerWeight = useCallback((numericValue: number): boolean => {
+        if (isNaN(numericValue) || numericValue <= 0) return false;
+        if (isLocked) {
+            showToast('🔒 Liquidación finalizada: reábrela para registrar pesos', 'error');
+            return false;
+        }
+
+        const outlier = checkWeight(numericValue);
+        if (outlier) {
+            setPendingOutlier(outlier);
+            return false;
+        }
+
+        const success = addWeight(numericValue);
+        if (success) {
+            onWeightSubmit?.(numericValue, activeCategoryId, activeEntityId);
+        }
+        return success;
+    }, [addWeight, checkWeight, isLocked, activeCategoryId, activeEntityId, onWeightSubmit, showToast]);
+
+    // Accept the outlier: it is registered and marked for review
+    const handleConfirmOutlier = useCallback(() => {
+        if (!pendingOutlier) return;
+
+        if (addWeight(pendingOutlier.value, { outlier: true })) {
+            onWeightSubmit?.(pendingOutlier.value, activeCategoryId, activeEntityId);
+            setInputValue('');
+            showToast(`⚠️ ${pendingOutlier.value} kg registrado para revisión`, 'info');
+        }
+    }, [pendingOutlier, addWeight, activeCategoryId, activeEntityId, onWeightSubmit, showToast]);
+
     const handleSubmit = useCallback(() => {
-        const numericValue = parseFloat(inputValue);
-        if (!isNaN(numericValue) && numericValue > 0) {
-            const success = addWeight(numericValue);
-            if (success) {
-                onWeightSubmit?.(numericValue, activeCategoryId, activeEntityId);
-                setInputValue('');
-            }
+        if (registerWeight(parseFloat(inputValue))) {
+            setInputValue('');
+        }
+    }, [inputValue, registerWeight]);
+
+    // Voice dictation (push-to-talk)
+    const handleVoiceNumber = useCallback((value: number) => {
+        if (registerWeight(value)) {
+            setInputValue('');
+            showToast(`🎤 ${value} kg registrado`, 'success');
+        }
+    }, [registerWeight, showToast]);
+
+    const handleVoiceUnrecognized = useCallback((transcript: string) => {
+        showToast(`No se entendió "${transcript}"`, 'error');
+    }, [showToast]);
+
+    const handleVoiceError = useCallback((error: string) => {
+        showToast(
+            error === 'not-allowed' ? 'Permiso de micrófono denegado' : 'Error de reconocimiento de voz',
+            'error'
+        );
+    }, [showToast]);
+
+    const voice = useVoiceInput({
+        onNumber: handleVoiceNumber,
+        onUnrecognized: handleVoiceUnrecognized,
+        onError: handleVoiceError,
+    });
+
+    // Digital scale (stable readings are registered automatically or on confirm)
+    const handleScaleWeight = useCallback((value: number) => {
+        if (registerWeight(value)) {
+            showToast(`⚖️ ${value} kg registrado`, 'success');
         }
-    }, [inputValue, addWeight, activeCategoryId, activeEntityId, onWeightSubmit]);
+    }, [registerWeight, showToast]);
+
+    const scale = useScale({ onStableWeight: handleScaleWeight });
+
+    // Thermal ticket for each batch sealed on this device
+    const { settings: printerSettings, isReady: isPrinterReady, printBatch } = usePrinter();
+    const sealedBatchesRef = useRef<{ key: string; ids: Set<string> } | null>(null);
+
+    useEffect(() => {
+        const key = `${activeEntityId}:${activeCategoryId}`;
+        const closedBatches = batches.filter(b => b.status === 'closed');
+        const previous = sealedBatchesRef.current;
+        sealedBatchesRef.current = { key, ids: new Set(closedBatches.map(b => b.id)) };
+
+        // Only batches sealed while this combination is on screen
+        if (!previous || previous.key !== key) return;
+        if (!printerSettings.autoPrintBatches || !isPrinterReady) return;
+
+        closedBatches.forEach((batch, index) => {
+            if (previous.ids.has(batch.id)) return;
+            const lastEntry = batch.entries[batch.entries.length - 1];
+            if (lastEntry?.deviceId && lastEntry.deviceId !== getDeviceId()) return;
+
+            printBatch(batch, {
+                entityName: activeEntity?.name || 'Sin selección',
+                categoryName: activeCategory?.name || 'Sin categoría',
+                batchNumber: index + 1,
+            }).catch(() => showToast('No se pudo imprimir el ticket del lote', 'error'));
+        });
+    }, [batches, activeEntityId, activeCategoryId, activeEntity, activeCategory,
+        printerSettings.autoPrintBatches, isPrinterReady, printBatch, showToast]);
 
     const toggleView = useCallback(() => {
         setViewMode((prev) => (prev === 'input' ? 'history' : 'input'));
     }, []);
 
+    // Undo / redo of weighing actions
+    const handleUndo = useCallback(() => {
+        const label = undo();
+        if (label) {
+            showToast(`↶ Deshecho: ${label}`, 'info');
+        } else if (canUndo) {
+            showToast('🔒 No se puede deshacer: afecta una liquidación finalizada', 'error');
+        }
+    }, [undo, canUndo, showToast]);
+
+    const handleRedo = useCallback(() => {
+        const label = redo();
+        if (label) {
+            showToast(`↷ Rehecho: ${label}`, 'info');
+        } else if (canRedo) {
+            showToast('🔒 No se puede rehacer: afecta una liquidación finalizada', 'error');
+        }
+    }, [redo, canRedo, showToast]);
+
+    // The toast keeps its action after the state changes: always call the latest undo
+    const latestUndoRef = useRef(handleUndo);
+    useEffect(() => {
+        latestUndoRef.current = handleUndo;
+    }, [handleUndo]);
+
+    const undoAction = useMemo(() => ({ label: 'Deshacer', onClick: () => latestUndoRef.current() }), []);
+
     // Handlers for weight editing
     const handleDeleteWeight = useCallback((entryId: string) => {
         const success = deleteWeight(entryId);
         if (success) {
-            showToast('Peso eliminado', 'success');
+            showToast('Peso eliminado', 'success', undoAction);
         }
-    }, [deleteWeight, showToast]);
+    }, [deleteWeight, showToast, undoAction]);
+
+    const handleReviewWeight = useCallback((entryId: string) => {
+        if (markWeightReviewed(entryId)) {
+            showToast('Peso marcado como revisado', 'success');
+        }
+    }, [markWeightReviewed, showToast]);
 
     const handleUpdateWeight = useCallback((entryId: string, newValue: number) => {
         const success = updateWeight(entryId, newValue);
         if (success) {
-            showToast('Peso actualizado', 'success');
+            showToast('Peso actualizado', 'success', undoAction);
         } else {
             showToast('Valor inválido (debe ser > 0)', 'error');
         }
-    }, [updateWeight, showToast]);
+    }, [updateWeight, showToast, undoAction]);
+
+    // A skipped sack inserted inside a batch (checked like any new weight)
+    const handleInsertWeight = useCallback((batchId: string, position: number, value: number) => {
+        const isOutlier = checkWeight(value) !== null;
+        if (!insertWeight(batchId, position, value, { outlier: isOutlier })) {
+            showToast('Valor inválido (debe ser > 0)', 'error');
+            return;
+        }
+        showToast(
+            isOutlier ? `⚠️ ${value} kg insertado para revisión` : `${value} kg insertado`,
+            isOutlier ? 'info' : 'success',
+            undoAction
+        );
+    }, [checkWeight, insertWeight, showToast, undoAction]);
+
+    const handleMoveEntries = useCallback((entityId: string, categoryId: string) => {
+        if (!movingEntryIds) return;
+        const { moved, blocked } = moveEntries(movingEntryIds, entityId, categoryId);
+        if (moved > 0) {
+            showToast(moved === 1 ? 'Peso movido' : `${moved} pesos movidos`, 'success', undoAction);
+        } else if (blocked === 'locked') {
+            showToast('🔒 No se puede mover: afecta una liquidación finalizada', 'error');
+        }
+    }, [movingEntryIds, moveEntries, showToast, undoAction]);
 
     // Handlers for category editing
     const handleDeleteCategory = useCallback((categoryId: string): boolean => {
         const success = deleteCategory(categoryId);
         if (success) {
-            showToast('Categoría eliminada', 'info');
+            showToast('Categoría eliminada', 'info', undoAction);
         }
         return success;
-    }, [deleteCategory, showToast]);
+    }, [deleteCategory, showToast, undoAction]);
 
     const handleRenameCategory = useCallback((categoryId: string, newName: string): boolean => {
         const success = renameCategory(categoryId, newName);
@@ -148,6 +334,24 @@ export function WeighingScreen({ onWeightSubmit }: WeighingScreenProps) {
                 >
                     📋 Historial ({grandTotal.entries})
                 </button>
+                <button
+                    className="tab-btn tab-btn--icon"
+                    onClick={handleUndo}
+                    disabled={!canUndo}
+                    aria-label="Deshacer"
+                    title="Deshacer"
+                >
+                    ↶
+                </button>
+                <button
+                    className="tab-btn tab-btn--icon"
+                    onClick={handleRedo}
+                    disabled={!canRedo}
+                    aria-label="Rehacer"
+                    title="Rehacer"
+                >
+                    ↷
+                </button>
             </div>
 
             {/* Category Selector - Always Visible (Priority) */}
@@ -160,14 +364,25 @@ export function WeighingScreen({ onWeightSubmit }: WeighingScreenProps) {
                 onDeleteCategory={handleDeleteCategory}
                 onRenameCategory={handleRenameCategory}
             />
+            <GradeSelector activeGrade={activeGrade} onSelectGrade={setActiveGrade} />
+
+            {/* Weights of a finalized settlement are read-only */}
+            {isLocked && (
+                <div className="weighing-screen__locked" role="status">
+                    🔒 Liquidación de {activeEntity?.name ?? 'esta entidad'} finalizada: sus pesos no se pueden
+                    modificar. Reábrela en Liquidación para corregirlos.
+                </div>
+            )}
 
             {viewMode === 'input' ? (
                 <>
                     {/* Display Area */}
                     <div className="weighing-screen__display">
                         <BigDisplay
-                            value={inputValue}
-                            label={`${activeCategory.name} - ${currentProgress + 1}/${BATCH_SIZE}`}
+                            value={scale.isConnected && scale.reading ? scale.reading.value.toFixed(2) : inputValue}
+                            isLive={scale.isConnected}
+                            isStable={scale.isStable}
+                            label={`${activeCategory.name} - ${currentProgress + 1}/${currentBatchSize}`}
                             lastBatchSubtotal={
                                 // Find last closed batch subtotal
                                 batches
@@ -187,13 +402,27 @@ export function WeighingScreen({ onWeightSubmit }: WeighingScreenProps) {
                         />
                     </div>
 
+                    {/* Digital Scale Connection */}
+                    <ScalePanel
+                        status={scale.status}
+                        driverType={scale.driverType}
+                        autoSubmit={scale.autoSubmit}
+                        pendingWeight={scale.pendingWeight}
+                        error={scale.error}
+                        onConnect={(type) => void scale.connect(type)}
+                        onDisconnect={() => void scale.disconnect()}
+                        onAutoSubmitChange={scale.setAutoSubmit}
+                        onConfirmPending={scale.confirmPending}
+                        onDiscardPending={scale.discardPending}
+                    />
+
                     {/* Progress Indicator */}
                     <div
                         className="weighing-screen__progress"
                         style={{ '--progress-color': activeCategory.color || '#10b981' } as React.CSSProperties}
                     >
                         <div className="progress-bar">
-                            {Array.from({ length: BATCH_SIZE }).map((_, idx) => (
+                            {Array.from({ length: currentBatchSize }).map((_, idx) => (
                                 <div
                                     key={idx}
                                     className={`progress-dot ${idx < currentProgress ? 'filled' : ''} ${idx === currentProgress ? 'current' : ''}`}
@@ -201,12 +430,39 @@ export function WeighingScreen({ onWeightSubmit }: WeighingScreenProps) {
                             ))}
                         </div>
                         <span className="progress-text">
+                            {sharedCode && `👥 ${sharedCode} · `}
                             {currentProgress === 0
                                 ? `${getModeVerb()}: ${activeEntity?.name || 'Sin selección'}`
-                                : `${BATCH_SIZE - currentProgress} restantes para cerrar lote`}
+                                : `${currentBatchSize - currentProgress} restantes para cerrar lote`}
                         </span>
+                        <select
+                            className="progress-size"
+                            value={activeCategory.batchSize ?? ''}
+                            onChange={(e) => setCategoryBatchSize(
+                                activeCategory.id,
+                                e.target.value ? Number(e.target.value) : null
+                            )}
+                            aria-label="Sacos por lote"
+                        >
+                            <option value="">Lote de {defaultBatchSize} (predeterminado)</option>
+                            {BATCH_SIZE_OPTIONS.map((size) => (
+                                <option key={size} value={size}>
+                                    Lote de {size}
+                                </option>
+                            ))}
+                        </select>
                     </div>
 
+                    {/* Voice Dictation (only where the browser supports it) */}
+                    {voice.isSupported && (
+                        <VoiceButton
+                            isListening={voice.isListening}
+                            transcript={voice.transcript}
+                            onStart={voice.startListening}
+                            onStop={voice.stopListening}
+                        />
+                    )}
+
                     {/* Keypad Area */}
                     <div className="weighing-screen__keypad">
                         <NumericKeypad
@@ -226,8 +482,12 @@ export function WeighingScreen({ onWeightSubmit }: WeighingScreenProps) {
                         totalEntries={getTotalEntries()}
                         categoryName={activeCategory.name}
                         categoryColor={activeCategory.color}
-                        onDeleteWeight={handleDeleteWeight}
-                        onUpdateWeight={handleUpdateWeight}
+                        deduction={resolveDeduction(activeCategory, activeEntity)}
+                        onDeleteWeight={isLocked ? undefined : handleDeleteWeight}
+                        onUpdateWeight={isLocked ? undefined : handleUpdateWeight}
+                        onReviewWeight={isLocked ? undefined : handleReviewWeight}
+                        onMoveEntries={isLocked ? undefined : setMovingEntryIds}
+                        onInsertWeight={isLocked ? undefined : handleInsertWeight}
                     />
                 </div>
             )}
@@ -241,6 +501,33 @@ export function WeighingScreen({ onWeightSubmit }: WeighingScreenProps) {
                     <span className="quick-stats__arrow">→</span>
                 </button>
             )}
+
+            {/* Outlier Confirmation Modal */}
+            <ConfirmModal
+                isOpen={pendingOutlier !== null}
+                onClose={() => setPendingOutlier(null)}
+                onConfirm={handleConfirmOutlier}
+                title="⚠️ ¿Peso correcto?"
+                message={pendingOutlier
+                    ? `${pendingOutlier.value} kg está lejos del peso habitual de ${activeCategory.name} ` +
+                      `(~${pendingOutlier.median.toFixed(1)} kg, normal entre ${pendingOutlier.lower.toFixed(1)} ` +
+                      `y ${pendingOutlier.upper.toFixed(1)} kg). Si lo registras quedará marcado para revisión.`
+                    : ''}
+                variant="danger"
+                confirmText="Sí, registrar"
+                cancelText="Corregir"
+            />
+
+            {/* Move Weights Modal */}
+            <MoveEntriesModal
+                isOpen={movingEntryIds !== null}
+                onClose={() => setMovingEntryIds(null)}
+                onConfirm={handleMoveEntries}
+                entryCount={movingEntryIds?.length ?? 0}
+                categories={categories}
+                sourceEntityId={activeEntityId}
+                sourceCategoryId={activeCategoryId}
+            />
         </div>
     );
 }
@@ -1,24 +1,43 @@
 import { useState, useCallback, useMemo } from 'react';
-import type { Batch, WeightEntry } from '../../../types/domain';
-import { BATCH_SIZE } from '../../../types/domain';
+import type { Batch, NetWeight, WeightDeduction, WeightEntry } from '../../../types/domain';
+import { QUALITY_GRADE_MARKS } from '../../../types/domain';
+import { getBatchCapacity } from '../../../utils/batchUtils';
+import { applyDeduction, hasDeduction, NO_DEDUCTION } from '../../../utils/deductionUtils';
 import { ConfirmModal } from '../../../components/ui/ConfirmModal';
+import { InputModal } from '../../../components/ui/InputModal';
 import { ContextMenu, type ContextMenuOption } from '../../../components/ui/ContextMenu';
 import './BatchList.css';
 
+/**
+ * Where a skipped weight goes: before the entry at `position` of the batch
+ */
+interface InsertPosition {
+    batchId: string;
+    position: number;
+}
+
 interface BatchListProps {
     batches: Batch[];
     totalWeight: number;
     totalEntries: number;
     categoryName?: string;
     categoryColor?: string;
+    deduction?: WeightDeduction;    // Tare and shrinkage for this category/entity
     onDeleteWeight?: (entryId: string) => void;
     onUpdateWeight?: (entryId: string, newValue: number) => void;
+    onReviewWeight?: (entryId: string) => void;
+    onMoveEntries?: (entryIds: string[]) => void;   // Opens the move dialog for a weight or a batch
+    onInsertWeight?: (batchId: string, position: number, value: number) => void;
 }
 
 /**
  * BatchList - Visual display of weight batches for a category
  * Shows closed batches with subtotals and open batch with progress
+ * Gross, tare/shrinkage and net weight are shown when a deduction applies
  * Supports inline editing and deletion of individual weights
+ * Accepted outliers are marked until they are edited or reviewed
+ * Single weights or whole batches can be moved to another entity/category
+ * A skipped sack can be inserted before any weight, shifting the later ones
  */
 export function BatchList({
     batches,
@@ -26,12 +45,18 @@ export function BatchList({
     totalEntries,
     categoryName,
     categoryColor = '#10b981',
+    deduction = NO_DEDUCTION,
     onDeleteWeight,
     onUpdateWeight,
+    onReviewWeight,
+    onMoveEntries,
+    onInsertWeight,
 }: BatchListProps) {
     // Reverse to show most recent first
     const reversedBatches = [...batches].reverse();
     const closedBatchCount = batches.filter((b) => b.status === 'closed').length;
+    const showDeduction = hasDeduction(deduction);
+    const totalNet = applyDeduction(totalWeight, totalEntries, deduction);
 
     // Editing state
     const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
@@ -40,6 +65,9 @@ export function BatchList({
     // Delete confirmation modal state
     const [deletingEntryId, setDeletingEntryId] = useState<string | null>(null);
 
+    // Insert modal state (position of the new weight in its batch)
+    const [insertAt, setInsertAt] = useState<InsertPosition | null>(null);
+
     const handleEditStart = useCallback((entry: WeightEntry) => {
         setEditingEntryId(entry.id);
         setEditValue(entry.value.toString());
@@ -79,6 +107,12 @@ export function BatchList({
         setDeletingEntryId(null);
     }, []);
 
+    const handleInsertConfirm = useCallback((value: string) => {
+        if (insertAt) {
+            onInsertWeight?.(insertAt.batchId, insertAt.position, parseFloat(value));
+        }
+    }, [insertAt, onInsertWeight]);
+
     const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
         if (e.key === 'Enter') {
             handleEditConfirm();
@@ -102,7 +136,7 @@ export function BatchList({
             {/* Summary Header */}
             <div className="batch-list__summary">
                 <div className="summary-stat">
-                    <span className="summary-label">Total</span>
+                    <span className="summary-label">{showDeduction ? 'Bruto' : 'Total'}</span>
                     <span className="summary-value">{totalWeight.toFixed(1)} kg</span>
                 </div>
                 <div className="summary-stat">
@@ -115,6 +149,11 @@ export function BatchList({
                 </div>
             </div>
 
+            {/* Net weight after tare and shrinkage */}
+            {showDeduction && totalEntries > 0 && (
+                <NetWeightLine weight={totalNet} className="batch-list__net" />
+            )}
+
             {/* Batch Items */}
             <div className="batch-list__items">
                 {totalEntries === 0 ? (
@@ -128,6 +167,7 @@ export function BatchList({
                         <BatchItem
                             key={batch.id}
                             batch={batch}
+                            deduction={showDeduction ? deduction : null}
                             editingEntryId={editingEntryId}
                             editValue={editValue}
                             onEditStart={handleEditStart}
@@ -135,6 +175,9 @@ export function BatchList({
                             onEditConfirm={handleEditConfirm}
                             onEditValueChange={setEditValue}
                             onDelete={handleDeleteClick}
+                            onReview={onReviewWeight}
+                            onMove={onMoveEntries}
+                            onInsert={onInsertWeight ? setInsertAt : undefined}
                             onKeyDown={handleKeyDown}
                             canEdit={!!onUpdateWeight}
                             canDelete={!!onDeleteWeight}
@@ -152,12 +195,24 @@ export function BatchList({
                 message="¿Estás seguro de eliminar este peso? Esta acción no se puede deshacer."
                 variant="danger"
             />
+
+            {/* Insert Weight Modal */}
+            <InputModal
+                isOpen={insertAt !== null}
+                onClose={() => setInsertAt(null)}
+                onConfirm={handleInsertConfirm}
+                title={insertAt ? `Insertar peso en la posición ${insertAt.position + 1}` : ''}
+                inputType="number"
+                placeholder="kg"
+                confirmText="Insertar"
+            />
         </div>
     );
 }
 
 interface BatchItemProps {
     batch: Batch;
+    deduction: WeightDeduction | null;
     editingEntryId: string | null;
     editValue: string;
     onEditStart: (entry: WeightEntry) => void;
@@ -165,6 +220,9 @@ interface BatchItemProps {
     onEditConfirm: () => void;
     onEditValueChange: (value: string) => void;
     onDelete: (entryId: string) => void;
+    onReview?: (entryId: string) => void;
+    onMove?: (entryIds: string[]) => void;
+    onInsert?: (insertAt: InsertPosition) => void;
     onKeyDown: (e: React.KeyboardEvent) => void;
     canEdit: boolean;
     canDelete: boolean;
@@ -175,6 +233,7 @@ interface BatchItemProps {
  */
 function BatchItem({
     batch,
+    deduction,
     editingEntryId,
     editValue,
     onEditStart,
@@ -182,13 +241,17 @@ function BatchItem({
     onEditConfirm,
     onEditValueChange,
     onDelete,
+    onReview,
+    onMove,
+    onInsert,
     onKeyDown,
     canEdit,
     canDelete,
 }: BatchItemProps) {
     const isClosed = batch.status === 'closed';
     const entriesCount = batch.entries.length;
-    const progress = `${entriesCount}/${BATCH_SIZE}`;
+    const capacity = getBatchCapacity(batch);
+    const progress = `${entriesCount}/${capacity}`;
 
     // Don't render empty open batches
     if (!isClosed && entriesCount === 0) {
@@ -219,6 +282,18 @@ function BatchItem({
                         ∑ {partialSum.toFixed(1)} kg
                     </span>
                 )}
+                {/* Move the whole batch */}
+                {onMove && (
+                    <ContextMenu
+                        options={[{
+                            id: 'move-batch',
+                            icon: '↪️',
+                            label: 'Mover Lote',
+                            onClick: () => onMove(batch.entries.map((e) => e.id)),
+                            variant: 'default',
+                        }]}
+                    />
+                )}
             </div>
 
             {/* Weight Entries */}
@@ -229,7 +304,14 @@ function BatchItem({
                     return (
                         <div
                             key={entry.id}
-                            className={`weight-entry ${isEditing ? 'weight-entry--editing' : ''}`}
+                            className={[
+                                'weight-entry',
+                                isEditing && 'weight-entry--editing',
+                                entry.outlier && 'weight-entry--outlier',
+                            ].filter(Boolean).join(' ')}
+                            title={entry.outlier
+                                ? 'Peso atípico: revisar antes de liquidar'
+                                : entry.deviceName ? `Registrado por ${entry.deviceName}` : undefined}
                         >
                             <span className="weight-entry__index">{index + 1}</span>
 
@@ -249,17 +331,24 @@ function BatchItem({
                                 <div className="weight-entry__content">
                                     <span className="weight-entry__value">{entry.value}</span>
                                     <span className="weight-entry__unit">kg</span>
+                                    {entry.grade && (
+                                        <span className="weight-entry__grade">{QUALITY_GRADE_MARKS[entry.grade]}</span>
+                                    )}
+                                    {entry.outlier && <span className="weight-entry__flag">⚠️</span>}
                                 </div>
                             )}
 
                             {/* Context Menu for actions */}
-                            {(canEdit || canDelete) && !isEditing && (
+                            {(canEdit || canDelete || onMove || onInsert) && !isEditing && (
                                 <WeightEntryMenu
                                     entry={entry}
                                     canEdit={canEdit}
                                     canDelete={canDelete}
                                     onEditStart={onEditStart}
                                     onDelete={onDelete}
+                                    onReview={onReview}
+                                    onMove={onMove}
+                                    onInsertBefore={onInsert && (() => onInsert({ batchId: batch.id, position: index }))}
                                 />
                             )}
 
@@ -289,7 +378,7 @@ function BatchItem({
                 })}
 
                 {/* Empty slots for open batch */}
-                {!isClosed && Array.from({ length: BATCH_SIZE - entriesCount }).map((_, index) => (
+                {!isClosed && Array.from({ length: Math.max(0, capacity - entriesCount) }).map((_, index) => (
                     <div key={`empty-${index}`} className="weight-entry weight-entry--empty">
                         <span className="weight-entry__index">{entriesCount + index + 1}</span>
                         <span className="weight-entry__placeholder">—</span>
@@ -305,13 +394,34 @@ function BatchItem({
                     <span className="total-bar__unit">kg</span>
                 </div>
             )}
+
+            {/* Net weight of the closed batch */}
+            {isClosed && batch.subtotal !== null && deduction && (
+                <NetWeightLine
+                    weight={applyDeduction(batch.subtotal, entriesCount, deduction)}
+                    className="batch-item__net"
+                />
+            )}
+        </div>
+    );
+}
+
+/**
+ * NetWeightLine - "Tara −x · Merma −y · Neto z kg"
+ */
+function NetWeightLine({ weight, className }: { weight: NetWeight; className: string }) {
+    return (
+        <div className={className}>
+            {weight.tare > 0 && <span>Tara −{weight.tare.toFixed(1)}</span>}
+            {weight.shrinkage > 0 && <span>Merma −{weight.shrinkage.toFixed(1)}</span>}
+            <strong>Neto {weight.net.toFixed(1)} kg</strong>
         </div>
     );
 }
 
 /**
  * WeightEntryMenu - Context menu for individual weight entries
- * Provides Edit and Delete options in a compact three-dot menu
+ * Provides Edit, Insert, Move and Delete options in a compact three-dot menu
  */
 interface WeightEntryMenuProps {
     entry: WeightEntry;
@@ -319,6 +429,9 @@ interface WeightEntryMenuProps {
     canDelete: boolean;
     onEditStart: (entry: WeightEntry) => void;
     onDelete: (entryId: string) => void;
+    onReview?: (entryId: string) => void;
+    onMove?: (entryIds: string[]) => void;
+    onInsertBefore?: () => void;
 }
 
 function WeightEntryMenu({
@@ -327,10 +440,23 @@ function WeightEntryMenu({
     canDelete,
     onEditStart,
     onDelete,
+    onReview,
+    onMove,
+    onInsertBefore,
 }: WeightEntryMenuProps) {
     const menuOptions = useMemo<ContextMenuOption[]>(() => {
         const options: ContextMenuOption[] = [];
 
+        if (entry.outlier && onReview) {
+            options.push({
+                id: 'review',
+                icon: '✅',
+                label: 'Peso Correcto',
+                onClick: () => onReview(entry.id),
+                variant: 'default',
+            });
+        }
+
         if (canEdit) {
             options.push({
                 id: 'edit',
@@ -341,6 +467,26 @@ function WeightEntryMenu({
             });
         }
 
+        if (onInsertBefore) {
+            options.push({
+                id: 'insert',
+                icon: '➕',
+                label: 'Insertar Peso Antes',
+                onClick: onInsertBefore,
+                variant: 'default',
+            });
+        }
+
+        if (onMove) {
+            options.push({
+                id: 'move',
+                icon: '↪️',
+                label: 'Mover Peso',
+                onClick: () => onMove([entry.id]),
+                variant: 'default',
+            });
+        }
+
         if (canDelete) {
             options.push({
                 id: 'delete',
@@ -352,7 +498,7 @@ function WeightEntryMenu({
         }
 
         return options;
-    }, [canEdit, canDelete, entry, onEditStart, onDelete]);
+    }, [canEdit, canDelete, entry, onEditStart, onDelete, onReview, onMove, onInsertBefore]);
 
     return <ContextMenu options={menuOptions} />;
 }
@@ -8,12 +8,15 @@ interface BigDisplayProps {
     lastWeight?: number | null;
     batchCount?: number;
     categoryColor?: string;
+    isLive?: boolean;     // Value comes from a connected scale
+    isStable?: boolean;   // Live reading has settled
 }
 
 /**
  * BigDisplay - Industrial weight display component
  * Features high contrast, large monospace numbers for visibility
  * Shows last completed batch subtotal, last weight, and batch count
+ * When a scale is connected, shows its live reading and stability state
  */
 export function BigDisplay({
     value,
@@ -22,13 +25,22 @@ export function BigDisplay({
     lastBatchSubtotal,
     lastWeight,
     batchCount = 0,
-    categoryColor = '#10b981'
+    categoryColor = '#10b981',
+    isLive = false,
+    isStable = false,
 }: BigDisplayProps) {
     const displayValue = value || '0';
 
     return (
         <div className="big-display" style={{ '--category-color': categoryColor } as React.CSSProperties}>
-            <span className="big-display__label">{label}</span>
+            <span className="big-display__label">
+                {isLive && (
+                    <span className={`big-display__live ${isStable ? 'big-display__live--stable' : ''}`}>
+                        {isStable ? '● ESTABLE' : '○ MIDIENDO'}
+                    </span>
+                )}
+                {label}
+            </span>
             <div className="big-display__value-container">
                 <span className="big-display__value">{displayValue}</span>
                 <span className="big-display__unit">{unit}</span>
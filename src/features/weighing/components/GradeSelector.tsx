@@ -0,0 +1,43 @@
+import type { QualityGrade } from '../../../types/domain';
+import { QUALITY_GRADES, QUALITY_GRADE_LABELS } from '../../../types/domain';
+import './GradeSelector.css';
+
+interface GradeSelectorProps {
+    activeGrade: QualityGrade | null;
+    onSelectGrade: (grade: QualityGrade | null) => void;
+}
+
+/**
+ * GradeSelector - Quality grade stamped on the next weights of the category
+ * "Sin grado" weighs ungraded sacks (paid at the category price)
+ */
+export function GradeSelector({ activeGrade, onSelectGrade }: GradeSelectorProps) {
+    return (
+        <div className="grade-selector" role="radiogroup" aria-label="Grado de calidad">
+            <span className="grade-selector__label">Grado</span>
+            <button
+                type="button"
+                role="radio"
+                aria-checked={activeGrade === null}
+                className={`grade-chip ${activeGrade === null ? 'active' : ''}`}
+                onClick={() => onSelectGrade(null)}
+            >
+                Sin grado
+            </button>
+            {QUALITY_GRADES.map((grade) => (
+                <button
+                    key={grade}
+                    type="button"
+                    role="radio"
+                    aria-checked={activeGrade === grade}
+                    className={`grade-chip ${activeGrade === grade ? 'active' : ''}`}
+                    onClick={() => onSelectGrade(grade)}
+                >
+                    {QUALITY_GRADE_LABELS[grade]}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+export default GradeSelector;
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import type { Category } from '../../../types/domain';
+import { useSession } from '../../../context/SessionContext';
+import { Modal } from '../../../components/ui/Modal';
+import './MoveEntriesModal.css';
+
+interface MoveEntriesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onConfirm: (entityId: string, categoryId: string) => void;
+    entryCount: number;
+    categories: Category[];
+    sourceEntityId: string;         // Preselected (weights usually change only one of the two)
+    sourceCategoryId?: string;
+}
+
+/**
+ * MoveEntriesModal - Pick the entity and category to move weights to
+ * Used from the weighing batch menus and the notebook selection
+ */
+export function MoveEntriesModal({ isOpen, onClose, ...formProps }: MoveEntriesModalProps) {
+    return (
+        <Modal isOpen={isOpen} onClose={onClose}>
+            {/* Mounted on open so the selects start from the source every time */}
+            <MoveEntriesForm onClose={onClose} {...formProps} />
+        </Modal>
+    );
+}
+
+function MoveEntriesForm({
+    onClose,
+    onConfirm,
+    entryCount,
+    categories,
+    sourceEntityId,
+    sourceCategoryId,
+}: Omit<MoveEntriesModalProps, 'isOpen'>) {
+    const { entities, mode } = useSession();
+    const [entityId, setEntityId] = useState(sourceEntityId);
+    const [categoryId, setCategoryId] = useState(sourceCategoryId ?? categories[0]?.id ?? '');
+
+    const isSameTarget = entityId === sourceEntityId && categoryId === sourceCategoryId;
+    const entityLabel = mode === 'DESCARGA' ? 'Dueño/Agricultor' : 'Comprador';
+
+    const handleConfirm = () => {
+        if (isSameTarget || !categoryId) return;
+        onConfirm(entityId, categoryId);
+        onClose();
+    };
+
+    return (
+        <>
+            <div className="modal-header">
+                <h2 className="modal-title">
+                    {entryCount === 1 ? 'Mover 1 peso' : `Mover ${entryCount} pesos`}
+                </h2>
+            </div>
+            <div className="modal-body move-entries">
+                <label className="move-entries__field">
+                    <span className="move-entries__label">{entityLabel}</span>
+                    <select
+                        className="modal-input"
+                        value={entityId}
+                        onChange={(e) => setEntityId(e.target.value)}
+                    >
+                        {entities.map((entity) => (
+                            <option key={entity.id} value={entity.id}>{entity.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="move-entries__field">
+                    <span className="move-entries__label">Categoría</span>
+                    <select
+                        className="modal-input"
+                        value={categoryId}
+                        onChange={(e) => setCategoryId(e.target.value)}
+                    >
+                        {categories.map((category) => (
+                            <option key={category.id} value={category.id}>{category.name}</option>
+                        ))}
+                    </select>
+                </label>
+                <p className="move-entries__hint">
+                    {isSameTarget
+                        ? 'Elige otra entidad o categoría.'
+                        : 'Los lotes de ambos lados se reordenan por hora de registro.'}
+                </p>
+            </div>
+            <div className="modal-actions">
+                <button
+                    type="button"
+                    className="modal-btn modal-btn--cancel"
+                    onClick={onClose}
+                >
+                    Cancelar
+                </button>
+                <button
+                    type="button"
+                    className="modal-btn modal-btn--primary"
+                    onClick={handleConfirm}
+                    disabled={isSameTarget}
+                >
+                    Mover
+                </button>
+            </div>
+        </>
+    );
+}
+
+export default MoveEntriesModal;
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import type { ScaleDriverType } from '../../../services/scale';
+import { isSerialSupported, isBluetoothSupported } from '../../../services/scale';
+import type { ScaleStatus } from '../hooks/useScale';
+import './ScalePanel.css';
+
+interface ScalePanelProps {
+    status: ScaleStatus;
+    driverType: ScaleDriverType;
+    autoSubmit: boolean;
+    pendingWeight: number | null;
+    error: string | null;
+    onConnect: (driverType: ScaleDriverType) => void;
+    onDisconnect: () => void;
+    onAutoSubmitChange: (autoSubmit: boolean) => void;
+    onConfirmPending: () => void;
+    onDiscardPending: () => void;
+}
+
+const DRIVER_LABELS: Record<ScaleDriverType, string> = {
+    serial: '🔌 Cable (Serial)',
+    bluetooth: '📶 Bluetooth',
+    simulated: '🧪 Simulada',
+};
+
+/**
+ * ScalePanel - Connection bar for a digital scale
+ * Connect/disconnect, choose auto-register or confirm mode,
+ * and confirm the stable weight when auto-register is off
+ */
+export function ScalePanel({
+    status,
+    driverType,
+    autoSubmit,
+    pendingWeight,
+    error,
+    onConnect,
+    onDisconnect,
+    onAutoSubmitChange,
+    onConfirmPending,
+    onDiscardPending,
+}: ScalePanelProps) {
+    const [selectedDriver, setSelectedDriver] = useState<ScaleDriverType>(driverType);
+
+    const isConnected = status === 'connected';
+    const isConnecting = status === 'connecting';
+
+    const isDriverSupported = (type: ScaleDriverType) => {
+        if (type === 'serial') return isSerialSupported();
+        if (type === 'bluetooth') return isBluetoothSupported();
+        return true;
+    };
+
+    return (
+        <div className="scale-panel">
+            <div className="scale-panel__row">
+                <span className={`scale-panel__status scale-panel__status--${status}`} />
+
+                {isConnected ? (
+                    <span className="scale-panel__label">{DRIVER_LABELS[driverType]}</span>
+                ) : (
+                    <select
+                        className="scale-panel__select"
+                        value={selectedDriver}
+                        onChange={(e) => setSelectedDriver(e.target.value as ScaleDriverType)}
+                        disabled={isConnecting}
+                        aria-label="Tipo de balanza"
+                    >
+                        {(Object.keys(DRIVER_LABELS) as ScaleDriverType[]).map((type) => (
+                            <option key={type} value={type} disabled={!isDriverSupported(type)}>
+                                {DRIVER_LABELS[type]}
+                            </option>
+                        ))}
+                    </select>
+                )}
+
+                <label className="scale-panel__toggle">
+                    <input
+                        type="checkbox"
+                        checked={autoSubmit}
+                        onChange={(e) => onAutoSubmitChange(e.target.checked)}
+                    />
+                    <span>Auto</span>
+                </label>
+
+                <button
+                    type="button"
+                    className={`scale-panel__btn ${isConnected ? 'scale-panel__btn--disconnect' : ''}`}
+                    onClick={() => (isConnected ? onDisconnect() : onConnect(selectedDriver))}
+                    disabled={isConnecting}
+                >
+                    {isConnected ? 'Desconectar' : isConnecting ? 'Conectando...' : '⚖️ Conectar'}
+                </button>
+            </div>
+
+            {/* Confirmation of a stable reading (auto-register off) */}
+            {isConnected && pendingWeight !== null && (
+                <div className="scale-panel__pending">
+                    <button
+                        type="button"
+                        className="scale-panel__confirm"
+                        onClick={onConfirmPending}
+                    >
+                        ✓ Registrar {pendingWeight} kg
+                    </button>
+                    <button
+                        type="button"
+                        className="scale-panel__discard"
+                        onClick={onDiscardPending}
+                        aria-label="Descartar lectura"
+                    >
+                        ✕
+                    </button>
+                </div>
+            )}
+
+            {error && <div className="scale-panel__error">{error}</div>}
+        </div>
+    );
+}
+
+export default ScalePanel;
@@ -0,0 +1,61 @@
+import './VoiceButton.css';
+
+interface VoiceButtonProps {
+    isListening: boolean;
+    transcript?: string;
+    onStart: () => void;
+    onStop: () => void;
+    disabled?: boolean;
+}
+
+/**
+ * VoiceButton - Push-to-talk control for dictating weights
+ * Hold to speak ("cuarenta y siete punto cinco"), release to register
+ * Large target so it can be pressed with gloves
+ */
+export function VoiceButton({
+    isListening,
+    transcript,
+    onStart,
+    onStop,
+    disabled = false,
+}: VoiceButtonProps) {
+    const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>) => {
+        if (disabled) return;
+        // Keep receiving pointerup even if the finger slides off the button
+        e.currentTarget.setPointerCapture(e.pointerId);
+        onStart();
+    };
+
+    const handlePointerUp = () => {
+        if (isListening) {
+            onStop();
+        }
+    };
+
+    return (
+        <div className="voice-button">
+            <button
+                type="button"
+                className={`voice-button__btn ${isListening ? 'voice-button__btn--listening' : ''}`}
+                onPointerDown={handlePointerDown}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onContextMenu={(e) => e.preventDefault()}
+                disabled={disabled}
+                aria-label="Mantener presionado para dictar peso"
+                aria-pressed={isListening}
+            >
+                <span className="voice-button__icon">🎤</span>
+                <span className="voice-button__text">
+                    {isListening ? 'Escuchando...' : 'Mantener para dictar'}
+                </span>
+            </button>
+            {transcript && (
+                <span className="voice-button__transcript">“{transcript}”</span>
+            )}
+        </div>
+    );
+}
+
+export default VoiceButton;
@@ -0,0 +1,202 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+    createScaleDriver,
+    createStabilityDetector,
+    type ScaleDriver,
+    type ScaleDriverType,
+    type ScaleReading,
+} from '../../../services/scale';
+import { ALL_STORAGE_KEYS, loadFromStorage, saveToStorage } from '../../../services/storage';
+import { isRecord } from '../../../utils/validation';
+
+// ============================================
+// Constants
+// ============================================
+
+/** Below this weight the platform is considered empty (ready for the next sack) */
+const EMPTY_THRESHOLD_KG = 0.5;
+
+export type ScaleStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+interface ScaleSettings {
+    driver: ScaleDriverType;
+    autoSubmit: boolean;
+}
+
+const SCALE_DRIVERS: ScaleDriverType[] = ['serial', 'bluetooth', 'simulated'];
+
+const DEFAULT_SETTINGS: ScaleSettings = { driver: 'serial', autoSubmit: false };
+
+/**
+ * Saved settings; a field that is missing or unreadable takes its default
+ */
+function loadSettings(): ScaleSettings {
+    const stored = loadFromStorage<Record<string, unknown>>(ALL_STORAGE_KEYS.SCALE_SETTINGS, {}, isRecord);
+    return {
+        driver: SCALE_DRIVERS.includes(stored.driver as ScaleDriverType)
+            ? stored.driver as ScaleDriverType
+            : DEFAULT_SETTINGS.driver,
+        autoSubmit: typeof stored.autoSubmit === 'boolean' ? stored.autoSubmit : DEFAULT_SETTINGS.autoSubmit,
+    };
+}
+
+// ============================================
+// Hook Definition
+// ============================================
+
+interface UseScaleParams {
+    onStableWeight: (value: number) => void;
+}
+
+/**
+ * Custom hook for reading a digital scale.
+ * Exposes the live reading and submits one weight per sack: after a stable
+ * weight is taken, the platform must return to empty before the next one.
+ */
+export function useScale({ onStableWeight }: UseScaleParams) {
+    const [settings, setSettings] = useState<ScaleSettings>(loadSettings);
+    const [status, setStatus] = useState<ScaleStatus>('disconnected');
+    const [reading, setReading] = useState<ScaleReading | null>(null);
+    const [isStable, setIsStable] = useState(false);
+    const [pendingWeight, setPendingWeight] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const driverRef = useRef<ScaleDriver | null>(null);
+    const cleanupRef = useRef<Array<() => void>>([]);
+    const armedRef = useRef(true);
+
+    // Keep latest values for the reading listener
+    const latestRef = useRef({ onStableWeight, autoSubmit: settings.autoSubmit });
+    useEffect(() => {
+        latestRef.current = { onStableWeight, autoSubmit: settings.autoSubmit };
+    }, [onStableWeight, settings.autoSubmit]);
+
+    // Persist settings
+    useEffect(() => {
+        saveToStorage(ALL_STORAGE_KEYS.SCALE_SETTINGS, settings);
+    }, [settings]);
+
+    const detachDriver = useCallback(() => {
+        cleanupRef.current.forEach(cleanup => cleanup());
+        cleanupRef.current = [];
+        driverRef.current = null;
+    }, []);
+
+    // Disconnect on unmount
+    useEffect(() => {
+        return () => {
+            void driverRef.current?.disconnect();
+            detachDriver();
+        };
+    }, [detachDriver]);
+
+    /**
+     * Connect to the scale using the selected driver
+     */
+    const connect = useCallback(async (driverType: ScaleDriverType = settings.driver) => {
+        if (driverRef.current) return;
+
+        const driver = createScaleDriver(driverType);
+        const detector = createStabilityDetector();
+        armedRef.current = true;
+
+        cleanupRef.current = [
+            driver.onReading((next) => {
+                const stable = detector.push(next);
+                setReading(next);
+                setIsStable(stable);
+
+                if (next.value < EMPTY_THRESHOLD_KG) {
+                    // Platform emptied: ready for the next sack
+                    armedRef.current = true;
+                    setPendingWeight(null);
+                    return;
+                }
+
+                if (stable && armedRef.current) {
+                    armedRef.current = false;
+                    if (latestRef.current.autoSubmit) {
+                        latestRef.current.onStableWeight(next.value);
+                    } else {
+                        setPendingWeight(next.value);
+                    }
+                }
+            }),
+            driver.onDisconnect(() => {
+                detachDriver();
+                setStatus('disconnected');
+                setReading(null);
+                setPendingWeight(null);
+            }),
+        ];
+
+        driverRef.current = driver;
+        setSettings(prev => ({ ...prev, driver: driverType }));
+        setStatus('connecting');
+        setError(null);
+
+        try {
+            await driver.connect();
+            setStatus('connected');
+        } catch (err) {
+            console.error('[SHPL] Scale connection failed:', err);
+            detachDriver();
+            setStatus('error');
+            setError(err instanceof Error ? err.message : 'No se pudo conectar la balanza');
+        }
+    }, [settings.driver, detachDriver]);
+
+    /**
+     * Disconnect the scale
+     */
+    const disconnect = useCallback(async () => {
+        const driver = driverRef.current;
+        detachDriver();
+        await driver?.disconnect();
+        setStatus('disconnected');
+        setReading(null);
+        setIsStable(false);
+        setPendingWeight(null);
+    }, [detachDriver]);
+
+    /**
+     * Accept the pending stable weight (confirmation mode)
+     */
+    const confirmPending = useCallback(() => {
+        if (pendingWeight === null) return;
+        onStableWeight(pendingWeight);
+        setPendingWeight(null);
+    }, [pendingWeight, onStableWeight]);
+
+    /**
+     * Discard the pending stable weight (the sack will be re-read after emptying)
+     */
+    const discardPending = useCallback(() => {
+        setPendingWeight(null);
+    }, []);
+
+    const setAutoSubmit = useCallback((autoSubmit: boolean) => {
+        setSettings(prev => ({ ...prev, autoSubmit }));
+    }, []);
+
+    return {
+        // State
+        status,
+        isConnected: status === 'connected',
+        driverType: settings.driver,
+        autoSubmit: settings.autoSubmit,
+        reading,
+        isStable,
+        pendingWeight,
+        error,
+
+        // Actions
+        connect,
+        disconnect,
+        confirmPending,
+        discardPending,
+        setAutoSubmit,
+    };
+}
+
+export default useScale;
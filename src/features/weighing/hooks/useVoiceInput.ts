@@ -0,0 +1,103 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+    createVoiceRecognizer,
+    isVoiceSupported,
+    parseSpanishNumber,
+    type VoiceRecognizer,
+} from '../../../services/voice';
+
+interface UseVoiceInputParams {
+    onNumber: (value: number, transcript: string) => void;
+    onUnrecognized?: (transcript: string) => void;
+    onError?: (error: string) => void;
+}
+
+/**
+ * Custom hook for push-to-talk weight dictation.
+ * Starts listening on press, stops on release, and converts the final
+ * Spanish transcript into a number.
+ */
+export function useVoiceInput({ onNumber, onUnrecognized, onError }: UseVoiceInputParams) {
+    const [isListening, setIsListening] = useState(false);
+    const [transcript, setTranscript] = useState('');
+
+    const recognizerRef = useRef<VoiceRecognizer | null>(null);
+
+    // Keep latest callbacks without recreating the recognizer
+    const callbacksRef = useRef({ onNumber, onUnrecognized, onError });
+    useEffect(() => {
+        callbacksRef.current = { onNumber, onUnrecognized, onError };
+    }, [onNumber, onUnrecognized, onError]);
+
+    // Abort any running recognition on unmount
+    useEffect(() => {
+        return () => {
+            recognizerRef.current?.abort();
+        };
+    }, []);
+
+    /**
+     * Start listening (button pressed)
+     */
+    const startListening = useCallback(() => {
+        if (recognizerRef.current) return;
+
+        const recognizer = createVoiceRecognizer({
+            onTranscript: (text, isFinal) => {
+                setTranscript(text);
+                if (!isFinal) return;
+
+                const value = parseSpanishNumber(text);
+                if (value !== null && value > 0) {
+                    callbacksRef.current.onNumber(value, text);
+                } else {
+                    callbacksRef.current.onUnrecognized?.(text);
+                }
+            },
+            onError: (error) => {
+                // 'no-speech' and 'aborted' are normal when releasing quickly
+                if (error !== 'no-speech' && error !== 'aborted') {
+                    callbacksRef.current.onError?.(error);
+                }
+            },
+            onEnd: () => {
+                recognizerRef.current = null;
+                setIsListening(false);
+            },
+        });
+
+        if (!recognizer) {
+            callbacksRef.current.onError?.('not-supported');
+            return;
+        }
+
+        recognizerRef.current = recognizer;
+        setTranscript('');
+        setIsListening(true);
+
+        try {
+            recognizer.start();
+        } catch (error) {
+            console.error('Error starting voice recognition:', error);
+            recognizerRef.current = null;
+            setIsListening(false);
+        }
+    }, []);
+
+    /**
+     * Stop listening (button released) - the final result still arrives
+     */
+    const stopListening = useCallback(() => {
+        recognizerRef.current?.stop();
+    }, []);
+
+    return {
+        isSupported: isVoiceSupported(),
+        isListening,
+        transcript,
+        startListening,
+        stopListening,
+    };
+}
+
+export default useVoiceInput;
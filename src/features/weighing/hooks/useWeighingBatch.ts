@@ -1,38 +1,76 @@
-import { useState, useCallback, useMemo, useEffect } from 'react';
-import type { Batch, WeightEntry, Category } from '../../../types/domain';
+import { useState, useCallback, useMemo, useEffect, useRef, useSyncExternalStore } from 'react';
+import type { AuditAction, Batch, WeightEntry, Category, QualityGrade, WeightDeduction } from '../../../types/domain';
 import { BATCH_SIZE, DEFAULT_CATEGORY, CATEGORY_COLORS, generateId } from '../../../types/domain';
 import { safeSum } from '../../../utils/math';
+import {
+    ALL_STORAGE_KEYS,
+    loadFromStorage,
+    loadListFromStorage,
+    saveToStorage,
+    removeFromStorage,
+    subscribeRemoteChanges,
+} from '../../../services/storage';
+import { getDeviceId, getDeviceName } from '../../../services/device';
+import { appendAuditRecord, appendAuditRecords, type AuditDraft } from '../../../services/audit';
+import {
+    getJournalState,
+    recordAction,
+    redoLastAction,
+    subscribeJournal,
+    undoLastAction,
+    type JournalSnapshot,
+} from '../../../services/journal';
+import {
+    publishSharedChange,
+    subscribeSharedEntries,
+    subscribeSharedCategories,
+} from '../../../services/collab';
+import { getSettlements, subscribeSettlements } from '../../../services/settlements';
+import {
+    buildBatchesByKey,
+    compareEntries,
+    diffEntries,
+    flattenEntries,
+    getBatchCapacity,
+    getCategoryBatchSize,
+    getEntryKey,
+    reflowBatches,
+    restoreEntries,
+    timestampBetween,
+} from '../../../utils/batchUtils';
+import { isValidDeduction, withDeduction } from '../../../utils/deductionUtils';
+import { checkOutlier, clearOutlierMark, getWeightStats, type OutlierCheck } from '../../../utils/outlierUtils';
+import { getLockedEntityIds, touchesLockedEntity } from '../../../utils/settlementUtils';
+import { isBatch, isCategory, isQualityGrade, isString, isStringArray } from '../../../utils/validation';
 
 // ============================================
-// localStorage Keys
+// Storage Keys
 // ============================================
 const STORAGE_KEYS = {
-    CATEGORIES: 'shpl_categories',
-    ACTIVE_CATEGORY: 'shpl_active_category', // Track selected category
-    BATCHES_PREFIX: 'shpl_batches_', // Suffix: entityId:categoryId
-    ALL_BATCH_KEYS: 'shpl_batch_keys', // Track all batch keys for cleanup
+    CATEGORIES: ALL_STORAGE_KEYS.CATEGORIES,
+    ACTIVE_CATEGORY: ALL_STORAGE_KEYS.ACTIVE_CATEGORY, // Track selected category
+    ACTIVE_GRADE: ALL_STORAGE_KEYS.ACTIVE_GRADE, // Grade stamped on new weights (null = ungraded)
+    BATCHES_PREFIX: ALL_STORAGE_KEYS.BATCHES_PREFIX, // Suffix: entityId:categoryId
+    ALL_BATCH_KEYS: ALL_STORAGE_KEYS.ALL_BATCH_KEYS, // Track all batch keys for cleanup
 } as const;
 
 // ============================================
-// Helper Functions
+// Types
 // ============================================
 
-function loadFromStorage<T>(key: string, defaultValue: T): T {
-    try {
-        const stored = localStorage.getItem(key);
-        return stored ? JSON.parse(stored) : defaultValue;
-    } catch {
-        return defaultValue;
-    }
+/**
+ * Outcome of moving weights: how many moved, or why none did
+ * (invalid: unknown target; unchanged: already in that entity and category;
+ * locked: a finalized settlement's weights are involved)
+ */
+export interface MoveResult {
+    moved: number;
+    blocked: 'invalid' | 'unchanged' | 'locked' | null;
 }
 
-function saveToStorage<T>(key: string, value: T): void {
-    try {
-        localStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-        console.error('Error saving to localStorage:', error);
-    }
-}
+// ============================================
+// Helper Functions
+// ============================================
 
 /**
  * Generate composite storage key for entity + category batches
@@ -41,6 +79,70 @@ function getBatchStorageKey(entityId: string, categoryId: string): string {
     return `${STORAGE_KEYS.BATCHES_PREFIX}${entityId}:${categoryId}`;
 }
 
+/**
+ * Every saved batch list, indexed by entityId:categoryId
+ */
+function loadBatchesByKey(): Record<string, Batch[]> {
+    // Load all known batch keys and their data
+    const keys = loadFromStorage<string[]>(STORAGE_KEYS.ALL_BATCH_KEYS, [], isStringArray);
+    const loaded: Record<string, Batch[]> = {};
+
+    for (const key of keys) {
+        const batches = loadListFromStorage(key, [], isBatch);
+        if (batches.length > 0) {
+            // Extract the composite key from storage key (remove prefix)
+            const compositeKey = key.replace(STORAGE_KEYS.BATCHES_PREFIX, '');
+            loaded[compositeKey] = batches;
+        }
+    }
+
+    return loaded;
+}
+
+function isEntry(entry: WeightEntry | null): entry is WeightEntry {
+    return entry !== null;
+}
+
+/**
+ * Audit record for a change to one weight entry
+ */
+function auditEntry(
+    action: AuditAction,
+    entry: WeightEntry,
+    categories: Category[],
+    previousValue: number | null,
+    newValue: number | null,
+    note?: string
+): AuditDraft {
+    return {
+        action,
+        entityId: entry.entityId,
+        categoryId: entry.categoryId,
+        categoryName: categories.find((c) => c.id === entry.categoryId)?.name,
+        entryId: entry.id,
+        previousValue,
+        newValue,
+        ...(note && { note }),
+    };
+}
+
+/**
+ * Audit records for a weight moved to another entity:category
+ * (one for the entity it left, one for the entity it joined)
+ */
+function auditMove(entry: WeightEntry, moved: WeightEntry, categories: Category[], note?: string): AuditDraft[] {
+    const nameOf = (categoryId: string) => categories.find((c) => c.id === categoryId)?.name ?? 'Sin categoría';
+    const otherEntity = entry.entityId !== moved.entityId ? ' (otra entidad)' : '';
+    const withNote = (text: string) => (note ? `${text} · ${note}` : text);
+
+    return [
+        auditEntry('weight-moved', entry, categories, entry.value, null,
+            withNote(`Movido a ${nameOf(moved.categoryId)}${otherEntity}`)),
+        auditEntry('weight-moved', moved, categories, null, moved.value,
+            withNote(`Movido desde ${nameOf(entry.categoryId)}${otherEntity}`)),
+    ];
+}
+
 /**
  * Create a new empty batch for an entity + category combination
  */
@@ -54,7 +156,7 @@ const createNewBatch = (entityId: string, categoryId: string): Batch => ({
 });
 
 /**
- * Calculate the sum of all entries in a batch using safe math
+ * Calculate the sum of all entries in a batch using exact decimal math
  * Prevents floating-point errors (e.g., 0.1 + 0.2 = 0.30000000000000004)
  */
 const calculateSubtotal = (entries: WeightEntry[]): number => {
@@ -70,28 +172,48 @@ const getNextColor = (existingCategories: Category[]): string => {
     return availableColor || CATEGORY_COLORS[existingCategories.length % CATEGORY_COLORS.length];
 };
 
+/**
+ * Put categories back as they were (null = the category did not exist, so it
+ * is removed). A category put back goes where its creation time places it;
+ * every other category stays as it is.
+ */
+const restoreCategories = (current: Category[], restored: Record<string, Category | null>): Category[] => {
+    const next = current
+        .filter((c) => restored[c.id] !== null)
+        .map((c) => restored[c.id] ?? c);
+
+    Object.values(restored).forEach((category) => {
+        if (!category || next.some((c) => c.id === category.id)) return;
+        const index = next.findIndex((c) => c.createdAt > category.createdAt);
+        next.splice(index === -1 ? next.length : index, 0, category);
+    });
+
+    return next;
+};
+
 // ============================================
 // Hook Definition
 // ============================================
 
 /**
  * Custom hook for managing weighing batches across multiple entities and categories.
- * Data is segregated by entityId:categoryId composite key and persisted to localStorage.
+ * Data is segregated by entityId:categoryId composite key and persisted through the storage service.
  * 
  * @param activeEntityId - The currently selected entity ID (from SessionContext)
+ * @param defaultBatchSize - Session default for categories without their own batch size
  */
-export function useWeighingBatch(activeEntityId: string) {
+export function useWeighingBatch(activeEntityId: string, defaultBatchSize: number = BATCH_SIZE) {
     // ============================================
     // Categories State (shared across all entities)
     // ============================================
     const [categories, setCategories] = useState<Category[]>(() =>
-        loadFromStorage(STORAGE_KEYS.CATEGORIES, [DEFAULT_CATEGORY])
+        loadListFromStorage(STORAGE_KEYS.CATEGORIES, [DEFAULT_CATEGORY], isCategory)
     );
 
-    // Active category ID - initialized from localStorage with validation
+    // Active category ID - initialized from storage with validation
     const [activeCategoryId, setActiveCategoryId] = useState<string>(() => {
-        const savedCategoryId = loadFromStorage<string>(STORAGE_KEYS.ACTIVE_CATEGORY, '');
-        const savedCategories = loadFromStorage<Category[]>(STORAGE_KEYS.CATEGORIES, [DEFAULT_CATEGORY]);
+        const savedCategoryId = loadFromStorage<string>(STORAGE_KEYS.ACTIVE_CATEGORY, '', isString);
+        const savedCategories = loadListFromStorage(STORAGE_KEYS.CATEGORIES, [DEFAULT_CATEGORY], isCategory);
 
         // Check if saved category still exists
         if (savedCategoryId && savedCategories.some(c => c.id === savedCategoryId)) {
@@ -102,27 +224,18 @@ export function useWeighingBatch(activeEntityId: string) {
         return savedCategories.length > 0 ? savedCategories[0].id : DEFAULT_CATEGORY.id;
     });
 
+    // Active quality grade - null weighs ungraded sacks
+    const [activeGrade, setActiveGrade] = useState<QualityGrade | null>(() => {
+        const savedGrade = loadFromStorage<unknown>(STORAGE_KEYS.ACTIVE_GRADE, null);
+        return isQualityGrade(savedGrade) ? savedGrade : null;
+    });
+
     // ============================================
     // Batches State (per entity:category)
     // ============================================
 
     // Store batches indexed by composite key: entityId:categoryId
-    const [batchesByKey, setBatchesByKey] = useState<Record<string, Batch[]>>(() => {
-        // Load all known batch keys and their data
-        const keys = loadFromStorage<string[]>(STORAGE_KEYS.ALL_BATCH_KEYS, []);
-        const loaded: Record<string, Batch[]> = {};
-
-        for (const key of keys) {
-            const batches = loadFromStorage<Batch[]>(key, []);
-            if (batches.length > 0) {
-                // Extract the composite key from storage key (remove prefix)
-                const compositeKey = key.replace(STORAGE_KEYS.BATCHES_PREFIX, '');
-                loaded[compositeKey] = batches;
-            }
-        }
-
-        return loaded;
-    });
+    const [batchesByKey, setBatchesByKey] = useState<Record<string, Batch[]>>(loadBatchesByKey);
 
     // ============================================
     // Derived State
@@ -164,6 +277,41 @@ export function useWeighingBatch(activeEntityId: string) {
         return DEFAULT_CATEGORY;
     }, [categories, activeCategoryId]);
 
+    /**
+     * Batch size that new batches of the active category will take
+     */
+    const activeBatchSize = getCategoryBatchSize(activeCategory, defaultBatchSize);
+
+    /**
+     * Typical sack weight of the active category (all entities), learned from recent entries
+     */
+    const weightStats = useMemo(() => {
+        const entries = Object.entries(batchesByKey)
+            .filter(([key]) => key.endsWith(`:${activeCategoryId}`))
+            .flatMap(([, batches]) => batches.flatMap((b) => b.entries));
+        return getWeightStats(entries);
+    }, [batchesByKey, activeCategoryId]);
+
+    // ============================================
+    // Finalized Settlements (locked weights)
+    // ============================================
+
+    const settlements = useSyncExternalStore(subscribeSettlements, getSettlements, getSettlements);
+
+    /**
+     * Entities whose settlement is finalized: their weights can't change until it is reopened
+     */
+    const lockedEntityIds = useMemo(() => getLockedEntityIds(settlements), [settlements]);
+
+    /**
+     * Whether any of the entity:category keys belongs to a locked entity
+     */
+    const touchesLocked = useCallback((keys: string[]): boolean => {
+        return touchesLockedEntity(keys, lockedEntityIds);
+    }, [lockedEntityIds]);
+
+    const isLocked = lockedEntityIds.has(activeEntityId);
+
     // ============================================
     // Persistence Effects
     // ============================================
@@ -178,6 +326,30 @@ export function useWeighingBatch(activeEntityId: string) {
         saveToStorage(STORAGE_KEYS.ACTIVE_CATEGORY, activeCategoryId);
     }, [activeCategoryId]);
 
+    // Persist active grade
+    useEffect(() => {
+        saveToStorage(STORAGE_KEYS.ACTIVE_GRADE, activeGrade);
+    }, [activeGrade]);
+
+    // ============================================
+    // Shared Jornada (multi-device)
+    // ============================================
+
+    // Rebuild batches from the shared entries whenever any device changes them
+    useEffect(() => {
+        return subscribeSharedEntries((entries) => {
+            setBatchesByKey(buildBatchesByKey(entries));
+        });
+    }, []);
+
+    // Follow the shared category list (ordered by creation)
+    useEffect(() => {
+        return subscribeSharedCategories((sharedCategories) => {
+            if (sharedCategories.length === 0) return;
+            setCategories([...sharedCategories].sort((a, b) => a.createdAt - b.createdAt));
+        });
+    }, []);
+
     // Fix activeCategoryId if it points to a deleted category
     useEffect(() => {
         if (categories.length > 0 && !categories.some(c => c.id === activeCategoryId)) {
@@ -185,24 +357,164 @@ export function useWeighingBatch(activeEntityId: string) {
         }
     }, [categories, activeCategoryId]);
 
-    // Persist batches when they change
+    // Batches as of the previous save (to write only what changed)
+    const savedBatchesRef = useRef<Record<string, Batch[]> | null>(null);
+
+    // Persist batches when they change: one write per changed entity:category
     useEffect(() => {
-        // Save individual batch data
-        const allKeys: string[] = [];
+        const previous = savedBatchesRef.current ?? {};
 
         Object.entries(batchesByKey).forEach(([compositeKey, batches]) => {
-            const storageKey = getBatchStorageKey(
-                compositeKey.split(':')[0],
-                compositeKey.split(':')[1]
-            );
-            saveToStorage(storageKey, batches);
-            allKeys.push(storageKey);
+            // Untouched keys keep the same array reference
+            if (previous[compositeKey] === batches) return;
+
+            const [entityId, categoryId] = compositeKey.split(':');
+            saveToStorage(getBatchStorageKey(entityId, categoryId), batches);
         });
 
-        // Track all batch keys for loading on refresh
+        // Remove keys dropped since the last save (e.g. cascade category delete)
+        for (const compositeKey of Object.keys(previous)) {
+            if (!(compositeKey in batchesByKey)) {
+                const [entityId, categoryId] = compositeKey.split(':');
+                removeFromStorage(getBatchStorageKey(entityId, categoryId));
+            }
+        }
+        savedBatchesRef.current = batchesByKey;
+
+        // Track all batch keys for loading on refresh (skipped when the set is unchanged)
+        const allKeys = Object.keys(batchesByKey).map((compositeKey) => {
+            const [entityId, categoryId] = compositeKey.split(':');
+            return getBatchStorageKey(entityId, categoryId);
+        });
         saveToStorage(STORAGE_KEYS.ALL_BATCH_KEYS, allKeys);
     }, [batchesByKey]);
 
+    // Reload what another device synced, so the next save doesn't write over it
+    useEffect(() => {
+        return subscribeRemoteChanges((keys) => {
+            if (keys.includes(STORAGE_KEYS.CATEGORIES)) {
+                setCategories(loadListFromStorage(STORAGE_KEYS.CATEGORIES, [DEFAULT_CATEGORY], isCategory));
+            }
+            if (keys.some((key) => key === STORAGE_KEYS.ALL_BATCH_KEYS || key.startsWith(STORAGE_KEYS.BATCHES_PREFIX))) {
+                // Already in storage: nothing to save
+                const loaded = loadBatchesByKey();
+                savedBatchesRef.current = loaded;
+                setBatchesByKey(loaded);
+            }
+        });
+    }, []);
+
+    // ============================================
+    // Undo / Redo
+    // ============================================
+
+    const journal = useSyncExternalStore(subscribeJournal, getJournalState);
+
+    /**
+     * State of the given entries and categories before an action (null if
+     * they don't exist yet, e.g. the id of a weight about to be added)
+     */
+    const takeSnapshot = useCallback((entryIds: string[], categoryIds: string[] = []): JournalSnapshot => {
+        const ids = new Set(entryIds);
+        const current = new Map(flattenEntries(batchesByKey).filter((e) => ids.has(e.id)).map((e) => [e.id, e]));
+        return {
+            entries: Object.fromEntries(entryIds.map((id) => [id, current.get(id) ?? null])),
+            ...(categoryIds.length > 0 && {
+                categories: Object.fromEntries(categoryIds.map((id) => [id, categories.find((c) => c.id === id) ?? null])),
+            }),
+        };
+    }, [batchesByKey, categories]);
+
+    /**
+     * entity:category keys that putting a snapshot back changes
+     */
+    const getSnapshotKeys = useCallback((snapshot: JournalSnapshot): string[] => {
+        const current = takeSnapshot(Object.keys(snapshot.entries)).entries;
+        return [...new Set(
+            [...Object.values(snapshot.entries), ...Object.values(current)].filter(isEntry).map(getEntryKey)
+        )];
+    }, [takeSnapshot]);
+
+    /**
+     * Put the entries and categories of a snapshot back as they were (their
+     * batches are re-flowed; other entries and categories are not touched),
+     * publish the difference to the shared jornada and audit it
+     * @param note - Why it changed ("Deshacer" / "Rehacer")
+     */
+    const restoreSnapshot = useCallback((snapshot: JournalSnapshot, note: string): JournalSnapshot => {
+        const replaced = takeSnapshot(Object.keys(snapshot.entries), Object.keys(snapshot.categories ?? {}));
+
+        // Categories first, so restored entries have their category on other devices
+        Object.entries(snapshot.categories ?? {}).forEach(([categoryId, category]) => {
+            const exists = categories.some((c) => c.id === categoryId);
+            if (category) {
+                publishSharedChange({ type: exists ? 'category-updated' : 'category-added', category });
+            } else if (exists) {
+                publishSharedChange({ type: 'category-deleted', categoryId, entryIds: [] });
+            }
+        });
+
+        const auditCategories = snapshot.categories ? restoreCategories(categories, snapshot.categories) : categories;
+        const audit: AuditDraft[] = [];
+
+        // Diffed across all keys at once, so a weight that changes key is one move
+        const currentEntries = Object.values(replaced.entries).filter(isEntry);
+        const restoredEntries = Object.values(snapshot.entries).filter(isEntry);
+        const { added, removed, updated, moved } = diffEntries(currentEntries, restoredEntries);
+        const previousOf = (entry: WeightEntry) => replaced.entries[entry.id] ?? undefined;
+
+        added.forEach((entry) => {
+            publishSharedChange({ type: 'entry-added', entry });
+            audit.push(auditEntry('weight-added', entry, auditCategories, null, entry.value, note));
+        });
+        removed.forEach((entry) => {
+            publishSharedChange({ type: 'entry-deleted', entry });
+            audit.push(auditEntry('weight-deleted', entry, auditCategories, entry.value, null, note));
+        });
+        moved.forEach((entry) => {
+            publishSharedChange({ type: 'entry-moved', entry });
+            const previous = previousOf(entry);
+            if (previous) audit.push(...auditMove(previous, entry, auditCategories, note));
+        });
+        updated.forEach((entry) => {
+            publishSharedChange({ type: 'entry-updated', entry });
+            const previousValue = previousOf(entry)?.value ?? null;
+            audit.push(auditEntry('weight-updated', entry, auditCategories, previousValue, entry.value, note));
+        });
+        appendAuditRecords(audit);
+
+        const categoryIds = new Set(auditCategories.map((c) => c.id));
+        setBatchesByKey((prev) => restoreEntries(prev, snapshot.entries, categoryIds));
+        if (snapshot.categories) {
+            const restored = snapshot.categories;
+            setCategories((prev) => restoreCategories(prev, restored));
+        }
+
+        return replaced;
+    }, [takeSnapshot, categories]);
+
+    /**
+     * Undo the last weighing action
+     * @returns Label of the undone action, or null if there was none (or it
+     * touches a finalized settlement's weights)
+     */
+    const undo = useCallback((): string | null => {
+        const action = journal.undo[journal.undo.length - 1];
+        if (action && touchesLocked(getSnapshotKeys(action.snapshot))) return null;
+        return undoLastAction((snapshot) => restoreSnapshot(snapshot, 'Deshacer'))?.label ?? null;
+    }, [journal, touchesLocked, getSnapshotKeys, restoreSnapshot]);
+
+    /**
+     * Redo the last undone action
+     * @returns Label of the redone action, or null if there was none (or it
+     * touches a finalized settlement's weights)
+     */
+    const redo = useCallback((): string | null => {
+        const action = journal.redo[journal.redo.length - 1];
+        if (action && touchesLocked(getSnapshotKeys(action.snapshot))) return null;
+        return redoLastAction((snapshot) => restoreSnapshot(snapshot, 'Rehacer'))?.label ?? null;
+    }, [journal, touchesLocked, getSnapshotKeys, restoreSnapshot]);
+
     // ============================================
     // Category Actions
     // ============================================
@@ -227,6 +539,7 @@ export function useWeighingBatch(activeEntityId: string) {
         };
 
         setCategories((prev) => [...prev, newCategory]);
+        publishSharedChange({ type: 'category-added', category: newCategory });
 
         // Auto-select the new category
         setActiveCategoryId(newCategory.id);
@@ -246,9 +559,45 @@ export function useWeighingBatch(activeEntityId: string) {
         const categoryToDelete = categories.find(c => c.id === categoryId);
         if (!categoryToDelete) return false;
 
+        // Its weights of a finalized settlement can't be deleted
+        const categoryKeys = Object.keys(batchesByKey).filter((key) => key.endsWith(`:${categoryId}`));
+        if (touchesLocked(categoryKeys.filter((key) => batchesByKey[key].some((b) => b.entries.length > 0)))) {
+            return false;
+        }
+
+        recordAction(
+            `Categoría "${categoryToDelete.name}" eliminada`,
+            takeSnapshot(categoryKeys.flatMap((key) => batchesByKey[key].flatMap((b) => b.entries.map((e) => e.id))), [categoryId])
+        );
+
+        // One audit record per entity that had weights in it
+        appendAuditRecords(Object.entries(batchesByKey)
+            .filter(([key]) => key.endsWith(`:${categoryId}`))
+            .map(([key, batches]) => {
+                const entries = batches.flatMap((b) => b.entries);
+                return {
+                    action: 'category-deleted' as const,
+                    entityId: key.split(':')[0],
+                    categoryId,
+                    categoryName: categoryToDelete.name,
+                    previousValue: safeSum(entries.map((e) => e.value)),
+                    newValue: null,
+                    note: `${entries.length} pesos`,
+                };
+            })
+            .filter((draft) => draft.previousValue > 0));
+
         // Remove the category from the list
         setCategories((prev) => prev.filter((c) => c.id !== categoryId));
 
+        publishSharedChange({
+            type: 'category-deleted',
+            categoryId,
+            entryIds: flattenEntries(batchesByKey)
+                .filter((e) => e.categoryId === categoryId)
+                .map((e) => e.id),
+        });
+
         // CASCADE DELETE: Remove all batch data for this category across ALL entities
         setBatchesByKey((prev) => {
             const updated = { ...prev };
@@ -270,7 +619,7 @@ export function useWeighingBatch(activeEntityId: string) {
         }
 
         return true;
-    }, [categories, activeCategoryId]);
+    }, [categories, activeCategoryId, batchesByKey, touchesLocked, takeSnapshot]);
 
     /**
      * Rename an existing category
@@ -288,6 +637,51 @@ export function useWeighingBatch(activeEntityId: string) {
             prev.map((c) => (c.id === categoryId ? { ...c, name: trimmedName } : c))
         );
 
+        const category = categories.find((c) => c.id === categoryId);
+        if (category) {
+            publishSharedChange({ type: 'category-updated', category: { ...category, name: trimmedName } });
+        }
+
+        return true;
+    }, [categories]);
+
+    /**
+     * Set the batch size of a category (null = follow the session default).
+     * Only batches started afterwards use it.
+     */
+    const setCategoryBatchSize = useCallback((categoryId: string, size: number | null): boolean => {
+        const category = categories.find((c) => c.id === categoryId);
+        if (!category || (size !== null && (!Number.isInteger(size) || size < 1))) return false;
+
+        const updated: Category = { ...category };
+        if (size === null) {
+            delete updated.batchSize;
+        } else {
+            updated.batchSize = size;
+        }
+
+        setCategories((prev) => prev.map((c) => (c.id === categoryId ? updated : c)));
+        publishSharedChange({ type: 'category-updated', category: updated });
+
+        return true;
+    }, [categories]);
+
+    /**
+     * Set the tare per sack or shrinkage % of a category (null = none).
+     * Settlements recalculate with it; the weights themselves are not changed.
+     */
+    const setCategoryDeduction = useCallback((
+        categoryId: string,
+        field: keyof WeightDeduction,
+        value: number | null
+    ): boolean => {
+        const category = categories.find((c) => c.id === categoryId);
+        if (!category || !isValidDeduction(field, value)) return false;
+
+        const updated = withDeduction(category, field, value);
+        setCategories((prev) => prev.map((c) => (c.id === categoryId ? updated : c)));
+        publishSharedChange({ type: 'category-updated', category: updated });
+
         return true;
     }, [categories]);
 
@@ -305,25 +699,52 @@ export function useWeighingBatch(activeEntityId: string) {
     // ============================================
 
     /**
-     * Add a new weight to the current entity + category's batch
+     * Check a weight against the typical weight of the active category
+     * @returns The expected range if the value looks like an outlier, null otherwise
      */
-    const addWeight = useCallback((value: number): boolean => {
+    const checkWeight = useCallback((value: number): OutlierCheck | null => {
+        return checkOutlier(value, weightStats);
+    }, [weightStats]);
+
+    /**
+     * Add a new weight to the current entity + category's batch (with the active grade)
+     * @param options.outlier Mark the entry as an accepted outlier (to review before settling)
+     */
+    const addWeight = useCallback((value: number, options: { outlier?: boolean } = {}): boolean => {
+        if (isLocked) return false;
         if (value <= 0) {
             console.warn('Invalid weight value:', value);
             return false;
         }
 
+        // A new or empty batch takes the current setting; a started one keeps its size
+        const existing = batchesByKey[currentKey] || [];
+        const lastBatch = existing[existing.length - 1];
+        const capacity = lastBatch && lastBatch.status === 'open'
+            ? getBatchCapacity(lastBatch, activeBatchSize)
+            : activeBatchSize;
+
+        const newEntry: WeightEntry = {
+            id: generateId(),
+            value,
+            timestamp: Date.now(),
+            categoryId: activeCategoryId,
+            entityId: activeEntityId,
+            deviceId: getDeviceId(),
+            deviceName: getDeviceName(),
+            batchSize: capacity,
+            ...(options.outlier && { outlier: true }),
+            ...(activeGrade && { grade: activeGrade }),
+        };
+
+        recordAction(`Peso ${value} kg registrado`, takeSnapshot([newEntry.id]));
+        appendAuditRecord(auditEntry(
+            'weight-added', newEntry, categories, null, value, options.outlier ? 'Atípico aceptado' : undefined
+        ));
+
         setBatchesByKey((prev) => {
             const existingBatches = prev[currentKey] || [createNewBatch(activeEntityId, activeCategoryId)];
 
-            const newEntry: WeightEntry = {
-                id: generateId(),
-                value,
-                timestamp: Date.now(),
-                categoryId: activeCategoryId,
-                entityId: activeEntityId,
-            };
-
             const lastBatchIndex = existingBatches.length - 1;
             const currentBatch = existingBatches[lastBatchIndex];
 
@@ -332,6 +753,7 @@ export function useWeighingBatch(activeEntityId: string) {
                 const newBatch: Batch = {
                     ...createNewBatch(activeEntityId, activeCategoryId),
                     entries: [newEntry],
+                    size: capacity,
                 };
                 return {
                     ...prev,
@@ -341,10 +763,11 @@ export function useWeighingBatch(activeEntityId: string) {
 
             // Add entry to current batch
             const updatedEntries = [...currentBatch.entries, newEntry];
-            const isComplete = updatedEntries.length >= BATCH_SIZE;
+            const isComplete = updatedEntries.length >= capacity;
 
             const updatedBatch: Batch = {
                 ...currentBatch,
+                size: capacity,
                 entries: updatedEntries,
                 status: isComplete ? 'closed' : 'open',
                 subtotal: isComplete ? calculateSubtotal(updatedEntries) : null,
@@ -366,17 +789,88 @@ export function useWeighingBatch(activeEntityId: string) {
             };
         });
 
+        publishSharedChange({ type: 'entry-added', entry: newEntry });
+
         return true;
-    }, [currentKey, activeEntityId, activeCategoryId]);
+    }, [currentKey, activeEntityId, activeCategoryId, activeGrade, isLocked, batchesByKey, activeBatchSize, categories, takeSnapshot]);
+
+    /**
+     * Insert a weight at a position inside a batch of the current entity + category
+     * (a sack that was skipped). Later entries shift forward, closing and
+     * reopening batches as needed; the new entry takes the size of its batch
+     * and the active grade.
+     * @param position - Index in the batch the weight will take (0 = first)
+     * @param options.outlier Mark the entry as an accepted outlier (to review before settling)
+     */
+    const insertWeight = useCallback((
+        batchId: string,
+        position: number,
+        value: number,
+        options: { outlier?: boolean } = {}
+    ): boolean => {
+        if (isLocked || value <= 0) return false;
+
+        const existing = batchesByKey[currentKey] || [];
+        const batch = existing.find((b) => b.id === batchId);
+        if (!batch || !Number.isInteger(position) || position < 0 || position > batch.entries.length) {
+            return false;
+        }
+
+        // Neighbours in recording order (the last entry of the batch when inserting at its end)
+        const sorted = existing.flatMap((b) => b.entries).sort(compareEntries);
+        const index = position < batch.entries.length
+            ? sorted.indexOf(batch.entries[position])
+            : sorted.indexOf(batch.entries[batch.entries.length - 1]) + 1;
+
+        const newEntry: WeightEntry = {
+            id: generateId(),
+            value,
+            timestamp: timestampBetween(sorted[index - 1], sorted[index]),
+            categoryId: activeCategoryId,
+            entityId: activeEntityId,
+            deviceId: getDeviceId(),
+            deviceName: getDeviceName(),
+            batchSize: getBatchCapacity(batch, activeBatchSize),
+            ...(options.outlier && { outlier: true }),
+            ...(activeGrade && { grade: activeGrade }),
+        };
+
+        recordAction(`Peso ${value} kg insertado`, takeSnapshot([newEntry.id]));
+        appendAuditRecord(auditEntry(
+            'weight-added', newEntry, categories, null, value, `Insertado en la posición ${position + 1} del lote`
+        ));
+
+        setBatchesByKey((prev) => ({
+            ...prev,
+            [currentKey]: reflowBatches(
+                prev[currentKey] || [],
+                [...(prev[currentKey] || []).flatMap((b) => b.entries), newEntry],
+                activeEntityId,
+                activeCategoryId
+            ),
+        }));
+
+        publishSharedChange({ type: 'entry-added', entry: newEntry });
+
+        return true;
+    }, [currentKey, activeEntityId, activeCategoryId, activeGrade, isLocked, batchesByKey, activeBatchSize, categories, takeSnapshot]);
 
     /**
      * Delete a specific weight entry and recalculate batch
-     * - Reopens closed batches if they fall below BATCH_SIZE
+     * - Reopens closed batches if they fall below their size
      * - Removes empty batches (except the last one)
      */
     const deleteWeight = useCallback((entryId: string): boolean => {
+        if (isLocked) return false;
         let found = false;
 
+        const entry = batchesByKey[currentKey]?.flatMap((b) => b.entries).find((e) => e.id === entryId);
+        if (entry) {
+            recordAction(`Peso ${entry.value} kg eliminado`, takeSnapshot([entry.id]));
+            appendAuditRecord(auditEntry('weight-deleted', entry, categories, entry.value, null));
+            publishSharedChange({ type: 'entry-deleted', entry });
+        }
+
         setBatchesByKey((prev) => {
             const existingBatches = prev[currentKey];
             if (!existingBatches) return prev;
@@ -400,7 +894,7 @@ export function useWeighingBatch(activeEntityId: string) {
                     }
 
                     // Recalculate and possibly reopen the batch
-                    const isComplete = updatedEntries.length >= BATCH_SIZE;
+                    const isComplete = updatedEntries.length >= getBatchCapacity(batch, activeBatchSize);
                     const updatedBatch: Batch = {
                         ...batch,
                         entries: updatedEntries,
@@ -431,18 +925,26 @@ export function useWeighingBatch(activeEntityId: string) {
         });
 
         return found;
-    }, [currentKey, activeEntityId, activeCategoryId]);
+    }, [currentKey, activeEntityId, activeCategoryId, isLocked, batchesByKey, activeBatchSize, categories, takeSnapshot]);
 
     /**
      * Update the value of an existing weight entry
      * - Validates that newValue > 0
      * - Recalculates batch subtotal if closed
+     * - Counts as reviewing it (clears the outlier mark)
      */
     const updateWeight = useCallback((entryId: string, newValue: number): boolean => {
-        if (newValue <= 0) return false;
+        if (isLocked || newValue <= 0) return false;
 
         let found = false;
 
+        const entry = batchesByKey[currentKey]?.flatMap((b) => b.entries).find((e) => e.id === entryId);
+        if (entry) {
+            recordAction(`Peso ${entry.value} kg corregido a ${newValue} kg`, takeSnapshot([entry.id]));
+            appendAuditRecord(auditEntry('weight-updated', entry, categories, entry.value, newValue));
+            publishSharedChange({ type: 'entry-updated', entry: { ...clearOutlierMark(entry), value: newValue } });
+        }
+
         setBatchesByKey((prev) => {
             const existingBatches = prev[currentKey];
             if (!existingBatches) return prev;
@@ -453,7 +955,7 @@ export function useWeighingBatch(activeEntityId: string) {
                 if (entryIndex !== -1) {
                     found = true;
                     const updatedEntries = batch.entries.map((e) =>
-                        e.id === entryId ? { ...e, value: newValue } : e
+                        e.id === entryId ? { ...clearOutlierMark(e), value: newValue } : e
                     );
 
                     return {
@@ -473,17 +975,114 @@ export function useWeighingBatch(activeEntityId: string) {
         });
 
         return found;
-    }, [currentKey]);
+    }, [currentKey, isLocked, batchesByKey, categories, takeSnapshot]);
+
+    /**
+     * Keep an accepted outlier as it is and clear its mark
+     */
+    const markWeightReviewed = useCallback((entryId: string): boolean => {
+        const entry = batchesByKey[currentKey]?.flatMap((b) => b.entries).find((e) => e.id === entryId);
+        if (isLocked || !entry?.outlier) return false;
+
+        recordAction(`Peso ${entry.value} kg revisado`, takeSnapshot([entry.id]));
+        appendAuditRecord(auditEntry('weight-reviewed', entry, categories, entry.value, entry.value));
+
+        const reviewed = clearOutlierMark(entry);
+        publishSharedChange({ type: 'entry-updated', entry: reviewed });
+
+        setBatchesByKey((prev) => ({
+            ...prev,
+            [currentKey]: (prev[currentKey] || []).map((batch) =>
+                batch.entries.some((e) => e.id === entryId)
+                    ? { ...batch, entries: batch.entries.map((e) => (e.id === entryId ? reviewed : e)) }
+                    : batch
+            ),
+        }));
+
+        return true;
+    }, [currentKey, isLocked, batchesByKey, categories, takeSnapshot]);
 
     /**
      * Clear all batches for current entity + category
      */
     const clearActiveCategory = useCallback(() => {
+        if (isLocked) return;
+        recordAction(
+            `${activeCategory.name} vaciada`,
+            takeSnapshot((batchesByKey[currentKey] || []).flatMap((b) => b.entries.map((e) => e.id)))
+        );
+        appendAuditRecords((batchesByKey[currentKey] || []).flatMap((batch) =>
+            batch.entries.map((entry) => auditEntry('weight-deleted', entry, categories, entry.value, null, 'Categoría vaciada'))
+        ));
+
+        (batchesByKey[currentKey] || []).forEach((batch) => {
+            batch.entries.forEach((entry) => publishSharedChange({ type: 'entry-deleted', entry }));
+        });
+
         setBatchesByKey((prev) => ({
             ...prev,
             [currentKey]: [createNewBatch(activeEntityId, activeCategoryId)],
         }));
-    }, [currentKey, activeEntityId, activeCategoryId]);
+    }, [currentKey, activeEntityId, activeCategoryId, activeCategory, isLocked, batchesByKey, categories, takeSnapshot]);
+
+    /**
+     * Move weights to another entity and/or category (e.g. recorded under the
+     * wrong owner or variety). Weights can come from any entity:category.
+     * Both sides are re-flowed into batches in recording order, and the moved
+     * weights take the batch size of the target category.
+     */
+    const moveEntries = useCallback((entryIds: string[], entityId: string, categoryId: string): MoveResult => {
+        const targetCategory = categories.find((c) => c.id === categoryId);
+        if (!targetCategory || !entityId) return { moved: 0, blocked: 'invalid' };
+
+        const targetKey = `${entityId}:${categoryId}`;
+        const ids = new Set(entryIds);
+        const moving = flattenEntries(batchesByKey).filter((e) =>
+            ids.has(e.id) && `${e.entityId}:${e.categoryId}` !== targetKey
+        );
+        if (moving.length === 0) return { moved: 0, blocked: 'unchanged' };
+
+        const batchSize = getCategoryBatchSize(targetCategory, defaultBatchSize);
+        const moved = moving.map((e) => ({ ...e, entityId, categoryId, batchSize }));
+        const movedIds = new Set(moved.map((e) => e.id));
+        const keys = [...new Set([...moving.map((e) => `${e.entityId}:${e.categoryId}`), targetKey])];
+
+        // Weights can't leave or join a finalized settlement
+        if (touchesLocked(keys)) return { moved: 0, blocked: 'locked' };
+
+        recordAction(
+            moved.length === 1 ? `Peso ${moved[0].value} kg movido` : `${moved.length} pesos movidos`,
+            takeSnapshot(moving.map((e) => e.id))
+        );
+        appendAuditRecords(moving.flatMap((entry, index) => auditMove(entry, moved[index], categories)));
+        moved.forEach((entry) => publishSharedChange({ type: 'entry-moved', entry }));
+
+        setBatchesByKey((prev) => {
+            const next = { ...prev };
+            for (const key of keys) {
+                const [keyEntityId, keyCategoryId] = key.split(':');
+                const remaining = (prev[key] ?? []).flatMap((b) => b.entries).filter((e) => !movedIds.has(e.id));
+                next[key] = reflowBatches(
+                    prev[key] ?? [],
+                    key === targetKey ? [...remaining, ...moved] : remaining,
+                    keyEntityId,
+                    keyCategoryId
+                );
+            }
+            return next;
+        });
+
+        return { moved: moved.length, blocked: null };
+    }, [categories, batchesByKey, defaultBatchSize, touchesLocked, takeSnapshot]);
+
+    /**
+     * Move every weight of a batch to another entity and/or category
+     */
+    const moveBatch = useCallback((batchId: string, entityId: string, categoryId: string): MoveResult => {
+        const batch = Object.values(batchesByKey).flat().find((b) => b.id === batchId);
+        if (!batch) return { moved: 0, blocked: 'invalid' };
+        return moveEntries(batch.entries.map((e) => e.id), entityId, categoryId);
+    }, [batchesByKey, moveEntries]);
 
     // ============================================
     // Getters
@@ -507,9 +1106,7 @@ export function useWeighingBatch(activeEntityId: string) {
      * Get total weight for active entity + category
      */
     const getTotalWeight = useCallback((): number => {
-        return activeBatches.reduce((total, batch) => {
-            return total + batch.entries.reduce((sum, entry) => sum + entry.value, 0);
-        }, 0);
+        return safeSum(activeBatches.flatMap((batch) => batch.entries.map((entry) => entry.value)));
     }, [activeBatches]);
 
     /**
@@ -526,8 +1123,7 @@ export function useWeighingBatch(activeEntityId: string) {
         const key = `${activeEntityId}:${categoryId}`;
         const batches = batchesByKey[key] || [];
         return {
-            weight: batches.reduce((total, batch) =>
-                total + batch.entries.reduce((sum, entry) => sum + entry.value, 0), 0),
+            weight: safeSum(batches.flatMap((batch) => batch.entries.map((entry) => entry.value))),
             entries: batches.reduce((count, batch) => count + batch.entries.length, 0),
             batches: batches.filter((b) => b.status === 'closed').length,
         };
@@ -537,44 +1133,36 @@ export function useWeighingBatch(activeEntityId: string) {
      * Get grand total across all categories for current entity
      */
     const getGrandTotal = useCallback((): { weight: number; entries: number } => {
-        let totalWeight = 0;
-        let totalEntries = 0;
+        const weights: number[] = [];
 
         Object.entries(batchesByKey).forEach(([key, batches]) => {
             const [entityId] = key.split(':');
             if (entityId === activeEntityId) {
                 batches.forEach((batch) => {
-                    batch.entries.forEach((entry) => {
-                        totalWeight += entry.value;
-                        totalEntries += 1;
-                    });
+                    batch.entries.forEach((entry) => weights.push(entry.value));
                 });
             }
         });
 
-        return { weight: totalWeight, entries: totalEntries };
+        return { weight: safeSum(weights), entries: weights.length };
     }, [batchesByKey, activeEntityId]);
 
     /**
      * Get entity stats (total across all categories for an entity)
      */
     const getEntityStats = useCallback((entityId: string): { weight: number; entries: number } => {
-        let totalWeight = 0;
-        let totalEntries = 0;
+        const weights: number[] = [];
 
         Object.entries(batchesByKey).forEach(([key, batches]) => {
             const [entId] = key.split(':');
             if (entId === entityId) {
                 batches.forEach((batch) => {
-                    batch.entries.forEach((entry) => {
-                        totalWeight += entry.value;
-                        totalEntries += 1;
-                    });
+                    batch.entries.forEach((entry) => weights.push(entry.value));
                 });
             }
         });
 
-        return { weight: totalWeight, entries: totalEntries };
+        return { weight: safeSum(weights), entries: weights.length };
     }, [batchesByKey]);
 
     // ============================================
@@ -586,20 +1174,36 @@ export function useWeighingBatch(activeEntityId: string) {
         categories,
         activeCategoryId,
         activeCategory,
+        activeGrade,
         batches: activeBatches,
         batchesByKey,
+        isLocked, // Active entity's settlement is finalized
 
         // Category actions
         addCategory,
         deleteCategory,
         renameCategory,
+        setCategoryBatchSize,
+        setCategoryDeduction,
         switchCategory,
+        setActiveGrade,
 
         // Weight actions
         addWeight,
+        insertWeight,
         deleteWeight,
         updateWeight,
+        markWeightReviewed,
+        moveEntries,
+        moveBatch,
         clearActiveCategory,
+        checkWeight,
+
+        // History
+        undo,
+        redo,
+        canUndo: journal.undo.length > 0,
+        canRedo: journal.redo.length > 0,
 
         // Getters
         getCurrentBatch,
@@ -610,8 +1214,8 @@ export function useWeighingBatch(activeEntityId: string) {
         getGrandTotal,
         getEntityStats,
 
-        // Constants
-        BATCH_SIZE,
+        // Batch size of the active category (for new batches)
+        activeBatchSize,
     };
 }
 
@@ -7,9 +7,15 @@ export { BigDisplay } from './components/BigDisplay';
 export { NumericKeypad } from './components/NumericKeypad';
 export { BatchList } from './components/BatchList';
 export { CategorySelector } from './components/CategorySelector';
+export { GradeSelector } from './components/GradeSelector';
+export { VoiceButton } from './components/VoiceButton';
+export { ScalePanel } from './components/ScalePanel';
+export { MoveEntriesModal } from './components/MoveEntriesModal';
 
 // Hooks
 export { useWeighingBatch } from './hooks/useWeighingBatch';
+export { useVoiceInput } from './hooks/useVoiceInput';
+export { useScale } from './hooks/useScale';
 
 // Re-export domain types
 export type { WeightEntry, Batch, Category } from '../../types/domain';
@@ -0,0 +1,33 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { CurrencyCode, RoundingPolicy } from '../types/domain';
+import { getMoneySettings, subscribeMoneySettings, updateMoneySettings } from '../services/money';
+import { roundMoney } from '../utils/math';
+import { formatMoney } from '../utils/notebookUtils';
+
+/**
+ * Hook for the money settings: currency and rounding of new settlements, and
+ * amounts written in the configured locale
+ */
+export function useMoneySettings() {
+    const settings = useSyncExternalStore(subscribeMoneySettings, getMoneySettings, getMoneySettings);
+
+    /**
+     * Amount with its currency symbol in the configured locale, rounded to the
+     * cent by the rounding policy (settlement amounts are already rounded by theirs)
+     */
+    const format = useCallback((
+        amount: number,
+        currency: CurrencyCode = settings.currency,
+        rounding: RoundingPolicy = settings.rounding
+    ) => {
+        return formatMoney(roundMoney(amount, rounding), currency, settings.locale);
+    }, [settings]);
+
+    return {
+        settings,
+        updateSettings: updateMoneySettings,
+        formatMoney: format,
+    };
+}
+
+export default useMoneySettings;
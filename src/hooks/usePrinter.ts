@@ -0,0 +1,53 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+    buildBatchTicket,
+    buildSettlementTicket,
+    connectPrinter,
+    disconnectPrinter,
+    getPrinterState,
+    isPrinterReady,
+    printBytes,
+    subscribePrinterState,
+    updatePrinterSettings,
+    type BatchTicketInfo,
+    type SettlementTicketInfo,
+} from '../services/printer';
+import type { Batch, SettlementSummary } from '../types/domain';
+
+/**
+ * Hook for the shared thermal printer: state, settings and ticket printing
+ */
+export function usePrinter() {
+    const state = useSyncExternalStore(subscribePrinterState, getPrinterState, getPrinterState);
+
+    /**
+     * Print a sealed batch ticket
+     */
+    const printBatch = useCallback((batch: Batch, info: Omit<BatchTicketInfo, 'paperWidth'>) => {
+        const { paperWidth } = getPrinterState().settings;
+        return printBytes(buildBatchTicket(batch, { ...info, paperWidth }));
+    }, []);
+
+    /**
+     * Print a settlement ticket
+     */
+    const printSettlement = useCallback((
+        summary: SettlementSummary,
+        info: Omit<SettlementTicketInfo, 'paperWidth'>
+    ) => {
+        const { paperWidth } = getPrinterState().settings;
+        return printBytes(buildSettlementTicket(summary, { ...info, paperWidth }));
+    }, []);
+
+    return {
+        ...state,
+        isReady: isPrinterReady(),
+        connect: connectPrinter,
+        disconnect: disconnectPrinter,
+        updateSettings: updatePrinterSettings,
+        printBatch,
+        printSettlement,
+    };
+}
+
+export default usePrinter;
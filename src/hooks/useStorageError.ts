@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getStorageError, subscribeStorageError, type StorageWriteError } from '../services/storage';
+
+/**
+ * Hook for reading the last failed storage write (null when everything is saved)
+ */
+export function useStorageError(): StorageWriteError | null {
+    return useSyncExternalStore(subscribeStorageError, getStorageError, getStorageError);
+}
+
+export default useStorageError;
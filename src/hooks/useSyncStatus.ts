@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getSyncState, subscribeSyncState, type SyncState } from '../services/sync';
+
+/**
+ * Hook for reading the current cloud sync state
+ */
+export function useSyncStatus(): SyncState {
+    return useSyncExternalStore(subscribeSyncState, getSyncState, getSyncState);
+}
+
+export default useSyncStatus;
@@ -1,13 +1,25 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+
+/**
+ * Button shown next to the message (e.g. "Deshacer")
+ */
+export interface ToastAction {
+    label: string;
+    onClick: () => void;
+}
 
 export interface ToastState {
     message: string;
     type: 'success' | 'error' | 'info';
     isVisible: boolean;
+    action?: ToastAction;
 }
 
 const TOAST_DURATION = 2500;
 
+// Toasts with an action stay longer so there is time to use it
+const TOAST_ACTION_DURATION = 5000;
+
 /**
  * Hook for managing toast notifications
  */
@@ -17,14 +29,16 @@ export function useToast() {
         type: 'info',
         isVisible: false,
     });
+    const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-    const showToast = useCallback((message: string, type: ToastState['type'] = 'info') => {
-        setToast({ message, type, isVisible: true });
+    const showToast = useCallback((message: string, type: ToastState['type'] = 'info', action?: ToastAction) => {
+        setToast({ message, type, isVisible: true, action });
 
-        // Auto-hide after duration
-        setTimeout(() => {
+        // Auto-hide after duration (a newer toast restarts the timer)
+        if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+        hideTimerRef.current = setTimeout(() => {
             setToast((prev) => ({ ...prev, isVisible: false }));
-        }, TOAST_DURATION);
+        }, action ? TOAST_ACTION_DURATION : TOAST_DURATION);
     }, []);
 
     const hideToast = useCallback(() => {
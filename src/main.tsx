@@ -1,10 +1,13 @@
-import { StrictMode } from 'react'
-import { createRoot } from 'react-dom/client'
 import './index.css'
-import App from './App.tsx'
+import { initStorage } from './services/storage'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Load persisted data (IndexedDB) into memory before importing the app
+initStorage()
+  .catch((error) => {
+    // Start anyway: without IndexedDB, storage reads and writes localStorage
+    console.error('[SHPL] Storage failed to initialize, using localStorage:', error)
+  })
+  .then(async () => {
+    const { startApp } = await import('./bootstrap.tsx')
+    startApp()
+  })
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { AccountMovement } from '../../types/domain';
+import { getAccountBalance, getAccountBalances, getAccountStatement } from './index';
+
+function movement(id: string, patch: Partial<AccountMovement>): AccountMovement {
+    return { id, entityId: 'e1', kind: 'advance', date: 1, amount: 100, concept: id, createdAt: 1, ...patch };
+}
+
+const MOVEMENTS: AccountMovement[] = [
+    movement('seed', { amount: 150 }),                              // Recorded before currencies: soles
+    movement('cash', { amount: 40, currency: 'USD' }),
+    movement('repaid', { kind: 'repayment', amount: 50, currency: 'PEN' }),
+    movement('deducted', { kind: 'settlement', amount: 15, currency: 'USD', jornadaId: 'j1' }),
+    movement('other', { entityId: 'e2', amount: 70 }),
+];
+
+describe('account balances', () => {
+    it('keeps a balance per currency', () => {
+        expect(getAccountBalance(MOVEMENTS, 'e1')).toBe(100);
+        expect(getAccountBalance(MOVEMENTS, 'e1', 'PEN')).toBe(100);
+        expect(getAccountBalance(MOVEMENTS, 'e1', 'USD')).toBe(25);
+        expect(getAccountBalances(MOVEMENTS, 'e1')).toEqual({ PEN: 100, USD: 25 });
+    });
+
+    it('has nothing owed in a currency without movements', () => {
+        expect(getAccountBalance(MOVEMENTS, 'e2', 'USD')).toBe(0);
+        expect(getAccountBalances(MOVEMENTS, 'e2')).toEqual({ PEN: 70 });
+    });
+
+    it('runs the statement balance in each movement\'s currency', () => {
+        expect(getAccountStatement(MOVEMENTS, 'e1').map((line) => [line.movement.id, line.balance])).toEqual([
+            ['seed', 150],
+            ['cash', 40],
+            ['repaid', 100],
+            ['deducted', 25],
+        ]);
+    });
+});
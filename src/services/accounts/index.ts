@@ -0,0 +1,227 @@
+/**
+ * Accounts Service
+ * Running account of each entity: advances of cash or goods (e.g. seed) given
+ * before the harvest, repayments, and what each jornada's settlement deducted.
+ *
+ * Each movement is in one currency and balances are kept per currency: a
+ * settlement only deducts the advances in the currency it is paid in.
+ * The outstanding balance is deducted from the entity's settlement while the
+ * jornada is open; the deduction is posted as a movement when the jornada
+ * closes, so whatever the harvest didn't cover is carried forward.
+ * Settlement movements are never removed; advances and repayments typed by
+ * mistake can be.
+ */
+
+import type { AccountMovement, CurrencyCode } from '../../types/domain';
+import { generateId } from '../../types/domain';
+import { ALL_STORAGE_KEYS, loadListFromStorage, saveToStorage, subscribeRemoteChanges } from '../storage';
+import { safeAdd } from '../../utils/math';
+import { isAccountMovement } from '../../utils/validation';
+
+// ============================================
+// Constants
+// ============================================
+
+const ACCOUNT_KEY = ALL_STORAGE_KEYS.ACCOUNT_MOVEMENTS;
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * What the caller provides; id and creation time are filled in on add
+ */
+export type AccountMovementDraft = Omit<AccountMovement, 'id' | 'createdAt'>;
+
+/**
+ * Line of an account statement: a movement and the balance after it
+ * (in the movement's currency)
+ */
+export interface AccountStatementLine {
+    movement: AccountMovement;
+    balance: number;
+}
+
+/**
+ * What a jornada's settlement deducted from an entity's account
+ */
+export interface AccountDeduction {
+    amount: number;
+    currency: CurrencyCode;
+}
+
+// ============================================
+// State
+// ============================================
+
+// Loaded on first use (after storage is initialized)
+let movements: AccountMovement[] | null = null;
+
+const listeners = new Set<() => void>();
+
+function loadMovements(): AccountMovement[] {
+    if (!movements) {
+        movements = sortMovements(loadListFromStorage(ACCOUNT_KEY, [], isAccountMovement));
+    }
+    return movements;
+}
+
+// Read them again when another device changed the movements
+subscribeRemoteChanges((keys) => {
+    if (!movements || !keys.includes(ACCOUNT_KEY)) return;
+    movements = null;
+    listeners.forEach((listener) => listener());
+});
+
+function sortMovements(list: AccountMovement[]): AccountMovement[] {
+    return [...list].sort((a, b) => a.date - b.date || a.createdAt - b.createdAt);
+}
+
+function saveMovements(list: AccountMovement[]): void {
+    movements = sortMovements(list);
+    saveToStorage(ACCOUNT_KEY, movements);
+    listeners.forEach((listener) => listener());
+}
+
+/**
+ * Currency of a movement's amount
+ */
+export function getMovementCurrency(movement: AccountMovement): CurrencyCode {
+    return movement.currency ?? 'PEN';
+}
+
+/**
+ * Signed effect of a movement on the debt (advances raise it)
+ */
+function debtChange(movement: AccountMovement): number {
+    return movement.kind === 'advance' ? movement.amount : -movement.amount;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Every movement of every entity, oldest first
+ */
+export function getAccountMovements(): AccountMovement[] {
+    return loadMovements();
+}
+
+/**
+ * What an entity still owes in a currency (never below zero)
+ */
+export function getAccountBalance(list: AccountMovement[], entityId: string, currency: CurrencyCode = 'PEN'): number {
+    const balance = list
+        .filter((movement) => movement.entityId === entityId && getMovementCurrency(movement) === currency)
+        .reduce((total, movement) => safeAdd(total, debtChange(movement)), 0);
+    return Math.max(0, balance);
+}
+
+/**
+ * What an entity still owes in each currency it has movements in
+ */
+export function getAccountBalances(list: AccountMovement[], entityId: string): Partial<Record<CurrencyCode, number>> {
+    const balances: Partial<Record<CurrencyCode, number>> = {};
+    for (const movement of list) {
+        if (movement.entityId !== entityId) continue;
+        const currency = getMovementCurrency(movement);
+        balances[currency] = getAccountBalance(list, entityId, currency);
+    }
+    return balances;
+}
+
+/**
+ * Amount a jornada's settlement deducted from an entity's account
+ */
+export function getJornadaDeduction(list: AccountMovement[], entityId: string, jornadaId: string): number {
+    return list
+        .filter((movement) =>
+            movement.entityId === entityId && movement.kind === 'settlement' && movement.jornadaId === jornadaId
+        )
+        .reduce((total, movement) => safeAdd(total, movement.amount), 0);
+}
+
+/**
+ * Movements of one entity with the running balance of their currency, oldest first
+ */
+export function getAccountStatement(list: AccountMovement[], entityId: string): AccountStatementLine[] {
+    const balances: Partial<Record<CurrencyCode, number>> = {};
+    return list
+        .filter((movement) => movement.entityId === entityId)
+        .map((movement) => {
+            const currency = getMovementCurrency(movement);
+            const balance = safeAdd(balances[currency] ?? 0, debtChange(movement));
+            balances[currency] = balance;
+            return { movement, balance };
+        });
+}
+
+export function addAccountMovement(draft: AccountMovementDraft): AccountMovement {
+    const movement: AccountMovement = { ...draft, id: generateId(), createdAt: Date.now() };
+    saveMovements([...loadMovements(), movement]);
+    return movement;
+}
+
+/**
+ * Post the deductions of a closed jornada's settlements
+ * @param deductions - entityId -> amount deducted and its currency (zero amounts are skipped)
+ */
+export function postSettlementDeductions(
+    jornadaId: string,
+    deductions: Record<string, AccountDeduction>,
+    concept: string,
+    date: number = Date.now()
+): void {
+    const createdAt = Date.now();
+    const posted: AccountMovement[] = Object.entries(deductions)
+        .filter(([, { amount }]) => amount > 0)
+        .map(([entityId, { amount, currency }]) => ({
+            id: generateId(),
+            entityId,
+            kind: 'settlement',
+            date,
+            amount,
+            currency,
+            concept,
+            jornadaId,
+            createdAt,
+        }));
+
+    if (posted.length > 0) {
+        saveMovements([...loadMovements(), ...posted]);
+    }
+}
+
+/**
+ * Remove an advance or repayment typed by mistake
+ * @returns false for settlement movements (they belong to a closed jornada)
+ */
+export function removeAccountMovement(id: string): boolean {
+    const list = loadMovements();
+    const movement = list.find((m) => m.id === id);
+    if (!movement || movement.kind === 'settlement') return false;
+
+    saveMovements(list.filter((m) => m.id !== id));
+    return true;
+}
+
+export function subscribeAccountMovements(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export default {
+    getAccountMovements,
+    getMovementCurrency,
+    getAccountBalance,
+    getAccountBalances,
+    getJornadaDeduction,
+    getAccountStatement,
+    addAccountMovement,
+    postSettlementDeductions,
+    removeAccountMovement,
+    subscribeAccountMovements,
+};
@@ -0,0 +1,71 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AuditRecord } from '../../types/domain';
+import { ALL_STORAGE_KEYS, getStoredItem, initStorage } from '../storage';
+import { appendAuditRecord, appendAuditRecords, getAuditLog, importAuditRecords, type AuditDraft } from './index';
+import { stubLocalStorage } from '../../test/storage';
+
+const memory = new Map<string, string>();
+
+function record(id: string): AuditRecord {
+    return {
+        id,
+        timestamp: 1,
+        action: 'weight-added',
+        entityId: 'e1',
+        previousValue: null,
+        newValue: 50,
+        deviceId: 'device-a',
+        deviceName: 'Balanza 1',
+    };
+}
+
+function draft(value: number): AuditDraft {
+    return { action: 'weight-added', entityId: 'e1', previousValue: null, newValue: value };
+}
+
+function chunk(index: number): AuditRecord[] {
+    return JSON.parse(getStoredItem(`${ALL_STORAGE_KEYS.AUDIT_LOG_PREFIX}${index}`) ?? 'null');
+}
+
+describe('audit log', () => {
+    beforeAll(async () => {
+        // A log saved whole, before chunks
+        memory.set(ALL_STORAGE_KEYS.AUDIT_LOG, JSON.stringify([record('old-1'), record('old-2')]));
+        vi.stubGlobal('navigator', {});
+        vi.stubGlobal('window', { addEventListener: () => undefined });
+        stubLocalStorage(memory);
+        await initStorage();
+    });
+
+    it('moves a log saved whole into chunks', () => {
+        expect(getAuditLog().map(r => r.id)).toEqual(['old-1', 'old-2']);
+        expect(chunk(0)).toEqual([record('old-1'), record('old-2')]);
+        expect(getStoredItem(ALL_STORAGE_KEYS.AUDIT_LOG)).toBeNull();
+    });
+
+    it('fills a chunk before starting the next one', () => {
+        appendAuditRecords(Array.from({ length: 250 }, (_, index) => draft(index + 1)));
+
+        expect(getAuditLog()).toHaveLength(252);
+        expect(chunk(0)).toHaveLength(200);
+        expect(chunk(1)).toHaveLength(52);
+        expect([...chunk(0), ...chunk(1)]).toEqual(getAuditLog());
+    });
+
+    it('rewrites only the last chunk on append', () => {
+        const setItem = vi.spyOn(localStorage, 'setItem');
+        appendAuditRecord(draft(7));
+
+        const writtenKeys = setItem.mock.calls.map(([key]) => key);
+        expect(writtenKeys.filter(key => key.startsWith(ALL_STORAGE_KEYS.AUDIT_LOG))).toEqual([
+            `${ALL_STORAGE_KEYS.AUDIT_LOG_PREFIX}1`,
+        ]);
+        expect(chunk(1)).toHaveLength(53);
+    });
+
+    it('imports only the records it does not have', () => {
+        expect(importAuditRecords([record('old-1'), record('backup-1')])).toBe(1);
+        expect(getAuditLog().at(-1)?.id).toBe('backup-1');
+        expect(importAuditRecords([record('backup-1')])).toBe(0);
+    });
+});
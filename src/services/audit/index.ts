@@ -0,0 +1,206 @@
+/**
+ * Audit Service
+ * Append-only trail of weight additions, edits, moves and deletions, category
+ * deletions and entity removals, kept on this device across jornadas.
+ *
+ * Records are only ever appended: there is no API to change or remove one
+ * (a factory reset is the only thing that clears the log, and restoring a
+ * backup only adds the records missing here). Each record carries the values
+ * before and after the action and the device that made it, so a disputed
+ * liquidation can be traced back.
+ *
+ * The log is stored in chunks of AUDIT_CHUNK_SIZE records
+ * (shpl_audit_log_0, shpl_audit_log_1, …); an append only rewrites the last
+ * chunk, never the whole log.
+ */
+
+import type { AuditAction, AuditRecord } from '../../types/domain';
+import { generateId } from '../../types/domain';
+import {
+    ALL_STORAGE_KEYS,
+    getStoredItem,
+    listStoredKeys,
+    loadListFromStorage,
+    removeFromStorage,
+    saveToStorage,
+} from '../storage';
+import { getDeviceId, getDeviceName } from '../device';
+import { isAuditRecord } from '../../utils/validation';
+
+// ============================================
+// Constants
+// ============================================
+
+const CHUNK_PREFIX = ALL_STORAGE_KEYS.AUDIT_LOG_PREFIX;
+
+/** Whole log in one key, as saved before chunks (moved into chunks on load) */
+const LEGACY_KEY = ALL_STORAGE_KEYS.AUDIT_LOG;
+
+/** Records per stored chunk */
+const AUDIT_CHUNK_SIZE = 200;
+
+/**
+ * Spanish label of each action, for the audit screen and exports
+ */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    'weight-added': 'Peso registrado',
+    'weight-updated': 'Peso corregido',
+    'weight-deleted': 'Peso eliminado',
+    'weight-reviewed': 'Peso atípico revisado',
+    'weight-moved': 'Peso movido',
+    'category-deleted': 'Categoría eliminada',
+    'entity-removed': 'Entidad eliminada',
+};
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * What the caller provides; id, time and device are filled in on append
+ */
+export type AuditDraft = Omit<AuditRecord, 'id' | 'timestamp' | 'deviceId' | 'deviceName'>;
+
+// ============================================
+// State
+// ============================================
+
+// Loaded on first use (after storage is initialized)
+let records: AuditRecord[] | null = null;
+
+// Chunk that appends go to (the last one)
+let lastChunk = { index: 0, records: [] as AuditRecord[] };
+
+const listeners = new Set<() => void>();
+
+function chunkKey(index: number): string {
+    return `${CHUNK_PREFIX}${index}`;
+}
+
+/**
+ * Add records to the stored chunks, filling the last one first
+ */
+function appendToChunks(added: AuditRecord[]): void {
+    const changed = new Set<number>();
+    let chunk = { index: lastChunk.index, records: [...lastChunk.records] };
+
+    for (const record of added) {
+        if (chunk.records.length >= AUDIT_CHUNK_SIZE) {
+            chunk = { index: chunk.index + 1, records: [] };
+        }
+        chunk.records.push(record);
+        changed.add(chunk.index);
+
+        // A chunk that filled up is saved before moving on
+        if (chunk.records.length >= AUDIT_CHUNK_SIZE) saveToStorage(chunkKey(chunk.index), chunk.records);
+    }
+
+    if (changed.has(chunk.index)) saveToStorage(chunkKey(chunk.index), chunk.records);
+    lastChunk = chunk;
+}
+
+function loadRecords(): AuditRecord[] {
+    if (records) return records;
+
+    const indexes = listStoredKeys(CHUNK_PREFIX)
+        .map((key) => Number(key.slice(CHUNK_PREFIX.length)))
+        .filter((index) => Number.isInteger(index) && index >= 0)
+        .sort((a, b) => a - b);
+
+    records = [];
+    for (const index of indexes) {
+        const chunk = loadListFromStorage(chunkKey(index), [], isAuditRecord);
+        records.push(...chunk);
+        lastChunk = { index, records: chunk };
+    }
+
+    const legacy = loadListFromStorage(LEGACY_KEY, [], isAuditRecord);
+    if (legacy.length > 0) {
+        const ids = new Set(records.map((record) => record.id));
+        const missing = legacy.filter((record) => !ids.has(record.id));
+        appendToChunks(missing);
+        records.push(...missing);
+    }
+    if (getStoredItem(LEGACY_KEY) !== null) removeFromStorage(LEGACY_KEY);
+
+    return records;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Append records to the log (all with the same timestamp)
+ */
+export function appendAuditRecords(drafts: AuditDraft[]): void {
+    if (drafts.length === 0) return;
+
+    const timestamp = Date.now();
+    const deviceId = getDeviceId();
+    const deviceName = getDeviceName();
+
+    const added = drafts.map((draft) => ({ ...draft, id: generateId(), timestamp, deviceId, deviceName }));
+    records = [...loadRecords(), ...added];
+    appendToChunks(added);
+    listeners.forEach((listener) => listener());
+}
+
+export function appendAuditRecord(draft: AuditDraft): void {
+    appendAuditRecords([draft]);
+}
+
+/**
+ * Add records from a backup that this device doesn't have (by id).
+ * They are appended after the existing ones (filterAuditLog sorts by time).
+ * @returns Number of records added
+ */
+export function importAuditRecords(incoming: AuditRecord[]): number {
+    const ids = new Set(loadRecords().map((record) => record.id));
+    const missing = incoming.filter((record) => !ids.has(record.id));
+    if (missing.length === 0) return 0;
+
+    records = [...loadRecords(), ...missing];
+    appendToChunks(missing);
+    listeners.forEach((listener) => listener());
+    return missing.length;
+}
+
+/**
+ * Every record, oldest first
+ */
+export function getAuditLog(): AuditRecord[] {
+    return loadRecords();
+}
+
+/**
+ * Records of the given entities within a time range, oldest first
+ */
+export function filterAuditLog(
+    log: AuditRecord[],
+    entityIds: string[],
+    from: number = 0,
+    to: number = Infinity
+): AuditRecord[] {
+    return log
+        .filter((record) =>
+            entityIds.includes(record.entityId) && record.timestamp >= from && record.timestamp <= to
+        )
+        .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function subscribeAuditLog(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export default {
+    appendAuditRecord,
+    appendAuditRecords,
+    importAuditRecords,
+    getAuditLog,
+    filterAuditLog,
+    subscribeAuditLog,
+};
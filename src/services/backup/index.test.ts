@@ -0,0 +1,181 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { AuditRecord, WeightEntry } from '../../types/domain';
+import { buildBatchesFromEntries } from '../../utils/batchUtils';
+import { appendAuditRecord, getAuditLog } from '../audit';
+import {
+    ALL_STORAGE_KEYS,
+    getStoredItem,
+    initStorage,
+    listStoredKeys,
+    removeStoredItem,
+    saveToStorage,
+    setStoredItem,
+} from '../storage';
+import {
+    BACKUP_FORMAT,
+    BACKUP_VERSION,
+    createBackup,
+    parseBackup,
+    restoreBackup,
+    summarizeBackup,
+    type BackupFile,
+} from './index';
+import { stubLocalStorage } from '../../test/storage';
+
+const BATCH_KEY = `${ALL_STORAGE_KEYS.BATCHES_PREFIX}e1:c1`;
+const SETTLEMENT_KEY = `${ALL_STORAGE_KEYS.SETTLEMENT_PREFIX}e1`;
+
+const BACKUP_RECORD: AuditRecord = {
+    id: 'from-backup',
+    timestamp: 1,
+    action: 'weight-deleted',
+    entityId: 'e1',
+    previousValue: 50,
+    newValue: null,
+    deviceId: 'device-b',
+    deviceName: 'Balanza 2',
+};
+
+function entry(id: string, timestamp: number, value = 50): WeightEntry {
+    return { id, value, timestamp, categoryId: 'c1', entityId: 'e1' };
+}
+
+function category(id: string, name = id) {
+    return { id, name, createdAt: 1 };
+}
+
+function backupWith(data: Record<string, unknown>): BackupFile {
+    return { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: 1, deviceName: 'Balanza 2', deviceId: 'device-b', data };
+}
+
+function stored(key: string): unknown {
+    return JSON.parse(getStoredItem(key) ?? 'null');
+}
+
+function seed(data: Record<string, unknown>): void {
+    listStoredKeys().forEach(removeStoredItem);
+    setStoredItem(ALL_STORAGE_KEYS.DEVICE_ID, 'device-a');
+    setStoredItem(ALL_STORAGE_KEYS.DEVICE_NAME, 'Balanza 1');
+    Object.entries(data).forEach(([key, value]) => setStoredItem(key, JSON.stringify(value)));
+}
+
+beforeAll(async () => {
+    stubLocalStorage();
+    vi.stubGlobal('navigator', {});
+    vi.stubGlobal('window', { addEventListener: () => undefined });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    await initStorage();
+});
+
+describe('creating a backup', () => {
+    it('takes every app key except those that belong to this device', () => {
+        seed({ [ALL_STORAGE_KEYS.CATEGORIES]: [category('c1')], [BATCH_KEY]: buildBatchesFromEntries([entry('w1', 1)], 'e1', 'c1') });
+        setStoredItem('other_app_key', '1');
+
+        const backup = createBackup();
+
+        expect(backup).toMatchObject({ format: BACKUP_FORMAT, version: BACKUP_VERSION, deviceName: 'Balanza 1', deviceId: 'device-a' });
+        // The audit log is always there (see below)
+        expect(Object.keys(backup.data).filter(key => key !== ALL_STORAGE_KEYS.AUDIT_LOG).sort())
+            .toEqual([BATCH_KEY, ALL_STORAGE_KEYS.CATEGORIES].sort());
+    });
+
+    it('reads back a backup it wrote, and summarizes it', () => {
+        const backup = backupWith({
+            [ALL_STORAGE_KEYS.ENTITIES_DESCARGA]: [{ id: 'e1', name: 'Juan', type: 'PROVIDER', createdAt: 1 }],
+            [ALL_STORAGE_KEYS.CATEGORIES]: [category('c1'), category('c2')],
+            [BATCH_KEY]: buildBatchesFromEntries([entry('w1', 1, 47.5), entry('w2', 2, 50.25)], 'e1', 'c1'),
+            [SETTLEMENT_KEY]: { prices: {}, freightRate: 0, sackValue: 0 },
+        });
+
+        const parsed = parseBackup(JSON.stringify(backup));
+
+        expect(parsed).toEqual(backup);
+        expect(summarizeBackup(parsed)).toMatchObject({
+            keyCount: 4,
+            entityCount: 1,
+            categoryCount: 2,
+            entryCount: 2,
+            totalWeight: 97.75,
+            settlementCount: 1,
+            archivedJornadaCount: 0,
+        });
+    });
+
+    it('rejects files that are not a backup it can restore', () => {
+        expect(() => parseBackup('{')).toThrow('no es un JSON válido');
+        expect(() => parseBackup(JSON.stringify({ ...backupWith({}), format: 'otro' }))).toThrow('no es un respaldo');
+        expect(() => parseBackup(JSON.stringify({ ...backupWith({}), version: BACKUP_VERSION + 1 }))).toThrow('versión más nueva');
+        expect(() => parseBackup(JSON.stringify(backupWith({ other_key: 1 })))).toThrow('Clave desconocida');
+        expect(() => parseBackup(JSON.stringify(backupWith({ [BATCH_KEY]: [{ id: 'b1' }] })))).toThrow('lotes dañados');
+    });
+});
+
+describe('restoring a backup', () => {
+    const local = {
+        [ALL_STORAGE_KEYS.CATEGORIES]: [category('c1', 'Local')],
+        [ALL_STORAGE_KEYS.ALL_BATCH_KEYS]: [BATCH_KEY],
+        [BATCH_KEY]: buildBatchesFromEntries([entry('w1', 1), entry('w3', 3)], 'e1', 'c1'),
+        [SETTLEMENT_KEY]: { prices: { c1: 1 }, freightRate: 0, sackValue: 0 },
+    };
+    const backup = backupWith({
+        [ALL_STORAGE_KEYS.CATEGORIES]: [category('c1', 'Respaldo'), category('c2')],
+        [ALL_STORAGE_KEYS.ALL_BATCH_KEYS]: [BATCH_KEY, `${ALL_STORAGE_KEYS.BATCHES_PREFIX}e2:c1`],
+        [BATCH_KEY]: buildBatchesFromEntries([entry('w1', 1), entry('w2', 2)], 'e1', 'c1'),
+        [SETTLEMENT_KEY]: { prices: { c1: 2 }, freightRate: 0, sackValue: 0 },
+        [ALL_STORAGE_KEYS.DEVICE_ID]: 'device-b',
+    });
+
+    it('merges by keeping what this device has and adding the rest', () => {
+        seed(local);
+
+        restoreBackup(backup, 'merge');
+
+        expect(stored(ALL_STORAGE_KEYS.CATEGORIES)).toEqual([category('c1', 'Local'), category('c2')]);
+        expect(stored(BATCH_KEY)).toEqual(buildBatchesFromEntries([entry('w1', 1), entry('w2', 2), entry('w3', 3)], 'e1', 'c1'));
+        expect(stored(ALL_STORAGE_KEYS.ALL_BATCH_KEYS)).toEqual([BATCH_KEY, `${ALL_STORAGE_KEYS.BATCHES_PREFIX}e2:c1`]);
+        expect(stored(SETTLEMENT_KEY)).toEqual(local[SETTLEMENT_KEY]);
+        expect(getStoredItem(ALL_STORAGE_KEYS.DEVICE_ID)).toBe('device-a');
+    });
+
+    it('replaces everything but this device\'s own keys', () => {
+        seed({ ...local, [`${ALL_STORAGE_KEYS.SETTLEMENT_PREFIX}e9`]: { prices: {}, freightRate: 0, sackValue: 0 } });
+
+        restoreBackup(backup, 'replace');
+
+        expect(stored(ALL_STORAGE_KEYS.CATEGORIES)).toEqual([category('c1', 'Respaldo'), category('c2')]);
+        expect(stored(BATCH_KEY)).toEqual(backup.data[BATCH_KEY]);
+        expect(stored(SETTLEMENT_KEY)).toEqual(backup.data[SETTLEMENT_KEY]);
+        expect(getStoredItem(`${ALL_STORAGE_KEYS.SETTLEMENT_PREFIX}e9`)).toBeNull();
+        expect(getStoredItem(ALL_STORAGE_KEYS.DEVICE_ID)).toBe('device-a');
+        expect(getStoredItem(ALL_STORAGE_KEYS.DEVICE_NAME)).toBe('Balanza 1');
+    });
+});
+
+describe('backing up the audit log', () => {
+    beforeAll(() => {
+        saveToStorage(ALL_STORAGE_KEYS.CATEGORIES, [{ id: 'here', name: 'Local', createdAt: 1 }]);
+        appendAuditRecord({ action: 'weight-added', entityId: 'e1', previousValue: null, newValue: 50 });
+    });
+
+    it('backs up the whole audit log under one key', () => {
+        const { data } = createBackup();
+
+        expect(data[ALL_STORAGE_KEYS.AUDIT_LOG]).toEqual(getAuditLog());
+        expect(Object.keys(data).filter(key => key.startsWith(ALL_STORAGE_KEYS.AUDIT_LOG_PREFIX))).toEqual([]);
+    });
+
+    it('keeps the audit log when replacing, adding the backup\'s records', () => {
+        const [localRecord] = getAuditLog();
+
+        restoreBackup(backupWith({
+            [ALL_STORAGE_KEYS.CATEGORIES]: [{ id: 'restored', name: 'Respaldo', createdAt: 2 }],
+            [ALL_STORAGE_KEYS.AUDIT_LOG]: [BACKUP_RECORD],
+        }), 'replace');
+
+        expect(JSON.parse(getStoredItem(ALL_STORAGE_KEYS.CATEGORIES)!)).toEqual([
+            { id: 'restored', name: 'Respaldo', createdAt: 2 },
+        ]);
+        expect(getAuditLog()).toEqual([localRecord, BACKUP_RECORD]);
+    });
+});
@@ -0,0 +1,352 @@
+/**
+ * Backup Service
+ * Versioned JSON backup of every shpl_ key, and restore by merge or replace.
+ *
+ * Merge keeps everything already on this device and adds what the backup has:
+ * entities, categories and archived jornadas are joined by id, and weight
+ * entries are joined by id and their batches rebuilt.
+ *
+ * The audit log is backed up whole under shpl_audit_log and is never replaced:
+ * either way of restoring only appends the backup's records missing here.
+ */
+
+import {
+    ALL_STORAGE_KEYS,
+    STORAGE_SCHEMA_VERSION,
+    getSchemaVersion,
+    setSchemaVersion,
+    getStoredItem,
+    listStoredKeys,
+    loadFromStorage,
+    loadListFromStorage,
+    removeFromStorage,
+    saveToStorage,
+} from '../storage';
+import { getAuditLog, importAuditRecords } from '../audit';
+import { getDeviceId, getDeviceName } from '../device';
+import { downloadFile } from '../export';
+import type { ArchivedJornadaInfo, Batch, Category, Entity, WeightEntry } from '../../types/domain';
+import { buildBatchesFromEntries } from '../../utils/batchUtils';
+import { safeAdd } from '../../utils/math';
+import { isAuditRecord, isBatch, isRecord, isStringArray } from '../../utils/validation';
+
+// ============================================
+// Types & Constants
+// ============================================
+
+export const BACKUP_FORMAT = 'shpl-backup';
+export const BACKUP_VERSION = 1;
+
+const APP_PREFIX = 'shpl_';
+
+/**
+ * Keys whose value must be an array (merged by id)
+ */
+const LIST_KEYS: string[] = [
+    ALL_STORAGE_KEYS.ENTITIES_DESCARGA,
+    ALL_STORAGE_KEYS.ENTITIES_TRANSBORDO,
+    ALL_STORAGE_KEYS.CATEGORIES,
+    ALL_STORAGE_KEYS.JORNADA_ARCHIVE_INDEX,
+    ALL_STORAGE_KEYS.PRICE_LISTS,
+    ALL_STORAGE_KEYS.ACCOUNT_MOVEMENTS,
+    ALL_STORAGE_KEYS.AUDIT_LOG,
+];
+
+/**
+ * Audit log keys: backed up and restored through the audit service only
+ */
+const AUDIT_KEYS_PREFIX = ALL_STORAGE_KEYS.AUDIT_LOG;
+
+/**
+ * Keys that belong to this device and are never backed up or restored
+ */
+const DEVICE_LOCAL_KEYS: string[] = [
+    ALL_STORAGE_KEYS.DEVICE_ID,
+    ALL_STORAGE_KEYS.DEVICE_NAME,
+    ALL_STORAGE_KEYS.SYNC_SEEDED,
+    ALL_STORAGE_KEYS.SYNC_META,
+    ALL_STORAGE_KEYS.SHARED_JORNADA,
+];
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: number;
+    deviceName: string;
+    deviceId: string;
+    data: Record<string, unknown>;  // storage key -> parsed value
+}
+
+export interface BackupSummary {
+    createdAt: number;
+    deviceName: string;
+    keyCount: number;
+    entityCount: number;
+    categoryCount: number;
+    entryCount: number;
+    totalWeight: number;
+    settlementCount: number;
+    archivedJornadaCount: number;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function isBackedUpKey(key: string): boolean {
+    return key.startsWith(APP_PREFIX) &&
+        !DEVICE_LOCAL_KEYS.includes(key) &&
+        !key.startsWith(ALL_STORAGE_KEYS.SYNC_OUTBOX_PREFIX) &&
+        !key.startsWith(AUDIT_KEYS_PREFIX);
+}
+
+function getAppKeys(): string[] {
+    return listStoredKeys(APP_PREFIX).filter(isBackedUpKey);
+}
+
+function unionById<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+    const ids = new Set(current.map(item => item.id));
+    return [...current, ...incoming.filter(item => !ids.has(item.id))];
+}
+
+/**
+ * Storage schema of the data in a backup (0 if made before schema versioning)
+ */
+function getBackupSchemaVersion(data: Record<string, unknown>): number {
+    const version = data[ALL_STORAGE_KEYS.SCHEMA_VERSION];
+    return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 0;
+}
+
+function getBackupEntries(data: Record<string, unknown>): WeightEntry[] {
+    return Object.entries(data)
+        .filter(([key]) => key.startsWith(ALL_STORAGE_KEYS.BATCHES_PREFIX))
+        .flatMap(([, batches]) => (batches as Batch[]).flatMap(batch => batch.entries));
+}
+
+// ============================================
+// Create
+// ============================================
+
+/**
+ * Snapshot every app key (except device-local ones) into a backup file
+ */
+export function createBackup(): BackupFile {
+    const data: Record<string, unknown> = {};
+    for (const key of getAppKeys()) {
+        const stored = getStoredItem(key);
+        if (stored === null) continue;
+        try {
+            data[key] = JSON.parse(stored);
+        } catch {
+            // Unreadable values are not backed up
+        }
+    }
+    data[ALL_STORAGE_KEYS.AUDIT_LOG] = getAuditLog();
+
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: Date.now(),
+        deviceName: getDeviceName(),
+        deviceId: getDeviceId(),
+        data,
+    };
+}
+
+function backupFilename(backup: BackupFile): string {
+    const date = new Date(backup.createdAt);
+    const stamp = [
+        date.getFullYear(),
+        String(date.getMonth() + 1).padStart(2, '0'),
+        String(date.getDate()).padStart(2, '0'),
+    ].join('-');
+    return `shpl-respaldo-${stamp}.json`;
+}
+
+/**
+ * Share the backup file (Android share sheet) or download it when sharing is unavailable
+ * @returns 'shared' or 'downloaded'
+ */
+export async function saveBackupFile(backup: BackupFile = createBackup()): Promise<'shared' | 'downloaded'> {
+    const json = JSON.stringify(backup);
+    const filename = backupFilename(backup);
+    const file = new File([json], filename, { type: 'application/json' });
+
+    if (typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] })) {
+        try {
+            await navigator.share({ files: [file], title: 'Respaldo SHPL' });
+            return 'shared';
+        } catch (error) {
+            // Cancelled or failed: fall back to a download
+            console.warn('[SHPL] Backup share failed, downloading instead:', error);
+        }
+    }
+
+    downloadFile(json, filename, 'application/json');
+    return 'downloaded';
+}
+
+// ============================================
+// Validate & Preview
+// ============================================
+
+/**
+ * Parse and validate a backup file
+ * @throws Error with a user-facing message if the file is not a valid backup
+ */
+export function parseBackup(text: string): BackupFile {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('El archivo no es un JSON válido');
+    }
+
+    if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+        throw new Error('El archivo no es un respaldo de SHPL');
+    }
+    if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+        throw new Error('El respaldo es de una versión más nueva de la aplicación');
+    }
+    if (typeof raw.createdAt !== 'number' || !isRecord(raw.data)) {
+        throw new Error('El respaldo está incompleto o dañado');
+    }
+    if (getBackupSchemaVersion(raw.data) > STORAGE_SCHEMA_VERSION) {
+        throw new Error('El respaldo es de una versión más nueva de la aplicación');
+    }
+
+    for (const [key, value] of Object.entries(raw.data)) {
+        if (!key.startsWith(APP_PREFIX)) {
+            throw new Error(`Clave desconocida en el respaldo: ${key}`);
+        }
+        if ((LIST_KEYS.includes(key) || key === ALL_STORAGE_KEYS.ALL_BATCH_KEYS) && !Array.isArray(value)) {
+            throw new Error('El respaldo está incompleto o dañado');
+        }
+        const isBatchKey = key.startsWith(ALL_STORAGE_KEYS.BATCHES_PREFIX);
+        if (isBatchKey && (!Array.isArray(value) || value.some(b => !isRecord(b) || !Array.isArray(b.entries)))) {
+            throw new Error('El respaldo contiene lotes dañados');
+        }
+    }
+
+    return {
+        format: BACKUP_FORMAT,
+        version: raw.version,
+        createdAt: raw.createdAt,
+        deviceName: typeof raw.deviceName === 'string' ? raw.deviceName : '',
+        deviceId: typeof raw.deviceId === 'string' ? raw.deviceId : '',
+        data: raw.data,
+    };
+}
+
+/**
+ * What a backup contains (shown before restoring)
+ */
+export function summarizeBackup(backup: BackupFile): BackupSummary {
+    const { data } = backup;
+    const keys = Object.keys(data);
+    const entries = getBackupEntries(data);
+
+    const entities = [
+        ...((data[ALL_STORAGE_KEYS.ENTITIES_DESCARGA] as Entity[] | undefined) ?? []),
+        ...((data[ALL_STORAGE_KEYS.ENTITIES_TRANSBORDO] as Entity[] | undefined) ?? []),
+    ];
+
+    return {
+        createdAt: backup.createdAt,
+        deviceName: backup.deviceName,
+        keyCount: keys.length,
+        entityCount: entities.length,
+        categoryCount: ((data[ALL_STORAGE_KEYS.CATEGORIES] as Category[] | undefined) ?? []).length,
+        entryCount: entries.length,
+        totalWeight: entries.reduce((total, e) => safeAdd(total, e.value), 0),
+        settlementCount: keys.filter(k => k.startsWith(ALL_STORAGE_KEYS.SETTLEMENT_PREFIX)).length,
+        archivedJornadaCount:
+            ((data[ALL_STORAGE_KEYS.JORNADA_ARCHIVE_INDEX] as ArchivedJornadaInfo[] | undefined) ?? []).length,
+    };
+}
+
+// ============================================
+// Restore
+// ============================================
+
+/**
+ * Replace: delete all app data on this device and write the backup as-is
+ */
+function restoreReplace(backup: BackupFile): void {
+    getAppKeys().forEach(removeFromStorage);
+    for (const [key, value] of Object.entries(backup.data)) {
+        if (isBackedUpKey(key)) saveToStorage(key, value);
+    }
+}
+
+/**
+ * Merge one key: lists by id, batches by entry id, anything else only if missing
+ */
+function mergeKey(key: string, incoming: unknown): void {
+    const existing = getStoredItem(key);
+    if (existing === null) {
+        saveToStorage(key, incoming);
+        return;
+    }
+
+    if (key.startsWith(ALL_STORAGE_KEYS.BATCHES_PREFIX)) {
+        const [entityId, categoryId] = key.slice(ALL_STORAGE_KEYS.BATCHES_PREFIX.length).split(':');
+        const currentEntries = loadListFromStorage(key, [], isBatch).flatMap(b => b.entries);
+        const incomingEntries = (incoming as Batch[]).flatMap(b => b.entries);
+        const merged = unionById(currentEntries, incomingEntries);
+        if (merged.length !== currentEntries.length) {
+            saveToStorage(key, buildBatchesFromEntries(merged, entityId, categoryId));
+        }
+        return;
+    }
+
+    if (LIST_KEYS.includes(key)) {
+        const current = loadFromStorage<Array<{ id: string }>>(key, []);
+        const merged = unionById(current, incoming as Array<{ id: string }>);
+        if (merged.length !== current.length) saveToStorage(key, merged);
+        return;
+    }
+
+    if (key === ALL_STORAGE_KEYS.ALL_BATCH_KEYS) {
+        const current = loadFromStorage<string[]>(key, [], isStringArray);
+        const merged = Array.from(new Set([...current, ...(incoming as string[])]));
+        if (merged.length !== current.length) saveToStorage(key, merged);
+    }
+
+    // Settlements, settings and selections: this device's values win
+}
+
+/**
+ * Restore a backup. Callers should reload the app afterwards.
+ * @returns Number of keys in the backup that were applied
+ */
+export function restoreBackup(backup: BackupFile, mode: RestoreMode): number {
+    if (mode === 'replace') {
+        restoreReplace(backup);
+    } else {
+        Object.entries(backup.data)
+            .filter(([key]) => isBackedUpKey(key))
+            .forEach(([key, value]) => mergeKey(key, value));
+
+        // Older data merged in: run the migrations again on the next start
+        const backupSchema = getBackupSchemaVersion(backup.data);
+        if (backupSchema < getSchemaVersion()) setSchemaVersion(backupSchema);
+    }
+
+    const auditLog = backup.data[ALL_STORAGE_KEYS.AUDIT_LOG];
+    if (Array.isArray(auditLog)) importAuditRecords(auditLog.filter(isAuditRecord));
+
+    const count = Object.keys(backup.data).length;
+    console.log(`[SHPL] Backup restored (${mode}). ${count} storage keys processed.`);
+    return count;
+}
+
+export default {
+    createBackup,
+    saveBackupFile,
+    parseBackup,
+    summarizeBackup,
+    restoreBackup,
+};
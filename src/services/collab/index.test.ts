@@ -0,0 +1,167 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Category, WeightEntry } from '../../types/domain';
+import { ALL_STORAGE_KEYS, getStoredItem, initStorage } from '../storage';
+import {
+    createSharedJornada,
+    getActiveJornadaCode,
+    joinSharedJornada,
+    leaveSharedJornada,
+    normalizeCode,
+    publishSharedChange,
+    subscribeSharedEntries,
+    type SharedEntity,
+} from './index';
+
+// In-memory stand-in for Firestore: documents by path and the collection listeners
+const firestore = vi.hoisted(() => {
+    type Data = Record<string, unknown>;
+    const docs = new Map<string, Data>();
+    const listeners = new Map<string, Set<(snapshot: unknown) => void>>();
+
+    const snapshotOf = (path: string) => ({
+        docs: [...docs.entries()]
+            .filter(([docPath]) => docPath.startsWith(`${path}/`) && !docPath.slice(path.length + 1).includes('/'))
+            .map(([, data]) => ({ data: () => data })),
+    });
+    const notify = (path: string) => {
+        const parent = path.slice(0, path.lastIndexOf('/'));
+        listeners.get(parent)?.forEach(listener => listener(snapshotOf(parent)));
+    };
+    const write = (path: string, data: Data | null) => {
+        if (data === null) {
+            docs.delete(path);
+        } else {
+            docs.set(path, data);
+        }
+        notify(path);
+    };
+
+    return { docs, listeners, snapshotOf, write };
+});
+
+// Browser storage the storage service falls back to
+const memory = await vi.hoisted(async () => {
+    const { stubLocalStorage } = await import('../../test/storage');
+    return stubLocalStorage();
+});
+
+vi.mock('../firebase/config', () => ({ db: {} }));
+
+vi.mock('firebase/firestore', () => {
+    type Ref = { path: string };
+    const path = (parent: Ref | object, segments: string[]) =>
+        ['path' in parent ? (parent as Ref).path : '', ...segments].filter(Boolean).join('/');
+
+    return {
+        doc: (parent: Ref | object, ...segments: string[]): Ref => ({ path: path(parent, segments) }),
+        collection: (parent: Ref | object, ...segments: string[]): Ref => ({ path: path(parent, segments) }),
+        getDoc: async (ref: Ref) => ({ exists: () => firestore.docs.has(ref.path) }),
+        setDoc: async (ref: Ref, data: Record<string, unknown>, options?: { merge?: boolean }) => {
+            firestore.write(ref.path, options?.merge ? { ...firestore.docs.get(ref.path), ...data } : data);
+        },
+        updateDoc: async (ref: Ref, data: Record<string, unknown>) => {
+            firestore.write(ref.path, { ...firestore.docs.get(ref.path), ...data });
+        },
+        deleteDoc: async (ref: Ref) => firestore.write(ref.path, null),
+        deleteField: () => undefined,
+        writeBatch: () => {
+            const operations: Array<() => void> = [];
+            return {
+                set: (ref: Ref, data: Record<string, unknown>, options?: { merge?: boolean }) => operations.push(() =>
+                    firestore.write(ref.path, options?.merge ? { ...firestore.docs.get(ref.path), ...data } : data)
+                ),
+                delete: (ref: Ref) => operations.push(() => firestore.write(ref.path, null)),
+                commit: async () => operations.forEach(operation => operation()),
+            };
+        },
+        onSnapshot: (ref: Ref, next: (snapshot: unknown) => void) => {
+            const set = firestore.listeners.get(ref.path) ?? new Set();
+            firestore.listeners.set(ref.path, set.add(next));
+            next(firestore.snapshotOf(ref.path));
+            return () => set.delete(next);
+        },
+    };
+});
+
+const BATCH_KEY = `${ALL_STORAGE_KEYS.BATCHES_PREFIX}e1:c1`;
+
+function entry(id: string, timestamp: number): WeightEntry {
+    return { id, value: 50, timestamp, categoryId: 'c1', entityId: 'e1' };
+}
+
+const CATEGORY: Category = { id: 'c1', name: 'Yungay', createdAt: 1 };
+
+describe('shared jornada', () => {
+    let code = '';
+    let sharedEntries: WeightEntry[] = [];
+
+    function stored(collection: string): Record<string, unknown>[] {
+        return firestore.snapshotOf(`shpl_jornadas/${code}/${collection}`).docs.map(d => d.data());
+    }
+
+    beforeAll(async () => {
+        memory.set(ALL_STORAGE_KEYS.DEVICE_ID, 'device-here');
+        memory.set(ALL_STORAGE_KEYS.CATEGORIES, JSON.stringify([CATEGORY]));
+        memory.set(ALL_STORAGE_KEYS.ENTITIES_DESCARGA, JSON.stringify([{ id: 'e1', name: 'Juan', type: 'PROVIDER', createdAt: 1 }]));
+        memory.set(ALL_STORAGE_KEYS.ALL_BATCH_KEYS, JSON.stringify([BATCH_KEY]));
+        memory.set(BATCH_KEY, JSON.stringify([{
+            id: 'b1', entries: [entry('w1', 1)], status: 'open', subtotal: null, categoryId: 'c1', entityId: 'e1',
+        }]));
+        vi.stubGlobal('navigator', {});
+        vi.stubGlobal('window', { addEventListener: () => undefined });
+        await initStorage();
+
+        code = await createSharedJornada();
+        subscribeSharedEntries((entries) => { sharedEntries = entries; });
+    });
+
+    it('normalizes typed join codes', () => {
+        expect(normalizeCode(' ab-c 12 ')).toBe('ABC12');
+    });
+
+    it('publishes this device\'s data when the jornada is created', () => {
+        expect(code).toMatch(/^[A-Z2-9]{6}$/);
+        expect(getActiveJornadaCode()).toBe(code);
+        expect(stored('categories')).toEqual([CATEGORY]);
+        expect(stored('entities')).toEqual([{ id: 'e1', name: 'Juan', type: 'PROVIDER', createdAt: 1, mode: 'DESCARGA' }]);
+        expect(sharedEntries).toEqual([{ ...entry('w1', 1), deviceId: 'device-here', deviceName: 'Equipo HERE' }]);
+    });
+
+    it('shares every change to an entry, keyed by its id', async () => {
+        publishSharedChange({ type: 'entry-added', entry: entry('w2', 2) });
+        publishSharedChange({ type: 'entry-added', entry: entry('w2', 2) });
+        publishSharedChange({ type: 'entry-updated', entry: { ...entry('w1', 1), value: 48 } });
+        await vi.waitFor(() => expect(sharedEntries.map(e => [e.id, e.value])).toEqual([['w1', 48], ['w2', 50]]));
+
+        publishSharedChange({ type: 'entry-deleted', entry: entry('w1', 1) });
+        await vi.waitFor(() => expect(sharedEntries.map(e => e.id)).toEqual(['w2']));
+    });
+
+    it('receives entries added by another device', () => {
+        firestore.write(`shpl_jornadas/${code}/entries/x1`, { ...entry('x1', 3), deviceId: 'other' });
+
+        expect(sharedEntries.map(e => e.id)).toEqual(['w2', 'x1']);
+    });
+
+    it('deletes a category together with its entries', async () => {
+        publishSharedChange({ type: 'category-deleted', categoryId: 'c1', entryIds: ['w2', 'x1'] });
+
+        await vi.waitFor(() => expect(stored('categories')).toEqual([]));
+        expect(sharedEntries).toEqual([]);
+    });
+
+    it('does not join a jornada that does not exist', async () => {
+        expect(await joinSharedJornada('ZZZZZZ')).toBe(false);
+        expect(getActiveJornadaCode()).toBe(code);
+    });
+
+    it('stops publishing after leaving', () => {
+        const entity: SharedEntity = { id: 'e2', name: 'Pedro', type: 'PROVIDER', createdAt: 1, mode: 'DESCARGA' };
+        leaveSharedJornada();
+        publishSharedChange({ type: 'entity-added', entity });
+
+        expect(getActiveJornadaCode()).toBeNull();
+        expect(getStoredItem(ALL_STORAGE_KEYS.SHARED_JORNADA)).toBeNull();
+        expect(stored('entities')).toHaveLength(1);
+    });
+});
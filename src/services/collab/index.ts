@@ -0,0 +1,399 @@
+/**
+ * Collaboration Service
+ * Shared "jornada": several devices weighing the same truck at once.
+ *
+ * Each WeightEntry is its own Firestore document keyed by entry ID, so writes
+ * are idempotent (no duplicates on retry) and every device rebuilds the same
+ * batches from the same ordered list of entries (each entry carries the size
+ * of the batch it was recorded into).
+ *
+ * Firestore layout:
+ *   shpl_jornadas/{code}                  - jornada metadata
+ *   shpl_jornadas/{code}/entries/{id}     - one weight entry
+ *   shpl_jornadas/{code}/categories/{id}  - shared categories
+ *   shpl_jornadas/{code}/entities/{id}    - shared entities (with their mode);
+ *                                           removed ones stay as `removed: true`
+ *                                           so a device rejoining doesn't restore them
+ */
+
+import {
+    collection,
+    deleteDoc,
+    deleteField,
+    doc,
+    getDoc,
+    onSnapshot,
+    setDoc,
+    updateDoc,
+    writeBatch,
+    type Unsubscribe,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import {
+    ALL_STORAGE_KEYS,
+    getStoredItem,
+    loadFromStorage,
+    loadListFromStorage,
+    removeStoredItem,
+    setStoredItem,
+} from '../storage';
+import { getDeviceId, getDeviceName } from '../device';
+import type { Category, Entity, OperationMode, WeightEntry } from '../../types/domain';
+import { isBatch, isCategory, isEntity, isStringArray } from '../../utils/validation';
+
+// ============================================
+// Constants & Types
+// ============================================
+
+export const JORNADAS_COLLECTION = 'shpl_jornadas';
+
+/** Characters for join codes (no 0/O/1/I to avoid misreading) */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+/** Firestore limits a write batch to 500 operations */
+const MAX_BATCH_WRITES = 500;
+
+export interface SharedEntity extends Entity {
+    mode: OperationMode;
+    removed?: boolean;
+}
+
+/**
+ * Change made locally that must be published to the shared jornada
+ */
+export type SharedChange =
+    | { type: 'entry-added'; entry: WeightEntry }
+    | { type: 'entry-updated'; entry: WeightEntry }
+    | { type: 'entry-moved'; entry: WeightEntry }
+    | { type: 'entry-deleted'; entry: WeightEntry }
+    | { type: 'category-added'; category: Category }
+    | { type: 'category-updated'; category: Category }
+    | { type: 'category-deleted'; categoryId: string; entryIds: string[] }
+    | { type: 'entity-added'; entity: SharedEntity }
+    | { type: 'entity-updated'; entity: SharedEntity }
+    | { type: 'entity-removed'; entityId: string };
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function loadActiveCode(): string | null {
+    return getStoredItem(ALL_STORAGE_KEYS.SHARED_JORNADA);
+}
+
+function generateCode(): string {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
+export function normalizeCode(code: string): string {
+    return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Firestore rejects `undefined` fields; a JSON round-trip drops them
+ */
+export function clean<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Delete documents in as many write batches as Firestore needs
+ */
+async function deleteInBatches(refs: ReturnType<typeof doc>[]): Promise<void> {
+    for (let i = 0; i < refs.length; i += MAX_BATCH_WRITES) {
+        const batch = writeBatch(db!);
+        refs.slice(i, i + MAX_BATCH_WRITES).forEach(ref => batch.delete(ref));
+        await batch.commit();
+    }
+}
+
+/**
+ * Collect everything this device already has, to publish it when joining
+ */
+function collectLocalData(): {
+    entries: WeightEntry[];
+    categories: Category[];
+    entities: SharedEntity[];
+} {
+    const batchKeys = loadFromStorage<string[]>(ALL_STORAGE_KEYS.ALL_BATCH_KEYS, [], isStringArray);
+    const entries = batchKeys.flatMap(key =>
+        loadListFromStorage(key, [], isBatch).flatMap(batch => batch.entries)
+    );
+
+    const categories = loadListFromStorage(ALL_STORAGE_KEYS.CATEGORIES, [], isCategory);
+
+    const entities: SharedEntity[] = [
+        ...loadListFromStorage(ALL_STORAGE_KEYS.ENTITIES_DESCARGA, [], isEntity)
+            .map(e => ({ ...e, mode: 'DESCARGA' as const })),
+        ...loadListFromStorage(ALL_STORAGE_KEYS.ENTITIES_TRANSBORDO, [], isEntity)
+            .map(e => ({ ...e, mode: 'TRANSBORDO' as const })),
+    ];
+
+    return { entries, categories, entities };
+}
+
+// ============================================
+// Module State (one active jornada per device)
+// ============================================
+
+let activeCode: string | null = loadActiveCode();
+
+let latestEntries: WeightEntry[] | null = null;
+let latestCategories: Category[] | null = null;
+let latestEntities: SharedEntity[] | null = null;
+
+const entryListeners = new Set<(entries: WeightEntry[]) => void>();
+const categoryListeners = new Set<(categories: Category[]) => void>();
+const entityListeners = new Set<(entities: SharedEntity[]) => void>();
+const codeListeners = new Set<() => void>();
+
+let firestoreUnsubs: Unsubscribe[] = [];
+
+/**
+ * Attach Firestore listeners for the active jornada (detaching previous ones)
+ */
+function attachListeners(): void {
+    firestoreUnsubs.forEach(unsub => unsub());
+    firestoreUnsubs = [];
+    latestEntries = null;
+    latestCategories = null;
+    latestEntities = null;
+
+    if (!db || !activeCode) return;
+
+    const base = doc(db, JORNADAS_COLLECTION, activeCode);
+
+    firestoreUnsubs.push(
+        onSnapshot(collection(base, 'entries'), (snapshot) => {
+            latestEntries = snapshot.docs.map(d => d.data() as WeightEntry);
+            entryListeners.forEach(listener => listener(latestEntries!));
+        }, (error) => console.error('[SHPL] Shared entries listener failed:', error)),
+
+        onSnapshot(collection(base, 'categories'), (snapshot) => {
+            latestCategories = snapshot.docs.map(d => d.data() as Category);
+            categoryListeners.forEach(listener => listener(latestCategories!));
+        }, (error) => console.error('[SHPL] Shared categories listener failed:', error)),
+
+        onSnapshot(collection(base, 'entities'), (snapshot) => {
+            latestEntities = snapshot.docs.map(d => d.data() as SharedEntity);
+            entityListeners.forEach(listener => listener(latestEntities!));
+        }, (error) => console.error('[SHPL] Shared entities listener failed:', error)),
+    );
+}
+
+function setActiveCode(code: string | null): void {
+    activeCode = code;
+    if (code) {
+        setStoredItem(ALL_STORAGE_KEYS.SHARED_JORNADA, code);
+    } else {
+        removeStoredItem(ALL_STORAGE_KEYS.SHARED_JORNADA);
+    }
+    attachListeners();
+    codeListeners.forEach(listener => listener());
+}
+
+/**
+ * Publish all local data to a jornada (union with what is already there)
+ */
+async function publishLocalData(code: string): Promise<void> {
+    if (!db) return;
+
+    const { entries, categories, entities } = collectLocalData();
+    const base = doc(db, JORNADAS_COLLECTION, code);
+    const deviceId = getDeviceId();
+    const deviceName = getDeviceName();
+
+    const writes: Array<[ReturnType<typeof doc>, object]> = [
+        ...categories.map(c => [doc(base, 'categories', c.id), c] as [ReturnType<typeof doc>, object]),
+        ...entities.map(e => [doc(base, 'entities', e.id), e] as [ReturnType<typeof doc>, object]),
+        ...entries.map(e => [
+            doc(base, 'entries', e.id),
+            { ...e, deviceId: e.deviceId ?? deviceId, deviceName: e.deviceName ?? deviceName },
+        ] as [ReturnType<typeof doc>, object]),
+    ];
+
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+        const batch = writeBatch(db);
+        writes.slice(i, i + MAX_BATCH_WRITES).forEach(([ref, data]) => {
+            batch.set(ref, clean(data), { merge: true });
+        });
+        await batch.commit();
+    }
+}
+
+// ============================================
+// Public API - Jornada Lifecycle
+// ============================================
+
+export function isCollabAvailable(): boolean {
+    return db !== null;
+}
+
+export function getActiveJornadaCode(): string | null {
+    return activeCode;
+}
+
+/**
+ * Create a new shared jornada and publish this device's data to it
+ * @returns The join code to share with the other devices
+ */
+export async function createSharedJornada(): Promise<string> {
+    if (!db) throw new Error('Firebase no está configurado');
+
+    const code = generateCode();
+    await setDoc(doc(db, JORNADAS_COLLECTION, code), {
+        code,
+        createdAt: Date.now(),
+        createdBy: getDeviceId(),
+        createdByName: getDeviceName(),
+    });
+
+    await publishLocalData(code);
+    setActiveCode(code);
+    return code;
+}
+
+/**
+ * Join an existing shared jornada by code
+ * @returns false if the code does not exist
+ */
+export async function joinSharedJornada(rawCode: string): Promise<boolean> {
+    if (!db) throw new Error('Firebase no está configurado');
+
+    const code = normalizeCode(rawCode);
+    if (!code) return false;
+
+    const snapshot = await getDoc(doc(db, JORNADAS_COLLECTION, code));
+    if (!snapshot.exists()) return false;
+
+    await publishLocalData(code);
+    setActiveCode(code);
+    return true;
+}
+
+/**
+ * Stop sharing. Local data keeps the last state received.
+ */
+export function leaveSharedJornada(): void {
+    setActiveCode(null);
+}
+
+// ============================================
+// Public API - Publishing Local Changes
+// ============================================
+
+/**
+ * Publish a local change to the active jornada (no-op when not sharing).
+ * Firestore queues writes while offline and applies them on reconnect.
+ */
+export function publishSharedChange(change: SharedChange): void {
+    if (!db || !activeCode) return;
+
+    const base = doc(db, JORNADAS_COLLECTION, activeCode);
+    let write: Promise<unknown>;
+
+    switch (change.type) {
+        case 'entry-added':
+            write = setDoc(doc(base, 'entries', change.entry.id), clean(change.entry));
+            break;
+        case 'entry-updated':
+            // Editing or reviewing an entry clears its outlier mark
+            write = updateDoc(doc(base, 'entries', change.entry.id), {
+                value: change.entry.value,
+                outlier: change.entry.outlier ?? deleteField(),
+            });
+            break;
+        case 'entry-moved':
+            // Reassigned to another entity and/or category
+            write = updateDoc(doc(base, 'entries', change.entry.id), {
+                entityId: change.entry.entityId,
+                categoryId: change.entry.categoryId,
+                batchSize: change.entry.batchSize ?? deleteField(),
+            });
+            break;
+        case 'entry-deleted':
+            write = deleteDoc(doc(base, 'entries', change.entry.id));
+            break;
+        case 'category-added':
+        case 'category-updated':
+            write = setDoc(doc(base, 'categories', change.category.id), clean(change.category));
+            break;
+        case 'category-deleted':
+            // Entries first: if a later batch fails, the category is still there to retry
+            write = deleteInBatches(change.entryIds.map(id => doc(base, 'entries', id)))
+                .then(() => deleteDoc(doc(base, 'categories', change.categoryId)));
+            break;
+        case 'entity-added':
+        case 'entity-updated':
+            // Whole document, so cleared deductions are cleared on every device
+            write = setDoc(doc(base, 'entities', change.entity.id), clean(change.entity));
+            break;
+        case 'entity-removed':
+            write = setDoc(doc(base, 'entities', change.entityId), { removed: true }, { merge: true });
+            break;
+    }
+
+    write.catch((error) => {
+        console.error('[SHPL] Failed to publish shared change:', change.type, error);
+    });
+}
+
+// ============================================
+// Public API - Subscriptions
+// ============================================
+
+/**
+ * Subscribe to the full list of shared entries (called on every remote change)
+ * @returns Unsubscribe function
+ */
+export function subscribeSharedEntries(listener: (entries: WeightEntry[]) => void): () => void {
+    entryListeners.add(listener);
+    if (latestEntries) listener(latestEntries);
+    return () => {
+        entryListeners.delete(listener);
+    };
+}
+
+export function subscribeSharedCategories(listener: (categories: Category[]) => void): () => void {
+    categoryListeners.add(listener);
+    if (latestCategories) listener(latestCategories);
+    return () => {
+        categoryListeners.delete(listener);
+    };
+}
+
+export function subscribeSharedEntities(listener: (entities: SharedEntity[]) => void): () => void {
+    entityListeners.add(listener);
+    if (latestEntities) listener(latestEntities);
+    return () => {
+        entityListeners.delete(listener);
+    };
+}
+
+/**
+ * Subscribe to changes of the active jornada code (join/leave)
+ */
+export function subscribeJornadaCode(listener: () => void): () => void {
+    codeListeners.add(listener);
+    return () => {
+        codeListeners.delete(listener);
+    };
+}
+
+// Resume the jornada joined before the last reload
+attachListeners();
+
+export default {
+    createSharedJornada,
+    joinSharedJornada,
+    leaveSharedJornada,
+    publishSharedChange,
+    subscribeSharedEntries,
+    subscribeSharedCategories,
+    subscribeSharedEntities,
+};
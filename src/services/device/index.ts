@@ -0,0 +1,42 @@
+/**
+ * Device Service
+ * Stable identity for this device, used to attribute weights in shared jornadas
+ */
+
+import { ALL_STORAGE_KEYS, getStoredItem, removeStoredItem, setStoredItem } from '../storage';
+import { generateId } from '../../types/domain';
+
+/**
+ * Get (or create on first use) the persistent ID of this device
+ */
+export function getDeviceId(): string {
+    let deviceId = getStoredItem(ALL_STORAGE_KEYS.DEVICE_ID);
+    if (!deviceId) {
+        deviceId = `device-${generateId()}`;
+        setStoredItem(ALL_STORAGE_KEYS.DEVICE_ID, deviceId);
+    }
+    return deviceId;
+}
+
+/**
+ * Get the human-readable name of this device/operator
+ * Falls back to a short form of the device ID
+ */
+export function getDeviceName(): string {
+    const name = getStoredItem(ALL_STORAGE_KEYS.DEVICE_NAME);
+    return name || `Equipo ${getDeviceId().slice(-4).toUpperCase()}`;
+}
+
+/**
+ * Set the name shown to other devices for this device/operator
+ */
+export function setDeviceName(name: string): void {
+    const trimmed = name.trim();
+    if (trimmed) {
+        setStoredItem(ALL_STORAGE_KEYS.DEVICE_NAME, trimmed);
+    } else {
+        removeStoredItem(ALL_STORAGE_KEYS.DEVICE_NAME);
+    }
+}
+
+export default { getDeviceId, getDeviceName, setDeviceName };
@@ -0,0 +1,35 @@
+import { describe, it } from 'vitest';
+import { expectGoldenBytes } from '../../test/golden';
+import {
+    SAMPLE_ADVANCE_DEBTS,
+    SAMPLE_BATCHES_BY_KEY,
+    SAMPLE_CATEGORIES,
+    SAMPLE_ENTITIES,
+    SAMPLE_SETTLEMENTS,
+} from '../../test/fixtures';
+import { buildExportSheets, sheetsToCsv, type ExportSource } from './index';
+import { buildXlsx } from './xlsx';
+
+// No audit log: its dates are written in the local time zone
+const SOURCE: ExportSource = {
+    entities: SAMPLE_ENTITIES,
+    categories: SAMPLE_CATEGORIES,
+    batchesByKey: SAMPLE_BATCHES_BY_KEY,
+    settlements: SAMPLE_SETTLEMENTS,
+    advanceDebts: SAMPLE_ADVANCE_DEBTS,
+};
+
+function fixture(name: string): URL {
+    return new URL(`./__fixtures__/${name}`, import.meta.url);
+}
+
+describe('notebook export', () => {
+    it('matches the golden CSV', () => {
+        const csv = sheetsToCsv(buildExportSheets(SOURCE));
+        expectGoldenBytes(new TextEncoder().encode(csv), fixture('notebook.csv'));
+    });
+
+    it('matches the golden XLSX', () => {
+        expectGoldenBytes(buildXlsx(buildExportSheets(SOURCE)), fixture('notebook.xlsx'));
+    });
+});
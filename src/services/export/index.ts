@@ -0,0 +1,288 @@
+/**
+ * Export Service
+ * Spreadsheet export (CSV / XLSX) of the notebook grid, category totals
+ * and settlement summary, built from the same NotebookData as HistoryScreen.
+ */
+
+import type { AuditRecord, Batch, Category, Entity, SettlementData } from '../../types/domain';
+import { QUALITY_GRADE_LABELS } from '../../types/domain';
+import { ALL_STORAGE_KEYS, loadFromStorage } from '../storage';
+import { transformBatchesToNotebook } from '../../utils/notebookUtils';
+import {
+    aggregateWeightsByCategory,
+    calculateSettlementSummary,
+    EMPTY_SETTLEMENT_DATA,
+    formatAdjustmentRate,
+} from '../../utils/settlementUtils';
+import { isSettlementData } from '../../utils/validation';
+import { applyPriceList } from '../prices';
+import { applyMoneySettings } from '../money';
+import { AUDIT_ACTION_LABELS } from '../audit';
+import { buildXlsx, type ExportCell, type ExportSheet } from './xlsx';
+
+export type { ExportCell, ExportSheet } from './xlsx';
+
+// ============================================
+// Types
+// ============================================
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Data to export (current jornada or an archived one)
+ */
+export interface ExportSource {
+    entities: Entity[];                          // Entities to include, in order
+    categories: Category[];
+    batchesByKey: Record<string, Batch[]>;
+    settlements: Record<string, SettlementData>; // entityId -> SettlementData
+    advanceDebts?: Record<string, number>;       // entityId -> advances the settlement deducts from
+    auditLog?: AuditRecord[];                    // Changes made during the jornada
+}
+
+// ============================================
+// Sheet Builders (pure)
+// ============================================
+
+/**
+ * Notebook grid: one block per entity, one column per batch,
+ * one row per weight slot and a subtotal row (like the paper notebook)
+ */
+export function buildNotebookSheet(source: ExportSource): ExportSheet {
+    const rows: ExportCell[][] = [];
+    const boldRows: number[] = [];
+
+    for (const entity of source.entities) {
+        const { columns, rowCount } = transformBatchesToNotebook(source.batchesByKey, entity.id, source.categories);
+        if (columns.length === 0) continue;
+
+        if (rows.length > 0) rows.push([]);
+
+        boldRows.push(rows.length);
+        rows.push([entity.name]);
+
+        boldRows.push(rows.length);
+        rows.push(['', ...columns.map(c => (c.isFirstInCategory ? c.categoryName : ''))]);
+
+        for (let i = 0; i < rowCount; i++) {
+            rows.push([`${i + 1}`, ...columns.map(c => c.weights[i])]);
+        }
+
+        boldRows.push(rows.length);
+        rows.push(['Subtotal', ...columns.map(c => c.subtotal)]);
+    }
+
+    return { name: 'Cuaderno', rows, boldRows };
+}
+
+/**
+ * Totals per entity and category (and per grade, for categories weighed by grade)
+ */
+export function buildCategoryTotalsSheet(source: ExportSource): ExportSheet {
+    const rows: ExportCell[][] = [['Entidad', 'Categoría', 'Lotes cerrados', 'Sacos', 'Peso (kg)']];
+
+    for (const entity of source.entities) {
+        const { columns, categoryTotals } = transformBatchesToNotebook(
+            source.batchesByKey,
+            entity.id,
+            source.categories
+        );
+
+        for (const total of categoryTotals) {
+            const sackCount = columns
+                .filter(c => c.categoryId === total.categoryId)
+                .reduce((count, c) => count + c.weights.filter(w => w !== null).length, 0);
+
+            rows.push([entity.name, total.categoryName, total.batchCount, sackCount, total.totalWeight]);
+
+            for (const gradeTotal of total.gradeTotals) {
+                const gradeName = gradeTotal.grade ? QUALITY_GRADE_LABELS[gradeTotal.grade] : 'Sin grado';
+                rows.push([entity.name, `${total.categoryName} · ${gradeName}`, null, gradeTotal.sacks, gradeTotal.weight]);
+            }
+        }
+    }
+
+    return { name: 'Totales por categoría', rows, boldRows: [0] };
+}
+
+/**
+ * Settlement summary per entity (category lines with gross/tare/shrinkage/net,
+ * freight, sacks, custom adjustments, advances, final amount and the debt carried forward)
+ */
+export function buildSettlementSheet(source: ExportSource): ExportSheet {
+    const rows: ExportCell[][] = [[
+        'Entidad', 'Concepto', 'Bruto (kg)', 'Tara (kg)', 'Merma (kg)', 'Neto (kg)', 'Precio/kg', 'Importe', 'Moneda',
+    ]];
+    const boldRows: number[] = [0];
+
+    for (const entity of source.entities) {
+        const settlementData = source.settlements[entity.id] ?? EMPTY_SETTLEMENT_DATA;
+        const summary = settlementData.finalSummary ?? calculateSettlementSummary(
+            source.categories,
+            aggregateWeightsByCategory(source.batchesByKey, entity.id),
+            settlementData,
+            entity,
+            source.advanceDebts?.[entity.id]
+        );
+        if (summary.grossWeight === 0) continue;
+        const currency = summary.currency;
+
+        for (const line of summary.categoryBreakdown) {
+            rows.push([
+                entity.name,
+                line.categoryName,
+                line.grossWeight,
+                line.tareWeight,
+                line.shrinkageWeight,
+                line.totalWeight,
+                line.unitPrice,
+                line.subtotal,
+                currency,
+            ]);
+        }
+        rows.push([entity.name, 'Flete', summary.grossWeight, null, null, null, null, -summary.freightTotal, currency]);
+        rows.push([entity.name, 'Pago por sacos', null, null, null, null, null, summary.sackValue, currency]);
+        for (const line of summary.adjustments) {
+            const concept = `${line.name || 'Ajuste'} (${formatAdjustmentRate(line, currency)})`;
+            const amount = line.direction === 'add' ? line.amount : -line.amount;
+            rows.push([entity.name, concept, null, null, null, null, null, amount, currency]);
+        }
+        if (summary.advanceDeduction > 0) {
+            rows.push([entity.name, 'Adelantos', null, null, null, null, null, -summary.advanceDeduction, currency]);
+        }
+        if (summary.roundingDifference !== 0) {
+            rows.push([entity.name, 'Redondeo', null, null, null, null, null, summary.roundingDifference, currency]);
+        }
+
+        boldRows.push(rows.length);
+        rows.push([entity.name, 'A PAGAR', null, null, null, null, null, summary.finalAmount, currency]);
+        if (summary.advanceBalance > 0) {
+            rows.push([entity.name, 'Saldo pendiente', null, null, null, null, null, summary.advanceBalance, currency]);
+        }
+    }
+
+    return { name: 'Liquidación', rows, boldRows };
+}
+
+/**
+ * Audit trail of the exported entities, oldest first
+ */
+export function buildAuditSheet(source: ExportSource): ExportSheet {
+    const rows: ExportCell[][] = [[
+        'Fecha/hora', 'Entidad', 'Acción', 'Categoría', 'Anterior (kg)', 'Nuevo (kg)', 'Equipo', 'Nota',
+    ]];
+
+    for (const record of source.auditLog ?? []) {
+        const entity = source.entities.find(e => e.id === record.entityId);
+        if (!entity) continue;
+
+        rows.push([
+            new Date(record.timestamp).toLocaleString('es-PE'),
+            entity.name,
+            AUDIT_ACTION_LABELS[record.action],
+            record.categoryName ?? '',
+            record.previousValue,
+            record.newValue,
+            record.deviceName,
+            record.note ?? '',
+        ]);
+    }
+
+    return { name: 'Auditoría', rows, boldRows: [0] };
+}
+
+/**
+ * All export sheets, in workbook order (the audit sheet only when a log is given)
+ */
+export function buildExportSheets(source: ExportSource): ExportSheet[] {
+    return [
+        buildNotebookSheet(source),
+        buildCategoryTotalsSheet(source),
+        buildSettlementSheet(source),
+        ...(source.auditLog ? [buildAuditSheet(source)] : []),
+    ];
+}
+
+// ============================================
+// CSV
+// ============================================
+
+function escapeCsv(cell: ExportCell): string {
+    if (cell === null) return '';
+    const value = String(cell);
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Single CSV with one section per sheet (title row + blank line between sections)
+ */
+export function sheetsToCsv(sheets: ExportSheet[]): string {
+    return sheets
+        .map(sheet => [
+            escapeCsv(sheet.name),
+            ...sheet.rows.map(row => row.map(escapeCsv).join(',')),
+        ].join('\r\n'))
+        .join('\r\n\r\n');
+}
+
+// ============================================
+// Download
+// ============================================
+
+/**
+ * Trigger a browser download of the given content
+ */
+export function downloadFile(content: BlobPart, filename: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Build and download the notebook export
+ * @param filenameBase - File name without extension
+ */
+export function exportNotebook(source: ExportSource, format: ExportFormat, filenameBase: string): void {
+    const sheets = buildExportSheets(source);
+
+    if (format === 'csv') {
+        // BOM so Excel opens the file as UTF-8 (accents in names)
+        downloadFile(`\uFEFF${sheetsToCsv(sheets)}`, `${filenameBase}.csv`, 'text/csv;charset=utf-8');
+    } else {
+        downloadFile(
+            new Uint8Array(buildXlsx(sheets)),
+            `${filenameBase}.xlsx`,
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        );
+    }
+}
+
+/**
+ * Settlement input of the current jornada for the given entities
+ * (pre-filled from the price list and money settings, like the settlement screen)
+ */
+export function loadCurrentSettlements(entityIds: string[]): Record<string, SettlementData> {
+    const settlements: Record<string, SettlementData> = {};
+    for (const entityId of entityIds) {
+        // Missing or unreadable settlement: exported with the list prices only
+        const settlement = loadFromStorage<SettlementData | null>(
+            `${ALL_STORAGE_KEYS.SETTLEMENT_PREFIX}${entityId}`,
+            null,
+            (value): value is SettlementData | null => isSettlementData(value)
+        );
+        settlements[entityId] = applyMoneySettings(applyPriceList(settlement ?? EMPTY_SETTLEMENT_DATA, entityId), !settlement);
+    }
+    return settlements;
+}
+
+export default {
+    buildExportSheets,
+    sheetsToCsv,
+    exportNotebook,
+    downloadFile,
+    loadCurrentSettlements,
+};
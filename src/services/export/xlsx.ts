@@ -0,0 +1,231 @@
+/**
+ * Minimal XLSX Writer
+ * Builds an Office Open XML workbook (inline strings, numbers, bold rows)
+ * packed in an uncompressed ZIP. Enough for tabular exports without pulling
+ * a spreadsheet library into the bundle.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type ExportCell = string | number | null;
+
+export interface ExportSheet {
+    name: string;
+    rows: ExportCell[][];
+    boldRows?: number[];    // Row indexes rendered in bold
+}
+
+// ============================================
+// ZIP (store method, no compression)
+// ============================================
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Fixed DOS timestamp (1980-01-01 00:00) so identical data gives identical files */
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+/**
+ * Pack files into a ZIP archive without compression
+ */
+export function createZip(files: Array<{ path: string; data: Uint8Array }>): Uint8Array {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.path);
+        const crc = crc32(file.data);
+        const size = file.data.length;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);   // Local file header signature
+        local.setUint16(4, 20, true);           // Version needed
+        local.setUint16(6, 0x0800, true);       // UTF-8 names
+        local.setUint16(8, 0, true);            // Store
+        local.setUint16(10, DOS_TIME, true);
+        local.setUint16(12, DOS_DATE, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);  // Central directory signature
+        header.setUint16(4, 20, true);          // Version made by
+        header.setUint16(6, 20, true);          // Version needed
+        header.setUint16(8, 0x0800, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, DOS_TIME, true);
+        header.setUint16(14, DOS_DATE, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, size, true);
+        header.setUint32(24, size, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true);     // Local header offset
+
+        chunks.push(new Uint8Array(local.buffer), name, file.data);
+        central.push(new Uint8Array(header.buffer), name);
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = central.reduce((total, chunk) => total + chunk.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);         // End of central directory signature
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        result.set(part, position);
+        position += part.length;
+    }
+    return result;
+}
+
+// ============================================
+// SpreadsheetML
+// ============================================
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column letters for a zero-based index (0 -> A, 26 -> AA)
+ */
+export function columnName(index: number): string {
+    let name = '';
+    let n = index + 1;
+    while (n > 0) {
+        const remainder = (n - 1) % 26;
+        name = String.fromCharCode(65 + remainder) + name;
+        n = Math.floor((n - 1) / 26);
+    }
+    return name;
+}
+
+/**
+ * Excel sheet names: max 31 chars, no []:*?/\
+ */
+function sanitizeSheetName(name: string): string {
+    return name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Hoja';
+}
+
+function buildSheetXml(sheet: ExportSheet): string {
+    const boldRows = new Set(sheet.boldRows ?? []);
+
+    const rows = sheet.rows.map((cells, rowIndex) => {
+        const rowNumber = rowIndex + 1;
+        const style = boldRows.has(rowIndex) ? ' s="1"' : '';
+
+        const xmlCells = cells.map((cell, colIndex) => {
+            if (cell === null || cell === '') return '';
+            const ref = `${columnName(colIndex)}${rowNumber}`;
+            if (typeof cell === 'number') {
+                return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+            }
+            return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+        }).join('');
+
+        return `<row r="${rowNumber}">${xmlCells}</row>`;
+    }).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${rows}</sheetData>` +
+        '</worksheet>';
+}
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+    '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+    '<fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>';
+
+/**
+ * Build an .xlsx workbook with one worksheet per sheet
+ */
+export function buildXlsx(sheets: ExportSheet[]): Uint8Array {
+    const encoder = new TextEncoder();
+
+    const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets.map((_, i) =>
+            `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>';
+
+    const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>';
+
+    const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheets.map((sheet, i) =>
+            `<sheet name="${escapeXml(sanitizeSheetName(sheet.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+        ).join('') +
+        '</sheets></workbook>';
+
+    const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, i) =>
+            `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        ).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>';
+
+    return createZip([
+        { path: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+        { path: '_rels/.rels', data: encoder.encode(rootRels) },
+        { path: 'xl/workbook.xml', data: encoder.encode(workbook) },
+        { path: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+        { path: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+        ...sheets.map((sheet, i) => ({
+            path: `xl/worksheets/sheet${i + 1}.xml`,
+            data: encoder.encode(buildSheetXml(sheet)),
+        })),
+    ]);
+}
@@ -2,8 +2,8 @@
 // This file configures Firebase services for the SHPL application
 
 import { initializeApp } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
-import { getAuth } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
 
 // Firebase configuration using environment variables
 // Remember to create a .env file based on .env.example
@@ -16,11 +16,23 @@ const firebaseConfig = {
     appId: import.meta.env.VITE_FIREBASE_APP_ID,
 };
 
+// Local Firebase Emulator Suite (e.g. "localhost"), used for testing without the cloud
+const emulatorHost: string | undefined = import.meta.env.VITE_FIREBASE_EMULATOR_HOST;
+
 // Initialize Firebase (only if config is available)
-const app = firebaseConfig.apiKey ? initializeApp(firebaseConfig) : null;
+// The emulator only needs a project ID; the API key can be any placeholder
+const app = firebaseConfig.apiKey || (emulatorHost && firebaseConfig.projectId)
+    ? initializeApp({ ...firebaseConfig, apiKey: firebaseConfig.apiKey || 'demo-key' })
+    : null;
 
 // Export Firebase services
 export const db = app ? getFirestore(app) : null;
 export const auth = app ? getAuth(app) : null;
 
+// Point services to the emulator when configured
+if (emulatorHost) {
+    if (db) connectFirestoreEmulator(db, emulatorHost, 8080);
+    if (auth) connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+}
+
 export default app;
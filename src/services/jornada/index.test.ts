@@ -0,0 +1,113 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { ArchivedJornadaInfo, WeightEntry } from '../../types/domain';
+import { ALL_STORAGE_KEYS, getStoredItem, initStorage, setStoredItem, subscribeStorageChanges } from '../storage';
+import {
+    closeCurrentJornada,
+    getCurrentJornada,
+    listArchivedJornadas,
+    loadArchivedJornada,
+    parseLocalDate,
+    toLocalDateString,
+} from './index';
+
+// Browser storage the storage service falls back to
+const memory = await vi.hoisted(async () => {
+    const { stubLocalStorage } = await import('../../test/storage');
+    return stubLocalStorage();
+});
+
+const BATCH_KEY = `${ALL_STORAGE_KEYS.BATCHES_PREFIX}e1:c1`;
+const EMPTY_BATCH_KEY = `${ALL_STORAGE_KEYS.BATCHES_PREFIX}e2:c1`;
+const SETTLEMENT_KEY = `${ALL_STORAGE_KEYS.SETTLEMENT_PREFIX}e1`;
+
+const CATEGORIES = [{ id: 'c1', name: 'Yungay', createdAt: 1 }];
+const ENTITIES = [{ id: 'e1', name: 'Juan', type: 'PROVIDER', createdAt: 1 }];
+const SETTLEMENT = { prices: { c1: 1.2 }, freightRate: 0, sackValue: 0 };
+
+function entry(id: string, value: number): WeightEntry {
+    return { id, value, timestamp: 1, categoryId: 'c1', entityId: 'e1' };
+}
+
+function batch(id: string, entries: WeightEntry[], entityId = 'e1') {
+    return { id, entries, status: 'open', subtotal: null, categoryId: 'c1', entityId };
+}
+
+function seedLedger(): void {
+    memory.set(ALL_STORAGE_KEYS.CATEGORIES, JSON.stringify(CATEGORIES));
+    memory.set(ALL_STORAGE_KEYS.ENTITIES_DESCARGA, JSON.stringify(ENTITIES));
+    memory.set(ALL_STORAGE_KEYS.ALL_BATCH_KEYS, JSON.stringify([BATCH_KEY, EMPTY_BATCH_KEY]));
+    memory.set(BATCH_KEY, JSON.stringify([batch('b1', [entry('w1', 47.5), entry('w2', 50.25)])]));
+    memory.set(EMPTY_BATCH_KEY, JSON.stringify([batch('b2', [], 'e2')]));
+    memory.set(SETTLEMENT_KEY, JSON.stringify(SETTLEMENT));
+}
+
+describe('local dates', () => {
+    it('reads back the date it writes', () => {
+        expect(toLocalDateString(new Date(2026, 0, 5))).toBe('2026-01-05');
+        expect(parseLocalDate('2026-01-05')).toEqual(new Date(2026, 0, 5));
+    });
+});
+
+describe('closing the jornada', () => {
+    let closed: ReturnType<typeof getCurrentJornada>;
+    let info: ArchivedJornadaInfo | null = null;
+    const removedKeys: string[] = [];
+
+    beforeAll(async () => {
+        seedLedger();
+        vi.stubGlobal('navigator', {});
+        vi.stubGlobal('window', { addEventListener: () => undefined });
+        await initStorage();
+        subscribeStorageChanges((key, _value, removed) => {
+            if (removed) removedKeys.push(key);
+        });
+        closed = getCurrentJornada();
+        info = closeCurrentJornada();
+    });
+
+    it('archives the jornada with its weights and settlements', () => {
+        expect(info).toMatchObject({ id: closed.id, date: closed.date, entryCount: 2, totalWeight: 97.75 });
+        expect(listArchivedJornadas()).toEqual([info]);
+
+        const archive = loadArchivedJornada(closed.id);
+        expect(archive?.batchesByKey).toEqual({ 'e1:c1': [batch('b1', [entry('w1', 47.5), entry('w2', 50.25)])] });
+        expect(archive?.settlements).toEqual({ e1: SETTLEMENT });
+        expect(archive?.categories).toEqual(CATEGORIES);
+        expect(archive?.entities.DESCARGA).toEqual(ENTITIES);
+    });
+
+    it('clears the ledger and opens the next jornada', () => {
+        const ledgerKeys = [BATCH_KEY, EMPTY_BATCH_KEY, SETTLEMENT_KEY, ALL_STORAGE_KEYS.ALL_BATCH_KEYS];
+        for (const key of ledgerKeys) {
+            expect(getStoredItem(key)).toBeNull();
+        }
+        // Removed where sync sees it, so other devices drop them too
+        expect(removedKeys).toEqual(expect.arrayContaining(ledgerKeys));
+        expect(getCurrentJornada().id).not.toBe(closed.id);
+    });
+
+    it('keeps entities and categories for the next jornada', () => {
+        expect(JSON.parse(getStoredItem(ALL_STORAGE_KEYS.CATEGORIES) ?? 'null')).toEqual(CATEGORIES);
+        expect(JSON.parse(getStoredItem(ALL_STORAGE_KEYS.ENTITIES_DESCARGA) ?? 'null')).toEqual(ENTITIES);
+    });
+
+    it('archives nothing when the jornada had no weights', () => {
+        const empty = getCurrentJornada();
+
+        expect(closeCurrentJornada()).toBeNull();
+        expect(listArchivedJornadas()).toEqual([info]);
+        expect(getCurrentJornada().id).not.toBe(empty.id);
+    });
+
+    it('skips archive records that are not readable', () => {
+        const index = getStoredItem(ALL_STORAGE_KEYS.JORNADA_ARCHIVE_INDEX)!;
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        setStoredItem(ALL_STORAGE_KEYS.JORNADA_ARCHIVE_INDEX, JSON.stringify([info, { id: 'j0' }]));
+        setStoredItem(`${ALL_STORAGE_KEYS.ARCHIVE_PREFIX}j0`, JSON.stringify({ id: 'j0', batchesByKey: 'x' }));
+
+        expect(listArchivedJornadas()).toEqual([info]);
+        expect(loadArchivedJornada('j0')).toBeNull();
+
+        setStoredItem(ALL_STORAGE_KEYS.JORNADA_ARCHIVE_INDEX, index);
+    });
+});
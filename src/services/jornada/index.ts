@@ -0,0 +1,227 @@
+/**
+ * Jornada Service
+ * Dated work sessions. The current jornada collects all weighing; closing it
+ * freezes batches, settlements, entities and categories into an immutable
+ * archive record, posts each entity's advance deduction to its account and
+ * starts the next day with an empty ledger.
+ *
+ * Storage layout:
+ *   shpl_current_jornada   - the open jornada of this device
+ *   shpl_jornada_archive   - index of closed jornadas (newest first)
+ *   shpl_archive_{id}      - full snapshot of one closed jornada
+ */
+
+import {
+    ALL_STORAGE_KEYS,
+    listStoredKeys,
+    loadFromStorage,
+    loadListFromStorage,
+    removeFromStorage,
+    saveToStorage,
+    setStoredItem,
+} from '../storage';
+import { leaveSharedJornada } from '../collab';
+import type { AccountDeduction } from '../accounts';
+import { getAccountBalance, getAccountMovements, postSettlementDeductions } from '../accounts';
+import type {
+    ArchivedJornada,
+    ArchivedJornadaInfo,
+    Batch,
+    Jornada,
+    SettlementData,
+} from '../../types/domain';
+import { generateId } from '../../types/domain';
+import { safeAdd } from '../../utils/math';
+import {
+    aggregateWeightsByCategory,
+    calculateSettlementSummary,
+    EMPTY_SETTLEMENT_DATA,
+    getSettlementCurrency,
+} from '../../utils/settlementUtils';
+import {
+    isArchivedJornada,
+    isArchivedJornadaInfo,
+    isBatch,
+    isCategory,
+    isEntity,
+    isJornada,
+    isSettlementData,
+    isStringArray,
+} from '../../utils/validation';
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toLocalDateString(date: Date = new Date()): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a local date (not UTC midnight)
+ */
+export function parseLocalDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+function getSettlementKeys(): string[] {
+    return listStoredKeys(ALL_STORAGE_KEYS.SETTLEMENT_PREFIX);
+}
+
+// ============================================
+// Current Jornada
+// ============================================
+
+let currentJornada: Jornada = loadFromStorage<Jornada | null>(
+    ALL_STORAGE_KEYS.CURRENT_JORNADA,
+    null,
+    (value): value is Jornada | null => isJornada(value)
+) ?? openJornada();
+
+const listeners = new Set<() => void>();
+
+/**
+ * Start a new jornada dated today
+ */
+function openJornada(): Jornada {
+    const jornada: Jornada = {
+        id: generateId(),
+        date: toLocalDateString(),
+        openedAt: Date.now(),
+    };
+    setStoredItem(ALL_STORAGE_KEYS.CURRENT_JORNADA, JSON.stringify(jornada));
+    return jornada;
+}
+
+/**
+ * The open jornada (one is always open; a new one starts after closing)
+ */
+export function getCurrentJornada(): Jornada {
+    return currentJornada;
+}
+
+export function subscribeCurrentJornada(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Close the current jornada: archive its data, clear the ledger and open a new one.
+ * Entities and categories stay available for the next jornada.
+ * Callers should reload the app afterwards so every screen drops its in-memory state.
+ *
+ * @returns The archive record, or null if the jornada had no weights
+ */
+export function closeCurrentJornada(): ArchivedJornadaInfo | null {
+    const batchKeys = loadFromStorage<string[]>(ALL_STORAGE_KEYS.ALL_BATCH_KEYS, [], isStringArray);
+    const settlementKeys = getSettlementKeys();
+
+    const batchesByKey: Record<string, Batch[]> = {};
+    for (const storageKey of batchKeys) {
+        const batches = loadListFromStorage(storageKey, [], isBatch);
+        if (batches.some(b => b.entries.length > 0)) {
+            batchesByKey[storageKey.slice(ALL_STORAGE_KEYS.BATCHES_PREFIX.length)] = batches;
+        }
+    }
+
+    const entries = Object.values(batchesByKey).flatMap(batches => batches.flatMap(b => b.entries));
+    let info: ArchivedJornadaInfo | null = null;
+
+    if (entries.length > 0) {
+        const settlements: Record<string, SettlementData> = {};
+        for (const storageKey of settlementKeys) {
+            settlements[storageKey.slice(ALL_STORAGE_KEYS.SETTLEMENT_PREFIX.length)] =
+                loadFromStorage<SettlementData>(storageKey, EMPTY_SETTLEMENT_DATA, isSettlementData);
+        }
+
+        info = {
+            ...currentJornada,
+            closedAt: Date.now(),
+            entryCount: entries.length,
+            totalWeight: entries.reduce((total, e) => safeAdd(total, e.value), 0),
+        };
+
+        const archive: ArchivedJornada = {
+            ...info,
+            entities: {
+                DESCARGA: loadListFromStorage(ALL_STORAGE_KEYS.ENTITIES_DESCARGA, [], isEntity),
+                TRANSBORDO: loadListFromStorage(ALL_STORAGE_KEYS.ENTITIES_TRANSBORDO, [], isEntity),
+            },
+            categories: loadListFromStorage(ALL_STORAGE_KEYS.CATEGORIES, [], isCategory),
+            batchesByKey,
+            settlements,
+        };
+
+        saveToStorage(`${ALL_STORAGE_KEYS.ARCHIVE_PREFIX}${info.id}`, archive);
+        saveToStorage(ALL_STORAGE_KEYS.JORNADA_ARCHIVE_INDEX, [info, ...listArchivedJornadas()]);
+
+        // What each settlement took from the entity's advances; the rest carries forward
+        const movements = getAccountMovements();
+        const deductions: Record<string, AccountDeduction> = {};
+        for (const entity of [...archive.entities.DESCARGA, ...archive.entities.TRANSBORDO]) {
+            const settlementData = settlements[entity.id] ?? EMPTY_SETTLEMENT_DATA;
+            // A finalized settlement deducts what it was finalized with
+            const summary = settlementData.finalSummary ?? calculateSettlementSummary(
+                archive.categories,
+                aggregateWeightsByCategory(batchesByKey, entity.id),
+                settlementData,
+                entity,
+                getAccountBalance(movements, entity.id, getSettlementCurrency(settlementData))
+            );
+            deductions[entity.id] = { amount: summary.advanceDeduction, currency: summary.currency };
+        }
+        const closedOn = parseLocalDate(info.date).toLocaleDateString('es-PE');
+        postSettlementDeductions(info.id, deductions, `Descontado en la liquidación del ${closedOn}`, info.closedAt);
+    }
+
+    // A shared session belongs to the jornada being closed
+    leaveSharedJornada();
+
+    // Clear the ledger
+    batchKeys.forEach(removeFromStorage);
+    settlementKeys.forEach(removeFromStorage);
+    removeFromStorage(ALL_STORAGE_KEYS.ALL_BATCH_KEYS);
+
+    currentJornada = openJornada();
+    listeners.forEach(listener => listener());
+
+    return info;
+}
+
+// ============================================
+// Archive
+// ============================================
+
+/**
+ * Closed jornadas, newest first
+ */
+export function listArchivedJornadas(): ArchivedJornadaInfo[] {
+    return loadListFromStorage(ALL_STORAGE_KEYS.JORNADA_ARCHIVE_INDEX, [], isArchivedJornadaInfo);
+}
+
+/**
+ * Load the full snapshot of a closed jornada
+ */
+export function loadArchivedJornada(id: string): ArchivedJornada | null {
+    return loadFromStorage<ArchivedJornada | null>(
+        `${ALL_STORAGE_KEYS.ARCHIVE_PREFIX}${id}`,
+        null,
+        (value): value is ArchivedJornada | null => isArchivedJornada(value)
+    );
+}
+
+export default {
+    getCurrentJornada,
+    closeCurrentJornada,
+    listArchivedJornadas,
+    loadArchivedJornada,
+};
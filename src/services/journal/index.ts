@@ -0,0 +1,129 @@
+/**
+ * Action Journal
+ * Undo/redo history for weighing actions.
+ *
+ * Each action keeps a snapshot of what it touched (each weight entry and
+ * category it changed) as it was before running. Undoing puts back only
+ * those, so weights and categories added meanwhile are left alone (in a
+ * shared jornada they would otherwise be deleted everywhere); the state it
+ * replaced is kept for redo. The journal lives in memory outside React, so
+ * it survives switching screens but not a reload.
+ */
+
+import type { Category, WeightEntry } from '../../types/domain';
+import { generateId } from '../../types/domain';
+
+// ============================================
+// Constants
+// ============================================
+
+/** Oldest actions are dropped beyond this */
+const JOURNAL_LIMIT = 50;
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * State of what an action touched
+ */
+export interface JournalSnapshot {
+    entries: Record<string, WeightEntry | null>;  // Entry id -> entry (null = it did not exist)
+    categories?: Record<string, Category | null>; // Category id -> category (null = it did not exist)
+}
+
+export interface JournalAction {
+    id: string;
+    label: string;          // Shown in the UI ("Peso eliminado")
+    snapshot: JournalSnapshot;
+    timestamp: number;
+}
+
+export interface JournalState {
+    undo: JournalAction[];  // Most recent last
+    redo: JournalAction[];  // Most recently undone last
+}
+
+/**
+ * Applies a snapshot and returns the snapshot of the state it replaced
+ */
+export type RestoreSnapshot = (snapshot: JournalSnapshot) => JournalSnapshot;
+
+// ============================================
+// State
+// ============================================
+
+let state: JournalState = { undo: [], redo: [] };
+
+const listeners = new Set<() => void>();
+
+function setState(next: JournalState): void {
+    state = next;
+    listeners.forEach((listener) => listener());
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Record an action that is about to run. A new action discards the redo history.
+ */
+export function recordAction(label: string, snapshot: JournalSnapshot): void {
+    const action: JournalAction = { id: generateId(), label, snapshot, timestamp: Date.now() };
+    setState({
+        undo: [...state.undo, action].slice(-JOURNAL_LIMIT),
+        redo: [],
+    });
+}
+
+/**
+ * Undo the most recent action
+ * @returns The undone action, or null if there was nothing to undo
+ */
+export function undoLastAction(restore: RestoreSnapshot): JournalAction | null {
+    const action = state.undo[state.undo.length - 1];
+    if (!action) return null;
+
+    const replaced = restore(action.snapshot);
+    setState({
+        undo: state.undo.slice(0, -1),
+        redo: [...state.redo, { ...action, snapshot: replaced }],
+    });
+    return action;
+}
+
+/**
+ * Redo the most recently undone action
+ * @returns The redone action, or null if there was nothing to redo
+ */
+export function redoLastAction(restore: RestoreSnapshot): JournalAction | null {
+    const action = state.redo[state.redo.length - 1];
+    if (!action) return null;
+
+    const replaced = restore(action.snapshot);
+    setState({
+        undo: [...state.undo, { ...action, snapshot: replaced }],
+        redo: state.redo.slice(0, -1),
+    });
+    return action;
+}
+
+export function getJournalState(): JournalState {
+    return state;
+}
+
+export function subscribeJournal(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export default {
+    recordAction,
+    undoLastAction,
+    redoLastAction,
+    getJournalState,
+    subscribeJournal,
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import type { MoneySettings } from '../../types/domain';
+import { EMPTY_SETTLEMENT_DATA } from '../../utils/settlementUtils';
+import { applyMoneySettings } from './index';
+
+const MONEY: MoneySettings = { currency: 'USD', locale: 'en-US', rounding: 'tenth' };
+
+describe('applyMoneySettings', () => {
+    it('starts a new settlement with the current currency and rounding', () => {
+        expect(applyMoneySettings(EMPTY_SETTLEMENT_DATA, true, MONEY)).toMatchObject({ currency: 'USD', rounding: 'tenth' });
+    });
+
+    it('keeps a saved settlement without them in soles, rounded half-up', () => {
+        expect(applyMoneySettings(EMPTY_SETTLEMENT_DATA, false, MONEY)).toMatchObject({ currency: 'PEN', rounding: 'half-up' });
+    });
+
+    it('leaves the currency and rounding a settlement already has', () => {
+        const data = { ...EMPTY_SETTLEMENT_DATA, currency: 'PEN' as const, rounding: 'unit' as const };
+
+        expect(applyMoneySettings(data, true, MONEY)).toBe(data);
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Money Settings Service
+ * Currency and rounding policy new settlements start with, and the locale
+ * amounts are written in (device setting, not synced).
+ *
+ * Like the price list, a settlement records the currency and rounding it was
+ * created with, so changing the setting doesn't change settlements in progress.
+ */
+
+import type { CurrencyCode, MoneySettings, RoundingPolicy, SettlementData } from '../../types/domain';
+import { DEFAULT_MONEY_SETTINGS, MONEY_LOCALES } from '../../types/domain';
+import { ALL_STORAGE_KEYS, loadFromStorage, saveToStorage } from '../storage';
+import { isCurrencyCode, isRecord, isRoundingPolicy } from '../../utils/validation';
+
+// ============================================
+// Constants
+// ============================================
+
+/** Currency and rounding of settlements saved before they could be chosen */
+const LEGACY_SETTLEMENT_MONEY: { currency: CurrencyCode; rounding: RoundingPolicy } = {
+    currency: 'PEN',
+    rounding: 'half-up',
+};
+
+// ============================================
+// State
+// ============================================
+
+// Loaded on first use (after storage is initialized)
+let settings: MoneySettings | null = null;
+
+const listeners = new Set<() => void>();
+
+function loadSettings(): MoneySettings {
+    if (!settings) {
+        const stored = loadFromStorage<Record<string, unknown>>(ALL_STORAGE_KEYS.MONEY_SETTINGS, {}, isRecord);
+        settings = {
+            currency: isCurrencyCode(stored.currency) ? stored.currency : DEFAULT_MONEY_SETTINGS.currency,
+            locale: typeof stored.locale === 'string' && stored.locale in MONEY_LOCALES
+                ? stored.locale
+                : DEFAULT_MONEY_SETTINGS.locale,
+            rounding: isRoundingPolicy(stored.rounding) ? stored.rounding : DEFAULT_MONEY_SETTINGS.rounding,
+        };
+    }
+    return settings;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+export function getMoneySettings(): MoneySettings {
+    return loadSettings();
+}
+
+/**
+ * Update and persist the money settings
+ */
+export function updateMoneySettings(patch: Partial<MoneySettings>): void {
+    settings = { ...loadSettings(), ...patch };
+    saveToStorage(ALL_STORAGE_KEYS.MONEY_SETTINGS, settings);
+    listeners.forEach((listener) => listener());
+}
+
+/**
+ * Fill in the currency and rounding of a settlement that has none yet.
+ * A new settlement takes the current settings; one saved before currencies
+ * existed was in soles, rounded half-up (settlements that already have them
+ * are returned as they are).
+ */
+export function applyMoneySettings(
+    data: SettlementData,
+    isNew: boolean,
+    money: MoneySettings = loadSettings()
+): SettlementData {
+    if (data.currency && data.rounding) return data;
+
+    const fallback = isNew ? money : LEGACY_SETTLEMENT_MONEY;
+    return {
+        ...data,
+        currency: data.currency ?? fallback.currency,
+        rounding: data.rounding ?? fallback.rounding,
+    };
+}
+
+export function subscribeMoneySettings(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export default {
+    getMoneySettings,
+    updateMoneySettings,
+    applyMoneySettings,
+    subscribeMoneySettings,
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { PriceListVersion } from '../../types/domain';
+import { EMPTY_SETTLEMENT_DATA } from '../../utils/settlementUtils';
+import { applyPriceList, resolvePrices } from './index';
+
+const VERSION: PriceListVersion = {
+    id: 'v2',
+    effectiveFrom: 100,
+    createdAt: 90,
+    prices: { c1: 1.2, c2: 0.9 },
+    entityPrices: { e1: { c2: 1.05 } },
+};
+
+describe('resolvePrices', () => {
+    it('puts the entity\'s own prices over the category defaults', () => {
+        expect(resolvePrices(VERSION, 'e1')).toEqual({ c1: 1.2, c2: 1.05 });
+    });
+
+    it('uses the defaults for an entity without overrides', () => {
+        expect(resolvePrices(VERSION, 'e2')).toEqual({ c1: 1.2, c2: 0.9 });
+    });
+});
+
+describe('applyPriceList', () => {
+    it('pre-fills the prices and records the version used', () => {
+        const data = applyPriceList(EMPTY_SETTLEMENT_DATA, 'e1', VERSION);
+
+        expect(data.prices).toEqual({ c1: 1.2, c2: 1.05 });
+        expect(data.priceVersionId).toBe('v2');
+    });
+
+    it('keeps prices typed before any version existed', () => {
+        const data = applyPriceList({ ...EMPTY_SETTLEMENT_DATA, prices: { c1: 1.5 } }, 'e1', VERSION);
+
+        expect(data.prices).toEqual({ c1: 1.5, c2: 1.05 });
+    });
+
+    it('leaves a settlement that already used a version as it is', () => {
+        const settled = { ...EMPTY_SETTLEMENT_DATA, prices: { c1: 1 }, priceVersionId: 'v1' };
+
+        expect(applyPriceList(settled, 'e1', VERSION)).toBe(settled);
+    });
+
+    it('leaves the settlement as it is without a price list', () => {
+        expect(applyPriceList(EMPTY_SETTLEMENT_DATA, 'e1', null)).toBe(EMPTY_SETTLEMENT_DATA);
+    });
+});
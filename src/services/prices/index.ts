@@ -0,0 +1,135 @@
+/**
+ * Price List Service
+ * Default price per category, optional per-entity overrides, and a dated
+ * history of every version of the list.
+ *
+ * Versions are never edited: saving prices appends a new version that applies
+ * from its effective time on (it can be scheduled ahead). Settlements are
+ * pre-filled from the version in effect and record its id, so a settlement
+ * can always be traced back to the prices it was made with.
+ */
+
+import type { PriceListVersion, SettlementData } from '../../types/domain';
+import { generateId } from '../../types/domain';
+import { ALL_STORAGE_KEYS, loadListFromStorage, saveToStorage, subscribeRemoteChanges } from '../storage';
+import { isPriceListVersion } from '../../utils/validation';
+
+// ============================================
+// Constants
+// ============================================
+
+const PRICE_LISTS_KEY = ALL_STORAGE_KEYS.PRICE_LISTS;
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * What the caller provides; id and creation time are filled in on save
+ */
+export type PriceListDraft = Omit<PriceListVersion, 'id' | 'createdAt'>;
+
+// ============================================
+// State
+// ============================================
+
+// Loaded on first use (after storage is initialized)
+let versions: PriceListVersion[] | null = null;
+
+const listeners = new Set<() => void>();
+
+function loadVersions(): PriceListVersion[] {
+    if (!versions) {
+        versions = sortVersions(loadListFromStorage(PRICE_LISTS_KEY, [], isPriceListVersion));
+    }
+    return versions;
+}
+
+// Read them again when another device changed the price lists
+subscribeRemoteChanges((keys) => {
+    if (!versions || !keys.includes(PRICE_LISTS_KEY)) return;
+    versions = null;
+    listeners.forEach((listener) => listener());
+});
+
+function sortVersions(list: PriceListVersion[]): PriceListVersion[] {
+    return [...list].sort((a, b) => a.effectiveFrom - b.effectiveFrom || a.createdAt - b.createdAt);
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Every version, oldest effective first
+ */
+export function getPriceHistory(): PriceListVersion[] {
+    return loadVersions();
+}
+
+/**
+ * Version in effect at a given time (the latest one that had started)
+ */
+export function getPriceVersionAt(time: number = Date.now()): PriceListVersion | null {
+    const started = loadVersions().filter((version) => version.effectiveFrom <= time);
+    return started[started.length - 1] ?? null;
+}
+
+export function getPriceVersion(id: string): PriceListVersion | null {
+    return loadVersions().find((version) => version.id === id) ?? null;
+}
+
+/**
+ * Prices of a version for one entity: category defaults with the entity's overrides on top
+ */
+export function resolvePrices(version: PriceListVersion, entityId: string): Record<string, number> {
+    return { ...version.prices, ...version.entityPrices[entityId] };
+}
+
+/**
+ * Save a new version of the price list
+ */
+export function savePriceVersion(draft: PriceListDraft): PriceListVersion {
+    const version: PriceListVersion = { ...draft, id: generateId(), createdAt: Date.now() };
+
+    versions = sortVersions([...loadVersions(), version]);
+    saveToStorage(PRICE_LISTS_KEY, versions);
+    listeners.forEach((listener) => listener());
+
+    return version;
+}
+
+/**
+ * Pre-fill a settlement from the price list. Settlements that already used a
+ * version are left as they are; prices typed before any version existed win.
+ */
+export function applyPriceList(
+    data: SettlementData,
+    entityId: string,
+    version: PriceListVersion | null = getPriceVersionAt()
+): SettlementData {
+    if (!version || data.priceVersionId) return data;
+
+    return {
+        ...data,
+        prices: { ...resolvePrices(version, entityId), ...data.prices },
+        priceVersionId: version.id,
+    };
+}
+
+export function subscribePriceHistory(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export default {
+    getPriceHistory,
+    getPriceVersionAt,
+    getPriceVersion,
+    resolvePrices,
+    savePriceVersion,
+    applyPriceList,
+    subscribePriceHistory,
+};
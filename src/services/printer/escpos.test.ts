@@ -0,0 +1,62 @@
+import { describe, it } from 'vitest';
+import { expectGoldenBytes } from '../../test/golden';
+import {
+    SAMPLE_ADVANCE_DEBTS,
+    SAMPLE_BATCHES_BY_KEY,
+    SAMPLE_CATEGORIES,
+    SAMPLE_DATE,
+    SAMPLE_ENTITIES,
+    SAMPLE_SETTLEMENTS,
+} from '../../test/fixtures';
+import { aggregateWeightsByCategory, calculateSettlementSummary } from '../../utils/settlementUtils';
+import { buildBatchTicket, buildSettlementTicket } from './escpos';
+
+function fixture(name: string): URL {
+    return new URL(`./__fixtures__/${name}`, import.meta.url);
+}
+
+function sampleSummary(entityId: string) {
+    const entity = SAMPLE_ENTITIES.find(e => e.id === entityId)!;
+    return calculateSettlementSummary(
+        SAMPLE_CATEGORIES,
+        aggregateWeightsByCategory(SAMPLE_BATCHES_BY_KEY, entityId),
+        SAMPLE_SETTLEMENTS[entityId],
+        entity,
+        SAMPLE_ADVANCE_DEBTS[entityId] ?? 0
+    );
+}
+
+describe('buildBatchTicket', () => {
+    const [sealedBatch] = SAMPLE_BATCHES_BY_KEY['e-juan:yungay'];
+    const info = { entityName: 'Juan Quispe', categoryName: 'Yungay', batchNumber: 1, date: SAMPLE_DATE };
+
+    it('matches the 58 mm golden ticket', () => {
+        expectGoldenBytes(buildBatchTicket(sealedBatch, { ...info, paperWidth: 58 }), fixture('batch-58.bin'));
+    });
+
+    it('matches the 80 mm golden ticket', () => {
+        expectGoldenBytes(buildBatchTicket(sealedBatch, { ...info, paperWidth: 80 }), fixture('batch-80.bin'));
+    });
+});
+
+describe('buildSettlementTicket', () => {
+    it('matches the golden ticket with grades, adjustments, advances and rounding', () => {
+        const ticket = buildSettlementTicket(sampleSummary('e-juan'), {
+            entityName: 'Juan Quispe',
+            entityLabel: 'Dueño',
+            paperWidth: 58,
+            date: SAMPLE_DATE,
+        });
+        expectGoldenBytes(ticket, fixture('settlement-58.bin'));
+    });
+
+    it('matches the golden ticket with tare overrides in dollars', () => {
+        const ticket = buildSettlementTicket(sampleSummary('e-rosa'), {
+            entityName: 'Rosa Mamani',
+            entityLabel: 'Dueño',
+            paperWidth: 80,
+            date: SAMPLE_DATE,
+        });
+        expectGoldenBytes(ticket, fixture('settlement-80.bin'));
+    });
+});
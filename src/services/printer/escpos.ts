@@ -0,0 +1,298 @@
+/**
+ * ESC/POS Encoder
+ * Pure byte-stream generation for 58mm/80mm thermal printers.
+ *
+ * Text is encoded in code page PC850 so Spanish characters (á, ñ, ¿...) print
+ * correctly on the generic printers sold locally. Layout functions return the
+ * complete Uint8Array, so the same bytes can go to any transport or be compared
+ * byte-for-byte.
+ */
+
+import type { Batch, SettlementSummary } from '../../types/domain';
+import { CURRENCY_SYMBOLS } from '../../types/domain';
+import { safeSum } from '../../utils/math';
+
+// ============================================
+// Constants
+// ============================================
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/** ESC t n - code page PC850 (Multilingual Latin I) */
+const CODE_PAGE_PC850 = 2;
+
+export type PaperWidth = 58 | 80;
+
+/** Characters per line in font A */
+export const CHARS_PER_LINE: Record<PaperWidth, number> = {
+    58: 32,
+    80: 48,
+};
+
+export type Alignment = 'left' | 'center' | 'right';
+
+const ALIGNMENT_CODES: Record<Alignment, number> = {
+    left: 0,
+    center: 1,
+    right: 2,
+};
+
+/**
+ * PC850 bytes for non-ASCII characters used in tickets
+ */
+const PC850_MAP: Record<string, number> = {
+    'á': 0xa0, 'é': 0x82, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3,
+    'Á': 0xb5, 'É': 0x90, 'Í': 0xd6, 'Ó': 0xe0, 'Ú': 0xe9,
+    'ñ': 0xa4, 'Ñ': 0xa5, 'ü': 0x81, 'Ü': 0x9a,
+    '¿': 0xa8, '¡': 0xad, '°': 0xf8, '×': 0x9e,
+};
+
+/** Fallback byte for characters the printer cannot show */
+const UNKNOWN_CHAR = 0x3f; // '?'
+
+// ============================================
+// Text Encoding
+// ============================================
+
+/**
+ * Encode text as PC850 bytes (unsupported characters become '?')
+ */
+export function encodeText(text: string): number[] {
+    const bytes: number[] = [];
+    for (const ch of text) {
+        const code = ch.charCodeAt(0);
+        if (code >= 0x20 && code < 0x7f) {
+            bytes.push(code);
+        } else if (ch === '\n') {
+            bytes.push(LF);
+        } else {
+            bytes.push(PC850_MAP[ch] ?? UNKNOWN_CHAR);
+        }
+    }
+    return bytes;
+}
+
+/**
+ * Left text and right text on one line, padded with spaces (or a fill character)
+ */
+export function justify(left: string, right: string, width: number, fill = ' '): string {
+    const space = width - left.length - right.length;
+    if (space < 1) {
+        // Not enough room: truncate the left side, keep the amount intact
+        return `${left.slice(0, Math.max(0, width - right.length - 1))} ${right}`;
+    }
+    return left + fill.repeat(space) + right;
+}
+
+// ============================================
+// Encoder
+// ============================================
+
+/**
+ * Chainable ESC/POS command builder
+ * @example createEscPosEncoder(32).initialize().bold(true).line('HOLA').cut().encode()
+ */
+export function createEscPosEncoder(width: number) {
+    const bytes: number[] = [];
+
+    const encoder = {
+        width,
+
+        /** ESC @ (reset) + code page */
+        initialize() {
+            bytes.push(ESC, 0x40, ESC, 0x74, CODE_PAGE_PC850);
+            return encoder;
+        },
+        align(alignment: Alignment) {
+            bytes.push(ESC, 0x61, ALIGNMENT_CODES[alignment]);
+            return encoder;
+        },
+        bold(enabled: boolean) {
+            bytes.push(ESC, 0x45, enabled ? 1 : 0);
+            return encoder;
+        },
+        /** GS ! n - character size multiplier (1 or 2) */
+        size(widthMultiplier: 1 | 2, heightMultiplier: 1 | 2 = widthMultiplier) {
+            bytes.push(GS, 0x21, ((widthMultiplier - 1) << 4) | (heightMultiplier - 1));
+            return encoder;
+        },
+        text(value: string) {
+            bytes.push(...encodeText(value));
+            return encoder;
+        },
+        line(value = '') {
+            bytes.push(...encodeText(value), LF);
+            return encoder;
+        },
+        /** Left/right columns filling the line width */
+        row(left: string, right: string, fill = ' ') {
+            return encoder.line(justify(left, right, width, fill));
+        },
+        separator(char = '-') {
+            return encoder.line(char.repeat(width));
+        },
+        feed(lines = 1) {
+            bytes.push(ESC, 0x64, lines);
+            return encoder;
+        },
+        /** GS V 66 n - feed and partial cut */
+        cut() {
+            bytes.push(GS, 0x56, 0x42, 3);
+            return encoder;
+        },
+        encode(): Uint8Array {
+            return Uint8Array.from(bytes);
+        },
+    };
+
+    return encoder;
+}
+
+export type EscPosEncoder = ReturnType<typeof createEscPosEncoder>;
+
+// ============================================
+// Ticket Layouts
+// ============================================
+
+function formatAmount(value: number): string {
+    return value.toFixed(2);
+}
+
+function formatTicketDate(date: Date): string {
+    const day = String(date.getDate()).padStart(2, '0');
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    return `${day}/${month}/${date.getFullYear()} ${hours}:${minutes}`;
+}
+
+export interface BatchTicketInfo {
+    entityName: string;
+    categoryName: string;
+    batchNumber: number;
+    paperWidth: PaperWidth;
+    date?: Date;
+}
+
+/**
+ * Ticket for a sealed batch: its entries and subtotal
+ */
+export function buildBatchTicket(batch: Batch, info: BatchTicketInfo): Uint8Array {
+    const encoder = createEscPosEncoder(CHARS_PER_LINE[info.paperWidth]);
+    const subtotal = batch.subtotal ?? safeSum(batch.entries.map(e => e.value));
+
+    encoder
+        .initialize()
+        .align('center')
+        .bold(true)
+        .line(`LOTE #${info.batchNumber}`)
+        .bold(false)
+        .line(formatTicketDate(info.date ?? new Date()))
+        .align('left')
+        .separator()
+        .row('Entidad:', info.entityName)
+        .row('Categoría:', info.categoryName)
+        .separator();
+
+    batch.entries.forEach((entry, index) => {
+        encoder.row(`${index + 1}.`, `${formatAmount(entry.value)} kg`, '.');
+    });
+
+    encoder
+        .separator('=')
+        .bold(true)
+        .row('SUBTOTAL', `${formatAmount(subtotal)} kg`)
+        .bold(false)
+        .feed(3)
+        .cut();
+
+    return encoder.encode();
+}
+
+export interface SettlementTicketInfo {
+    entityName: string;
+    entityLabel: string;
+    paperWidth: PaperWidth;
+    date?: Date;
+}
+
+/**
+ * Full settlement ticket: category lines, freight, sacks, total and signature
+ */
+export function buildSettlementTicket(summary: SettlementSummary, info: SettlementTicketInfo): Uint8Array {
+    const encoder = createEscPosEncoder(CHARS_PER_LINE[info.paperWidth]);
+    const currency = CURRENCY_SYMBOLS[summary.currency];
+
+    encoder
+        .initialize()
+        .align('center')
+        .bold(true)
+        .size(2)
+        .line('LIQUIDACIÓN')
+        .size(1)
+        .bold(false)
+        .line(formatTicketDate(info.date ?? new Date()))
+        .align('left')
+        .separator()
+        .row(`${info.entityLabel}:`, info.entityName)
+        .separator();
+
+    summary.categoryBreakdown.forEach((line) => {
+        encoder.line(line.categoryName);
+        if (line.tareWeight > 0 || line.shrinkageWeight > 0) {
+            encoder.line(
+                `  Bruto ${formatAmount(line.grossWeight)} - tara ${formatAmount(line.tareWeight)}` +
+                ` - merma ${formatAmount(line.shrinkageWeight)}`
+            );
+        }
+        encoder
+            .row(
+                `  ${formatAmount(line.totalWeight)} kg × ${formatAmount(line.unitPrice)}`,
+                formatAmount(line.subtotal)
+            );
+    });
+
+    encoder
+        .separator()
+        .row('Subtotal bruto', `${currency} ${formatAmount(summary.grossTotal)}`)
+        .row('Flete', `- ${currency} ${formatAmount(summary.freightTotal)}`)
+        .row('Pago por sacos', `+ ${currency} ${formatAmount(summary.sackValue)}`);
+
+    summary.adjustments.filter((line) => line.amount > 0).forEach((line) => {
+        encoder.row(line.name || 'Ajuste', `${line.direction === 'add' ? '+' : '-'} ${currency} ${formatAmount(line.amount)}`);
+    });
+
+    if (summary.advanceDeduction > 0) {
+        encoder.row('Adelantos', `- ${currency} ${formatAmount(summary.advanceDeduction)}`);
+    }
+
+    if (summary.roundingDifference !== 0) {
+        const sign = summary.roundingDifference > 0 ? '+' : '-';
+        encoder.row('Redondeo', `${sign} ${currency} ${formatAmount(Math.abs(summary.roundingDifference))}`);
+    }
+
+    encoder
+        .separator('=')
+        .bold(true)
+        .size(1, 2)
+        .row('A PAGAR', `${currency} ${formatAmount(summary.finalAmount)}`)
+        .size(1)
+        .bold(false)
+        .feed(4)
+        .align('center')
+        .line('-'.repeat(Math.min(24, encoder.width)))
+        .line('Recibí conforme')
+        .line(info.entityName);
+
+    if (summary.advanceBalance > 0) {
+        encoder.feed(1).line(`Saldo pendiente: ${currency} ${formatAmount(summary.advanceBalance)}`);
+    }
+
+    encoder
+        .feed(3)
+        .cut();
+
+    return encoder.encode();
+}
@@ -0,0 +1,376 @@
+/**
+ * Printer Service
+ * Sends ESC/POS tickets to a thermal printer through a pluggable transport:
+ * Web Bluetooth, Web Serial, or a file download (for testing without hardware).
+ *
+ * One printer connection is shared by the whole app; screens only call
+ * printBytes() and read the state through subscribePrinterState().
+ */
+
+import { ALL_STORAGE_KEYS, loadFromStorage, saveToStorage } from '../storage';
+import { isRecord } from '../../utils/validation';
+import type { PaperWidth } from './escpos';
+
+export * from './escpos';
+
+// ============================================
+// Types
+// ============================================
+
+export type PrinterTransportType = 'bluetooth' | 'serial' | 'file';
+
+export interface PrinterTransport {
+    readonly type: PrinterTransportType;
+    connect: () => Promise<void>;
+    write: (data: Uint8Array) => Promise<void>;
+    disconnect: () => Promise<void>;
+}
+
+export type PrinterStatus = 'disconnected' | 'connecting' | 'connected' | 'printing' | 'error';
+
+export interface PrinterSettings {
+    transport: PrinterTransportType;
+    paperWidth: PaperWidth;
+    autoPrintBatches: boolean;
+}
+
+export interface PrinterState {
+    status: PrinterStatus;
+    settings: PrinterSettings;
+    error: string | null;
+}
+
+const DEFAULT_SETTINGS: PrinterSettings = {
+    transport: 'bluetooth',
+    paperWidth: 58,
+    autoPrintBatches: false,
+};
+
+// ============================================
+// Web Serial Transport
+// ============================================
+
+/**
+ * Minimal typing of the Web Serial API (not included in lib.dom)
+ */
+interface SerialPortLike {
+    open: (options: { baudRate: number }) => Promise<void>;
+    close: () => Promise<void>;
+    writable: WritableStream<Uint8Array> | null;
+}
+
+interface SerialLike {
+    requestPort: () => Promise<SerialPortLike>;
+}
+
+function getSerial(): SerialLike | null {
+    return (navigator as unknown as { serial?: SerialLike }).serial ?? null;
+}
+
+/**
+ * Printer connected by USB cable (USB-serial adapters)
+ */
+export function createSerialPrinterTransport(baudRate = 9600): PrinterTransport {
+    let port: SerialPortLike | null = null;
+
+    return {
+        type: 'serial',
+        async connect() {
+            const serial = getSerial();
+            if (!serial) throw new Error('Web Serial no disponible en este navegador');
+
+            port = await serial.requestPort();
+            await port.open({ baudRate });
+        },
+        async write(data) {
+            if (!port?.writable) throw new Error('Impresora no conectada');
+            const writer = port.writable.getWriter();
+            try {
+                await writer.write(data);
+            } finally {
+                writer.releaseLock();
+            }
+        },
+        async disconnect() {
+            try {
+                await port?.close();
+            } catch (error) {
+                console.error('[SHPL] Error closing serial printer:', error);
+            }
+            port = null;
+        },
+    };
+}
+
+// ============================================
+// Web Bluetooth Transport
+// ============================================
+
+/**
+ * Minimal typing of the Web Bluetooth API (not included in lib.dom)
+ */
+interface BluetoothCharacteristicLike {
+    properties: { write: boolean; writeWithoutResponse: boolean };
+    writeValue: (data: BufferSource) => Promise<void>;
+}
+
+interface BluetoothServiceLike {
+    getCharacteristics: () => Promise<BluetoothCharacteristicLike[]>;
+}
+
+interface BluetoothDeviceLike extends EventTarget {
+    gatt?: {
+        connected: boolean;
+        connect: () => Promise<{
+            getPrimaryServices: () => Promise<BluetoothServiceLike[]>;
+        }>;
+        disconnect: () => void;
+    };
+}
+
+interface BluetoothLike {
+    requestDevice: (options: {
+        acceptAllDevices?: boolean;
+        optionalServices?: Array<number | string>;
+    }) => Promise<BluetoothDeviceLike>;
+}
+
+function getBluetooth(): BluetoothLike | null {
+    return (navigator as unknown as { bluetooth?: BluetoothLike }).bluetooth ?? null;
+}
+
+/**
+ * GATT services exposed by common BLE thermal printers
+ */
+const PRINTER_SERVICE_UUIDS: Array<number | string> = [
+    0x18f0,
+    0xff00,
+    0xffe0,
+    'e7810a71-73ae-499d-8c15-faa9aef0c3f2',
+    '49535343-fe7d-4ae5-8fa9-9fafd205e455',
+];
+
+/** BLE writes are limited by the MTU; small chunks work on every printer */
+const BLUETOOTH_CHUNK_SIZE = 100;
+
+/**
+ * BLE thermal printer (most 58mm portable printers)
+ */
+export function createBluetoothPrinterTransport(): PrinterTransport {
+    let device: BluetoothDeviceLike | null = null;
+    let characteristic: BluetoothCharacteristicLike | null = null;
+
+    return {
+        type: 'bluetooth',
+        async connect() {
+            const bluetooth = getBluetooth();
+            if (!bluetooth) throw new Error('Web Bluetooth no disponible en este navegador');
+
+            device = await bluetooth.requestDevice({
+                acceptAllDevices: true,
+                optionalServices: PRINTER_SERVICE_UUIDS,
+            });
+            if (!device.gatt) throw new Error('El dispositivo no soporta GATT');
+
+            const server = await device.gatt.connect();
+            const services = await server.getPrimaryServices();
+
+            // Use the first writable characteristic found
+            for (const service of services) {
+                const characteristics = await service.getCharacteristics();
+                characteristic = characteristics.find(
+                    c => c.properties.write || c.properties.writeWithoutResponse
+                ) ?? null;
+                if (characteristic) break;
+            }
+
+            if (!characteristic) throw new Error('La impresora no tiene un canal de escritura');
+        },
+        async write(data) {
+            if (!characteristic) throw new Error('Impresora no conectada');
+            for (let i = 0; i < data.length; i += BLUETOOTH_CHUNK_SIZE) {
+                await characteristic.writeValue(data.slice(i, i + BLUETOOTH_CHUNK_SIZE));
+            }
+        },
+        async disconnect() {
+            try {
+                if (device?.gatt?.connected) device.gatt.disconnect();
+            } catch (error) {
+                console.error('[SHPL] Error closing bluetooth printer:', error);
+            }
+            characteristic = null;
+            device = null;
+        },
+    };
+}
+
+// ============================================
+// File Transport (no hardware)
+// ============================================
+
+/**
+ * Downloads each ticket as a .bin file with the raw ESC/POS bytes.
+ * The file can be sent to a printer with `cat ticket.bin > /dev/usb/lp0`
+ * or compared byte-for-byte against a reference ticket.
+ */
+export function createFilePrinterTransport(filenamePrefix = 'ticket'): PrinterTransport {
+    return {
+        type: 'file',
+        async connect() {
+            // Nothing to connect
+        },
+        async write(data) {
+            const blob = new Blob([new Uint8Array(data)], { type: 'application/octet-stream' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${filenamePrefix}-${Date.now()}.bin`;
+            link.click();
+            URL.revokeObjectURL(url);
+        },
+        async disconnect() {
+            // Nothing to disconnect
+        },
+    };
+}
+
+export function isPrinterTransportSupported(type: PrinterTransportType): boolean {
+    if (typeof navigator === 'undefined') return false;
+    if (type === 'serial') return getSerial() !== null;
+    if (type === 'bluetooth') return getBluetooth() !== null;
+    return true;
+}
+
+/**
+ * Create a transport of the given type
+ */
+export function createPrinterTransport(type: PrinterTransportType): PrinterTransport {
+    switch (type) {
+        case 'serial':
+            return createSerialPrinterTransport();
+        case 'bluetooth':
+            return createBluetoothPrinterTransport();
+        case 'file':
+        default:
+            return createFilePrinterTransport();
+    }
+}
+
+// ============================================
+// Shared Printer Connection
+// ============================================
+
+function loadSettings(): PrinterSettings {
+    const stored = loadFromStorage<Partial<PrinterSettings>>(ALL_STORAGE_KEYS.PRINTER_SETTINGS, {}, isRecord);
+    return { ...DEFAULT_SETTINGS, ...stored };
+}
+
+let transport: PrinterTransport | null = null;
+
+let state: PrinterState = {
+    status: 'disconnected',
+    settings: loadSettings(),
+    error: null,
+};
+
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<PrinterState>): void {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+}
+
+/**
+ * Update and persist printer settings
+ */
+export function updatePrinterSettings(patch: Partial<PrinterSettings>): void {
+    // A different transport needs a new connection
+    if (patch.transport && patch.transport !== state.settings.transport) {
+        void disconnectPrinter();
+    }
+
+    const settings = { ...state.settings, ...patch };
+    saveToStorage(ALL_STORAGE_KEYS.PRINTER_SETTINGS, settings);
+    setState({ settings });
+}
+
+/**
+ * Connect the printer with the configured transport.
+ * Must be called from a user gesture (Bluetooth/Serial device pickers).
+ */
+export async function connectPrinter(): Promise<void> {
+    await disconnectPrinter();
+
+    const next = createPrinterTransport(state.settings.transport);
+    setState({ status: 'connecting', error: null });
+
+    try {
+        await next.connect();
+        transport = next;
+        setState({ status: 'connected' });
+    } catch (error) {
+        console.error('[SHPL] Printer connection failed:', error);
+        setState({
+            status: 'error',
+            error: error instanceof Error ? error.message : 'No se pudo conectar la impresora',
+        });
+        throw error;
+    }
+}
+
+export async function disconnectPrinter(): Promise<void> {
+    const current = transport;
+    transport = null;
+    await current?.disconnect();
+    setState({ status: 'disconnected' });
+}
+
+/**
+ * Send a ticket to the printer. The file transport needs no prior connection.
+ */
+export async function printBytes(data: Uint8Array): Promise<void> {
+    if (!transport && state.settings.transport === 'file') {
+        transport = createFilePrinterTransport();
+    }
+    if (!transport) throw new Error('Impresora no conectada');
+
+    setState({ status: 'printing', error: null });
+    try {
+        await transport.write(data);
+        setState({ status: 'connected' });
+    } catch (error) {
+        console.error('[SHPL] Print failed:', error);
+        setState({
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Error al imprimir',
+        });
+        throw error;
+    }
+}
+
+/**
+ * Whether printBytes() can be called right now
+ */
+export function isPrinterReady(): boolean {
+    return transport !== null || state.settings.transport === 'file';
+}
+
+export function getPrinterState(): PrinterState {
+    return state;
+}
+
+export function subscribePrinterState(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export default {
+    connectPrinter,
+    disconnectPrinter,
+    printBytes,
+    updatePrinterSettings,
+    getPrinterState,
+    subscribePrinterState,
+};
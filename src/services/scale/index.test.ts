@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { ScaleReading } from './index';
+import { createStabilityDetector, parseScaleFrame } from './index';
+
+function reading(value: number, overrides: Partial<ScaleReading> = {}): ScaleReading {
+    return { value, stable: false, overload: false, raw: String(value), timestamp: 1, ...overrides };
+}
+
+describe('parseScaleFrame', () => {
+    it('reads the indicator protocol with its stability flag', () => {
+        expect(parseScaleFrame('ST,GS,+0047.50kg', 1)).toEqual({
+            value: 47.5, stable: true, overload: false, raw: 'ST,GS,+0047.50kg', timestamp: 1,
+        });
+        expect(parseScaleFrame('US,NT,+0047.55kg', 1)).toMatchObject({ value: 47.55, stable: false });
+        expect(parseScaleFrame('ST,GS,-0001.20kg', 1)).toMatchObject({ value: -1.2, stable: true });
+    });
+
+    it('reads plain values, dropping control characters', () => {
+        expect(parseScaleFrame('\u0002  47.50 kg\r\n', 1)).toMatchObject({ value: 47.5, stable: false, raw: '47.50 kg' });
+        expect(parseScaleFrame('+047.5KG', 1)).toMatchObject({ value: 47.5 });
+        expect(parseScaleFrame('47,5', 1)).toMatchObject({ value: 47.5 });
+    });
+
+    it('reads digits sent backwards', () => {
+        expect(parseScaleFrame('=05.7400', 1)).toMatchObject({ value: 47.5, stable: false });
+    });
+
+    it('converts grams and pounds to kilos', () => {
+        expect(parseScaleFrame('ST,GS,47500g', 1)).toMatchObject({ value: 47.5 });
+        expect(parseScaleFrame('100 lb', 1)).toMatchObject({ value: 45.36 });
+    });
+
+    it('flags an overload', () => {
+        expect(parseScaleFrame('OL,GS,+9999.99kg', 1)).toMatchObject({ overload: true, stable: false });
+        expect(parseScaleFrame('OVER', 1)).toMatchObject({ value: 0, overload: true });
+    });
+
+    it('ignores noise', () => {
+        expect(parseScaleFrame('', 1)).toBeNull();
+        expect(parseScaleFrame('\r\n', 1)).toBeNull();
+        expect(parseScaleFrame('ERR', 1)).toBeNull();
+    });
+});
+
+describe('createStabilityDetector', () => {
+    it('settles once the window of readings agrees within the tolerance', () => {
+        const detector = createStabilityDetector({ windowSize: 3, tolerance: 0.05 });
+
+        expect(detector.push(reading(47.4))).toBe(false);
+        expect(detector.push(reading(47.5))).toBe(false);
+        expect(detector.push(reading(47.52))).toBe(false);    // 47.4..47.52 spreads 0.12
+        expect(detector.push(reading(47.48))).toBe(true);     // 47.48..47.52
+        expect(detector.push(reading(47.6))).toBe(false);
+    });
+
+    it('trusts a reading the scale flags as stable', () => {
+        const detector = createStabilityDetector({ windowSize: 3 });
+        expect(detector.push(reading(47.5, { stable: true }))).toBe(true);
+    });
+
+    it('starts over after an overload or a reset', () => {
+        const detector = createStabilityDetector({ windowSize: 2, tolerance: 0.05 });
+        detector.push(reading(47.5));
+
+        expect(detector.push(reading(0, { overload: true, stable: true }))).toBe(false);
+        expect(detector.push(reading(47.5))).toBe(false);
+        expect(detector.push(reading(47.5))).toBe(true);
+
+        detector.reset();
+        expect(detector.push(reading(47.5))).toBe(false);
+    });
+});
@@ -0,0 +1,452 @@
+/**
+ * Scale Service
+ * Reads weights from digital platform scales over Web Serial or Web Bluetooth.
+ *
+ * Drivers only deliver text lines; parsing is done by parseScaleFrame so every
+ * transport (including the simulated one) goes through the same protocol code.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface ScaleReading {
+    value: number;      // Weight in kg
+    stable: boolean;    // Stability flag reported by the scale (false if unknown)
+    overload: boolean;
+    raw: string;
+    timestamp: number;
+}
+
+export type ScaleDriverType = 'serial' | 'bluetooth' | 'simulated';
+
+export interface ScaleDriver {
+    readonly type: ScaleDriverType;
+    connect: () => Promise<void>;
+    disconnect: () => Promise<void>;
+    onReading: (listener: (reading: ScaleReading) => void) => () => void;
+    onDisconnect: (listener: () => void) => () => void;
+}
+
+// ============================================
+// Protocol Parsing (pure)
+// ============================================
+
+const GRAMS_PER_KG = 1000;
+const POUNDS_TO_KG = 0.45359237;
+
+/**
+ * Parse one ASCII frame sent by a scale indicator.
+ *
+ * Supported formats:
+ * - "ST,GS,+0047.50kg" / "US,NT,+0047.50kg" / "OL,GS,..." (common indicator protocol:
+ *   ST = stable, US = unstable, OL = overload; GS = gross, NT = net)
+ * - "  47.50 kg", "+047.5KG", "47.5" (plain value, stability unknown)
+ * - "=05.7400" (reversed digits sent by some low-cost indicators)
+ * - Values in g or lb are converted to kg
+ *
+ * @returns The reading, or null for noise/unrecognized frames
+ */
+export function parseScaleFrame(frame: string, timestamp: number = Date.now()): ScaleReading | null {
+    // Drop control characters (STX/ETX, CR/LF) framing the value
+    const raw = Array.from(frame)
+        .filter(ch => ch.charCodeAt(0) >= 32 && ch.charCodeAt(0) !== 127)
+        .join('')
+        .trim();
+    if (!raw) return null;
+
+    // Reversed-digit protocol: "=" followed by the digits backwards
+    if (/^=[\d.]+$/.test(raw)) {
+        const value = parseFloat(raw.slice(1).split('').reverse().join(''));
+        if (isNaN(value)) return null;
+        return { value, stable: false, overload: false, raw, timestamp };
+    }
+
+    const upper = raw.toUpperCase();
+    const stableFlag = upper.match(/^(ST|US|OL)\b/);
+    const overload = stableFlag?.[1] === 'OL' || upper.includes('OVER');
+
+    const numberMatch = upper.match(/([+-]?)\s*(\d+(?:[.,]\d+)?)\s*(KG|G|LB)?\s*$/);
+    if (!numberMatch) {
+        return overload ? { value: 0, stable: false, overload: true, raw, timestamp } : null;
+    }
+
+    const sign = numberMatch[1] === '-' ? -1 : 1;
+    let value = sign * parseFloat(numberMatch[2].replace(',', '.'));
+    const unit = numberMatch[3] || 'KG';
+
+    if (unit === 'G') value = value / GRAMS_PER_KG;
+    if (unit === 'LB') value = value * POUNDS_TO_KG;
+
+    return {
+        value: Math.round(value * 100) / 100,
+        stable: stableFlag?.[1] === 'ST',
+        overload,
+        raw,
+        timestamp,
+    };
+}
+
+/**
+ * Split a stream of text chunks into complete lines (CR, LF or CRLF)
+ */
+export function createLineBuffer(onLine: (line: string) => void) {
+    let buffer = '';
+    return (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split(/\r\n|\r|\n/);
+        buffer = lines.pop() ?? '';
+        lines.forEach(line => {
+            if (line.trim()) onLine(line);
+        });
+    };
+}
+
+// ============================================
+// Stability Detection (pure)
+// ============================================
+
+export interface StabilityOptions {
+    windowSize?: number;   // Consecutive readings that must agree
+    tolerance?: number;    // Max spread (kg) among those readings
+}
+
+/**
+ * Create a detector that decides whether the weight has settled.
+ * A reading flagged stable by the scale is trusted; otherwise the last
+ * `windowSize` readings must stay within `tolerance` kg.
+ */
+export function createStabilityDetector({ windowSize = 5, tolerance = 0.05 }: StabilityOptions = {}) {
+    let window: number[] = [];
+
+    return {
+        push(reading: ScaleReading): boolean {
+            if (reading.overload) {
+                window = [];
+                return false;
+            }
+
+            window = [...window, reading.value].slice(-windowSize);
+            if (reading.stable) return true;
+            if (window.length < windowSize) return false;
+
+            return Math.max(...window) - Math.min(...window) <= tolerance;
+        },
+        reset() {
+            window = [];
+        },
+    };
+}
+
+// ============================================
+// Driver Base
+// ============================================
+
+function createEmitter() {
+    const readingListeners = new Set<(reading: ScaleReading) => void>();
+    const disconnectListeners = new Set<() => void>();
+
+    return {
+        emitLine(line: string) {
+            const reading = parseScaleFrame(line);
+            if (reading) readingListeners.forEach(listener => listener(reading));
+        },
+        emitDisconnect() {
+            disconnectListeners.forEach(listener => listener());
+        },
+        onReading(listener: (reading: ScaleReading) => void) {
+            readingListeners.add(listener);
+            return () => {
+                readingListeners.delete(listener);
+            };
+        },
+        onDisconnect(listener: () => void) {
+            disconnectListeners.add(listener);
+            return () => {
+                disconnectListeners.delete(listener);
+            };
+        },
+    };
+}
+
+// ============================================
+// Web Serial Driver
+// ============================================
+
+/**
+ * Minimal typing of the Web Serial API (not included in lib.dom)
+ */
+interface SerialPortLike {
+    open: (options: { baudRate: number }) => Promise<void>;
+    close: () => Promise<void>;
+    readable: ReadableStream<Uint8Array> | null;
+}
+
+interface SerialLike {
+    requestPort: () => Promise<SerialPortLike>;
+}
+
+function getSerial(): SerialLike | null {
+    return (navigator as unknown as { serial?: SerialLike }).serial ?? null;
+}
+
+export function isSerialSupported(): boolean {
+    return typeof navigator !== 'undefined' && getSerial() !== null;
+}
+
+/**
+ * Scale connected by USB/RS-232 cable (Chrome/Edge desktop and Android)
+ */
+export function createSerialScaleDriver(baudRate = 9600): ScaleDriver {
+    const emitter = createEmitter();
+    let port: SerialPortLike | null = null;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    let active = false;
+
+    const readLoop = async () => {
+        const decoder = new TextDecoder();
+        const pushChunk = createLineBuffer(emitter.emitLine);
+
+        try {
+            while (active && reader) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                if (value) pushChunk(decoder.decode(value, { stream: true }));
+            }
+        } catch (error) {
+            console.error('[SHPL] Serial scale read failed:', error);
+        } finally {
+            if (active) {
+                active = false;
+                emitter.emitDisconnect();
+            }
+        }
+    };
+
+    return {
+        type: 'serial',
+        async connect() {
+            const serial = getSerial();
+            if (!serial) throw new Error('Web Serial no disponible en este navegador');
+
+            port = await serial.requestPort();
+            await port.open({ baudRate });
+            if (!port.readable) throw new Error('El puerto no es legible');
+
+            reader = port.readable.getReader();
+            active = true;
+            void readLoop();
+        },
+        async disconnect() {
+            active = false;
+            try {
+                await reader?.cancel();
+                reader?.releaseLock();
+                await port?.close();
+            } catch (error) {
+                console.error('[SHPL] Error closing serial scale:', error);
+            }
+            reader = null;
+            port = null;
+        },
+        onReading: emitter.onReading,
+        onDisconnect: emitter.onDisconnect,
+    };
+}
+
+// ============================================
+// Web Bluetooth Driver
+// ============================================
+
+/**
+ * Minimal typing of the Web Bluetooth API (not included in lib.dom)
+ */
+interface BluetoothCharacteristicLike extends EventTarget {
+    value?: DataView;
+    startNotifications: () => Promise<BluetoothCharacteristicLike>;
+    stopNotifications: () => Promise<BluetoothCharacteristicLike>;
+}
+
+interface BluetoothDeviceLike extends EventTarget {
+    gatt?: {
+        connected: boolean;
+        connect: () => Promise<{
+            getPrimaryService: (uuid: number | string) => Promise<{
+                getCharacteristic: (uuid: number | string) => Promise<BluetoothCharacteristicLike>;
+            }>;
+        }>;
+        disconnect: () => void;
+    };
+}
+
+interface BluetoothLike {
+    requestDevice: (options: {
+        acceptAllDevices?: boolean;
+        filters?: Array<{ services: Array<number | string> }>;
+        optionalServices?: Array<number | string>;
+    }) => Promise<BluetoothDeviceLike>;
+}
+
+function getBluetooth(): BluetoothLike | null {
+    return (navigator as unknown as { bluetooth?: BluetoothLike }).bluetooth ?? null;
+}
+
+export function isBluetoothSupported(): boolean {
+    return typeof navigator !== 'undefined' && getBluetooth() !== null;
+}
+
+export interface BluetoothScaleOptions {
+    serviceUuid?: number | string;
+    characteristicUuid?: number | string;
+}
+
+/**
+ * Scale with a BLE serial module. Defaults to the 0xFFE0/0xFFE1 UART service
+ * used by HM-10 style adapters found in most Bluetooth indicators.
+ */
+export function createBluetoothScaleDriver({
+    serviceUuid = 0xffe0,
+    characteristicUuid = 0xffe1,
+}: BluetoothScaleOptions = {}): ScaleDriver {
+    const emitter = createEmitter();
+    const decoder = new TextDecoder();
+    const pushChunk = createLineBuffer(emitter.emitLine);
+
+    let device: BluetoothDeviceLike | null = null;
+    let characteristic: BluetoothCharacteristicLike | null = null;
+
+    const handleValue = (event: Event) => {
+        const target = event.target as BluetoothCharacteristicLike;
+        if (target.value) pushChunk(decoder.decode(target.value, { stream: true }));
+    };
+
+    const handleDisconnect = () => emitter.emitDisconnect();
+
+    return {
+        type: 'bluetooth',
+        async connect() {
+            const bluetooth = getBluetooth();
+            if (!bluetooth) throw new Error('Web Bluetooth no disponible en este navegador');
+
+            device = await bluetooth.requestDevice({
+                acceptAllDevices: true,
+                optionalServices: [serviceUuid],
+            });
+            if (!device.gatt) throw new Error('El dispositivo no soporta GATT');
+
+            const server = await device.gatt.connect();
+            const service = await server.getPrimaryService(serviceUuid);
+            characteristic = await service.getCharacteristic(characteristicUuid);
+
+            characteristic.addEventListener('characteristicvaluechanged', handleValue);
+            device.addEventListener('gattserverdisconnected', handleDisconnect);
+            await characteristic.startNotifications();
+        },
+        async disconnect() {
+            try {
+                characteristic?.removeEventListener('characteristicvaluechanged', handleValue);
+                device?.removeEventListener('gattserverdisconnected', handleDisconnect);
+                if (device?.gatt?.connected) device.gatt.disconnect();
+            } catch (error) {
+                console.error('[SHPL] Error closing bluetooth scale:', error);
+            }
+            characteristic = null;
+            device = null;
+        },
+        onReading: emitter.onReading,
+        onDisconnect: emitter.onDisconnect,
+    };
+}
+
+// ============================================
+// Simulated Driver (desktop testing without hardware)
+// ============================================
+
+export interface SimulatedScaleOptions {
+    intervalMs?: number;
+    minWeight?: number;
+    maxWeight?: number;
+}
+
+/**
+ * Simulates sacks being placed and removed: the weight ramps up with noise,
+ * settles (frames flagged ST), then returns to zero before the next sack.
+ * Emits frames in the "ST,GS,+0047.50kg" format so parsing is exercised too.
+ */
+export function createSimulatedScaleDriver({
+    intervalMs = 200,
+    minWeight = 40,
+    maxWeight = 60,
+}: SimulatedScaleOptions = {}): ScaleDriver {
+    const emitter = createEmitter();
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let tick = 0;
+    let target = 0;
+
+    // Phases in ticks: empty -> loading -> stable -> unloading
+    const EMPTY_TICKS = 8;
+    const LOADING_TICKS = 6;
+    const STABLE_TICKS = 10;
+    const CYCLE = EMPTY_TICKS + LOADING_TICKS + STABLE_TICKS;
+
+    const formatFrame = (flag: 'ST' | 'US', value: number) =>
+        `${flag},GS,+${value.toFixed(2).padStart(7, '0')}kg`;
+
+    const step = () => {
+        const phase = tick % CYCLE;
+        if (phase === 0) {
+            target = Math.round((minWeight + Math.random() * (maxWeight - minWeight)) * 10) / 10;
+        }
+
+        let frame: string;
+        if (phase < EMPTY_TICKS) {
+            frame = formatFrame('ST', 0);
+        } else if (phase < EMPTY_TICKS + LOADING_TICKS) {
+            const progress = (phase - EMPTY_TICKS + 1) / LOADING_TICKS;
+            const noise = (Math.random() - 0.5) * 4 * (1 - progress);
+            frame = formatFrame('US', Math.max(0, target * progress + noise));
+        } else {
+            frame = formatFrame('ST', target);
+        }
+
+        emitter.emitLine(`${frame}\r\n`);
+        tick++;
+    };
+
+    return {
+        type: 'simulated',
+        async connect() {
+            tick = 0;
+            timer = setInterval(step, intervalMs);
+        },
+        async disconnect() {
+            if (timer) clearInterval(timer);
+            timer = null;
+        },
+        onReading: emitter.onReading,
+        onDisconnect: emitter.onDisconnect,
+    };
+}
+
+/**
+ * Create a driver for the given transport
+ */
+export function createScaleDriver(type: ScaleDriverType): ScaleDriver {
+    switch (type) {
+        case 'serial':
+            return createSerialScaleDriver();
+        case 'bluetooth':
+            return createBluetoothScaleDriver();
+        case 'simulated':
+        default:
+            return createSimulatedScaleDriver();
+    }
+}
+
+export default {
+    parseScaleFrame,
+    createStabilityDetector,
+    createScaleDriver,
+    isSerialSupported,
+    isBluetoothSupported,
+};
@@ -0,0 +1,30 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ALL_STORAGE_KEYS, getStoredItem, initStorage, listStoredKeys } from '../storage';
+import { EMPTY_SETTLEMENT_DATA } from '../../utils/settlementUtils';
+import { stubLocalStorage } from '../../test/storage';
+import { getSettlements, saveSettlement } from './index';
+
+const PREFIX = ALL_STORAGE_KEYS.SETTLEMENT_PREFIX;
+
+describe('settlements', () => {
+    beforeAll(async () => {
+        // Saved without an entity by an earlier version
+        stubLocalStorage(new Map([[PREFIX, JSON.stringify(EMPTY_SETTLEMENT_DATA)]]));
+        vi.stubGlobal('navigator', {});
+        vi.stubGlobal('window', { addEventListener: () => undefined });
+        await initStorage();
+    });
+
+    it('drops a settlement saved without an entity', () => {
+        expect(getSettlements()).toEqual({});
+        expect(getStoredItem(PREFIX)).toBeNull();
+    });
+
+    it('does not save a settlement without an entity', () => {
+        saveSettlement('', { ...EMPTY_SETTLEMENT_DATA, freightRate: 0.1 });
+        saveSettlement('e1', { ...EMPTY_SETTLEMENT_DATA, freightRate: 0.2 });
+
+        expect(listStoredKeys(PREFIX)).toEqual([`${PREFIX}e1`]);
+        expect(Object.keys(getSettlements())).toEqual(['e1']);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * Settlements Service
+ * Settlement input of each entity of the current jornada (prices, freight,
+ * sacks, adjustments) and, once finalized, its frozen summary and payments.
+ *
+ * Kept in one place so every screen sees the same settlement: the weighing
+ * screen needs to know which entities are finalized (their weights are locked)
+ * and the entity selector shows each entity's status.
+ */
+
+import type { SettlementData } from '../../types/domain';
+import {
+    ALL_STORAGE_KEYS,
+    listStoredKeys,
+    loadFromStorage,
+    removeFromStorage,
+    saveToStorage,
+    subscribeRemoteChanges,
+} from '../storage';
+import { isSettlementData } from '../../utils/validation';
+import { EMPTY_SETTLEMENT_DATA } from '../../utils/settlementUtils';
+
+// ============================================
+// Constants
+// ============================================
+
+const SETTLEMENT_PREFIX = ALL_STORAGE_KEYS.SETTLEMENT_PREFIX;
+
+// ============================================
+// State
+// ============================================
+
+// entityId -> settlement; loaded on first use (after storage is initialized)
+let settlements: Record<string, SettlementData> | null = null;
+
+const listeners = new Set<() => void>();
+
+function loadSettlements(): Record<string, SettlementData> {
+    if (!settlements) {
+        // Saved without an entity by earlier versions
+        if (listStoredKeys(SETTLEMENT_PREFIX).includes(SETTLEMENT_PREFIX)) removeFromStorage(SETTLEMENT_PREFIX);
+
+        settlements = Object.fromEntries(listStoredKeys(SETTLEMENT_PREFIX).map((key) => [
+            key.slice(SETTLEMENT_PREFIX.length),
+            loadFromStorage(key, EMPTY_SETTLEMENT_DATA, isSettlementData),
+        ]));
+    }
+    return settlements;
+}
+
+// Read them again when another device changed any of them
+subscribeRemoteChanges((keys) => {
+    if (!settlements || !keys.some((key) => key.startsWith(SETTLEMENT_PREFIX))) return;
+    settlements = null;
+    listeners.forEach((listener) => listener());
+});
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Every saved settlement of the current jornada (entityId -> data)
+ */
+export function getSettlements(): Record<string, SettlementData> {
+    return loadSettlements();
+}
+
+export function saveSettlement(entityId: string, data: SettlementData): void {
+    if (!entityId) return;
+    settlements = { ...loadSettlements(), [entityId]: data };
+    saveToStorage(`${SETTLEMENT_PREFIX}${entityId}`, data);
+    listeners.forEach((listener) => listener());
+}
+
+export function subscribeSettlements(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export default {
+    getSettlements,
+    saveSettlement,
+    subscribeSettlements,
+};
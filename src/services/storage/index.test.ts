@@ -0,0 +1,120 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    ALL_STORAGE_KEYS,
+    flushStorage,
+    getStorageError,
+    getStoredItem,
+    initStorage,
+    reloadWhenSaved,
+    removeStoredItem,
+    retryStorageWrites,
+    saveToStorage,
+} from './index';
+
+// In-memory stand-in for the IndexedDB wrapper, recording every write
+const database = vi.hoisted(() => ({
+    records: new Map<string, string>([
+        // Saved before batches were itemized: the whole list under its key
+        ['shpl_batches_legacy:c1', JSON.stringify([{ id: 'b1' }, { id: 'b2' }])],
+    ]),
+    writes: [] as Array<Map<string, string | null>>,
+    failures: 0,
+}));
+
+vi.mock('./indexedDb', () => ({
+    isIndexedDbAvailable: () => true,
+    openDatabase: async () => ({}),
+    readAllEntries: async () => new Map(database.records),
+    writeEntries: async (_db: unknown, changes: Map<string, string | null>) => {
+        if (database.failures > 0) {
+            database.failures--;
+            throw new Error('disk error');
+        }
+        database.writes.push(new Map(changes));
+        changes.forEach((value, key) => {
+            if (value === null) {
+                database.records.delete(key);
+            } else {
+                database.records.set(key, value);
+            }
+        });
+    },
+}));
+
+const BATCH_KEY = `${ALL_STORAGE_KEYS.BATCHES_PREFIX}e1:c1`;
+const reload = vi.fn();
+
+function batch(id: string, values: number[]) {
+    return { id, entries: values.map((value, index) => ({ id: `${id}-${index}`, value })) };
+}
+
+describe('storage', () => {
+    beforeAll(async () => {
+        vi.stubGlobal('localStorage', { length: 0, key: () => null, getItem: () => null });
+        vi.stubGlobal('navigator', {});
+        vi.stubGlobal('document', { visibilityState: 'visible' });
+        vi.stubGlobal('window', { addEventListener: () => undefined, location: { reload } });
+        vi.useFakeTimers();
+        await initStorage();
+    });
+
+    beforeEach(async () => {
+        await flushStorage();
+        database.writes.length = 0;
+    });
+
+    it('saves a batch list one batch per record', async () => {
+        saveToStorage(BATCH_KEY, [batch('b1', [50, 51]), batch('b2', [49])]);
+        await flushStorage();
+
+        expect(database.records.get(BATCH_KEY)).toBe(JSON.stringify({ items: 2 }));
+        expect(database.records.get(`${BATCH_KEY}#0`)).toBe(JSON.stringify(batch('b1', [50, 51])));
+        expect(database.records.get(`${BATCH_KEY}#1`)).toBe(JSON.stringify(batch('b2', [49])));
+        expect(getStoredItem(BATCH_KEY)).toBe(JSON.stringify([batch('b1', [50, 51]), batch('b2', [49])]));
+    });
+
+    it('writes only the batch that changed', async () => {
+        saveToStorage(BATCH_KEY, [batch('b1', [50, 51]), batch('b2', [49, 52])]);
+        await flushStorage();
+
+        expect(database.writes).toEqual([new Map([[`${BATCH_KEY}#1`, JSON.stringify(batch('b2', [49, 52]))]])]);
+    });
+
+    it('drops the records of removed batches', async () => {
+        saveToStorage(BATCH_KEY, [batch('b1', [50, 51])]);
+        await flushStorage();
+        expect(database.records.has(`${BATCH_KEY}#1`)).toBe(false);
+        expect(database.records.get(BATCH_KEY)).toBe(JSON.stringify({ items: 1 }));
+
+        removeStoredItem(BATCH_KEY);
+        await flushStorage();
+        expect(Array.from(database.records.keys()).filter(key => key.startsWith(BATCH_KEY))).toEqual([]);
+    });
+
+    it('reads and converts lists saved whole', async () => {
+        const legacyKey = 'shpl_batches_legacy:c1';
+        expect(getStoredItem(legacyKey)).toBe(JSON.stringify([{ id: 'b1' }, { id: 'b2' }]));
+
+        saveToStorage(legacyKey, [{ id: 'b1' }, { id: 'b2' }, { id: 'b3' }]);
+        await flushStorage();
+        expect(database.records.get(legacyKey)).toBe(JSON.stringify({ items: 3 }));
+        expect(database.records.get(`${legacyKey}#2`)).toBe(JSON.stringify({ id: 'b3' }));
+    });
+
+    it('reloads only once the pending writes are saved', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        database.failures = 5;
+        saveToStorage(ALL_STORAGE_KEYS.CATEGORIES, [{ id: 'c1' }]);
+
+        const reloading = reloadWhenSaved();
+        await vi.runAllTimersAsync();
+        expect(await reloading).toBe(false);
+        expect(reload).not.toHaveBeenCalled();
+        expect(getStorageError()).toMatchObject({ pendingKeys: 1, reloadPending: true });
+
+        database.failures = 0;
+        await retryStorageWrites();
+        expect(database.records.get(ALL_STORAGE_KEYS.CATEGORIES)).toBe(JSON.stringify([{ id: 'c1' }]));
+        expect(reload).toHaveBeenCalledTimes(1);
+    });
+});
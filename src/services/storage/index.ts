@@ -1,10 +1,28 @@
 /**
  * Storage Service
- * Centralized localStorage management for SHPL application
+ * Centralized persistence for SHPL application
+ *
+ * Data lives in IndexedDB (localStorage only holds a few MB, not a harvest
+ * season). All of it is loaded into an in-memory cache before the app starts,
+ * so reads stay synchronous; writes update the cache at once and are flushed
+ * to IndexedDB in the background, one put per changed key. Failed writes
+ * (e.g. quota exceeded) are kept for retry and reported via
+ * subscribeStorageError() instead of being dropped.
+ *
+ * Batch lists are saved one batch per record (see ITEMIZED_PREFIXES), so
+ * adding a weight writes its open batch only, not every batch of the entity
+ * and category. Readers still get the whole list under its key.
+ *
+ * Every persisted value goes through loadFromStorage/saveToStorage. Reads are
+ * validated; a value that cannot be parsed or has the wrong shape is copied to
+ * a quarantine key (shpl_corrupt_{key}) before the default is used, so the
+ * next save never silently destroys the only copy of the user's data.
  */
 
+import { isIndexedDbAvailable, openDatabase, readAllEntries, writeEntries } from './indexedDb';
+
 // ============================================
-// All localStorage Keys Used by the App
+// All Storage Keys Used by the App
 // ============================================
 
 /**
@@ -18,27 +36,590 @@ export const ALL_STORAGE_KEYS = {
     ENTITIES_TRANSBORDO: 'shpl_entities_transbordo',
     ACTIVE_ENTITY_DESCARGA: 'shpl_active_entity_descarga',
     ACTIVE_ENTITY_TRANSBORDO: 'shpl_active_entity_transbordo',
+    DEFAULT_BATCH_SIZE: 'shpl_default_batch_size',
 
     // Weighing (useWeighingBatch)
     CATEGORIES: 'shpl_categories',
     ACTIVE_CATEGORY: 'shpl_active_category',
+    ACTIVE_GRADE: 'shpl_active_grade',
     ALL_BATCH_KEYS: 'shpl_batch_keys',
 
     // Settlement (prefix - multiple keys per entity)
     SETTLEMENT_PREFIX: 'shpl_settlement_',
 
+    // Price lists (dated versions)
+    PRICE_LISTS: 'shpl_price_lists',
+
+    // Entity accounts (advances, repayments, settlement deductions)
+    ACCOUNT_MOVEMENTS: 'shpl_account_movements',
+
     // Batches (prefix - multiple keys per entity:category)
     BATCHES_PREFIX: 'shpl_batches_',
+
+    // Jornadas (current session + archive of closed ones)
+    CURRENT_JORNADA: 'shpl_current_jornada',
+    JORNADA_ARCHIVE_INDEX: 'shpl_jornada_archive',
+    ARCHIVE_PREFIX: 'shpl_archive_',
+
+    // Device identity & collaboration
+    DEVICE_ID: 'shpl_device_id',
+    DEVICE_NAME: 'shpl_device_name',
+    SHARED_JORNADA: 'shpl_shared_jornada',
+
+    // Scale input
+    SCALE_SETTINGS: 'shpl_scale_settings',
+
+    // Thermal printer
+    PRINTER_SETTINGS: 'shpl_printer_settings',
+
+    // Currency, number format and rounding of settlements
+    MONEY_SETTINGS: 'shpl_money_settings',
+
+    // Audit log (append-only, in chunks)
+    AUDIT_LOG: 'shpl_audit_log',             // Whole log: backups, and devices before chunks
+    AUDIT_LOG_PREFIX: 'shpl_audit_log_',     // Suffix: chunk number (0, 1, …)
+
+    // Cloud sync
+    SYNC_OUTBOX_PREFIX: 'shpl_sync_outbox_', // Suffix: storage key
+    SYNC_SEEDED: 'shpl_sync_seeded',
+    SYNC_META: 'shpl_sync_meta',
+
+    // Storage schema (see migrations.ts)
+    SCHEMA_VERSION: 'shpl_schema_version',
+    CORRUPT_PREFIX: 'shpl_corrupt_', // Suffix: original storage key
 } as const;
 
+/**
+ * Version of the persisted data layout.
+ * Bump it together with a new entry in MIGRATIONS (migrations.ts).
+ */
+export const STORAGE_SCHEMA_VERSION = 2;
+
+// ============================================
+// Backend (in-memory cache + IndexedDB)
+// ============================================
+
+export type StorageBackend = 'indexeddb' | 'localstorage';
+
+/**
+ * A write that could not be saved (shown to the user until it succeeds)
+ */
+export interface StorageWriteError {
+    message: string;
+    isQuotaExceeded: boolean;
+    pendingKeys: number;
+    reloadPending: boolean;  // A reload waits for these writes (see reloadWhenSaved)
+}
+
+const APP_PREFIX = 'shpl_';
+
+/**
+ * Keys whose array value is stored one element per record:
+ * {key} holds {"items": n} and {key}#0 … {key}#(n-1) the elements.
+ * Values saved before (the whole array under {key}) are still read.
+ */
+const ITEMIZED_PREFIXES: string[] = [ALL_STORAGE_KEYS.BATCHES_PREFIX];
+const ITEM_KEY_PATTERN = /#\d+$/;
+
+/** Attempts to save the queued writes before a reload gives up */
+const RELOAD_FLUSH_ATTEMPTS = 3;
+const RELOAD_RETRY_DELAY_MS = 1000;
+
+const cache = new Map<string, string>();
+const pendingWrites = new Map<string, string | null>(); // null = delete
+const persistedItems = new Map<string, string[]>();    // Itemized key -> serialized elements as queued
+
+let database: IDBDatabase | null = null;
+let backend: StorageBackend = 'localstorage';
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushChain: Promise<void> = Promise.resolve();
+
+let writeError: StorageWriteError | null = null;
+let reloadPending = false;
+const errorListeners = new Set<() => void>();
+
+function isQuotaError(error: unknown): boolean {
+    return error instanceof DOMException &&
+        (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+function setWriteError(error: unknown): void {
+    if (error === null) {
+        if (writeError === null) return;
+        writeError = null;
+    } else {
+        const isQuotaExceeded = isQuotaError(error);
+        writeError = {
+            message: isQuotaExceeded
+                ? 'Almacenamiento lleno: los últimos cambios no se guardaron'
+                : 'No se pudieron guardar los últimos cambios',
+            isQuotaExceeded,
+            pendingKeys: pendingWrites.size,
+            reloadPending,
+        };
+        console.error('[SHPL] Storage write failed:', error);
+    }
+    errorListeners.forEach((listener) => listener());
+}
+
+function isItemizedKey(key: string): boolean {
+    return ITEMIZED_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+function isItemKey(key: string): boolean {
+    return isItemizedKey(key) && ITEM_KEY_PATTERN.test(key);
+}
+
+function itemKey(key: string, index: number): string {
+    return `${key}#${index}`;
+}
+
+/**
+ * Element count of an itemized key's record (null for a whole stored array)
+ */
+function parseItemCount(value: string): number | null {
+    try {
+        const parsed = JSON.parse(value);
+        return !Array.isArray(parsed) && Number.isInteger(parsed?.items) ? parsed.items : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Fill the cache from the stored records, joining itemized keys back into
+ * their arrays. A missing element reads as null, so loadListFromStorage
+ * quarantines the list and keeps the rest.
+ */
+function loadEntries(entries: Map<string, string>): void {
+    entries.forEach((value, key) => {
+        if (isItemKey(key)) return;
+
+        const count = isItemizedKey(key) ? parseItemCount(value) : null;
+        if (count === null) {
+            cache.set(key, value);
+            return;
+        }
+
+        const items = Array.from({ length: count }, (_, index) => entries.get(itemKey(key, index)) ?? 'null');
+        persistedItems.set(key, items);
+        cache.set(key, `[${items.join(',')}]`);
+    });
+}
+
+/**
+ * Copy app keys left in localStorage into IndexedDB, then free them.
+ * Keys already in IndexedDB win (localStorage only has them after a failed run).
+ */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const legacy = new Map<string, string | null>();
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && key.startsWith(APP_PREFIX) && !cache.has(key)) {
+            legacy.set(key, localStorage.getItem(key));
+        }
+    }
+    if (legacy.size === 0) return;
+
+    await writeEntries(db, legacy);
+    legacy.forEach((value, key) => cache.set(key, value as string));
+
+    // Only removed once IndexedDB has committed the copy
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+        const key = localStorage.key(i);
+        if (key && key.startsWith(APP_PREFIX)) localStorage.removeItem(key);
+    }
+    console.log(`[SHPL] Moved ${legacy.size} storage keys from localStorage to IndexedDB.`);
+}
+
+function loadFromLocalStorage(): void {
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        const value = key ? localStorage.getItem(key) : null;
+        if (key && key.startsWith(APP_PREFIX) && value !== null) cache.set(key, value);
+    }
+}
+
+/**
+ * Load all persisted data into memory. Must finish before any other module
+ * reads storage (main.tsx imports the app only after it finishes, even if it fails).
+ * Falls back to localStorage when IndexedDB is unavailable.
+ */
+export async function initStorage(): Promise<StorageBackend> {
+    if (isIndexedDbAvailable()) {
+        try {
+            database = await openDatabase();
+            loadEntries(await readAllEntries(database));
+            await migrateFromLocalStorage(database);
+            backend = 'indexeddb';
+        } catch (error) {
+            console.error('[SHPL] IndexedDB unavailable, using localStorage:', error);
+            database = null;
+            cache.clear();
+        }
+    }
+
+    if (!database) loadFromLocalStorage();
+
+    // Ask the browser not to evict the data under storage pressure
+    void navigator.storage?.persist?.().catch(() => false);
+
+    window.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') void flushStorage();
+    });
+
+    return backend;
+}
+
+async function writePending(): Promise<void> {
+    if (pendingWrites.size === 0 || !database) return;
+
+    const changes = new Map(pendingWrites);
+    pendingWrites.clear();
+
+    try {
+        await writeEntries(database, changes);
+        setWriteError(null);
+    } catch (error) {
+        // Keep for retry unless a newer value was queued meanwhile
+        changes.forEach((value, key) => {
+            if (!pendingWrites.has(key)) pendingWrites.set(key, value);
+        });
+        setWriteError(error);
+    }
+}
+
+function queueWrite(key: string, value: string | null): void {
+    if (!database) {
+        try {
+            if (value === null) {
+                localStorage.removeItem(key);
+            } else {
+                localStorage.setItem(key, value);
+            }
+            setWriteError(null);
+        } catch (error) {
+            setWriteError(error);
+        }
+        return;
+    }
+
+    pendingWrites.set(key, value);
+    if (flushTimer) return;
+    flushTimer = setTimeout(() => {
+        flushTimer = null;
+        flushChain = flushChain.then(writePending);
+    }, 0);
+}
+
+/**
+ * Queue only the elements of an itemized key that changed since the last write
+ */
+function queueItemizedWrite(key: string, value: string | null): void {
+    const previous = persistedItems.get(key) ?? [];
+    let parsed: unknown = null;
+    try {
+        parsed = value === null ? null : JSON.parse(value);
+    } catch {
+        // Not JSON: stored whole below
+    }
+    const items = Array.isArray(parsed) ? parsed.map((item) => JSON.stringify(item)) : [];
+
+    items.forEach((item, index) => {
+        if (previous[index] !== item) queueWrite(itemKey(key, index), item);
+    });
+    for (let index = items.length; index < previous.length; index++) {
+        queueWrite(itemKey(key, index), null);
+    }
+
+    if (!Array.isArray(parsed)) {
+        persistedItems.delete(key);
+        queueWrite(key, value);
+        return;
+    }
+    if (!persistedItems.has(key) || items.length !== previous.length) {
+        queueWrite(key, JSON.stringify({ items: items.length }));
+    }
+    persistedItems.set(key, items);
+}
+
+function persist(key: string, value: string | null): void {
+    if (database && isItemizedKey(key)) {
+        queueItemizedWrite(key, value);
+    } else {
+        queueWrite(key, value);
+    }
+}
+
+/**
+ * Wait until every queued write was attempted.
+ * Writes that failed are still pending afterwards (see reloadWhenSaved).
+ */
+export function flushStorage(): Promise<void> {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+    flushChain = flushChain.then(writePending);
+    return flushChain;
+}
+
+/**
+ * Reload the page once every queued write is saved (after a restore, closing
+ * the jornada, a factory reset…). Queued writes only live in memory, so the
+ * page is not reloaded while they keep failing: the storage error banner
+ * stays up, and its retry reloads once they are saved.
+ * @returns false if the writes could not be saved yet
+ */
+export async function reloadWhenSaved(): Promise<boolean> {
+    reloadPending = true;
+    for (let attempt = 1; attempt <= RELOAD_FLUSH_ATTEMPTS; attempt++) {
+        if (attempt > 1) {
+            await new Promise((resolve) => setTimeout(resolve, RELOAD_RETRY_DELAY_MS * (attempt - 1)));
+        }
+        await flushStorage();
+        if (pendingWrites.size === 0) {
+            window.location.reload();
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Raw stored string of a key (null if missing)
+ */
+export function getStoredItem(key: string): string | null {
+    return cache.get(key) ?? null;
+}
+
+/**
+ * Store a raw string (no change notification; prefer saveToStorage)
+ */
+export function setStoredItem(key: string, value: string): void {
+    cache.set(key, value);
+    persist(key, value);
+}
+
+export function removeStoredItem(key: string): void {
+    if (!cache.has(key)) return;
+    cache.delete(key);
+    persist(key, null);
+}
+
+/**
+ * Stored keys starting with a prefix (all app keys by default)
+ */
+export function listStoredKeys(prefix: string = APP_PREFIX): string[] {
+    return Array.from(cache.keys()).filter((key) => key.startsWith(prefix));
+}
+
+export function getStorageBackend(): StorageBackend {
+    return backend;
+}
+
+export function getStorageError(): StorageWriteError | null {
+    return writeError;
+}
+
+export function subscribeStorageError(listener: () => void): () => void {
+    errorListeners.add(listener);
+    return () => {
+        errorListeners.delete(listener);
+    };
+}
+
+/**
+ * Retry the failed writes now (and reload if a reload was waiting for them)
+ */
+export async function retryStorageWrites(): Promise<void> {
+    await flushStorage();
+    if (reloadPending && pendingWrites.size === 0) window.location.reload();
+}
+
+// ============================================
+// Change Listeners
+// ============================================
+
+/**
+ * Called after a key is written (removed = false) or removed (removed = true)
+ */
+export type StorageChangeListener = (key: string, value: unknown, removed: boolean) => void;
+
+const changeListeners = new Set<StorageChangeListener>();
+
+/**
+ * Observe writes made through saveToStorage/removeFromStorage
+ * (the sync engine uses this to mirror changes to the cloud)
+ * @returns Unsubscribe function
+ */
+export function subscribeStorageChanges(listener: StorageChangeListener): () => void {
+    changeListeners.add(listener);
+    return () => {
+        changeListeners.delete(listener);
+    };
+}
+
+/**
+ * Called with the keys another device changed, once they are written locally
+ */
+export type RemoteChangeListener = (keys: string[]) => void;
+
+const remoteChangeListeners = new Set<RemoteChangeListener>();
+
+/**
+ * Observe keys written by the sync engine on behalf of another device.
+ * Stores that keep a copy in memory read those keys again, so their next
+ * save doesn't write the old state back over the other device's changes.
+ * @returns Unsubscribe function
+ */
+export function subscribeRemoteChanges(listener: RemoteChangeListener): () => void {
+    remoteChangeListeners.add(listener);
+    return () => {
+        remoteChangeListeners.delete(listener);
+    };
+}
+
+/**
+ * Tell the stores which keys another device changed (called by the sync engine)
+ */
+export function notifyRemoteChanges(keys: string[]): void {
+    if (keys.length === 0) return;
+    remoteChangeListeners.forEach((listener) => listener(keys));
+}
+
+// ============================================
+// Quarantine
+// ============================================
+
+/**
+ * Keep a copy of an unreadable value under shpl_corrupt_{key}.
+ * The copy is only replaced when the corrupt value itself changes.
+ */
+export function quarantineValue(key: string, raw: string, reason: string): void {
+    const quarantineKey = `${ALL_STORAGE_KEYS.CORRUPT_PREFIX}${key}`;
+    try {
+        const existing = getStoredItem(quarantineKey);
+        if (existing && JSON.parse(existing).raw === raw) return;
+
+        setStoredItem(quarantineKey, JSON.stringify({ raw, reason, quarantinedAt: Date.now() }));
+        console.error(`[SHPL] Corrupt value in "${key}" (${reason}). Copy kept in "${quarantineKey}".`);
+    } catch (error) {
+        console.error(`[SHPL] Could not quarantine corrupt value in "${key}":`, error);
+    }
+}
+
+/**
+ * Keys holding quarantined (unreadable) values
+ */
+export function listQuarantinedKeys(): string[] {
+    return listStoredKeys(ALL_STORAGE_KEYS.CORRUPT_PREFIX);
+}
+
+// ============================================
+// Read & Write
+// ============================================
+
+/**
+ * Read a JSON value.
+ * Missing keys return the default; unparseable or invalid values are
+ * quarantined and also return the default.
+ */
+export function loadFromStorage<T>(
+    key: string,
+    defaultValue: T,
+    validate?: (value: unknown) => value is T
+): T {
+    const stored = getStoredItem(key);
+    if (stored === null) return defaultValue;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(stored);
+    } catch {
+        quarantineValue(key, stored, 'JSON inválido');
+        return defaultValue;
+    }
+
+    if (validate && !validate(parsed)) {
+        quarantineValue(key, stored, 'formato inválido');
+        return defaultValue;
+    }
+
+    return parsed as T;
+}
+
+/**
+ * Read a JSON array keeping only the valid items.
+ * If some items are dropped, the original value is quarantined.
+ * An array with no valid items at all falls back to the default.
+ */
+export function loadListFromStorage<T>(
+    key: string,
+    defaultValue: T[],
+    isItem: (value: unknown) => value is T
+): T[] {
+    const stored = getStoredItem(key);
+    const parsed = loadFromStorage<unknown[] | null>(
+        key,
+        null,
+        (value): value is unknown[] => Array.isArray(value)
+    );
+    if (stored === null || parsed === null) return defaultValue;
+
+    const items = parsed.filter(isItem);
+    if (items.length === parsed.length) return parsed as T[];
+
+    quarantineValue(key, stored, `${parsed.length - items.length} elementos inválidos`);
+    return items.length > 0 ? items : defaultValue;
+}
+
+/**
+ * Write a JSON value and notify listeners (cloud sync).
+ * Unchanged values are skipped so remounting a screen doesn't re-upload everything.
+ */
+export function saveToStorage<T>(key: string, value: T): void {
+    const serialized = JSON.stringify(value);
+    if (getStoredItem(key) === serialized) return;
+
+    setStoredItem(key, serialized);
+    changeListeners.forEach((listener) => listener(key, value, false));
+}
+
+/**
+ * Remove a key and notify listeners (cloud sync)
+ */
+export function removeFromStorage(key: string): void {
+    removeStoredItem(key);
+    changeListeners.forEach((listener) => listener(key, null, true));
+}
+
+// ============================================
+// Schema Version
+// ============================================
+
+/**
+ * Schema version of the data on this device.
+ * Data written before versioning existed has no key and counts as version 0.
+ */
+export function getSchemaVersion(): number {
+    const stored = Number(getStoredItem(ALL_STORAGE_KEYS.SCHEMA_VERSION));
+    return Number.isInteger(stored) && stored > 0 ? stored : 0;
+}
+
+export function setSchemaVersion(version: number): void {
+    setStoredItem(ALL_STORAGE_KEYS.SCHEMA_VERSION, String(version));
+}
+
 // ============================================
 // Factory Reset Function
 // ============================================
 
 /**
- * Clears ALL application data from localStorage.
+ * Clears ALL application data (IndexedDB and any localStorage leftovers).
  * This resets the app to a "factory fresh" state.
  * WARNING: This action is irreversible!
+ * Reload with reloadWhenSaved() so the deletes are saved first.
  * 
  * @returns {number} Number of keys cleared
  */
@@ -46,21 +627,19 @@ export function factoryReset(): number {
     let keysCleared = 0;
 
     // Get all keys that match our app prefix
-    const allKeys: string[] = [];
-
-    for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith('shpl_')) {
-            allKeys.push(key);
-        }
-    }
+    const allKeys = listStoredKeys();
 
     // Clear all matching keys
     for (const key of allKeys) {
-        localStorage.removeItem(key);
+        removeStoredItem(key);
         keysCleared++;
     }
 
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+        const key = localStorage.key(i);
+        if (key && key.startsWith(APP_PREFIX)) localStorage.removeItem(key);
+    }
+
     console.log(`[SHPL] Factory reset complete. Cleared ${keysCleared} storage keys.`);
 
     return keysCleared;
@@ -74,6 +653,9 @@ export function getStorageStats(): {
     totalKeys: number;
     estimatedSize: string;
     keysByCategory: Record<string, number>;
+    schemaVersion: number;
+    quarantinedKeys: number;
+    backend: StorageBackend;
 } {
     let totalSize = 0;
     const keysByCategory: Record<string, number> = {
@@ -84,32 +666,25 @@ export function getStorageStats(): {
         other: 0,
     };
 
-    for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith('shpl_')) {
-            const value = localStorage.getItem(key) || '';
-            totalSize += key.length + value.length;
-
-            if (key.includes('session') || key.includes('entities') || key === 'shpl_session_mode') {
-                keysByCategory.session++;
-            } else if (key.includes('batch') || key.includes('categor')) {
-                keysByCategory.weighing++;
-            } else if (key.includes('settlement')) {
-                keysByCategory.settlement++;
-            } else {
-                keysByCategory.other++;
-            }
+    const keys = listStoredKeys();
+
+    for (const key of keys) {
+        const value = getStoredItem(key) || '';
+        totalSize += key.length + value.length;
+
+        if (key.includes('session') || key.includes('entities') || key === 'shpl_session_mode') {
+            keysByCategory.session++;
+        } else if (key.includes('batch') || key.includes('categor')) {
+            keysByCategory.weighing++;
+        } else if (key.includes('settlement')) {
+            keysByCategory.settlement++;
+        } else {
+            keysByCategory.other++;
         }
     }
 
     // Calculate total SHPL keys
-    let totalKeys = 0;
-    for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith('shpl_')) {
-            totalKeys++;
-        }
-    }
+    const totalKeys = keys.length;
 
     // Format size
     const sizeKB = totalSize / 1024;
@@ -121,7 +696,23 @@ export function getStorageStats(): {
         totalKeys,
         estimatedSize,
         keysByCategory,
+        schemaVersion: getSchemaVersion(),
+        quarantinedKeys: listQuarantinedKeys().length,
+        backend,
     };
 }
 
-export default { factoryReset, getStorageStats, ALL_STORAGE_KEYS };
+export default {
+    initStorage,
+    flushStorage,
+    reloadWhenSaved,
+    factoryReset,
+    getStorageStats,
+    loadFromStorage,
+    loadListFromStorage,
+    saveToStorage,
+    removeFromStorage,
+    subscribeStorageChanges,
+    subscribeRemoteChanges,
+    ALL_STORAGE_KEYS,
+};
@@ -0,0 +1,87 @@
+/**
+ * IndexedDB Backend
+ * Minimal promise wrapper over one key-value object store.
+ * Values are the same JSON strings that used to live in localStorage.
+ */
+
+// ============================================
+// Constants
+// ============================================
+
+const DB_NAME = 'shpl';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transacción cancelada'));
+    });
+}
+
+// ============================================
+// Public API
+// ============================================
+
+export function isIndexedDbAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Open (and create on first use) the app database
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+        }
+    };
+    return requestToPromise(request);
+}
+
+/**
+ * Every stored key and value
+ */
+export async function readAllEntries(db: IDBDatabase): Promise<Map<string, string>> {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll()),
+    ]);
+
+    const entries = new Map<string, string>();
+    keys.forEach((key, index) => entries.set(String(key), values[index] as string));
+    return entries;
+}
+
+/**
+ * Apply writes (string) and deletes (null) in one transaction.
+ * Rejects with the browser's error (e.g. QuotaExceededError) if nothing was saved.
+ */
+export async function writeEntries(db: IDBDatabase, changes: Map<string, string | null>): Promise<void> {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+
+    for (const [key, value] of changes) {
+        if (value === null) {
+            store.delete(key);
+        } else {
+            store.put(value, key);
+        }
+    }
+
+    await transactionDone(transaction);
+}
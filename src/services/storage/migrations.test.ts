@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ALL_STORAGE_KEYS, STORAGE_SCHEMA_VERSION, getSchemaVersion, getStoredItem, initStorage } from './index';
+import { runStorageMigrations } from './migrations';
+import { stubLocalStorage } from '../../test/storage';
+
+const BATCH_KEY = `${ALL_STORAGE_KEYS.BATCHES_PREFIX}e1:c1`;
+
+// Data of the first release (schema v0): no owner on batches or entries
+const V0_DATA: Record<string, string> = {
+    [BATCH_KEY]: JSON.stringify([
+        { id: 'b1', entries: [{ id: 'w1', value: 50, timestamp: 1 }, { id: 'w2', value: 'x' }], status: 'closed', size: 10 },
+        { id: 'b2', entries: [], status: 'open' },
+    ]),
+};
+
+describe('runStorageMigrations', () => {
+    beforeAll(async () => {
+        stubLocalStorage(new Map(Object.entries(V0_DATA)));
+        vi.stubGlobal('navigator', {});
+        vi.stubGlobal('window', { addEventListener: () => undefined });
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await initStorage();
+        runStorageMigrations();
+    });
+
+    it('upgrades to the current schema version', () => {
+        expect(getSchemaVersion()).toBe(STORAGE_SCHEMA_VERSION);
+        expect(JSON.parse(getStoredItem(ALL_STORAGE_KEYS.ALL_BATCH_KEYS)!)).toEqual([BATCH_KEY]);
+    });
+
+    it('adds the owner to batches and entries, keeping the batch size', () => {
+        expect(JSON.parse(getStoredItem(BATCH_KEY)!)).toEqual([
+            {
+                id: 'b1',
+                entries: [{ id: 'w1', value: 50, timestamp: 1, categoryId: 'c1', entityId: 'e1' }],
+                status: 'closed',
+                subtotal: 50,
+                categoryId: 'c1',
+                entityId: 'e1',
+                size: 10,
+            },
+            { id: 'b2', entries: [], status: 'open', subtotal: null, categoryId: 'c1', entityId: 'e1' },
+        ]);
+    });
+
+    it('quarantines the batches as saved before dropping weights without a value', () => {
+        const quarantined = JSON.parse(getStoredItem(`${ALL_STORAGE_KEYS.CORRUPT_PREFIX}${BATCH_KEY}`)!);
+
+        expect(quarantined.raw).toBe(V0_DATA[BATCH_KEY]);
+        expect(quarantined.reason).toBe('1 elementos inválidos');
+    });
+});
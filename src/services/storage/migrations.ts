@@ -0,0 +1,169 @@
+/**
+ * Storage Migrations
+ * Ordered, idempotent upgrades of the persisted data layout.
+ *
+ * Each migration brings the data from `version - 1` to `version`. They run
+ * once at startup (before the first render) and the schema version is saved
+ * after each one, so an interrupted upgrade resumes where it stopped.
+ * Migrations must be safe to run twice: a merged backup from an older
+ * version lowers the schema version so its data gets upgraded too.
+ */
+
+import {
+    ALL_STORAGE_KEYS,
+    STORAGE_SCHEMA_VERSION,
+    getSchemaVersion,
+    setSchemaVersion,
+    getStoredItem,
+    listStoredKeys,
+    loadFromStorage,
+    quarantineValue,
+    saveToStorage,
+} from './index';
+import type { Batch, WeightEntry } from '../../types/domain';
+import { safeSum } from '../../utils/math';
+import { isFiniteNumber, isRecord, isString, isStringArray } from '../../utils/validation';
+
+// ============================================
+// Types
+// ============================================
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate: () => void;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function listBatchStorageKeys(): string[] {
+    return listStoredKeys(ALL_STORAGE_KEYS.BATCHES_PREFIX);
+}
+
+/**
+ * Read a value without validation (migrations fix the shape themselves)
+ */
+function readRaw(key: string): unknown {
+    try {
+        return JSON.parse(getStoredItem(key) ?? 'null');
+    } catch {
+        // Left as-is: loadFromStorage quarantines it on first read
+        return null;
+    }
+}
+
+// ============================================
+// Migrations
+// ============================================
+
+/**
+ * v1: Batches saved by the first release had no entity/category on the batch
+ * or its entries (they were implied by the storage key), and could hold
+ * entries without a numeric value. Those are dropped; the list as it was
+ * saved is quarantined first.
+ */
+function addBatchOwnership(): void {
+    for (const key of listBatchStorageKeys()) {
+        const batches = readRaw(key);
+        if (!Array.isArray(batches)) continue;
+
+        const [entityId, categoryId] = key.slice(ALL_STORAGE_KEYS.BATCHES_PREFIX.length).split(':');
+        if (!entityId || !categoryId) continue;
+
+        const migrated: Batch[] = batches.filter(isRecord).map((batch) => {
+            const entries: WeightEntry[] = (Array.isArray(batch.entries) ? batch.entries : [])
+                .filter(isRecord)
+                .filter((entry) => isFiniteNumber(entry.value))
+                .map((entry) => ({
+                    ...entry,
+                    id: isString(entry.id) ? entry.id : `${batch.id}-${String(entry.timestamp)}`,
+                    value: entry.value as number,
+                    timestamp: isFiniteNumber(entry.timestamp) ? entry.timestamp : 0,
+                    categoryId: isString(entry.categoryId) ? entry.categoryId : categoryId,
+                    entityId: isString(entry.entityId) ? entry.entityId : entityId,
+                }));
+            const status = batch.status === 'closed' ? 'closed' : 'open';
+
+            // Other fields (e.g. the batch size) are kept as saved
+            return {
+                ...batch,
+                id: isString(batch.id) ? batch.id : `${key}-${entries[0]?.timestamp ?? 0}`,
+                entries,
+                status,
+                subtotal: status === 'closed' ? safeSum(entries.map((e) => e.value)) : null,
+                categoryId: isString(batch.categoryId) ? batch.categoryId : categoryId,
+                entityId: isString(batch.entityId) ? batch.entityId : entityId,
+            };
+        });
+
+        const kept = migrated.reduce((count, batch) => count + batch.entries.length, 0);
+        const saved = batches.reduce<number>(
+            (count, batch) => count + (isRecord(batch) && Array.isArray(batch.entries) ? batch.entries.length : 0), 0
+        );
+        const dropped = batches.length - migrated.length + saved - kept;
+        if (dropped > 0) quarantineValue(key, getStoredItem(key)!, `${dropped} elementos inválidos`);
+        saveToStorage(key, migrated);
+    }
+}
+
+/**
+ * v2: The batch key index could miss keys (it was only written by the
+ * weighing screen), which made those weights invisible to jornada closing,
+ * backups and shared jornadas.
+ */
+function rebuildBatchKeyIndex(): void {
+    const indexed = loadFromStorage<string[]>(ALL_STORAGE_KEYS.ALL_BATCH_KEYS, [], isStringArray);
+    const existing = listBatchStorageKeys();
+
+    const keys = [
+        ...indexed.filter((key) => existing.includes(key)),
+        ...existing.filter((key) => !indexed.includes(key)),
+    ];
+    saveToStorage(ALL_STORAGE_KEYS.ALL_BATCH_KEYS, keys);
+}
+
+/**
+ * All migrations, in version order (the last one is STORAGE_SCHEMA_VERSION)
+ */
+const MIGRATIONS: Migration[] = [
+    { version: 1, description: 'Entidad y categoría en lotes y pesos', migrate: addBatchOwnership },
+    { version: 2, description: 'Índice de lotes reconstruido', migrate: rebuildBatchKeyIndex },
+];
+
+// ============================================
+// Runner
+// ============================================
+
+/**
+ * Upgrade the stored data to STORAGE_SCHEMA_VERSION.
+ * A failed migration stops the run; it is retried on the next start.
+ * @returns Schema version of the data after running
+ */
+export function runStorageMigrations(): number {
+    const from = getSchemaVersion();
+
+    if (from > STORAGE_SCHEMA_VERSION) {
+        console.warn(`[SHPL] Stored data is schema v${from}, newer than this app (v${STORAGE_SCHEMA_VERSION}).`);
+        return from;
+    }
+
+    let version = from;
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= version) continue;
+
+        try {
+            migration.migrate();
+        } catch (error) {
+            console.error(`[SHPL] Storage migration v${migration.version} failed:`, error);
+            break;
+        }
+
+        version = migration.version;
+        setSchemaVersion(version);
+        console.log(`[SHPL] Storage migrated to v${version}: ${migration.description}`);
+    }
+
+    return version;
+}
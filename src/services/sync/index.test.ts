@@ -0,0 +1,144 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import type { Category, WeightEntry } from '../../types/domain';
+import { buildBatchesFromEntries } from '../../utils/batchUtils';
+import { auth, db } from '../firebase/config';
+import { ALL_STORAGE_KEYS, getStoredItem, initStorage, saveToStorage, subscribeRemoteChanges } from '../storage';
+import {
+    SYNC_STORES_COLLECTION,
+    SYNC_USERS_COLLECTION,
+    flushOutbox,
+    getSyncState,
+    mergeSyncedValue,
+    startSyncEngine,
+} from './index';
+import { stubLocalStorage } from '../../test/storage';
+
+const BATCH_KEY = `${ALL_STORAGE_KEYS.BATCHES_PREFIX}e1:c1`;
+
+function category(id: string): Category {
+    return { id, name: id.toUpperCase(), createdAt: 1 };
+}
+
+function entry(id: string, timestamp: number): WeightEntry {
+    return { id, value: 50, timestamp, categoryId: 'c1', entityId: 'e1', batchSize: 2 };
+}
+
+describe('mergeSyncedValue', () => {
+    it('joins lists by id, keeping this device\'s version of an item', () => {
+        const local = [{ ...category('a'), name: 'Local' }, category('b')];
+        const remote = [{ ...category('a'), name: 'Remoto' }, category('c')];
+
+        expect(mergeSyncedValue(ALL_STORAGE_KEYS.CATEGORIES, local, remote)).toEqual([
+            { ...category('a'), name: 'Local' },
+            category('b'),
+            category('c'),
+        ]);
+    });
+
+    it('joins batches by entry id and rebuilds them', () => {
+        const local = buildBatchesFromEntries([entry('w1', 1), entry('w2', 2)], 'e1', 'c1');
+        const remote = buildBatchesFromEntries([entry('w1', 1), entry('w3', 3)], 'e1', 'c1');
+
+        const merged = mergeSyncedValue(BATCH_KEY, local, remote);
+
+        expect(merged).toEqual(buildBatchesFromEntries([entry('w1', 1), entry('w2', 2), entry('w3', 3)], 'e1', 'c1'));
+    });
+
+    it('returns the local value itself when the other device added nothing', () => {
+        const local = [category('a'), category('b')];
+        expect(mergeSyncedValue(ALL_STORAGE_KEYS.CATEGORIES, local, [category('a')])).toBe(local);
+    });
+
+    it('joins the batch key index', () => {
+        expect(mergeSyncedValue(ALL_STORAGE_KEYS.ALL_BATCH_KEYS, ['e1:c1'], ['e1:c1', 'e2:c1']))
+            .toEqual(['e1:c1', 'e2:c1']);
+    });
+
+    it('keeps the local value of anything else', () => {
+        const local = { prices: { c1: 2 }, freightRate: 0, sackValue: 0 };
+        const remote = { prices: { c1: 3 }, freightRate: 0, sackValue: 0 };
+        expect(mergeSyncedValue(`${ALL_STORAGE_KEYS.SETTLEMENT_PREFIX}e1`, local, remote)).toBe(local);
+    });
+});
+
+/**
+ * Runs against the Firebase Emulator Suite (skipped otherwise):
+ *   firebase emulators:start --only firestore,auth
+ *   VITE_FIREBASE_PROJECT_ID=demo-shpl VITE_FIREBASE_EMULATOR_HOST=localhost npm test
+ */
+describe.skipIf(!db)('sync engine (Firebase emulator)', () => {
+    const connection = { onLine: true };
+
+    function remoteRef(key: string) {
+        return doc(db!, SYNC_USERS_COLLECTION, auth!.currentUser!.uid, SYNC_STORES_COLLECTION, key);
+    }
+
+    beforeAll(async () => {
+        // Browser globals the storage and sync services use
+        stubLocalStorage();
+        vi.stubGlobal('navigator', connection);
+        vi.stubGlobal('window', { addEventListener: () => undefined });
+
+        await initStorage();
+        startSyncEngine();
+        await vi.waitFor(() => expect(auth!.currentUser).not.toBeNull(), { timeout: 10000 });
+    }, 15000);
+
+    it('uploads local changes under the signed-in user', async () => {
+        saveToStorage(ALL_STORAGE_KEYS.CATEGORIES, [category('a')]);
+
+        await vi.waitFor(() => expect(getSyncState().status).toBe('synced'), { timeout: 10000 });
+        const snapshot = await getDoc(remoteRef(ALL_STORAGE_KEYS.CATEGORIES));
+        expect(snapshot.data()).toMatchObject({
+            key: ALL_STORAGE_KEYS.CATEGORIES,
+            value: [category('a')],
+            deleted: false,
+        });
+    });
+
+    it('pulls changes uploaded by another device', async () => {
+        const key = ALL_STORAGE_KEYS.ENTITIES_DESCARGA;
+        const entities = [{ id: 'e1', name: 'Juan', type: 'PROVIDER', createdAt: 1 }];
+        const notified: string[] = [];
+        const unsubscribe = subscribeRemoteChanges((keys) => notified.push(...keys));
+        await setDoc(remoteRef(key), {
+            key,
+            value: entities,
+            deleted: false,
+            updatedAt: Date.now() + 1000,
+            deviceId: 'other-device',
+        });
+
+        await vi.waitFor(() => expect(JSON.parse(getStoredItem(key) ?? 'null')).toEqual(entities), { timeout: 10000 });
+        expect(getSyncState().remoteChanges).toBeGreaterThan(0);
+        // The stores holding it in memory are told to read it again
+        expect(notified).toContain(key);
+        unsubscribe();
+    });
+
+    it('merges a key changed offline here and on another device', async () => {
+        const key = ALL_STORAGE_KEYS.CATEGORIES;
+        connection.onLine = false;
+        saveToStorage(key, [category('a'), category('local')]);
+
+        await setDoc(remoteRef(key), {
+            key,
+            value: [category('a'), category('remote')],
+            deleted: false,
+            updatedAt: Date.now() + 1000,
+            deviceId: 'other-device',
+        });
+        await vi.waitFor(
+            () => expect(JSON.parse(getStoredItem(key) ?? '[]')).toContainEqual(category('remote')),
+            { timeout: 10000 }
+        );
+
+        connection.onLine = true;
+        await flushOutbox();
+        await vi.waitFor(() => expect(getSyncState().status).toBe('synced'), { timeout: 10000 });
+
+        const snapshot = await getDoc(remoteRef(key));
+        expect(snapshot.data()?.value).toEqual([category('a'), category('local'), category('remote')]);
+    });
+});
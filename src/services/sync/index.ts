@@ -0,0 +1,529 @@
+/**
+ * Sync Service
+ * Offline-first mirror of the local stores into Firestore.
+ *
+ * Every write that goes to storage for a mirrored key is also queued in a
+ * persistent outbox (coalesced per key, last write wins). The outbox holds one
+ * small record per key; the value itself is read from storage when uploaded.
+ * It is replayed against Firestore whenever the browser is online, and kept
+ * across reloads while it is offline.
+ *
+ * Documents belong to the signed-in user (anonymous sign-in when there is no
+ * account), so only the devices of one user share them. Changes other devices
+ * upload are pulled into local storage and the stores holding them in memory
+ * read them again (see notifyRemoteChanges); when both sides changed the same
+ * key, the values are merged (see mergeSyncedValue) and the result uploaded.
+ *
+ * Firestore layout:
+ *   shpl_users/{uid}/stores/{storageKey}  - { key, value, deleted, updatedAt, deviceId }
+ */
+
+import { collection, doc, onSnapshot, writeBatch, type Unsubscribe } from 'firebase/firestore';
+import { onAuthStateChanged, signInAnonymously } from 'firebase/auth';
+import { auth, db } from '../firebase/config';
+import { clean } from '../collab';
+import { getDeviceId } from '../device';
+import {
+    ALL_STORAGE_KEYS,
+    getStoredItem,
+    listStoredKeys,
+    notifyRemoteChanges,
+    removeStoredItem,
+    setStoredItem,
+    subscribeStorageChanges,
+} from '../storage';
+import { buildBatchesFromEntries } from '../../utils/batchUtils';
+import { isBatch, isStringArray } from '../../utils/validation';
+
+// ============================================
+// Constants
+// ============================================
+
+/** Firestore collection of users; each holds one document per mirrored storage key */
+export const SYNC_USERS_COLLECTION = 'shpl_users';
+export const SYNC_STORES_COLLECTION = 'stores';
+
+/** Storage key prefix of the pending outbox records (never mirrored themselves) */
+const OUTBOX_PREFIX = ALL_STORAGE_KEYS.SYNC_OUTBOX_PREFIX;
+
+/** Whole outbox in one key, as saved by earlier versions (moved on load) */
+const LEGACY_OUTBOX_KEY = 'shpl_sync_outbox';
+
+/** Storage key for the version of each key last agreed with the cloud */
+const META_KEY = ALL_STORAGE_KEYS.SYNC_META;
+
+/** Marks that the data existing before sync was enabled has been queued */
+const SEEDED_KEY = ALL_STORAGE_KEYS.SYNC_SEEDED;
+
+/** Firestore limits a write batch to 500 operations */
+const MAX_BATCH_WRITES = 500;
+
+/** Retry delays after a failed flush (ms) */
+const RETRY_DELAYS = [2000, 5000, 15000, 30000, 60000];
+
+// ============================================
+// Types
+// ============================================
+
+export type SyncStatus = 'disabled' | 'offline' | 'pending' | 'syncing' | 'synced' | 'error';
+
+export interface SyncState {
+    status: SyncStatus;
+    pendingCount: number;
+    lastSyncedAt: number | null;
+    lastError: string | null;
+    /** Keys changed by another device since the app loaded */
+    remoteChanges: number;
+}
+
+/**
+ * A pending change for one storage key (its value is read when uploading)
+ */
+interface OutboxItem {
+    key: string;
+    deleted: boolean;
+    updatedAt: number;
+}
+
+type Outbox = Record<string, OutboxItem>;
+
+/**
+ * Firestore document of one storage key (deleted keys are kept as tombstones
+ * so devices that were offline also remove them)
+ */
+interface RemoteStore {
+    key: string;
+    value: unknown;
+    deleted: boolean;
+    updatedAt: number;
+    deviceId: string;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Only domain data is mirrored: batches, entities, categories, settlements,
+ * price lists, entity accounts and archived jornadas. UI selections (active entity/category, mode) stay
+ * local to each device.
+ */
+export function isSyncedKey(key: string): boolean {
+    return (
+        key.startsWith(ALL_STORAGE_KEYS.BATCHES_PREFIX) ||
+        key === ALL_STORAGE_KEYS.ALL_BATCH_KEYS ||
+        key.startsWith(ALL_STORAGE_KEYS.SETTLEMENT_PREFIX) ||
+        key.startsWith(ALL_STORAGE_KEYS.ARCHIVE_PREFIX) ||
+        key === ALL_STORAGE_KEYS.JORNADA_ARCHIVE_INDEX ||
+        key === ALL_STORAGE_KEYS.ENTITIES_DESCARGA ||
+        key === ALL_STORAGE_KEYS.ENTITIES_TRANSBORDO ||
+        key === ALL_STORAGE_KEYS.CATEGORIES ||
+        key === ALL_STORAGE_KEYS.PRICE_LISTS ||
+        key === ALL_STORAGE_KEYS.ACCOUNT_MOVEMENTS
+    );
+}
+
+function unionById<T extends { id: string }>(local: T[], remote: T[]): T[] {
+    const ids = new Set(local.map(item => item.id));
+    const added = remote.filter(item => !ids.has(item.id));
+    return added.length > 0 ? [...local, ...added] : local;
+}
+
+function isIdList(value: unknown): value is Array<{ id: string }> {
+    return Array.isArray(value) &&
+        value.every(item => typeof item === 'object' && item !== null && typeof item.id === 'string');
+}
+
+/**
+ * Merge a key changed both here (not uploaded yet) and on another device,
+ * like a backup merge: batches are joined by entry id and rebuilt, lists by
+ * id, the batch key index by key. Anything else keeps the local value.
+ * Nothing either device added is lost; this device's version of an item wins.
+ */
+export function mergeSyncedValue(key: string, local: unknown, remote: unknown): unknown {
+    if (key.startsWith(ALL_STORAGE_KEYS.BATCHES_PREFIX)) {
+        if (!Array.isArray(local) || !Array.isArray(remote)) return local;
+        const [entityId, categoryId] = key.slice(ALL_STORAGE_KEYS.BATCHES_PREFIX.length).split(':');
+        const localEntries = local.filter(isBatch).flatMap(batch => batch.entries);
+        const remoteEntries = remote.filter(isBatch).flatMap(batch => batch.entries);
+        const merged = unionById(localEntries, remoteEntries);
+        return merged === localEntries ? local : buildBatchesFromEntries(merged, entityId, categoryId);
+    }
+
+    if (key === ALL_STORAGE_KEYS.ALL_BATCH_KEYS) {
+        if (!isStringArray(local) || !isStringArray(remote)) return local;
+        const added = remote.filter(batchKey => !local.includes(batchKey));
+        return added.length > 0 ? [...local, ...added] : local;
+    }
+
+    if (isIdList(local) && isIdList(remote)) {
+        return unionById(local, remote);
+    }
+
+    return local;
+}
+
+/**
+ * Parsed value of a storage key (null if missing or unreadable)
+ */
+function readStoredValue(key: string): unknown {
+    try {
+        return JSON.parse(getStoredItem(key) ?? 'null');
+    } catch {
+        return null;
+    }
+}
+
+function loadOutbox(): Outbox {
+    const loaded: Outbox = {};
+    for (const recordKey of listStoredKeys(OUTBOX_PREFIX)) {
+        const item = readStoredValue(recordKey) as OutboxItem | null;
+        if (item?.key) loaded[item.key] = item;
+    }
+
+    const legacy = readStoredValue(LEGACY_OUTBOX_KEY) as Record<string, OutboxItem> | null;
+    if (legacy) {
+        Object.values(legacy).forEach(({ key, deleted, updatedAt }) => {
+            loaded[key] = { key, deleted, updatedAt };
+            setStoredItem(`${OUTBOX_PREFIX}${key}`, JSON.stringify(loaded[key]));
+        });
+        removeStoredItem(LEGACY_OUTBOX_KEY);
+    }
+    return loaded;
+}
+
+function queueOutboxItem(item: OutboxItem): void {
+    outbox[item.key] = item;
+    setStoredItem(`${OUTBOX_PREFIX}${item.key}`, JSON.stringify(item));
+}
+
+function dropOutboxItem(key: string): void {
+    delete outbox[key];
+    removeStoredItem(`${OUTBOX_PREFIX}${key}`);
+}
+
+function loadMeta(): Record<string, number> {
+    try {
+        const stored = getStoredItem(META_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch {
+        return {};
+    }
+}
+
+function saveMeta(meta: Record<string, number>): void {
+    setStoredItem(META_KEY, JSON.stringify(meta));
+}
+
+function isOnline(): boolean {
+    return typeof navigator === 'undefined' ? true : navigator.onLine;
+}
+
+// ============================================
+// Engine State
+// ============================================
+
+const outbox: Outbox = loadOutbox();
+const meta: Record<string, number> = loadMeta();
+let uid: string | null = null;
+let remoteUnsub: Unsubscribe | null = null;
+let isFlushing = false;
+let retryAttempt = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let started = false;
+
+let state: SyncState = {
+    status: 'disabled',
+    pendingCount: Object.keys(outbox).length,
+    lastSyncedAt: null,
+    lastError: null,
+    remoteChanges: 0,
+};
+
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<SyncState>): void {
+    state = { ...state, ...patch, pendingCount: Object.keys(outbox).length };
+    listeners.forEach((listener) => listener());
+}
+
+/**
+ * Derive the idle status from connectivity and outbox size
+ */
+function idleStatus(): SyncStatus {
+    if (!db) return 'disabled';
+    if (!isOnline()) return 'offline';
+    return Object.keys(outbox).length > 0 || !uid ? 'pending' : 'synced';
+}
+
+/**
+ * Version for a local change: newer than the last one agreed with the cloud,
+ * even if this device's clock is behind the others
+ */
+function nextVersion(key: string): number {
+    return Math.max(Date.now(), (meta[key] ?? 0) + 1);
+}
+
+function storesCollection(userId: string) {
+    return collection(db!, SYNC_USERS_COLLECTION, userId, SYNC_STORES_COLLECTION);
+}
+
+/**
+ * Apply a document uploaded by another device.
+ * @returns true if local storage changed
+ */
+function applyRemoteStore(remote: RemoteStore): boolean {
+    const { key } = remote;
+    if (!isSyncedKey(key) || remote.updatedAt <= (meta[key] ?? 0)) return false;
+    meta[key] = remote.updatedAt;
+
+    const pending = outbox[key];
+    if (pending) {
+        // Changed on both devices: a local delete wins, values are merged
+        if (pending.deleted || remote.deleted) return false;
+        const local = readStoredValue(key);
+        const merged = mergeSyncedValue(key, local, remote.value);
+        queueOutboxItem({ key, deleted: false, updatedAt: nextVersion(key) });
+        if (merged === local) return false;
+        setStoredItem(key, JSON.stringify(merged));
+        return true;
+    }
+
+    if (remote.deleted) {
+        if (getStoredItem(key) === null) return false;
+        removeStoredItem(key);
+        return true;
+    }
+
+    const serialized = JSON.stringify(remote.value);
+    if (getStoredItem(key) === serialized) return false;
+    setStoredItem(key, serialized);
+    return true;
+}
+
+/**
+ * Listen to the signed-in user's documents (the first snapshot pulls everything)
+ */
+function attachRemoteListener(): void {
+    remoteUnsub?.();
+    remoteUnsub = null;
+    if (!db || !uid) return;
+
+    const deviceId = getDeviceId();
+    remoteUnsub = onSnapshot(storesCollection(uid), (snapshot) => {
+        const changedKeys: string[] = [];
+        for (const change of snapshot.docChanges()) {
+            const remote = change.doc.data() as RemoteStore;
+            if (change.type === 'removed' || remote.deviceId === deviceId) continue;
+            if (applyRemoteStore(remote)) changedKeys.push(remote.key);
+        }
+
+        saveMeta(meta);
+        // Stores reload what changed before any of them saves again
+        notifyRemoteChanges(changedKeys);
+        setState({ status: idleStatus(), remoteChanges: state.remoteChanges + changedKeys.length });
+        void flushOutbox();
+    }, (error) => console.error('[SHPL] Sync listener failed:', error));
+}
+
+/**
+ * Sign in anonymously when there is no account (retried when back online)
+ */
+function ensureSignedIn(): void {
+    if (!auth || auth.currentUser || !isOnline()) return;
+    signInAnonymously(auth).catch((error) => {
+        console.error('[SHPL] Sync sign-in failed:', error);
+        setState({ status: 'error', lastError: error instanceof Error ? error.message : String(error) });
+    });
+}
+
+function scheduleRetry(): void {
+    if (retryTimer) return;
+    const delay = RETRY_DELAYS[Math.min(retryAttempt, RETRY_DELAYS.length - 1)];
+    retryAttempt++;
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        void flushOutbox();
+    }, delay);
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Queue the latest value of a storage key for upload.
+ * Non-mirrored keys are ignored.
+ */
+export function enqueueSync(key: string): void {
+    if (!isSyncedKey(key)) return;
+
+    queueOutboxItem({ key, deleted: false, updatedAt: nextVersion(key) });
+    setState({ status: idleStatus() });
+    void flushOutbox();
+}
+
+/**
+ * Queue the removal of a storage key's remote document
+ */
+export function enqueueSyncDelete(key: string): void {
+    if (!isSyncedKey(key)) return;
+
+    queueOutboxItem({ key, deleted: true, updatedAt: nextVersion(key) });
+    setState({ status: idleStatus() });
+    void flushOutbox();
+}
+
+/**
+ * Replay the outbox against Firestore.
+ * Items are removed only after their batch commits, and only if they were
+ * not overwritten by a newer local change while the commit was in flight.
+ */
+export async function flushOutbox(): Promise<void> {
+    if (!db || !uid || isFlushing || !isOnline()) {
+        setState({ status: idleStatus() });
+        return;
+    }
+
+    const items = Object.values(outbox);
+    if (items.length === 0) {
+        setState({ status: 'synced' });
+        return;
+    }
+
+    isFlushing = true;
+    setState({ status: 'syncing' });
+    const stores = storesCollection(uid);
+    const deviceId = getDeviceId();
+
+    try {
+        for (let i = 0; i < items.length; i += MAX_BATCH_WRITES) {
+            const chunk = items.slice(i, i + MAX_BATCH_WRITES);
+            const batch = writeBatch(db);
+
+            for (const item of chunk) {
+                const remote: RemoteStore = {
+                    key: item.key,
+                    value: item.deleted ? null : clean(readStoredValue(item.key)),
+                    deleted: item.deleted,
+                    updatedAt: item.updatedAt,
+                    deviceId,
+                };
+                batch.set(doc(stores, item.key), remote);
+            }
+
+            await batch.commit();
+
+            for (const item of chunk) {
+                meta[item.key] = Math.max(meta[item.key] ?? 0, item.updatedAt);
+                if (outbox[item.key]?.updatedAt === item.updatedAt) {
+                    dropOutboxItem(item.key);
+                }
+            }
+            saveMeta(meta);
+        }
+
+        retryAttempt = 0;
+        isFlushing = false;
+        setState({ status: idleStatus(), lastSyncedAt: Date.now(), lastError: null });
+
+        // Changes queued during the flush
+        if (Object.keys(outbox).length > 0) {
+            void flushOutbox();
+        }
+    } catch (error) {
+        isFlushing = false;
+        console.error('[SHPL] Sync failed:', error);
+        setState({
+            status: 'error',
+            lastError: error instanceof Error ? error.message : String(error),
+        });
+        scheduleRetry();
+    }
+}
+
+/**
+ * Queue every mirrored key already stored (first run with sync enabled)
+ */
+function seedOutbox(): void {
+    if (!db || getStoredItem(SEEDED_KEY)) return;
+
+    for (const key of listStoredKeys()) {
+        // Unreadable values are not uploaded
+        if (isSyncedKey(key) && !outbox[key] && readStoredValue(key) !== null) {
+            queueOutboxItem({ key, deleted: false, updatedAt: nextVersion(key) });
+        }
+    }
+
+    setStoredItem(SEEDED_KEY, 'true');
+}
+
+/**
+ * Start listening to connectivity changes and flush pending changes.
+ * Safe to call more than once.
+ */
+export function startSyncEngine(): void {
+    if (started) return;
+    started = true;
+
+    seedOutbox();
+
+    // Mirror every write made through the storage service
+    subscribeStorageChanges((key, _value, removed) => {
+        if (removed) {
+            enqueueSyncDelete(key);
+        } else {
+            enqueueSync(key);
+        }
+    });
+
+    // Pull and push as the signed-in user
+    if (auth) {
+        onAuthStateChanged(auth, (user) => {
+            uid = user?.uid ?? null;
+            attachRemoteListener();
+            if (!user) ensureSignedIn();
+            setState({ status: idleStatus() });
+            void flushOutbox();
+        });
+    }
+
+    window.addEventListener('online', () => {
+        retryAttempt = 0;
+        ensureSignedIn();
+        void flushOutbox();
+    });
+    window.addEventListener('offline', () => {
+        setState({ status: idleStatus() });
+    });
+
+    setState({ status: idleStatus() });
+    void flushOutbox();
+}
+
+/**
+ * Current sync state snapshot (stable reference until it changes)
+ */
+export function getSyncState(): SyncState {
+    return state;
+}
+
+/**
+ * Subscribe to sync state changes
+ * @returns Unsubscribe function
+ */
+export function subscribeSyncState(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export default {
+    enqueueSync,
+    enqueueSyncDelete,
+    flushOutbox,
+    startSyncEngine,
+    getSyncState,
+    subscribeSyncState,
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { parseSpanishNumber } from './index';
+
+describe('parseSpanishNumber', () => {
+    it.each([
+        ['cero', 0],
+        ['siete', 7],
+        ['quince', 15],
+        ['veintitrés', 23],
+        ['cuarenta y siete', 47],
+        ['ciento veinte', 120],
+        ['ciento veinte kilos', 120],
+        ['doscientos cincuenta y cinco', 255],
+        ['cien', 100],
+        ['mil doscientos', 1200],
+        ['dos mil', 2000],
+    ])('reads the integer "%s"', (text, expected) => {
+        expect(parseSpanishNumber(text)).toBe(expected);
+    });
+
+    it.each([
+        ['cuarenta y siete punto cinco', 47.5],
+        ['cuarenta y siete coma veinticinco', 47.25],
+        ['doce con cincuenta', 12.5],
+        ['diez punto cero cinco', 10.05],
+        ['diez punto dos cinco', 10.25],
+        ['punto cinco', 0.5],
+        ['cuarenta y siete y medio', 47.5],
+        ['cuarenta kilos y medio', 40.5],
+        ['medio kilo', 0.5],
+    ])('reads the decimal "%s"', (text, expected) => {
+        expect(parseSpanishNumber(text)).toBe(expected);
+    });
+
+    it.each([
+        ['47', 47],
+        ['47,5', 47.5],
+        ['47.5', 47.5],
+        ['47.5 kg', 47.5],
+    ])('reads the digits "%s"', (text, expected) => {
+        expect(parseSpanishNumber(text)).toBe(expected);
+    });
+
+    it.each([
+        ['Cuarenta y siete.', 47],
+        ['47.5.', 47.5],
+        ['¿Cuarenta y siete punto cinco?', 47.5],
+        ['ciento veinte, kilos.', 120],
+    ])('ignores sentence punctuation in "%s"', (text, expected) => {
+        expect(parseSpanishNumber(text)).toBe(expected);
+    });
+
+    it.each([
+        'siete siete',
+        'cinco cuarenta',
+        'cien cien',
+        'cien cinco',
+        'cuarenta diez',
+        'treinta cuarenta',
+        'siete cero',
+        'mil mil',
+        'doscientos 47',
+        'medio punto cinco',
+        'cuarenta y medio siete',
+    ])('rejects the malformed sequence "%s"', (text) => {
+        expect(parseSpanishNumber(text)).toBeNull();
+    });
+
+    it.each(['', '.', 'hola', 'cuarenta y pico', 'punto'])('rejects "%s" as not a number', (text) => {
+        expect(parseSpanishNumber(text)).toBeNull();
+    });
+});
@@ -1,4 +1,345 @@
 // Service: Voice Recognition (Speech-to-Text)
-// This service will handle voice input for weighing data entry
+// This service handles voice input for weighing data entry
 
-export { }
+// ============================================
+// Spanish Number Vocabulary
+// ============================================
+
+const UNITS: Record<string, number> = {
+    cero: 0,
+    un: 1,
+    uno: 1,
+    una: 1,
+    dos: 2,
+    tres: 3,
+    cuatro: 4,
+    cinco: 5,
+    seis: 6,
+    siete: 7,
+    ocho: 8,
+    nueve: 9,
+    diez: 10,
+    once: 11,
+    doce: 12,
+    trece: 13,
+    catorce: 14,
+    quince: 15,
+    dieciseis: 16,
+    diecisiete: 17,
+    dieciocho: 18,
+    diecinueve: 19,
+    veinte: 20,
+    veintiun: 21,
+    veintiuno: 21,
+    veintiuna: 21,
+    veintidos: 22,
+    veintitres: 23,
+    veinticuatro: 24,
+    veinticinco: 25,
+    veintiseis: 26,
+    veintisiete: 27,
+    veintiocho: 28,
+    veintinueve: 29,
+};
+
+const TENS: Record<string, number> = {
+    treinta: 30,
+    cuarenta: 40,
+    cincuenta: 50,
+    sesenta: 60,
+    setenta: 70,
+    ochenta: 80,
+    noventa: 90,
+};
+
+const HUNDREDS: Record<string, number> = {
+    cien: 100,
+    ciento: 100,
+    doscientos: 200,
+    doscientas: 200,
+    trescientos: 300,
+    trescientas: 300,
+    cuatrocientos: 400,
+    cuatrocientas: 400,
+    quinientos: 500,
+    quinientas: 500,
+    seiscientos: 600,
+    seiscientas: 600,
+    setecientos: 700,
+    setecientas: 700,
+    ochocientos: 800,
+    ochocientas: 800,
+    novecientos: 900,
+    novecientas: 900,
+};
+
+/** Words that separate the integer part from the decimals */
+const DECIMAL_SEPARATORS = new Set(['punto', 'coma', 'con']);
+
+/** "... y medio" adds half a kilo */
+const HALF_WORDS = new Set(['medio', 'media']);
+
+/** Words the recognizer often adds around a weight that carry no value */
+const FILLER_WORDS = new Set(['y', 'kilo', 'kilos', 'kg', 'kilogramo', 'kilogramos', 'peso', 'son']);
+
+// ============================================
+// Parsing Helpers
+// ============================================
+
+/**
+ * Lowercase, strip accents and split the transcript into word tokens.
+ * Digits with a decimal comma or point ("47,5") are kept as one token;
+ * any other punctuation (the recognizer's trailing period) is dropped.
+ */
+function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/(\d)[,.](\d)/g, '$1.$2')
+        .replace(/[^a-z0-9.\s]|\.(?!\d)|(?<!\d)\./g, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+}
+
+/**
+ * Parse a sequence of Spanish number words into an integer.
+ * Words must come in spoken order (hundreds, tens, units) so a misheard
+ * "siete siete" or "cinco cuarenta" is rejected instead of added up.
+ * @example parseInteger(['ciento', 'veinte']) === 120
+ */
+function parseInteger(tokens: string[]): number | null {
+    let total = 0;
+    let current = 0;
+    let hasValue = false;
+    // Smallest place filled in the current group below a thousand
+    // (4 = nothing yet, 3 = hundreds, 2 = tens, 1 = units, 0 = closed)
+    let place = 4;
+
+    for (const token of tokens) {
+        if (FILLER_WORDS.has(token)) continue;
+
+        if (/^\d+$/.test(token)) {
+            if (place !== 4) return null;
+            current = parseInt(token, 10);
+            place = 0;
+        } else if (token in HUNDREDS) {
+            if (place !== 4) return null;
+            current = HUNDREDS[token];
+            // "cien" is only said alone; "ciento" takes tens and units
+            place = token === 'cien' ? 0 : 3;
+        } else if (token in TENS) {
+            if (place < 3) return null;
+            current += TENS[token];
+            place = 2;
+        } else if (token in UNITS) {
+            const value = UNITS[token];
+            // Only 1-9 follow a ten ("cuarenta y siete"); zero stands alone
+            if (value === 0 ? place !== 4 : place < 2 || (place === 2 && value > 9)) return null;
+            current += value;
+            place = value === 0 ? 0 : 1;
+        } else if (token === 'mil') {
+            if (total > 0) return null;
+            total = (current || 1) * 1000;
+            current = 0;
+            place = 4;
+        } else {
+            // Unknown word: refuse to guess a weight
+            return null;
+        }
+        hasValue = true;
+    }
+
+    return hasValue ? total + current : null;
+}
+
+/**
+ * Parse the decimal part as a digit string.
+ * Every "cero" is a literal zero so "punto cero cinco" reads as ".05",
+ * while "punto veinticinco" reads as ".25" and "punto dos cinco" as ".25".
+ */
+function parseDecimalDigits(tokens: string[]): string | null {
+    let digits = '';
+    let group: string[] = [];
+
+    const flushGroup = (): boolean => {
+        if (group.length === 0) return true;
+        const value = parseInteger(group);
+        if (value === null) return false;
+        digits += String(value);
+        group = [];
+        return true;
+    };
+
+    for (const token of tokens) {
+        if (FILLER_WORDS.has(token)) continue;
+        if (token === 'cero') {
+            if (!flushGroup()) return null;
+            digits += '0';
+        } else if (group.length > 0 && parseInteger([...group, token]) === null) {
+            // A word that can't continue the number starts the next digits
+            if (!flushGroup()) return null;
+            group.push(token);
+        } else {
+            group.push(token);
+        }
+    }
+
+    if (!flushGroup()) return null;
+    return digits || null;
+}
+
+// ============================================
+// Public Parser
+// ============================================
+
+/**
+ * Convert a spoken Spanish number into a numeric value.
+ * Pure function: no browser APIs involved, safe to unit test.
+ *
+ * @example parseSpanishNumber('cuarenta y siete punto cinco') === 47.5
+ * @example parseSpanishNumber('cuarenta y siete y medio') === 47.5
+ * @example parseSpanishNumber('ciento veinte kilos') === 120
+ * @example parseSpanishNumber('47,5') === 47.5
+ * @returns The parsed number, or null if the transcript is not a number
+ */
+export function parseSpanishNumber(text: string): number | null {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) return null;
+
+    // "... y medio" / "medio kilo": must be the last word that carries a value
+    const halfIndex = tokens.findIndex(t => HALF_WORDS.has(t));
+    if (halfIndex !== -1) {
+        const rest = tokens.slice(halfIndex + 1);
+        if (!rest.every(t => FILLER_WORDS.has(t)) || tokens.some(t => DECIMAL_SEPARATORS.has(t))) return null;
+        const integerTokens = tokens.slice(0, halfIndex);
+        if (integerTokens.every(t => FILLER_WORDS.has(t))) return 0.5;
+        const integerPart = parseInteger(integerTokens);
+        return integerPart === null ? null : integerPart + 0.5;
+    }
+
+    // Plain numeric transcript (the recognizer sometimes returns digits)
+    const numericTokens = tokens.filter(t => !FILLER_WORDS.has(t));
+    if (numericTokens.length === 1 && /^\d+(\.\d+)?$/.test(numericTokens[0])) {
+        return parseFloat(numericTokens[0]);
+    }
+
+    const separatorIndex = tokens.findIndex(t => DECIMAL_SEPARATORS.has(t));
+    const integerTokens = separatorIndex === -1 ? tokens : tokens.slice(0, separatorIndex);
+    const decimalTokens = separatorIndex === -1 ? [] : tokens.slice(separatorIndex + 1);
+
+    // "punto cinco" has no integer part
+    const integerPart = separatorIndex > 0 || separatorIndex === -1 ? parseInteger(integerTokens) : 0;
+    if (integerPart === null) return null;
+
+    if (separatorIndex === -1) return integerPart;
+
+    const decimalDigits = parseDecimalDigits(decimalTokens);
+    if (decimalDigits === null) return null;
+
+    return parseFloat(`${integerPart}.${decimalDigits}`);
+}
+
+// ============================================
+// Speech Recognition Wrapper
+// ============================================
+
+/**
+ * Minimal typing of the Web Speech API (not included in lib.dom)
+ */
+interface SpeechRecognitionResultLike {
+    isFinal: boolean;
+    0: { transcript: string };
+}
+
+interface SpeechRecognitionEventLike {
+    resultIndex: number;
+    results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+interface SpeechRecognitionLike {
+    lang: string;
+    continuous: boolean;
+    interimResults: boolean;
+    maxAlternatives: number;
+    onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+    onerror: ((event: { error: string }) => void) | null;
+    onend: (() => void) | null;
+    start: () => void;
+    stop: () => void;
+    abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+function getRecognitionConstructor(): SpeechRecognitionConstructor | null {
+    if (typeof window === 'undefined') return null;
+    const w = window as unknown as {
+        SpeechRecognition?: SpeechRecognitionConstructor;
+        webkitSpeechRecognition?: SpeechRecognitionConstructor;
+    };
+    return w.SpeechRecognition || w.webkitSpeechRecognition || null;
+}
+
+/**
+ * Check whether the browser supports speech recognition
+ */
+export function isVoiceSupported(): boolean {
+    return getRecognitionConstructor() !== null;
+}
+
+export interface VoiceRecognizerOptions {
+    lang?: string;
+    onTranscript: (transcript: string, isFinal: boolean) => void;
+    onError?: (error: string) => void;
+    onEnd?: () => void;
+}
+
+export interface VoiceRecognizer {
+    start: () => void;
+    stop: () => void;
+    abort: () => void;
+}
+
+/**
+ * Create a push-to-talk recognizer for Spanish dictation
+ * @returns null when the browser has no speech recognition support
+ */
+export function createVoiceRecognizer({
+    lang = 'es-PE',
+    onTranscript,
+    onError,
+    onEnd,
+}: VoiceRecognizerOptions): VoiceRecognizer | null {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) return null;
+
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.continuous = false;
+    recognition.interimResults = true;
+    recognition.maxAlternatives = 1;
+
+    recognition.onresult = (event) => {
+        for (let i = event.resultIndex; i < event.results.length; i++) {
+            const result = event.results[i];
+            onTranscript(result[0].transcript.trim(), result.isFinal);
+        }
+    };
+
+    recognition.onerror = (event) => {
+        onError?.(event.error);
+    };
+
+    recognition.onend = () => {
+        onEnd?.();
+    };
+
+    return {
+        start: () => recognition.start(),
+        stop: () => recognition.stop(),
+        abort: () => recognition.abort(),
+    };
+}
+
+export default { parseSpanishNumber, isVoiceSupported, createVoiceRecognizer };
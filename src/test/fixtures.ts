@@ -0,0 +1,64 @@
+/**
+ * Sample jornada shared by the golden-file tests
+ * Fixed ids and timestamps, so the generated output never changes by itself.
+ */
+
+import type { Batch, Category, Entity, SettlementData, WeightEntry } from '../types/domain';
+import { buildBatchesByKey } from '../utils/batchUtils';
+
+export const SAMPLE_DATE = new Date(2025, 0, 15, 8, 30);
+
+export const SAMPLE_CATEGORIES: Category[] = [
+    { id: 'yungay', name: 'Yungay', createdAt: 1, batchSize: 5, tarePerSack: 0.2, shrinkagePercent: 2 },
+    { id: 'canchan', name: 'Canchán', createdAt: 2, batchSize: 5 },
+];
+
+export const SAMPLE_ENTITIES: Entity[] = [
+    { id: 'e-juan', name: 'Juan Quispe', type: 'PROVIDER', createdAt: 1 },
+    { id: 'e-rosa', name: 'Rosa Mamani', type: 'PROVIDER', createdAt: 2, tarePerSack: 0.25 },
+];
+
+const YUNGAY_WEIGHTS = [50.5, 49.75, 51.25, 48.9, 50.05, 52.35, 47.6];
+const CANCHAN_WEIGHTS = [45.2, 46.8, 44.15];
+const ROSA_WEIGHTS = [55.05, 54.45, 56.1, 53.95];
+
+function sampleEntries(entityId: string, categoryId: string, weights: number[], start: number): WeightEntry[] {
+    return weights.map((value, index) => ({
+        id: `${entityId}-${categoryId}-${index + 1}`,
+        value,
+        timestamp: start + index * 1000,
+        categoryId,
+        entityId,
+        batchSize: 5,
+        ...(categoryId === 'yungay' && index % 3 === 2 && { grade: 'SEGUNDA' as const }),
+    }));
+}
+
+export const SAMPLE_BATCHES_BY_KEY: Record<string, Batch[]> = buildBatchesByKey([
+    ...sampleEntries('e-juan', 'yungay', YUNGAY_WEIGHTS, 1_736_000_000_000),
+    ...sampleEntries('e-juan', 'canchan', CANCHAN_WEIGHTS, 1_736_000_100_000),
+    ...sampleEntries('e-rosa', 'yungay', ROSA_WEIGHTS, 1_736_000_200_000),
+]);
+
+export const SAMPLE_SETTLEMENTS: Record<string, SettlementData> = {
+    'e-juan': {
+        prices: { 'yungay': 1.35, 'yungay:SEGUNDA': 1.05, 'canchan': 1.2 },
+        freightRate: 0.08,
+        sackValue: 12.5,
+        rounding: 'tenth',
+        adjustments: [
+            { id: 'a1', name: 'Estiba', basis: 'per-sack', rate: 0.5, direction: 'deduct' },
+            { id: 'a2', name: 'Bono calidad', basis: 'percent', rate: 1.5, direction: 'add' },
+        ],
+    },
+    'e-rosa': {
+        prices: { 'yungay': 1.4 },
+        freightRate: 0.1,
+        sackValue: 0,
+        currency: 'USD',
+    },
+};
+
+export const SAMPLE_ADVANCE_DEBTS: Record<string, number> = {
+    'e-juan': 150,
+};
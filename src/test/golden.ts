@@ -0,0 +1,41 @@
+/// <reference types="node" />
+/**
+ * Golden-file helpers for tests
+ * Generated bytes are compared with a committed fixture. Run the tests with
+ * UPDATE_GOLDEN=1 to (re)write the fixtures after an intended output change,
+ * and review the diff of the fixtures like any other change.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { expect } from 'vitest';
+
+/**
+ * Hex dump with 16 bytes per line, so a mismatch shows where the bytes differ
+ */
+function hexDump(bytes: Uint8Array): string {
+    const lines: string[] = [];
+    for (let i = 0; i < bytes.length; i += 16) {
+        const chunk = Array.from(bytes.subarray(i, i + 16));
+        const hex = chunk.map(byte => byte.toString(16).padStart(2, '0')).join(' ');
+        const text = chunk.map(byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+        lines.push(`${i.toString(16).padStart(6, '0')}  ${hex.padEnd(47)}  ${text}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Assert that bytes equal the golden file byte for byte
+ * @param fixture - File URL, e.g. new URL('./__fixtures__/ticket.bin', import.meta.url)
+ */
+export function expectGoldenBytes(bytes: Uint8Array, fixture: URL): void {
+    if (process.env.UPDATE_GOLDEN) {
+        writeFileSync(fixture, bytes);
+    }
+
+    expect(existsSync(fixture), `Missing golden file ${fixture.pathname} (run with UPDATE_GOLDEN=1)`).toBe(true);
+    const golden = new Uint8Array(readFileSync(fixture));
+    if (Buffer.compare(Buffer.from(bytes), Buffer.from(golden)) !== 0) {
+        expect(hexDump(bytes)).toBe(hexDump(golden));
+    }
+    expect(bytes.length).toBe(golden.length);
+}
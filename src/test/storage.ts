@@ -0,0 +1,24 @@
+/**
+ * Browser storage for tests
+ * Without IndexedDB the storage service keeps its data in localStorage; tests
+ * of the services built on it stub localStorage with a Map they can seed
+ * before initStorage() and inspect afterwards.
+ */
+
+import { vi } from 'vitest';
+
+/**
+ * Stub localStorage with an in-memory map
+ * @param memory Values already saved (none by default)
+ * @returns The map behind the stub
+ */
+export function stubLocalStorage(memory = new Map<string, string>()): Map<string, string> {
+    vi.stubGlobal('localStorage', {
+        get length() { return memory.size; },
+        key: (index: number) => Array.from(memory.keys())[index] ?? null,
+        getItem: (key: string) => memory.get(key) ?? null,
+        setItem: (key: string, value: string) => { memory.set(key, value); },
+        removeItem: (key: string) => { memory.delete(key); },
+    });
+    return memory;
+}
@@ -24,6 +24,8 @@ export interface Entity {
     name: string;
     type: EntityType;
     createdAt: number;
+    tarePerSack?: number;       // Overrides the category tare for this entity
+    shrinkagePercent?: number;  // Overrides the category shrinkage for this entity
 }
 
 /**
@@ -58,6 +60,63 @@ export interface Category {
     name: string;
     color?: string; // Optional color for visual distinction
     createdAt: number;
+    batchSize?: number; // Sacks per batch (falls back to the session default)
+    tarePerSack?: number;       // Empty sack weight in kg
+    shrinkagePercent?: number;  // Humidity/dirt deduction (merma)
+}
+
+// ============================================
+// Quality Grade Types
+// ============================================
+
+/**
+ * Optional quality grade of a sack within its category, paid at its own price
+ */
+export type QualityGrade = 'PRIMERA' | 'SEGUNDA' | 'TERCERA';
+
+/**
+ * Grades in selection order
+ */
+export const QUALITY_GRADES: QualityGrade[] = ['PRIMERA', 'SEGUNDA', 'TERCERA'];
+
+/**
+ * Spanish label of each grade
+ */
+export const QUALITY_GRADE_LABELS: Record<QualityGrade, string> = {
+    PRIMERA: 'Primera',
+    SEGUNDA: 'Segunda',
+    TERCERA: 'Tercera',
+};
+
+/**
+ * Short mark of each grade, for cells and chips
+ */
+export const QUALITY_GRADE_MARKS: Record<QualityGrade, string> = {
+    PRIMERA: '1ra',
+    SEGUNDA: '2da',
+    TERCERA: '3ra',
+};
+
+// ============================================
+// Weight Deduction Types
+// ============================================
+
+/**
+ * Deduction applied to the gross weight before paying
+ */
+export interface WeightDeduction {
+    tarePerSack: number;       // kg subtracted per sack
+    shrinkagePercent: number;  // % subtracted from the weight left after tare
+}
+
+/**
+ * Gross weight split into its deductions and the net weight that gets paid
+ */
+export interface NetWeight {
+    gross: number;
+    tare: number;
+    shrinkage: number;
+    net: number;
 }
 
 // ============================================
@@ -70,13 +129,18 @@ export interface Category {
 export interface WeightEntry {
     id: string;
     value: number;
-    timestamp: number;
+    timestamp: number;    // Also the sack order (inserted weights take one between their neighbours)
     categoryId: string;
     entityId: string;
+    deviceId?: string;    // Device that registered the weight
+    deviceName?: string;  // Operator/device label shown to other devices
+    batchSize?: number;   // Size of the batch it was recorded into (BATCH_SIZE if missing)
+    outlier?: boolean;    // Accepted despite the outlier warning; cleared once reviewed
+    grade?: QualityGrade; // Missing = ungraded (paid at the category price)
 }
 
 /**
- * Batch of weight entries (group of BATCH_SIZE)
+ * Batch of weight entries (group of `size`, BATCH_SIZE by default)
  */
 export interface Batch {
     id: string;
@@ -85,6 +149,7 @@ export interface Batch {
     subtotal: number | null;
     categoryId: string;
     entityId: string;
+    size?: number;  // Fixed by the first entry; missing on batches saved before sizes were configurable
 }
 
 /**
@@ -100,6 +165,11 @@ export interface CategoryWeighingState {
  */
 export const BATCH_SIZE = 5;
 
+/**
+ * Batch sizes offered when configuring a category or the session default
+ */
+export const BATCH_SIZE_OPTIONS = [3, 4, 5, 6, 8, 10, 12, 15, 20];
+
 /**
  * Default category for new sessions
  */
@@ -124,6 +194,67 @@ export const CATEGORY_COLORS = [
     '#f97316', // Orange
 ];
 
+// ============================================
+// Money Types
+// ============================================
+
+/**
+ * Currency a settlement is paid in
+ */
+export type CurrencyCode = 'PEN' | 'USD';
+
+export const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+    PEN: 'S/',
+    USD: 'US$',
+};
+
+export const CURRENCY_LABELS: Record<CurrencyCode, string> = {
+    PEN: 'Soles (S/)',
+    USD: 'Dólares (US$)',
+};
+
+/**
+ * How money amounts are rounded:
+ * half-up: to the cent, halves away from zero (2.345 → 2.35)
+ * half-even: to the cent, halves to the even cent (2.345 → 2.34, 2.355 → 2.36)
+ * truncate: to the cent, fractions of a cent dropped (2.349 → 2.34)
+ * tenth / unit: amounts to the cent (half-up), the amount to pay to 0.10 / 1.00
+ */
+export type RoundingPolicy = 'half-up' | 'half-even' | 'truncate' | 'tenth' | 'unit';
+
+export const ROUNDING_POLICY_LABELS: Record<RoundingPolicy, string> = {
+    'half-up': 'Al céntimo (0.005 sube)',
+    'half-even': 'Al céntimo par (bancario)',
+    'truncate': 'Al céntimo (sin redondear)',
+    'tenth': 'Total a 0.10',
+    'unit': 'Total a 1.00',
+};
+
+/**
+ * Number formats offered for amounts (locale -> label)
+ */
+export const MONEY_LOCALES: Record<string, string> = {
+    'es-PE': 'Perú (1,234.50)',
+    'en-US': 'EE. UU. (1,234.50)',
+    'es-ES': 'España (1.234,50)',
+};
+
+/**
+ * Device setting: currency and rounding new settlements start with, and how
+ * amounts are written
+ */
+export interface MoneySettings {
+    currency: CurrencyCode;
+    locale: string;
+    rounding: RoundingPolicy;
+}
+
+export const DEFAULT_MONEY_SETTINGS: MoneySettings = {
+    currency: 'PEN',
+    locale: 'es-PE',
+    rounding: 'half-up',
+};
+
 // ============================================
 // Settlement Types
 // ============================================
@@ -132,19 +263,98 @@ export const CATEGORY_COLORS = [
  * Settlement input data (user-provided values)
  */
 export interface SettlementData {
-    prices: Record<string, number>;   // { 'categoryId': unitPrice }
+    prices: Record<string, number>;   // { 'categoryId': unitPrice, 'categoryId:GRADE': gradePrice }
     freightRate: number;              // Cost per Kg
     sackValue: number;                // Total sack payment
+    priceVersionId?: string;          // Price list version the prices were filled from
+    currency?: CurrencyCode;          // From the money settings when created (PEN if missing)
+    rounding?: RoundingPolicy;        // From the money settings when created (half-up if missing)
+    adjustments?: SettlementAdjustment[];  // Extra charges and bonuses (estiba, comisión...)
+    finalizedAt?: number;             // Set when finalized: weights are locked and the summary frozen
+    finalSummary?: SettlementSummary; // Summary as it was when finalized
+    payments?: SettlementPayment[];   // Registered once finalized
+}
+
+/**
+ * draft: still being edited, recomputed from the weights
+ * finalized: summary frozen and weights locked, nothing paid yet
+ */
+export type SettlementStatus = 'draft' | 'finalized' | 'partially-paid' | 'paid';
+
+export const SETTLEMENT_STATUS_LABELS: Record<SettlementStatus, string> = {
+    'draft': 'Borrador',
+    'finalized': 'Finalizada',
+    'partially-paid': 'Pago parcial',
+    'paid': 'Pagada',
+};
+
+export type PaymentMethod = 'cash' | 'yape' | 'plin' | 'transfer';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    cash: 'Efectivo',
+    yape: 'Yape',
+    plin: 'Plin',
+    transfer: 'Transferencia',
+};
+
+/**
+ * Payment made against a finalized settlement
+ */
+export interface SettlementPayment {
+    id: string;
+    method: PaymentMethod;
+    amount: number;
+    reference?: string;     // Operation number, bank voucher...
+    paidAt: number;
+}
+
+/**
+ * What an adjustment's rate applies to:
+ * fixed (S/), per-kg (S/ per gross kg), per-sack (S/ per sack) or percent (% of the gross total)
+ */
+export type AdjustmentBasis = 'fixed' | 'per-kg' | 'per-sack' | 'percent';
+
+/**
+ * Spanish label of each basis, for the adjustment editor
+ */
+export const ADJUSTMENT_BASIS_LABELS: Record<AdjustmentBasis, string> = {
+    'fixed': 'Monto fijo',
+    'per-kg': 'Por kg',
+    'per-sack': 'Por saco',
+    'percent': '% del bruto',
+};
+
+/**
+ * Named adjustment line of a settlement, added to or deducted from the amount to pay
+ */
+export interface SettlementAdjustment {
+    id: string;
+    name: string;
+    basis: AdjustmentBasis;
+    rate: number;
+    direction: 'add' | 'deduct';
+}
+
+/**
+ * Adjustment with the amount it came to
+ */
+export interface AdjustmentLine extends SettlementAdjustment {
+    amount: number;     // Always positive; the direction gives the sign
 }
 
 /**
  * Category line item for settlement breakdown
  */
 export interface CategoryLine {
+    priceKey: string;       // Key of its price in SettlementData.prices (see getPriceKey)
     categoryId: string;
+    grade?: QualityGrade;
     categoryName: string;
     categoryColor?: string;
-    totalWeight: number;
+    grossWeight: number;
+    tareWeight: number;
+    shrinkageWeight: number;
+    totalWeight: number;    // Net weight (what the price applies to)
     unitPrice: number;
     subtotal: number;
 }
@@ -155,10 +365,128 @@ export interface CategoryLine {
 export interface SettlementSummary {
     categoryBreakdown: CategoryLine[];
     grossTotal: number;
-    totalWeight: number;
+    grossWeight: number;
+    tareWeight: number;
+    shrinkageWeight: number;
+    totalWeight: number;    // Net weight
     freightTotal: number;
     sackValue: number;
+    adjustments: AdjustmentLine[];
+    adjustmentsTotal: number;   // Additions minus deductions
+    advanceDebt: number;        // Entity's outstanding advances before this settlement
+    advanceDeduction: number;   // Part of the debt taken from this settlement
+    advanceBalance: number;     // Debt carried forward (not covered by this settlement)
+    roundingDifference: number; // Added to the amount to pay by rounding it to 0.10 / 1.00
     finalAmount: number;
+    currency: CurrencyCode;
+}
+
+// ============================================
+// Price List Types
+// ============================================
+
+/**
+ * One dated version of the price list. A new version is saved whenever prices
+ * change; older ones are kept so each settlement can tell which it used.
+ */
+export interface PriceListVersion {
+    id: string;
+    effectiveFrom: number;                                 // Applies from this time on
+    createdAt: number;
+    prices: Record<string, number>;                        // price key (see getPriceKey) -> default price
+    entityPrices: Record<string, Record<string, number>>;  // entityId -> price key -> price
+    note?: string;
+}
+
+// ============================================
+// Account (Advances) Types
+// ============================================
+
+/**
+ * advance: cash or goods (e.g. seed) given to the entity, raises its debt
+ * repayment: debt paid back outside a settlement
+ * settlement: debt deducted from a jornada's settlement
+ */
+export type AccountMovementKind = 'advance' | 'repayment' | 'settlement';
+
+/**
+ * One movement of an entity's account of advances
+ */
+export interface AccountMovement {
+    id: string;
+    entityId: string;
+    kind: AccountMovementKind;
+    date: number;           // When it happened (an advance may predate the harvest)
+    amount: number;         // Always positive; the kind gives the direction
+    currency?: CurrencyCode; // Currency of the amount (PEN if missing: recorded before currencies)
+    concept: string;
+    jornadaId?: string;     // Jornada whose settlement deducted it (settlement only)
+    createdAt: number;
+}
+
+// ============================================
+// Audit Types
+// ============================================
+
+export type AuditAction =
+    | 'weight-added'
+    | 'weight-updated'
+    | 'weight-deleted'
+    | 'weight-reviewed'
+    | 'weight-moved'
+    | 'category-deleted'
+    | 'entity-removed';
+
+/**
+ * One record of the append-only audit log (records are never changed or removed)
+ */
+export interface AuditRecord {
+    id: string;
+    timestamp: number;
+    action: AuditAction;
+    entityId: string;
+    entityName?: string;            // Kept for entities that no longer exist
+    entity?: Entity;                // The removed entity as it was (entity-removed only)
+    categoryId?: string;
+    categoryName?: string;          // Name at the time of the action
+    entryId?: string;
+    previousValue: number | null;   // kg before (null when added)
+    newValue: number | null;        // kg after (null when deleted)
+    deviceId: string;
+    deviceName: string;
+    note?: string;                  // Context, e.g. "Deshacer" or "3 pesos"
+}
+
+// ============================================
+// Jornada (Work Session) Types
+// ============================================
+
+/**
+ * The work session currently being recorded (one per device)
+ */
+export interface Jornada {
+    id: string;
+    date: string;       // Local date YYYY-MM-DD
+    openedAt: number;
+}
+
+/**
+ * Index entry for a closed jornada (cheap to list)
+ */
+export interface ArchivedJornadaInfo extends Jornada {
+    closedAt: number;
+    entryCount: number;
+    totalWeight: number;
+}
+
+/**
+ * Immutable snapshot of a closed jornada
+ */
+export interface ArchivedJornada extends ArchivedJornadaInfo {
+    entities: Record<OperationMode, Entity[]>;
+    categories: Category[];
+    batchesByKey: Record<string, Batch[]>;      // entityId:categoryId -> Batch[]
+    settlements: Record<string, SettlementData>; // entityId -> SettlementData
 }
 
 /**
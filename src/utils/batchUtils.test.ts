@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { WeightEntry } from '../types/domain';
+import {
+    buildBatchesByKey,
+    buildBatchesFromEntries,
+    diffEntries,
+    flattenEntries,
+    reflowBatches,
+    restoreEntries,
+    timestampBetween,
+} from './batchUtils';
+
+function entry(id: string, timestamp: number, overrides: Partial<WeightEntry> = {}): WeightEntry {
+    return { id, value: 50, timestamp, categoryId: 'c1', entityId: 'e1', batchSize: 2, ...overrides };
+}
+
+function ids(batchesByKey: ReturnType<typeof buildBatchesByKey>, key: string): string[][] {
+    return (batchesByKey[key] ?? []).map(batch => batch.entries.map(e => e.id));
+}
+
+describe('diffEntries', () => {
+    it('reports a weight that changed entity or category as moved', () => {
+        const before = [entry('w1', 1), entry('w2', 2)];
+        const after = [entry('w1', 1), entry('w2', 2, { categoryId: 'c2' })];
+
+        const diff = diffEntries(before, after);
+
+        expect(diff.moved.map(e => e.id)).toEqual(['w2']);
+        expect([diff.added, diff.removed, diff.updated]).toEqual([[], [], []]);
+    });
+});
+
+describe('moving weights between batches', () => {
+    it('re-flows both the source and the target batches by timestamp', () => {
+        const before = buildBatchesByKey([
+            entry('w1', 1), entry('w2', 2), entry('w3', 3),
+            entry('x1', 1.5, { categoryId: 'c2' }), entry('x2', 4, { categoryId: 'c2' }),
+        ]);
+        const moved = { ...entry('w2', 2), categoryId: 'c2' };
+
+        const source = before['e1:c1'].flatMap(b => b.entries).filter(e => e.id !== 'w2');
+        const target = [...before['e1:c2'].flatMap(b => b.entries), moved];
+        const after = {
+            'e1:c1': buildBatchesFromEntries(source, 'e1', 'c1'),
+            'e1:c2': buildBatchesFromEntries(target, 'e1', 'c2'),
+        };
+
+        expect(ids(after, 'e1:c1')).toEqual([['w1', 'w3'], []]);
+        expect(ids(after, 'e1:c2')).toEqual([['x1', 'w2'], ['x2']]);
+        expect(after['e1:c2'][0]).toMatchObject({ status: 'closed', subtotal: 100, categoryId: 'c2' });
+        expect(flattenEntries(after).map(e => e.id).sort()).toEqual(['w1', 'w2', 'w3', 'x1', 'x2']);
+    });
+
+    it('keeps the batch size each weight was recorded with', () => {
+        const batches = buildBatchesFromEntries(
+            [entry('w1', 1, { batchSize: 3 }), entry('w2', 2, { batchSize: 3 }), entry('w3', 3, { batchSize: 3 })],
+            'e1',
+            'c2'
+        );
+
+        expect(batches.map(b => [b.entries.length, b.size, b.status])).toEqual([[3, 3, 'closed'], [0, undefined, 'open']]);
+    });
+});
+
+describe('reflowBatches', () => {
+    it('keeps the id of the batch at each position', () => {
+        const previous = buildBatchesFromEntries([entry('w1', 1), entry('w2', 2), entry('w3', 3)], 'e1', 'c1');
+        // w0 goes in first: every weight shifts one place
+        const batches = reflowBatches(previous, [entry('w0', 0.5), entry('w1', 1), entry('w2', 2), entry('w3', 3)], 'e1', 'c1');
+
+        expect(batches.map(b => b.entries.map(e => e.id))).toEqual([['w0', 'w1'], ['w2', 'w3'], []]);
+        expect(batches.slice(0, 2).map(b => b.id)).toEqual(previous.map(b => b.id));
+        expect(batches[2].id).toBe('batch-open-e1:c1:4');
+    });
+});
+
+describe('timestampBetween', () => {
+    it('sorts an inserted weight between its neighbours', () => {
+        const inserted = entry('new', timestampBetween(entry('w1', 10), entry('w2', 11)));
+        const batches = buildBatchesFromEntries([entry('w1', 10), entry('w2', 11), inserted], 'e1', 'c1');
+
+        expect(inserted.timestamp).toBe(10.5);
+        expect(batches[0].entries.map(e => e.id)).toEqual(['w1', 'new']);
+        expect(batches[1].entries.map(e => e.id)).toEqual(['w2']);
+    });
+
+    it('goes before the first weight or after the last one', () => {
+        expect(timestampBetween(undefined, entry('w1', 10))).toBe(9);
+        expect(timestampBetween(entry('w1', Number.MAX_SAFE_INTEGER - 1), undefined)).toBe(Number.MAX_SAFE_INTEGER);
+        expect(timestampBetween(entry('w1', 10), undefined)).toBeGreaterThan(10);
+    });
+});
+
+describe('restoreEntries', () => {
+    const categories = new Set(['c1', 'c2']);
+
+    it('removes an added weight, keeping weights another device added meanwhile', () => {
+        // w2 was added here (the action undone), w3 by another device afterwards
+        const current = buildBatchesByKey([entry('w1', 1), entry('w2', 2), entry('w3', 3, { deviceId: 'other' })]);
+
+        const restored = restoreEntries(current, { w2: null }, categories);
+
+        expect(ids(restored, 'e1:c1')).toEqual([['w1', 'w3'], []]);
+        expect(restored['e1:c1'][0].status).toBe('closed');
+    });
+
+    it('puts back a deleted or changed weight in its place', () => {
+        const current = buildBatchesByKey([entry('w1', 1, { value: 60 }), entry('w3', 3)]);
+
+        const restored = restoreEntries(current, { w1: entry('w1', 1), w2: entry('w2', 2) }, categories);
+
+        expect(ids(restored, 'e1:c1')).toEqual([['w1', 'w2'], ['w3']]);
+        expect(restored['e1:c1'][0].entries[0].value).toBe(50);
+    });
+
+    it('moves a weight back to its entity and category', () => {
+        const current = buildBatchesByKey([entry('w1', 1), entry('w2', 2, { entityId: 'e2', categoryId: 'c2' })]);
+
+        const restored = restoreEntries(current, { w2: entry('w2', 2) }, categories);
+
+        expect(ids(restored, 'e1:c1')).toEqual([['w1', 'w2'], []]);
+        expect(ids(restored, 'e2:c2')).toEqual([[]]);
+    });
+
+    it('leaves other entity:category keys untouched', () => {
+        const current = buildBatchesByKey([entry('w1', 1), entry('x1', 5, { entityId: 'e2' })]);
+
+        const restored = restoreEntries(current, { w1: null }, categories);
+
+        expect(restored['e2:c1']).toBe(current['e2:c1']);
+    });
+
+    it('drops the batches of a category that no longer exists', () => {
+        const current = buildBatchesByKey([entry('w1', 1), entry('w2', 2, { categoryId: 'c3' })]);
+
+        const restored = restoreEntries(current, { w2: null }, categories);
+
+        expect(restored['e1:c3']).toBeUndefined();
+        expect(flattenEntries(restored).map(e => e.id)).toEqual(['w1']);
+    });
+});
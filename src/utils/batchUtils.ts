@@ -0,0 +1,214 @@
+/**
+ * Batch Utility Functions
+ * Rebuild batches deterministically from a flat list of weight entries
+ */
+
+import type { Batch, Category, WeightEntry } from '../types/domain';
+import { BATCH_SIZE } from '../types/domain';
+import { safeSum } from './math';
+
+/**
+ * Stable ordering for entries: by timestamp, then by id.
+ * Every device sorting the same entries gets the same order.
+ */
+export function compareEntries(a: WeightEntry, b: WeightEntry): number {
+    if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Sacks per batch configured for a category
+ * @param defaultSize - Session default, used when the category has no size of its own
+ */
+export function getCategoryBatchSize(category: Category | undefined, defaultSize: number = BATCH_SIZE): number {
+    return category?.batchSize ?? defaultSize;
+}
+
+/**
+ * Capacity of a batch. It is fixed when the first weight goes in, so changing
+ * the setting never resizes a started or closed batch; empty batches follow
+ * the current setting.
+ * @param currentSize - Size configured now for the batch's category
+ */
+export function getBatchCapacity(batch: Batch, currentSize: number = BATCH_SIZE): number {
+    if (batch.entries.length === 0) return currentSize;
+    return batch.size ?? BATCH_SIZE;
+}
+
+/**
+ * Split entries into batches. Each batch takes the size recorded on its first
+ * entry (BATCH_SIZE for entries saved before sizes were configurable).
+ * Batch ids derive from their first entry so they are identical on every device.
+ * Always ends with an open batch, like useWeighingBatch does after closing one.
+ *
+ * @param entries - Entries of a single entity:category combination (any order)
+ */
+export function buildBatchesFromEntries(
+    entries: WeightEntry[],
+    entityId: string,
+    categoryId: string
+): Batch[] {
+    const sorted = [...entries].sort(compareEntries);
+    const batches: Batch[] = [];
+
+    for (let i = 0; i < sorted.length;) {
+        const size = Math.max(1, sorted[i].batchSize ?? BATCH_SIZE);
+        const chunk = sorted.slice(i, i + size);
+        const isComplete = chunk.length >= size;
+        i += chunk.length;
+
+        batches.push({
+            id: `batch-${chunk[0].id}`,
+            entries: chunk,
+            status: isComplete ? 'closed' : 'open',
+            subtotal: isComplete ? safeSum(chunk.map(e => e.value)) : null,
+            categoryId,
+            entityId,
+            size,
+        });
+    }
+
+    const lastBatch = batches[batches.length - 1];
+    if (!lastBatch || lastBatch.status === 'closed') {
+        batches.push({
+            id: `batch-open-${entityId}:${categoryId}:${sorted.length}`,
+            entries: [],
+            status: 'open',
+            subtotal: null,
+            categoryId,
+            entityId,
+        });
+    }
+
+    return batches;
+}
+
+/**
+ * Rebuild the batches of one entity:category after entries were inserted,
+ * moved or removed out of order. Each batch keeps the id of the batch at the
+ * same position, so unchanged batches are not seen as new (e.g. by the batch
+ * ticket printer).
+ */
+export function reflowBatches(
+    previous: Batch[],
+    entries: WeightEntry[],
+    entityId: string,
+    categoryId: string
+): Batch[] {
+    return buildBatchesFromEntries(entries, entityId, categoryId).map((batch, index) =>
+        previous[index] ? { ...batch, id: previous[index].id } : batch
+    );
+}
+
+/**
+ * entity:category key of the batches holding an entry
+ */
+export function getEntryKey(entry: WeightEntry): string {
+    return `${entry.entityId}:${entry.categoryId}`;
+}
+
+/**
+ * Put entries back as they were (null = the entry did not exist, so it is
+ * removed), e.g. to undo an action. Only the batches holding them, before or
+ * after, are re-flowed; every other entry stays where it is. A key left
+ * without entries whose category no longer exists is dropped.
+ * @param categoryIds - Categories that exist once restored
+ */
+export function restoreEntries(
+    batchesByKey: Record<string, Batch[]>,
+    entries: Record<string, WeightEntry | null>,
+    categoryIds: Set<string>
+): Record<string, Batch[]> {
+    const ids = new Set(Object.keys(entries));
+    const restored = Object.values(entries).filter((e): e is WeightEntry => e !== null);
+    const keys = new Set(restored.map(getEntryKey));
+    flattenEntries(batchesByKey).forEach((e) => {
+        if (ids.has(e.id)) keys.add(getEntryKey(e));
+    });
+
+    const next = { ...batchesByKey };
+    keys.forEach((key) => {
+        const [entityId, categoryId] = key.split(':');
+        const keyEntries = [
+            ...(batchesByKey[key] ?? []).flatMap(b => b.entries).filter(e => !ids.has(e.id)),
+            ...restored.filter(e => getEntryKey(e) === key),
+        ];
+
+        if (keyEntries.length === 0 && !categoryIds.has(categoryId)) {
+            delete next[key];
+        } else {
+            next[key] = reflowBatches(batchesByKey[key] ?? [], keyEntries, entityId, categoryId);
+        }
+    });
+
+    return next;
+}
+
+/**
+ * Timestamp that sorts a new entry between two neighbours (either may be
+ * missing at the ends). Entries are ordered by timestamp, so an inserted
+ * entry takes its place on every device.
+ */
+export function timestampBetween(previous: WeightEntry | undefined, next: WeightEntry | undefined): number {
+    if (previous && next) return (previous.timestamp + next.timestamp) / 2;
+    if (next) return next.timestamp - 1;
+    return Math.max(Date.now(), (previous?.timestamp ?? 0) + 1);
+}
+
+/**
+ * Rebuild the full batchesByKey record from a flat list of entries
+ */
+export function buildBatchesByKey(entries: WeightEntry[]): Record<string, Batch[]> {
+    const grouped = new Map<string, WeightEntry[]>();
+
+    for (const entry of entries) {
+        const key = `${entry.entityId}:${entry.categoryId}`;
+        const list = grouped.get(key);
+        if (list) {
+            list.push(entry);
+        } else {
+            grouped.set(key, [entry]);
+        }
+    }
+
+    const result: Record<string, Batch[]> = {};
+    grouped.forEach((list, key) => {
+        const [entityId, categoryId] = key.split(':');
+        result[key] = buildBatchesFromEntries(list, entityId, categoryId);
+    });
+
+    return result;
+}
+
+/**
+ * Flatten batchesByKey into a single list of entries
+ */
+export function flattenEntries(batchesByKey: Record<string, Batch[]>): WeightEntry[] {
+    return Object.values(batchesByKey).flatMap(batches => batches.flatMap(b => b.entries));
+}
+
+/**
+ * Entries added, removed, changed (value or outlier mark) or moved to another
+ * entity:category between two lists
+ */
+export function diffEntries(
+    before: WeightEntry[],
+    after: WeightEntry[]
+): { added: WeightEntry[]; removed: WeightEntry[]; updated: WeightEntry[]; moved: WeightEntry[] } {
+    const beforeById = new Map(before.map(e => [e.id, e]));
+    const afterIds = new Set(after.map(e => e.id));
+
+    return {
+        added: after.filter(e => !beforeById.has(e.id)),
+        removed: before.filter(e => !afterIds.has(e.id)),
+        updated: after.filter(e => {
+            const previous = beforeById.get(e.id);
+            return previous !== undefined && (previous.value !== e.value || previous.outlier !== e.outlier);
+        }),
+        moved: after.filter(e => {
+            const previous = beforeById.get(e.id);
+            return previous !== undefined
+                && (previous.entityId !== e.entityId || previous.categoryId !== e.categoryId);
+        }),
+    };
+}
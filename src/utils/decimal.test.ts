@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { Category, RoundingPolicy, SettlementAdjustment } from '../types/domain';
+import type { Decimal, DecimalRounding } from './decimal';
+import {
+    decimalAdd,
+    decimalCompare,
+    decimalDiv,
+    decimalMul,
+    decimalRound,
+    decimalSub,
+    decimalSum,
+    decimalToString,
+    fromDecimal,
+    toDecimal,
+} from './decimal';
+import { roundDecimalMoney, roundFinalAmount } from './math';
+import { EMPTY_SETTLEMENT_DATA, calculateSettlementSummary } from './settlementUtils';
+
+const MODES: DecimalRounding[] = ['half-up', 'half-even', 'truncate'];
+
+/**
+ * Decimals of up to 12 digits and 6 places, both signs (read back from text, so normalized)
+ */
+const decimal = fc
+    .record({ units: fc.bigInt({ min: -(10n ** 12n), max: 10n ** 12n }), scale: fc.integer({ min: 0, max: 6 }) })
+    .map((raw) => toDecimal(decimalToString(raw)));
+
+const nonZeroDecimal = decimal.filter((value) => value.units !== 0n);
+
+function abs(value: Decimal): Decimal {
+    return value.units < 0n ? { ...value, units: -value.units } : value;
+}
+
+describe('decimal arithmetic', () => {
+    it('reads back what it writes', () => {
+        fc.assert(fc.property(decimal, (a) => {
+            expect(toDecimal(decimalToString(a))).toEqual(a);
+        }));
+    });
+
+    it('reads numbers exactly as they are written', () => {
+        fc.assert(fc.property(fc.double({ noNaN: true, noDefaultInfinity: true }), (value) => {
+            expect(fromDecimal(toDecimal(value))).toBe(value === 0 ? 0 : value);
+        }));
+    });
+
+    it('undoes an addition with a subtraction', () => {
+        fc.assert(fc.property(decimal, decimal, (a, b) => {
+            expect(decimalSub(decimalAdd(a, b), b)).toEqual(a);
+        }));
+    });
+
+    it('undoes a multiplication with a division', () => {
+        fc.assert(fc.property(decimal, nonZeroDecimal, (a, b) => {
+            expect(decimalDiv(decimalMul(a, b), b, a.scale)).toEqual(a);
+        }));
+    });
+
+    it('adds and multiplies in any grouping and order', () => {
+        fc.assert(fc.property(decimal, decimal, decimal, (a, b, c) => {
+            expect(decimalAdd(decimalAdd(a, b), c)).toEqual(decimalAdd(a, decimalAdd(b, c)));
+            expect(decimalMul(decimalMul(a, b), c)).toEqual(decimalMul(a, decimalMul(b, c)));
+            expect(decimalAdd(a, b)).toEqual(decimalAdd(b, a));
+            expect(decimalMul(a, b)).toEqual(decimalMul(b, a));
+        }));
+    });
+
+    it('multiplies over a sum', () => {
+        fc.assert(fc.property(decimal, decimal, decimal, (a, b, c) => {
+            expect(decimalMul(a, decimalAdd(b, c))).toEqual(decimalAdd(decimalMul(a, b), decimalMul(a, c)));
+        }));
+    });
+
+    it('divides to the places asked, within half a unit of the last place', () => {
+        fc.assert(fc.property(decimal, nonZeroDecimal, fc.integer({ min: 0, max: 4 }), (a, b, places) => {
+            const quotient = decimalDiv(a, b, places);
+            const error = abs(decimalSub(decimalMul(quotient, b), a));
+            const halfUnit = decimalMul(abs(b), { units: 5n, scale: places + 1 });
+
+            expect(quotient.scale).toBeLessThanOrEqual(places);
+            expect(decimalCompare(error, halfUnit)).toBeLessThanOrEqual(0);
+        }));
+    });
+
+    it('does not divide by zero', () => {
+        expect(() => decimalDiv(toDecimal(1), toDecimal(0), 2)).toThrow(RangeError);
+    });
+
+    it('divides to examples', () => {
+        expect(decimalToString(decimalDiv(toDecimal(10), toDecimal(3), 2))).toBe('3.33');
+        expect(decimalToString(decimalDiv(toDecimal(-2), toDecimal(3), 2))).toBe('-0.67');
+        expect(decimalToString(decimalDiv(toDecimal(0.5), toDecimal(-0.04), 1, 'half-even'))).toBe('-12.5');
+        expect(decimalToString(decimalDiv(toDecimal(1), toDecimal(8), 2, 'half-even'))).toBe('0.12');
+        expect(decimalToString(decimalDiv(toDecimal(1), toDecimal(8), 2, 'truncate'))).toBe('0.12');
+        expect(decimalToString(decimalDiv(toDecimal(1), toDecimal(8), 2))).toBe('0.13');
+    });
+});
+
+describe('decimalRound', () => {
+    it('rounds an exact half by each mode', () => {
+        const half = fc.record({
+            quotient: fc.bigInt({ min: 0n, max: 10n ** 10n }),
+            places: fc.integer({ min: 0, max: 4 }),
+            negative: fc.boolean(),
+        });
+
+        fc.assert(fc.property(half, ({ quotient, places, negative }) => {
+            const sign = negative ? -1n : 1n;
+            // quotient and a half at the last place, e.g. 2.345 for 234 at 2 places
+            const value: Decimal = { units: sign * (quotient * 10n + 5n), scale: places + 1 };
+            const at = (units: bigint) => toDecimal(decimalToString({ units: sign * units, scale: places }));
+
+            expect(decimalRound(value, places, 'half-up')).toEqual(at(quotient + 1n));
+            expect(decimalRound(value, places, 'half-even')).toEqual(at(quotient % 2n === 0n ? quotient : quotient + 1n));
+            expect(decimalRound(value, places, 'truncate')).toEqual(at(quotient));
+        }));
+    });
+
+    it('moves a value by at most half a unit (or a unit toward zero when truncating)', () => {
+        fc.assert(fc.property(decimal, fc.integer({ min: 0, max: 4 }), fc.constantFrom(...MODES), (a, places, mode) => {
+            const rounded = decimalRound(a, places, mode);
+            const error = abs(decimalSub(rounded, a));
+
+            expect(rounded.scale).toBeLessThanOrEqual(places);
+            if (mode === 'truncate') {
+                expect(decimalCompare(error, { units: 1n, scale: places })).toBeLessThan(0);
+                expect(decimalCompare(abs(rounded), abs(a))).toBeLessThanOrEqual(0);
+            } else {
+                expect(decimalCompare(error, { units: 5n, scale: places + 1 })).toBeLessThanOrEqual(0);
+            }
+        }));
+    });
+
+    it('leaves values that already fit unchanged', () => {
+        fc.assert(fc.property(decimal, fc.constantFrom(...MODES), (a, mode) => {
+            expect(decimalRound(a, a.scale, mode)).toEqual(a);
+        }));
+    });
+});
+
+describe('calculateSettlementSummary', () => {
+    const POLICIES: RoundingPolicy[] = ['half-up', 'half-even', 'truncate', 'tenth', 'unit'];
+    const CATEGORIES: Category[] = [
+        { id: 'c1', name: 'Yungay', createdAt: 1 },
+        { id: 'c2', name: 'Canchán', createdAt: 2 },
+    ];
+
+    /**
+     * Amounts from 0 to max with up to the given places, as typed
+     */
+    const amount = (max: number, places: number) =>
+        fc.integer({ min: 0, max: max * 10 ** places }).map((units) => units / 10 ** places);
+
+    const weight = fc.record({ weight: amount(5000, 2), sacks: fc.integer({ min: 0, max: 100 }) });
+
+    const adjustment: fc.Arbitrary<SettlementAdjustment> = fc.record({
+        id: fc.uuid(),
+        name: fc.constant('Ajuste'),
+        basis: fc.constantFrom('fixed' as const, 'per-kg' as const, 'per-sack' as const, 'percent' as const),
+        direction: fc.constantFrom('add' as const, 'deduct' as const),
+        rate: amount(20, 4),
+    });
+
+    const settlement = fc.record({
+        weights: fc.record({ c1: weight, 'c1:PRIMERA': weight, c2: weight }, { requiredKeys: [] }),
+        prices: fc.record({ c1: amount(10, 3), 'c1:PRIMERA': amount(10, 3), c2: amount(10, 3) }, { requiredKeys: [] }),
+        freightRate: amount(1, 4),
+        sackValue: amount(100, 2),
+        adjustments: fc.array(adjustment, { maxLength: 3 }),
+        rounding: fc.constantFrom(...POLICIES),
+        advanceDebt: amount(10000, 2),
+    });
+
+    it('totals exactly what its lines, adjustments and rounding policy add up to', () => {
+        fc.assert(fc.property(settlement, ({ weights, advanceDebt, ...input }) => {
+            const summary = calculateSettlementSummary(
+                CATEGORIES,
+                weights,
+                { ...EMPTY_SETTLEMENT_DATA, ...input },
+                null,
+                advanceDebt
+            );
+            const money = (value: Decimal) => roundDecimalMoney(value, input.rounding);
+
+            // Each line is its net weight at its price, rounded to the cent; the gross total is their sum
+            for (const line of summary.categoryBreakdown) {
+                expect(line.subtotal).toBe(fromDecimal(money(decimalMul(toDecimal(line.totalWeight), toDecimal(line.unitPrice)))));
+            }
+            const lineSum = decimalSum(summary.categoryBreakdown.map((line) => toDecimal(line.subtotal)));
+            expect(summary.grossTotal).toBe(fromDecimal(lineSum));
+
+            expect(summary.freightTotal).toBe(fromDecimal(money(decimalMul(toDecimal(summary.grossWeight), toDecimal(input.freightRate)))));
+
+            // Amount due = gross - freight + sacks ± adjustments, then the advance is deducted and the policy applied
+            const adjustments = summary.adjustments.map((line) => toDecimal(line.direction === 'add' ? line.amount : -line.amount));
+            const amountDue = money(decimalSum([
+                decimalSub(lineSum, toDecimal(summary.freightTotal)),
+                toDecimal(input.sackValue),
+                ...adjustments,
+            ]));
+            const advanceDeduction = Math.min(advanceDebt, Math.max(0, fromDecimal(amountDue)));
+            const unrounded = decimalSub(amountDue, toDecimal(advanceDeduction));
+
+            expect(summary.advanceDeduction).toBe(advanceDeduction);
+            expect(summary.finalAmount).toBe(roundFinalAmount(fromDecimal(unrounded), input.rounding));
+            expect(decimalCompare(decimalSub(toDecimal(summary.finalAmount), toDecimal(summary.roundingDifference)), unrounded)).toBe(0);
+        }));
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Exact Decimal Arithmetic for SHPL
+ *
+ * Fixed-point decimal numbers: an integer count of units (bigint) and the
+ * number of decimal places, so 47.375 kg is 47375 units at scale 3 and
+ * S/ 0.125 is 125 units at scale 3.
+ *
+ * Addition, subtraction and multiplication are exact: no binary floating-point
+ * error (0.1 + 0.2 is 0.3) and no decimals dropped before multiplying
+ * (47.375 × 0.125 is 5.921875). Only decimalRound() and decimalDiv() lose
+ * precision, to the places the caller decides. Values are converted back to numbers to be stored and shown.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * value = units / 10^scale (kept without trailing zero decimals)
+ */
+export interface Decimal {
+    readonly units: bigint;
+    readonly scale: number;
+}
+
+/**
+ * How a half is rounded: away from zero, or to the even neighbour (banker's);
+ * or no rounding, the extra decimals are dropped (toward zero)
+ */
+export type DecimalRounding = 'half-up' | 'half-even' | 'truncate';
+
+// ============================================
+// Helper Functions
+// ============================================
+
+export const ZERO_DECIMAL: Decimal = { units: 0n, scale: 0 };
+
+// Plain or exponent notation, as String(number) writes it
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+function pow10(exponent: number): bigint {
+    return 10n ** BigInt(exponent);
+}
+
+/**
+ * Units of the value at a larger scale
+ */
+function unitsAt(value: Decimal, scale: number): bigint {
+    return value.units * pow10(scale - value.scale);
+}
+
+/**
+ * numerator / divisor as an integer, rounded by the mode
+ */
+function divideUnits(numerator: bigint, divisor: bigint, mode: DecimalRounding): bigint {
+    const quotient = numerator / divisor;    // Truncated toward zero
+    const remainder = numerator % divisor;
+    const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+    const absDivisor = divisor < 0n ? -divisor : divisor;
+    const roundAway = mode !== 'truncate' && (twiceRemainder > absDivisor ||
+        (twiceRemainder === absDivisor && (mode === 'half-up' || quotient % 2n !== 0n)));
+
+    const step = (numerator < 0n) !== (divisor < 0n) ? -1n : 1n;
+    return roundAway ? quotient + step : quotient;
+}
+
+/**
+ * Drop trailing zero decimals, so equal values have the same units and scale
+ */
+function normalize(units: bigint, scale: number): Decimal {
+    while (scale > 0 && units % 10n === 0n) {
+        units /= 10n;
+        scale -= 1;
+    }
+    if (scale < 0) {
+        return { units: units * pow10(-scale), scale: 0 };
+    }
+    return { units, scale };
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+/**
+ * Exact decimal of a number or numeric string.
+ * Numbers are read from their shortest representation, so 0.1 is exactly 0.1.
+ * @throws RangeError for NaN, Infinity or text that is not a number
+ */
+export function toDecimal(value: number | string): Decimal {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+        throw new RangeError(`Not a finite number: ${value}`);
+    }
+
+    const match = DECIMAL_PATTERN.exec(String(value).trim());
+    const [, sign = '', integer = '', fraction = '', exponent = '0'] = match ?? [];
+    if (!match || (integer === '' && fraction === '')) {
+        throw new RangeError(`Not a decimal number: ${value}`);
+    }
+
+    const units = BigInt(`${integer}${fraction}`);
+    return normalize(sign === '-' ? -units : units, fraction.length - Number(exponent));
+}
+
+/**
+ * Closest number to the decimal (exact for amounts and weights of up to 15 digits)
+ */
+export function fromDecimal(value: Decimal): number {
+    return Number(decimalToString(value));
+}
+
+/**
+ * Plain notation, e.g. "-12.05"
+ */
+export function decimalToString(value: Decimal): string {
+    const negative = value.units < 0n;
+    const digits = (negative ? -value.units : value.units).toString().padStart(value.scale + 1, '0');
+    const integer = digits.slice(0, digits.length - value.scale);
+    const fraction = value.scale > 0 ? `.${digits.slice(-value.scale)}` : '';
+    return `${negative ? '-' : ''}${integer}${fraction}`;
+}
+
+// ============================================
+// Arithmetic
+// ============================================
+
+export function decimalAdd(a: Decimal, b: Decimal): Decimal {
+    const scale = Math.max(a.scale, b.scale);
+    return normalize(unitsAt(a, scale) + unitsAt(b, scale), scale);
+}
+
+export function decimalSub(a: Decimal, b: Decimal): Decimal {
+    const scale = Math.max(a.scale, b.scale);
+    return normalize(unitsAt(a, scale) - unitsAt(b, scale), scale);
+}
+
+export function decimalMul(a: Decimal, b: Decimal): Decimal {
+    return normalize(a.units * b.units, a.scale + b.scale);
+}
+
+/**
+ * a ÷ b rounded to a number of decimal places (most quotients have no exact decimal)
+ * @example decimalDiv(toDecimal(10), toDecimal(3), 2) is 3.33
+ * @throws RangeError when b is zero
+ */
+export function decimalDiv(a: Decimal, b: Decimal, places: number, mode: DecimalRounding = 'half-up'): Decimal {
+    if (b.units === 0n) {
+        throw new RangeError('Division by zero');
+    }
+    // Units of 10^-places: a.units × 10^(b.scale + places) / (b.units × 10^a.scale)
+    return normalize(divideUnits(a.units * pow10(b.scale + places), b.units * pow10(a.scale), mode), places);
+}
+
+export function decimalSum(values: Decimal[]): Decimal {
+    return values.reduce(decimalAdd, ZERO_DECIMAL);
+}
+
+/**
+ * Multiply by a power of ten, e.g. decimalMovePoint(rate, -2) for a percentage
+ */
+export function decimalMovePoint(value: Decimal, places: number): Decimal {
+    return normalize(value.units, value.scale - places);
+}
+
+/**
+ * Negative, zero or positive as a is less than, equal to or greater than b
+ */
+export function decimalCompare(a: Decimal, b: Decimal): number {
+    const scale = Math.max(a.scale, b.scale);
+    const difference = unitsAt(a, scale) - unitsAt(b, scale);
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+}
+
+/**
+ * Round to a number of decimal places (0 = units, 1 = tenths, 2 = cents)
+ * @example decimalRound(toDecimal(2.345), 2) is 2.35, with 'half-even' 2.34, with 'truncate' 2.34
+ */
+export function decimalRound(value: Decimal, places: number, mode: DecimalRounding = 'half-up'): Decimal {
+    if (value.scale <= places) return value;
+    return normalize(divideUnits(value.units, pow10(value.scale - places), mode), places);
+}
+
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { Category, Entity } from '../types/domain';
+import { NO_DEDUCTION, applyDeduction, resolveDeduction } from './deductionUtils';
+
+describe('applyDeduction', () => {
+    it('takes the tare per sack, then the shrinkage of what remains', () => {
+        expect(applyDeduction(250, 5, { tarePerSack: 0.2, shrinkagePercent: 2 })).toEqual({
+            gross: 250,
+            tare: 1,
+            shrinkage: 4.98,
+            net: 244.02,
+        });
+    });
+
+    it('rounds the shrinkage to the hundredth of a kilo', () => {
+        expect(applyDeduction(47.25, 0, { tarePerSack: 0, shrinkagePercent: 3 })).toEqual({
+            gross: 47.25,
+            tare: 0,
+            shrinkage: 1.42,
+            net: 45.83,
+        });
+    });
+
+    it('never takes more tare than the gross weight', () => {
+        expect(applyDeduction(0.5, 5, { tarePerSack: 0.2, shrinkagePercent: 2 })).toEqual({
+            gross: 0.5,
+            tare: 0.5,
+            shrinkage: 0,
+            net: 0,
+        });
+    });
+
+    it('leaves the weight as it is without a deduction', () => {
+        expect(applyDeduction(47.5, 1, NO_DEDUCTION)).toEqual({ gross: 47.5, tare: 0, shrinkage: 0, net: 47.5 });
+    });
+});
+
+describe('resolveDeduction', () => {
+    const category: Category = { id: 'c1', name: 'Yungay', createdAt: 1, tarePerSack: 0.2, shrinkagePercent: 2 };
+    const entity: Entity = { id: 'e1', name: 'Juan', type: 'PROVIDER', createdAt: 1, tarePerSack: 0.25 };
+
+    it('uses each value set on the entity over the category\'s', () => {
+        expect(resolveDeduction(category, entity)).toEqual({ tarePerSack: 0.25, shrinkagePercent: 2 });
+        expect(resolveDeduction(category, null)).toEqual({ tarePerSack: 0.2, shrinkagePercent: 2 });
+        expect(resolveDeduction(undefined, null)).toEqual(NO_DEDUCTION);
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Deduction Utility Functions
+ * Tare (empty sack weight) and shrinkage (merma) taken off the gross weight
+ */
+
+import type { Category, Entity, NetWeight, WeightDeduction } from '../types/domain';
+import { safeMult, safePercent, safeSub, roundToTwo } from './math';
+
+/**
+ * No deduction: net weight equals gross weight
+ */
+export const NO_DEDUCTION: WeightDeduction = {
+    tarePerSack: 0,
+    shrinkagePercent: 0,
+};
+
+/**
+ * Deduction that applies to a category's weight for an entity.
+ * Each value set on the entity overrides the category's.
+ */
+export function resolveDeduction(
+    category: Category | undefined,
+    entity?: Entity | null
+): WeightDeduction {
+    return {
+        tarePerSack: entity?.tarePerSack ?? category?.tarePerSack ?? 0,
+        shrinkagePercent: entity?.shrinkagePercent ?? category?.shrinkagePercent ?? 0,
+    };
+}
+
+export function hasDeduction(deduction: WeightDeduction): boolean {
+    return deduction.tarePerSack > 0 || deduction.shrinkagePercent > 0;
+}
+
+/**
+ * Split a gross weight into tare, shrinkage and net.
+ * Tare is taken first; shrinkage is a percentage of what remains.
+ * The net weight never goes below zero.
+ */
+export function applyDeduction(gross: number, sackCount: number, deduction: WeightDeduction): NetWeight {
+    const tare = Math.min(gross, safeMult(sackCount, deduction.tarePerSack));
+    const afterTare = safeSub(gross, tare);
+    const shrinkage = roundToTwo(safePercent(afterTare, deduction.shrinkagePercent));
+
+    return {
+        gross,
+        tare,
+        shrinkage,
+        net: Math.max(0, safeSub(afterTare, shrinkage)),
+    };
+}
+
+/**
+ * Tare must not be negative; shrinkage is a percentage below 100
+ */
+export function isValidDeduction(field: keyof WeightDeduction, value: number | null): boolean {
+    if (value === null) return true;
+    if (!Number.isFinite(value) || value < 0) return false;
+    return field === 'tarePerSack' || value < 100;
+}
+
+/**
+ * Copy of a category or entity with one deduction value set (null clears it)
+ */
+export function withDeduction<T extends Category | Entity>(
+    target: T,
+    field: keyof WeightDeduction,
+    value: number | null
+): T {
+    const updated: T = { ...target };
+    if (value === null) {
+        delete updated[field];
+    } else {
+        updated[field] = value;
+    }
+    return updated;
+}
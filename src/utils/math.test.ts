@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { RoundingPolicy } from '../types/domain';
+import { roundFinalAmount, roundMoney } from './math';
+
+describe('roundMoney', () => {
+    // amount, half-up, half-even, truncate
+    const cases: [number, number, number, number][] = [
+        [2.345, 2.35, 2.34, 2.34],
+        [2.355, 2.36, 2.36, 2.35],
+        [1.005, 1.01, 1.0, 1.0],
+        [2.349, 2.35, 2.35, 2.34],
+        [2.3449, 2.34, 2.34, 2.34],
+        [-2.345, -2.35, -2.34, -2.34],
+        [-2.349, -2.35, -2.35, -2.34],
+        [7.1, 7.1, 7.1, 7.1],
+    ];
+
+    it.each(cases)('rounds %d to the cent by each policy', (amount, halfUp, halfEven, truncate) => {
+        expect(roundMoney(amount, 'half-up')).toBe(halfUp);
+        expect(roundMoney(amount, 'half-even')).toBe(halfEven);
+        expect(roundMoney(amount, 'truncate')).toBe(truncate);
+    });
+
+    it('rounds halves up to the cent for the tenth and unit policies', () => {
+        expect(roundMoney(2.345, 'tenth')).toBe(2.35);
+        expect(roundMoney(2.345, 'unit')).toBe(2.35);
+    });
+});
+
+describe('roundFinalAmount', () => {
+    const cases: [RoundingPolicy, number, number][] = [
+        ['half-up', 123.455, 123.46],
+        ['half-even', 123.455, 123.46],
+        ['half-even', 123.445, 123.44],
+        ['truncate', 123.459, 123.45],
+        ['tenth', 123.45, 123.5],
+        ['tenth', 123.44, 123.4],
+        ['unit', 123.5, 124],
+        ['unit', 123.45, 123],
+        ['unit', -123.5, -124],
+    ];
+
+    it.each(cases)('rounds the amount to pay by the %s policy (%d → %d)', (policy, amount, expected) => {
+        expect(roundFinalAmount(amount, policy)).toBe(expected);
+    });
+});
@@ -2,27 +2,41 @@
  * Safe Math Utilities for SHPL
  * 
  * Prevents floating-point precision errors (e.g., 0.1 + 0.2 = 0.30000000000000004)
- * by operating on integers and scaling results.
+ * by doing the arithmetic on exact decimals (see decimal.ts) and converting
+ * the result back to a number.
  * 
- * Technique: Multiply by PRECISION_FACTOR, perform integer operations, divide back.
- * Uses 10000 (4 decimal places) for internal precision, rounds to 2 for output.
+ * Sums, differences and products are exact (no intermediate rounding);
+ * results are only rounded where asked: to the cent by roundToTwo, and money
+ * by the settlement's RoundingPolicy (see roundMoney).
+ * NaN and Infinity are not decimals; they pass through as with plain math.
  */
 
-// Internal precision factor (4 decimal places for intermediate calculations)
-const PRECISION_FACTOR = 10000;
+import type { RoundingPolicy } from '../types/domain';
+import type { Decimal, DecimalRounding } from './decimal';
+import {
+    decimalAdd,
+    decimalMovePoint,
+    decimalMul,
+    decimalRound,
+    decimalSub,
+    decimalSum,
+    fromDecimal,
+    toDecimal,
+} from './decimal';
 
 /**
- * Convert a number to its integer representation for safe operations
+ * Whether every value can be worked on as a decimal
  */
-function toInt(n: number): number {
-    return Math.round(n * PRECISION_FACTOR);
+function allFinite(...values: number[]): boolean {
+    return values.every(Number.isFinite);
 }
 
 /**
- * Convert back from integer representation to decimal
+ * Round to a number of decimal places on the exact decimal value
  */
-function fromInt(n: number): number {
-    return n / PRECISION_FACTOR;
+function roundTo(num: number, places: number, mode: DecimalRounding): number {
+    if (!allFinite(num)) return num;
+    return fromDecimal(decimalRound(toDecimal(num), places, mode));
 }
 
 /**
@@ -30,7 +44,8 @@ function fromInt(n: number): number {
  * @example safeAdd(0.1, 0.2) === 0.3 (not 0.30000000000000004)
  */
 export function safeAdd(a: number, b: number): number {
-    return fromInt(toInt(a) + toInt(b));
+    if (!allFinite(a, b)) return a + b;
+    return fromDecimal(decimalAdd(toDecimal(a), toDecimal(b)));
 }
 
 /**
@@ -38,46 +53,99 @@ export function safeAdd(a: number, b: number): number {
  * @example safeSub(0.3, 0.1) === 0.2 (not 0.19999999999999998)
  */
 export function safeSub(a: number, b: number): number {
-    return fromInt(toInt(a) - toInt(b));
+    if (!allFinite(a, b)) return a - b;
+    return fromDecimal(decimalSub(toDecimal(a), toDecimal(b)));
 }
 
 /**
  * Safe multiplication: a * b with floating-point error prevention
- * For multiplication, we need different scaling to avoid overflow
- * @example safeMult(10.55, 1.5) === 15.825
+ * Exact, operands keep all their decimals
+ * @example safeMult(10.55, 1.5) === 15.825, safeMult(47.375, 0.125) === 5.921875
  */
 export function safeMult(a: number, b: number): number {
-    // Use 100 for each operand (total 10000 factor)
-    const factor = 100;
-    const intA = Math.round(a * factor);
-    const intB = Math.round(b * factor);
-    return (intA * intB) / (factor * factor);
+    if (!allFinite(a, b)) return a * b;
+    return fromDecimal(decimalMul(toDecimal(a), toDecimal(b)));
 }
 
 /**
- * Round to 2 decimal places using banker's rounding (round half to even)
- * This is the standard for financial calculations
- * @example roundToTwo(2.345) === 2.34, roundToTwo(2.355) === 2.36
+ * Safe percentage: value * percent / 100, exact
+ * @example safePercent(43.5, 3) === 1.305 (not 1.3050000000000002)
+ */
+export function safePercent(value: number, percent: number): number {
+    if (!allFinite(value, percent)) return (value * percent) / 100;
+    return fromDecimal(decimalMovePoint(decimalMul(toDecimal(value), toDecimal(percent)), -2));
+}
+
+/**
+ * Round to 2 decimal places, halves away from zero (commercial rounding)
+ * Works on the decimal value, so 1.005 is a true half
+ * @example roundToTwo(2.345) === 2.35, roundToTwo(-2.345) === -2.35
  */
 export function roundToTwo(num: number): number {
-    // Add small epsilon to handle floating-point edge cases, then round
-    const scaled = Math.round((num + Number.EPSILON) * 100);
-    return scaled / 100;
+    return roundTo(num, 2, 'half-up');
+}
+
+/**
+ * Round to 2 decimal places, halves to the even cent (banker's rounding)
+ * @example roundHalfEven(2.345) === 2.34, roundHalfEven(2.355) === 2.36
+ */
+export function roundHalfEven(num: number): number {
+    return roundTo(num, 2, 'half-even');
+}
+
+/**
+ * Round a money amount to the cent as the policy says
+ * (tenth / unit only change the amount to pay, see roundFinalAmount)
+ */
+export function roundMoney(num: number, policy: RoundingPolicy = 'half-up'): number {
+    return roundTo(num, 2, roundingMode(policy));
+}
+
+/**
+ * Round the amount to pay: to 0.10 or 1.00 for those policies, else to the cent
+ * @example roundFinalAmount(123.45, 'tenth') === 123.5, roundFinalAmount(123.45, 'unit') === 123
+ */
+export function roundFinalAmount(num: number, policy: RoundingPolicy = 'half-up'): number {
+    switch (policy) {
+        case 'tenth':
+            return roundTo(num, 1, 'half-up');
+        case 'unit':
+            return roundTo(num, 0, 'half-up');
+        default:
+            return roundMoney(num, policy);
+    }
 }
 
 /**
  * Safe sum of an array of numbers
- * Reduces using safeAdd for cumulative precision
+ * Accumulates exactly and converts once, so the total is the sum of the values
  * @example safeSum([0.1, 0.2, 0.3]) === 0.6
  */
 export function safeSum(values: number[]): number {
-    return values.reduce((acc, val) => safeAdd(acc, val), 0);
+    if (!values.every(Number.isFinite)) return values.reduce((acc, val) => acc + val, 0);
+    return fromDecimal(decimalSum(values.map((value) => toDecimal(value))));
 }
 
 /**
  * Safe weighted calculation: (value * rate) with rounding to 2 decimals
  * Commonly used for price calculations: weight * unitPrice
  */
-export function safeWeightedCalc(value: number, rate: number): number {
-    return roundToTwo(safeMult(value, rate));
+export function safeWeightedCalc(value: number, rate: number, policy: RoundingPolicy = 'half-up'): number {
+    if (!allFinite(value, rate)) return value * rate;
+    return fromDecimal(roundDecimalMoney(decimalMul(toDecimal(value), toDecimal(rate)), policy));
+}
+
+/**
+ * Rounding mode of a policy for cent-level rounding
+ * (tenth / unit round halves up; they only differ for the amount to pay)
+ */
+export function roundingMode(policy: RoundingPolicy = 'half-up'): DecimalRounding {
+    return policy === 'half-even' || policy === 'truncate' ? policy : 'half-up';
+}
+
+/**
+ * Round an exact decimal money amount to the cent as the policy says
+ */
+export function roundDecimalMoney(value: Decimal, policy: RoundingPolicy = 'half-up'): Decimal {
+    return decimalRound(value, 2, roundingMode(policy));
 }
@@ -3,9 +3,10 @@
  * Transform flat batch data into a columnar grid structure for the notebook layout
  */
 
-import type { Batch, Category } from '../types/domain';
-import { BATCH_SIZE } from '../types/domain';
-import { safeSum } from './math';
+import type { Batch, Category, CurrencyCode, QualityGrade, WeightEntry } from '../types/domain';
+import { CURRENCY_SYMBOLS, QUALITY_GRADES } from '../types/domain';
+import { safeAdd, safeSum } from './math';
+import { getBatchCapacity } from './batchUtils';
 
 // ============================================
 // Types
@@ -13,7 +14,7 @@ import { safeSum } from './math';
 
 /**
  * Represents a single column in the notebook grid
- * Each column contains up to BATCH_SIZE (5) weights
+ * Each column holds its batch's size in weights, padded to the sheet's row count
  */
 export interface NotebookColumn {
     batchId: string;
@@ -21,6 +22,10 @@ export interface NotebookColumn {
     categoryName: string;
     categoryColor?: string;
     weights: (number | null)[];  // Array of weights (null for empty cells)
+    entryIds: string[];          // Entry of each filled cell, in row order
+    size: number;                // Batch size (cells past it are padding)
+    outliers: number[];          // Row indexes of accepted outliers pending review
+    grades: (QualityGrade | null)[]; // Grade of each filled cell, in row order (null = ungraded)
     subtotal: number;
     isFirstInCategory: boolean;  // True only for first column of each category
     isClosed: boolean;           // True if batch is complete
@@ -31,8 +36,19 @@ export interface NotebookColumn {
  */
 export interface NotebookData {
     columns: NotebookColumn[];
+    rowCount: number;            // Largest batch size among the columns
     categoryTotals: CategoryTotal[];
     grandTotal: number;
+    outlierCount: number;        // Weights to review before settling
+}
+
+/**
+ * Weight and sacks of one grade (null = ungraded sacks)
+ */
+export interface GradeSubtotal {
+    grade: QualityGrade | null;
+    weight: number;
+    sacks: number;
 }
 
 /**
@@ -44,6 +60,7 @@ export interface CategoryTotal {
     categoryColor?: string;
     totalWeight: number;
     batchCount: number;
+    gradeTotals: GradeSubtotal[];  // Empty when no weight of the category is graded
 }
 
 // ============================================
@@ -67,6 +84,7 @@ export function transformBatchesToNotebook(
     const columns: NotebookColumn[] = [];
     const categoryTotalsMap = new Map<string, CategoryTotal>();
     let grandTotal = 0;
+    let outlierCount = 0;
 
     // Build a map of categories for quick lookup
     const categoryMap = new Map(categories.map(c => [c.id, c]));
@@ -97,6 +115,7 @@ export function transformBatchesToNotebook(
                 categoryColor: category.color,
                 totalWeight: 0,
                 batchCount: 0,
+                gradeTotals: [],
             });
         }
 
@@ -113,12 +132,16 @@ export function transformBatchesToNotebook(
             }
 
             // Create weight array with nulls for empty slots
+            const size = getBatchCapacity(batch);
             const weights: (number | null)[] = [];
-            for (let i = 0; i < BATCH_SIZE; i++) {
+            for (let i = 0; i < size; i++) {
                 weights.push(batch.entries[i]?.value ?? null);
             }
 
-            // Calculate subtotal using safe math
+            const outliers = batch.entries.flatMap((entry, index) => (entry.outlier ? [index] : []));
+            outlierCount += outliers.length;
+
+            // Calculate subtotal using exact decimal math
             const subtotal = safeSum(batch.entries.map(e => e.value));
 
             columns.push({
@@ -127,6 +150,10 @@ export function transformBatchesToNotebook(
                 categoryName: categoryInfo?.name || 'Sin categoría',
                 categoryColor: categoryInfo?.color,
                 weights,
+                entryIds: batch.entries.map(e => e.id),
+                size,
+                outliers,
+                grades: batch.entries.map(e => e.grade ?? null),
                 subtotal,
                 isFirstInCategory,
                 isClosed: batch.status === 'closed',
@@ -135,20 +162,34 @@ export function transformBatchesToNotebook(
             // Update category totals
             const catTotal = categoryTotalsMap.get(batch.categoryId);
             if (catTotal) {
-                catTotal.totalWeight += subtotal;
+                catTotal.totalWeight = safeAdd(catTotal.totalWeight, subtotal);
                 if (batch.status === 'closed') {
                     catTotal.batchCount++;
                 }
             }
 
-            grandTotal += subtotal;
+            grandTotal = safeAdd(grandTotal, subtotal);
         }
     }
 
+    // Grade subtotals of each category (over all its columns)
+    for (const catTotal of categoryTotalsMap.values()) {
+        const batches = batchesByKey[`${entityId}:${catTotal.categoryId}`] || [];
+        catTotal.gradeTotals = subtotalByGrade(batches.flatMap(batch => batch.entries));
+    }
+
+    // Pad every column to the same height so subtotals line up
+    const rowCount = columns.reduce((max, column) => Math.max(max, column.size), 0);
+    for (const column of columns) {
+        while (column.weights.length < rowCount) column.weights.push(null);
+    }
+
     return {
         columns,
+        rowCount,
         categoryTotals: Array.from(categoryTotalsMap.values()),
         grandTotal,
+        outlierCount,
     };
 }
 
@@ -156,6 +197,24 @@ export function transformBatchesToNotebook(
 // Helper Functions
 // ============================================
 
+/**
+ * Weight and sacks per grade, ungraded first
+ * @returns Empty array when none of the entries is graded
+ */
+export function subtotalByGrade(entries: WeightEntry[]): GradeSubtotal[] {
+    if (!entries.some(e => e.grade)) return [];
+
+    return [null, ...QUALITY_GRADES].flatMap((grade) => {
+        const graded = entries.filter(e => (e.grade ?? null) === grade);
+        if (graded.length === 0) return [];
+        return [{
+            grade,
+            weight: safeSum(graded.map(e => e.value)),
+            sacks: graded.length,
+        }];
+    });
+}
+
 /**
  * Format date as DD/MM/YY (like in the notebook)
  */
@@ -177,11 +236,18 @@ export function formatWeight(weight: number): string {
 }
 
 /**
- * Format currency amount
+ * Format currency amount (number only, in the given locale)
  */
-export function formatCurrency(amount: number): string {
-    return amount.toLocaleString('es-PE', {
+export function formatCurrency(amount: number, locale: string = 'es-PE'): string {
+    return amount.toLocaleString(locale, {
         minimumFractionDigits: 2,
         maximumFractionDigits: 2,
     });
 }
+
+/**
+ * Format an amount with its currency symbol, e.g. "S/ 1,234.50" or "US$ 80.00"
+ */
+export function formatMoney(amount: number, currency: CurrencyCode = 'PEN', locale: string = 'es-PE'): string {
+    return `${CURRENCY_SYMBOLS[currency]} ${formatCurrency(amount, locale)}`;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { WeightEntry } from '../types/domain';
+import { checkOutlier, getWeightStats } from './outlierUtils';
+
+function entries(values: number[], overrides: Partial<WeightEntry> = {}): WeightEntry[] {
+    return values.map((value, index) => ({
+        id: `w${index + 1}`,
+        value,
+        timestamp: index + 1,
+        categoryId: 'c1',
+        entityId: 'e1',
+        ...overrides,
+    }));
+}
+
+describe('getWeightStats', () => {
+    it('needs a few entries before learning anything', () => {
+        expect(getWeightStats(entries([50, 51, 49, 50]))).toBeNull();
+    });
+
+    it('learns the median and the robust deviation', () => {
+        expect(getWeightStats(entries([50, 51, 49, 50, 52]))).toEqual({
+            median: 50,
+            deviation: 1.4826,
+            sampleSize: 5,
+        });
+    });
+
+    it('uses the most recent entries only, leaving accepted outliers out', () => {
+        const list = [
+            ...entries([30, 30, 30]),
+            ...entries([50, 51, 49, 50, 52]).map(e => ({ ...e, id: `recent-${e.id}`, timestamp: e.timestamp + 100 })),
+            { ...entries([470])[0], id: 'accepted', timestamp: 200, outlier: true },
+        ];
+
+        expect(getWeightStats(list, 5)).toEqual({ median: 50, deviation: 1.4826, sampleSize: 5 });
+    });
+});
+
+describe('checkOutlier', () => {
+    const stats = { median: 50, deviation: 1.4826, sampleSize: 5 };
+
+    it('flags a value far from the median, with the accepted range', () => {
+        expect(checkOutlier(470, stats)).toEqual({ value: 470, median: 50, lower: 37.5, upper: 62.5 });
+        expect(checkOutlier(4.7, stats)).toEqual({ value: 4.7, median: 50, lower: 37.5, upper: 62.5 });
+    });
+
+    it('accepts values within a quarter of the median even when sacks are all alike', () => {
+        expect(checkOutlier(47, stats)).toBeNull();
+        expect(checkOutlier(62.5, { median: 50, deviation: 0, sampleSize: 5 })).toBeNull();
+    });
+
+    it('widens the range for weights that spread more', () => {
+        expect(checkOutlier(80, { median: 50, deviation: 10, sampleSize: 30 })).toBeNull();
+        expect(checkOutlier(90, { median: 50, deviation: 10, sampleSize: 30 })).toEqual({
+            value: 90, median: 50, lower: 15, upper: 85,
+        });
+    });
+
+    it('flags nothing before there are stats', () => {
+        expect(checkOutlier(470, null)).toBeNull();
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Outlier Utility Functions
+ * Learn the typical sack weight of a category and spot suspicious entries
+ * (e.g. "470" typed instead of "47.0")
+ */
+
+import type { Batch, WeightEntry } from '../types/domain';
+import { compareEntries } from './batchUtils';
+
+// ============================================
+// Constants
+// ============================================
+
+/** Recent entries used to learn the typical weight */
+export const OUTLIER_WINDOW = 30;
+
+/** Entries needed before anything is flagged */
+export const OUTLIER_MIN_SAMPLES = 5;
+
+/** Allowed distance from the median, in robust standard deviations */
+const OUTLIER_THRESHOLD = 3.5;
+
+/** Minimum tolerance as a fraction of the median (sacks filled to the same weight have no spread) */
+const MIN_RELATIVE_TOLERANCE = 0.25;
+
+/** Scales the median absolute deviation to a standard deviation for normal data */
+const MAD_SCALE = 1.4826;
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Typical weight learned from recent entries
+ */
+export interface WeightStats {
+    median: number;
+    deviation: number;    // Robust standard deviation (scaled MAD)
+    sampleSize: number;
+}
+
+/**
+ * Accepted range when a value falls outside it
+ */
+export interface OutlierCheck {
+    value: number;
+    median: number;
+    lower: number;
+    upper: number;
+}
+
+// ============================================
+// Functions
+// ============================================
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+        ? (sorted[middle - 1] + sorted[middle]) / 2
+        : sorted[middle];
+}
+
+/**
+ * Rolling median and deviation of the most recent entries.
+ * Accepted outliers are left out so they don't shift what is "typical".
+ * @returns null until there are OUTLIER_MIN_SAMPLES entries
+ */
+export function getWeightStats(entries: WeightEntry[], window: number = OUTLIER_WINDOW): WeightStats | null {
+    const recent = entries
+        .filter(e => !e.outlier)
+        .sort(compareEntries)
+        .slice(-window)
+        .map(e => e.value);
+
+    if (recent.length < OUTLIER_MIN_SAMPLES) return null;
+
+    const center = median(recent);
+    return {
+        median: center,
+        deviation: MAD_SCALE * median(recent.map(v => Math.abs(v - center))),
+        sampleSize: recent.length,
+    };
+}
+
+/**
+ * Check a new value against the learned stats
+ * @returns The accepted range if the value is an outlier, null if it looks normal
+ */
+export function checkOutlier(value: number, stats: WeightStats | null): OutlierCheck | null {
+    if (!stats) return null;
+
+    const tolerance = Math.max(OUTLIER_THRESHOLD * stats.deviation, MIN_RELATIVE_TOLERANCE * stats.median);
+    const lower = Math.max(0, stats.median - tolerance);
+    const upper = stats.median + tolerance;
+
+    if (value >= lower && value <= upper) return null;
+
+    return { value, median: stats.median, lower, upper };
+}
+
+/**
+ * Accepted outliers of one entity still waiting for review
+ */
+export function countOutliers(batchesByKey: Record<string, Batch[]>, entityId: string): number {
+    return Object.entries(batchesByKey)
+        .filter(([key]) => key.startsWith(`${entityId}:`))
+        .reduce((count, [, batches]) => count + batches.reduce(
+            (batchCount, batch) => batchCount + batch.entries.filter(e => e.outlier).length,
+            0
+        ), 0);
+}
+
+/**
+ * Copy of an entry without the outlier mark (after it was reviewed)
+ */
+export function clearOutlierMark(entry: WeightEntry): WeightEntry {
+    const reviewed = { ...entry };
+    delete reviewed.outlier;
+    return reviewed;
+}
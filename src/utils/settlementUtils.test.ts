@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import type { Category, RoundingPolicy, WeightEntry } from '../types/domain';
+import { buildBatchesByKey } from './batchUtils';
+import {
+    EMPTY_SETTLEMENT_DATA,
+    aggregateWeightsByCategory,
+    calculateSettlementSummary,
+    freezeSettlement,
+    getLockedEntityIds,
+    getSettlementStatus,
+    touchesLockedEntity,
+} from './settlementUtils';
+
+const CATEGORIES: Category[] = [
+    { id: 'c1', name: 'Yungay', createdAt: 1 },
+    { id: 'c2', name: 'Canchán', createdAt: 1 },
+];
+
+// 10.5 kg × 0.33 = 3.465 and 12.5 kg × 0.31 = 3.875: half a cent on each line
+const WEIGHTS = { c1: { weight: 10.5, sacks: 1 }, c2: { weight: 12.5, sacks: 1 } };
+
+function summarize(rounding: RoundingPolicy) {
+    const settlementData = { ...EMPTY_SETTLEMENT_DATA, prices: { c1: 0.33, c2: 0.31 }, rounding };
+    return calculateSettlementSummary(CATEGORIES, WEIGHTS, settlementData);
+}
+
+describe('aggregateWeightsByCategory', () => {
+    function entry(id: string, value: number, overrides: Partial<WeightEntry> = {}): WeightEntry {
+        return { id, value, timestamp: 1, categoryId: 'c1', entityId: 'e1', batchSize: 2, ...overrides };
+    }
+
+    it('sums each category and grade exactly', () => {
+        const batchesByKey = buildBatchesByKey([
+            entry('w1', 0.1),
+            entry('w2', 0.2),
+            entry('w3', 0.3),
+            entry('w4', 47.375, { grade: 'PRIMERA' }),
+            entry('w5', 0.125, { grade: 'PRIMERA' }),
+            entry('w6', 50, { entityId: 'e2' }),
+        ]);
+
+        expect(aggregateWeightsByCategory(batchesByKey, 'e1')).toEqual({
+            c1: { weight: 0.6, sacks: 3 },
+            'c1:PRIMERA': { weight: 47.5, sacks: 2 },
+        });
+    });
+});
+
+describe('calculateSettlementSummary rounding', () => {
+    // policy, line subtotals, gross total, amount to pay, rounding difference
+    const cases: [RoundingPolicy, number[], number, number, number][] = [
+        ['half-up', [3.47, 3.88], 7.35, 7.35, 0],
+        ['half-even', [3.46, 3.88], 7.34, 7.34, 0],
+        ['truncate', [3.46, 3.87], 7.33, 7.33, 0],
+        ['tenth', [3.47, 3.88], 7.35, 7.4, 0.05],
+        ['unit', [3.47, 3.88], 7.35, 7, -0.35],
+    ];
+
+    it.each(cases)('rounds lines and total by the %s policy', (policy, subtotals, grossTotal, finalAmount, difference) => {
+        const summary = summarize(policy);
+
+        expect(summary.categoryBreakdown.map((line) => line.subtotal)).toEqual(subtotals);
+        expect(summary.grossTotal).toBe(grossTotal);
+        expect(summary.finalAmount).toBe(finalAmount);
+        expect(summary.roundingDifference).toBe(difference);
+    });
+
+    it('rounds freight and adjustments by the policy too', () => {
+        const settlementData = {
+            ...EMPTY_SETTLEMENT_DATA,
+            prices: { c1: 1, c2: 1 },
+            freightRate: 0.0015,    // 23 kg → 0.0345
+            adjustments: [{ id: 'a1', name: 'Estiba', basis: 'per-kg' as const, direction: 'deduct' as const, rate: 0.0025 }],
+        };
+
+        const halfUp = calculateSettlementSummary(CATEGORIES, WEIGHTS, { ...settlementData, rounding: 'half-up' });
+        const truncate = calculateSettlementSummary(CATEGORIES, WEIGHTS, { ...settlementData, rounding: 'truncate' });
+
+        expect([halfUp.freightTotal, halfUp.adjustments[0].amount]).toEqual([0.03, 0.06]);
+        expect([truncate.freightTotal, truncate.adjustments[0].amount]).toEqual([0.03, 0.05]);
+        expect(truncate.finalAmount).toBe(22.92);
+    });
+});
+
+describe('calculateSettlementSummary input safety', () => {
+    it('counts prices, rates and weights that are not finite as missing', () => {
+        const settlementData = {
+            ...EMPTY_SETTLEMENT_DATA,
+            prices: { c1: 1, 'c1:PRIMERA': Number.NaN, c2: Number.POSITIVE_INFINITY },
+            freightRate: Number.NaN,
+            sackValue: Number.POSITIVE_INFINITY,
+            adjustments: [{ id: 'a1', name: 'Estiba', basis: 'fixed' as const, direction: 'add' as const, rate: Number.NaN }],
+        };
+        const weights = {
+            c1: { weight: 10, sacks: 1 },
+            'c1:PRIMERA': { weight: 5, sacks: Number.NaN },
+            c2: { weight: 4, sacks: 1 },
+            'c2:SEGUNDA': { weight: Number.NaN, sacks: 1 },
+        };
+
+        const summary = calculateSettlementSummary(CATEGORIES, weights, settlementData, null, Number.NaN);
+
+        // The grade falls back to the category price; no price pays nothing; no weight, no line
+        expect(summary.categoryBreakdown.map((line) => [line.priceKey, line.subtotal])).toEqual([
+            ['c1', 10],
+            ['c1:PRIMERA', 5],
+            ['c2', 0],
+        ]);
+        expect(summary.freightTotal).toBe(0);
+        expect(summary.sackValue).toBe(0);
+        expect(summary.adjustmentsTotal).toBe(0);
+        expect(summary.advanceDeduction).toBe(0);
+        expect(summary.finalAmount).toBe(15);
+    });
+});
+
+describe('finalizing a settlement', () => {
+    const settlementData = { ...EMPTY_SETTLEMENT_DATA, prices: { c1: 2 } };
+    const summary = calculateSettlementSummary(
+        [{ id: 'c1', name: 'Yungay', createdAt: 1 }],
+        { c1: { weight: 50, sacks: 1 } },
+        settlementData
+    );
+    const finalized = freezeSettlement(settlementData, summary, 1000);
+
+    it('freezes the summary as it is now', () => {
+        expect(finalized).toEqual({ ...settlementData, finalizedAt: 1000, finalSummary: summary });
+        expect(finalized?.finalSummary?.finalAmount).toBe(100);
+    });
+
+    it('does not finalize twice or without weights', () => {
+        expect(freezeSettlement(finalized!, summary)).toBeNull();
+        expect(freezeSettlement(settlementData, { ...summary, grossWeight: 0 })).toBeNull();
+    });
+
+    it('goes from draft to paid as payments are registered', () => {
+        const payment = (id: string, amount: number) => ({ id, method: 'cash' as const, amount, paidAt: 2000 });
+
+        expect(getSettlementStatus(undefined)).toBe('draft');
+        expect(getSettlementStatus(settlementData)).toBe('draft');
+        expect(getSettlementStatus(finalized!)).toBe('finalized');
+        expect(getSettlementStatus({ ...finalized!, payments: [payment('p1', 40)] })).toBe('partially-paid');
+        expect(getSettlementStatus({ ...finalized!, payments: [payment('p1', 40), payment('p2', 60)] })).toBe('paid');
+    });
+
+    it('locks the weights of finalized entities only', () => {
+        const locked = getLockedEntityIds({ e1: finalized!, e2: settlementData });
+
+        expect([...locked]).toEqual(['e1']);
+        expect(touchesLockedEntity(['e2:c1', 'e1:c2'], locked)).toBe(true);
+        expect(touchesLockedEntity(['e2:c1', 'e3:c1'], locked)).toBe(false);
+    });
+});
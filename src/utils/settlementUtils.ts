@@ -0,0 +1,318 @@
+/**
+ * Settlement Utility Functions
+ * Pure settlement calculations shared by the live settlement and archived jornadas
+ */
+
+import type {
+    AdjustmentLine,
+    Batch,
+    Category,
+    CategoryLine,
+    CurrencyCode,
+    Entity,
+    QualityGrade,
+    RoundingPolicy,
+    SettlementAdjustment,
+    SettlementData,
+    SettlementStatus,
+    SettlementSummary,
+} from '../types/domain';
+import { CURRENCY_SYMBOLS, QUALITY_GRADES, QUALITY_GRADE_LABELS } from '../types/domain';
+import type { Decimal } from './decimal';
+import {
+    ZERO_DECIMAL,
+    decimalAdd,
+    decimalMovePoint,
+    decimalMul,
+    decimalSub,
+    decimalSum,
+    fromDecimal,
+    toDecimal,
+} from './decimal';
+import { roundDecimalMoney, roundFinalAmount } from './math';
+import { applyDeduction, resolveDeduction } from './deductionUtils';
+import { isFiniteNumber } from './validation';
+
+/**
+ * Gross weight and sack count of one category (or one grade of it)
+ */
+export interface CategoryWeight {
+    weight: number;
+    sacks: number;
+}
+
+/**
+ * Empty settlement input (no prices, freight or sacks)
+ */
+export const EMPTY_SETTLEMENT_DATA: SettlementData = {
+    prices: {},
+    freightRate: 0,
+    sackValue: 0,
+};
+
+/**
+ * A stored number, or zero if it is not a finite one (e.g. a corrupted value
+ * or "1e999" typed in a field), so one bad value doesn't break the settlement
+ */
+function finiteOrZero(value: unknown): number {
+    return isFiniteNumber(value) ? value : 0;
+}
+
+/**
+ * Key of a category's price in SettlementData.prices: the category id for
+ * ungraded sacks, `categoryId:GRADE` for a grade
+ */
+export function getPriceKey(categoryId: string, grade?: QualityGrade): string {
+    return grade ? `${categoryId}:${grade}` : categoryId;
+}
+
+/**
+ * Total gross weight and sacks per category and grade for one entity
+ * @returns Record of price key (see getPriceKey) -> weight and sack count
+ */
+export function aggregateWeightsByCategory(
+    batchesByKey: Record<string, Batch[]>,
+    entityId: string
+): Record<string, CategoryWeight> {
+    // Summed as exact decimals and converted once per price key
+    const totals: Record<string, { weight: Decimal; sacks: number }> = {};
+
+    Object.entries(batchesByKey).forEach(([key, batches]) => {
+        const [entId, catId] = key.split(':');
+        if (entId === entityId) {
+            batches.forEach((batch) => {
+                batch.entries.forEach((entry) => {
+                    const priceKey = getPriceKey(catId, entry.grade);
+                    const total = totals[priceKey] ?? { weight: ZERO_DECIMAL, sacks: 0 };
+                    totals[priceKey] = {
+                        weight: decimalAdd(total.weight, toDecimal(finiteOrZero(entry.value))),
+                        sacks: total.sacks + 1,
+                    };
+                });
+            });
+        }
+    });
+
+    return Object.fromEntries(Object.entries(totals).map(([priceKey, { weight, sacks }]) => (
+        [priceKey, { weight: fromDecimal(weight), sacks }]
+    )));
+}
+
+/**
+ * Amount of an adjustment line (always positive; the direction gives the sign)
+ * Per-kg rates apply to the gross weight, like freight; percentages to the gross total
+ */
+export function calculateAdjustment(
+    adjustment: SettlementAdjustment,
+    base: { grossTotal: number; grossWeight: number; sacks: number },
+    policy: RoundingPolicy = 'half-up'
+): number {
+    const rate = toDecimal(Math.max(0, finiteOrZero(adjustment.rate)));
+    const money = (amount: Decimal) => fromDecimal(roundDecimalMoney(amount, policy));
+    switch (adjustment.basis) {
+        case 'per-kg':
+            return money(decimalMul(toDecimal(base.grossWeight), rate));
+        case 'per-sack':
+            return money(decimalMul(toDecimal(base.sacks), rate));
+        case 'percent':
+            return money(decimalMul(toDecimal(base.grossTotal), decimalMovePoint(rate, -2)));
+        default:
+            return money(rate);
+    }
+}
+
+/**
+ * Currency a settlement is paid in (PEN for settlements saved before currencies)
+ */
+export function getSettlementCurrency(settlementData: SettlementData): CurrencyCode {
+    return settlementData.currency ?? 'PEN';
+}
+
+/**
+ * Rate of an adjustment as shown next to its name, e.g. "S/ 1.50 por saco" or "2 % del bruto"
+ */
+export function formatAdjustmentRate(adjustment: SettlementAdjustment, currency: CurrencyCode = 'PEN'): string {
+    switch (adjustment.basis) {
+        case 'per-kg':
+            return `${CURRENCY_SYMBOLS[currency]} ${adjustment.rate} por kg`;
+        case 'per-sack':
+            return `${CURRENCY_SYMBOLS[currency]} ${adjustment.rate} por saco`;
+        case 'percent':
+            return `${adjustment.rate} % del bruto`;
+        default:
+            return 'Monto fijo';
+    }
+}
+
+/**
+ * Build the settlement summary from category weights and settlement input.
+ * Prices apply to the net weight (after the entity's/category's tare and
+ * shrinkage); freight is charged on the gross weight that was carried.
+ * Custom adjustment lines are added or deducted after freight and sacks.
+ * The entity's outstanding advances are deducted up to what the settlement
+ * pays; the rest is carried forward.
+ * Amounts are rounded by the settlement's rounding policy; the amount to pay
+ * may be rounded to 0.10 or 1.00 (the difference is kept as a line).
+ * Totals are accumulated as exact decimals from the rounded lines, so the
+ * gross total is always the sum of the category subtotals shown.
+ * Prices, rates, weights and deductions that are not finite numbers count as
+ * missing (zero) instead of throwing while the screen renders.
+ */
+export function calculateSettlementSummary(
+    categories: Category[],
+    weightsByCategory: Record<string, CategoryWeight>,
+    settlementData: SettlementData,
+    entity?: Entity | null,
+    advanceDebt: number = 0
+): SettlementSummary {
+    const policy = settlementData.rounding ?? 'half-up';
+    const money = (amount: Decimal) => roundDecimalMoney(amount, policy);
+    const prices = Object.fromEntries(
+        Object.entries(settlementData.prices).filter(([, price]) => isFiniteNumber(price))
+    );
+    const freightRate = finiteOrZero(settlementData.freightRate);
+    const sackValue = finiteOrZero(settlementData.sackValue);
+    const debt = finiteOrZero(advanceDebt);
+    const categoryBreakdown: CategoryLine[] = [];
+    let grossTotal = ZERO_DECIMAL;
+    let grossWeight = ZERO_DECIMAL;
+    let tareWeight = ZERO_DECIMAL;
+    let shrinkageWeight = ZERO_DECIMAL;
+    let totalWeight = ZERO_DECIMAL;
+    let sacks = 0;
+
+    // Build category breakdown in exact decimals: ungraded sacks first, then each grade
+    categories.forEach((category) => {
+        const grades: (QualityGrade | undefined)[] = [undefined, ...QUALITY_GRADES];
+
+        grades.forEach((grade) => {
+            const priceKey = getPriceKey(category.id, grade);
+            const weight = finiteOrZero(weightsByCategory[priceKey]?.weight);
+            const lineSacks = finiteOrZero(weightsByCategory[priceKey]?.sacks);
+            if (weight <= 0) return;
+
+            // A grade without its own price is paid at the category price
+            const unitPrice = prices[priceKey] ?? prices[category.id] ?? 0;
+            const { tarePerSack, shrinkagePercent } = resolveDeduction(category, entity);
+            const { tare, shrinkage, net } = applyDeduction(weight, lineSacks, {
+                tarePerSack: finiteOrZero(tarePerSack),
+                shrinkagePercent: finiteOrZero(shrinkagePercent),
+            });
+            // SubtotalCategoria = PesoNetoCategoria × PrecioCategoria
+            const subtotal = money(decimalMul(toDecimal(net), toDecimal(unitPrice)));
+
+            categoryBreakdown.push({
+                priceKey,
+                categoryId: category.id,
+                ...(grade && { grade }),
+                categoryName: grade ? `${category.name} · ${QUALITY_GRADE_LABELS[grade]}` : category.name,
+                categoryColor: category.color,
+                grossWeight: weight,
+                tareWeight: tare,
+                shrinkageWeight: shrinkage,
+                totalWeight: net,
+                unitPrice,
+                subtotal: fromDecimal(subtotal),
+            });
+
+            grossTotal = decimalAdd(grossTotal, subtotal);
+            grossWeight = decimalAdd(grossWeight, toDecimal(weight));
+            tareWeight = decimalAdd(tareWeight, toDecimal(tare));
+            shrinkageWeight = decimalAdd(shrinkageWeight, toDecimal(shrinkage));
+            totalWeight = decimalAdd(totalWeight, toDecimal(net));
+            sacks += lineSacks;
+        });
+    });
+
+    // FleteTotal = PesoBruto × TasaFlete
+    const freightTotal = money(decimalMul(grossWeight, toDecimal(freightRate)));
+
+    // Ajustes = Σ adiciones - Σ descuentos
+    const adjustmentBase = { grossTotal: fromDecimal(grossTotal), grossWeight: fromDecimal(grossWeight), sacks };
+    const adjustments: AdjustmentLine[] = (settlementData.adjustments ?? []).map((adjustment) => ({
+        ...adjustment,
+        amount: calculateAdjustment(adjustment, adjustmentBase, policy),
+    }));
+    const adjustmentsTotal = decimalSum(adjustments.map((line) => (
+        line.direction === 'add' ? toDecimal(line.amount) : toDecimal(-line.amount)
+    )));
+
+    // GranTotal = (SumaSubtotales - FleteTotal) + ValorSacos + Ajustes - Adelantos
+    const amountDue = money(decimalSum([
+        decimalSub(grossTotal, freightTotal),
+        toDecimal(sackValue),
+        adjustmentsTotal,
+    ]));
+    const advanceDeduction = Math.min(debt, Math.max(0, fromDecimal(amountDue)));
+    const unroundedAmount = decimalSub(amountDue, toDecimal(advanceDeduction));
+    const finalAmount = roundFinalAmount(fromDecimal(unroundedAmount), policy);
+
+    return {
+        categoryBreakdown,
+        grossTotal: fromDecimal(grossTotal),
+        grossWeight: fromDecimal(grossWeight),
+        tareWeight: fromDecimal(tareWeight),
+        shrinkageWeight: fromDecimal(shrinkageWeight),
+        totalWeight: fromDecimal(totalWeight),
+        freightTotal: fromDecimal(freightTotal),
+        sackValue,
+        adjustments,
+        adjustmentsTotal: fromDecimal(adjustmentsTotal),
+        advanceDebt: debt,
+        advanceDeduction,
+        advanceBalance: fromDecimal(decimalSub(toDecimal(debt), toDecimal(advanceDeduction))),
+        roundingDifference: fromDecimal(decimalSub(toDecimal(finalAmount), unroundedAmount)),
+        finalAmount,
+        currency: getSettlementCurrency(settlementData),
+    };
+}
+
+/**
+ * Total registered against a finalized settlement
+ */
+export function getPaidAmount(data: SettlementData): number {
+    return fromDecimal(decimalSum((data.payments ?? []).map((payment) => toDecimal(finiteOrZero(payment.amount)))));
+}
+
+/**
+ * Status of a settlement: draft until finalized, then by how much was paid
+ */
+export function getSettlementStatus(data: SettlementData | undefined): SettlementStatus {
+    if (!data?.finalSummary) return 'draft';
+
+    const paid = getPaidAmount(data);
+    if (paid <= 0) return 'finalized';
+    return paid < data.finalSummary.finalAmount ? 'partially-paid' : 'paid';
+}
+
+/**
+ * Finalize a settlement: freeze its summary as it is now, which locks the
+ * entity's weights until it is reopened
+ * @returns null if already finalized or there is nothing to settle
+ */
+export function freezeSettlement(
+    data: SettlementData,
+    summary: SettlementSummary,
+    finalizedAt: number = Date.now()
+): SettlementData | null {
+    if (data.finalSummary !== undefined || summary.grossWeight <= 0) return null;
+    return { ...data, finalizedAt, finalSummary: summary };
+}
+
+/**
+ * Entities whose settlement is finalized (entityId -> settlement)
+ */
+export function getLockedEntityIds(settlements: Record<string, SettlementData>): Set<string> {
+    return new Set(
+        Object.entries(settlements)
+            .filter(([, data]) => data.finalSummary !== undefined)
+            .map(([entityId]) => entityId)
+    );
+}
+
+/**
+ * Whether any of the entity:category keys belongs to a locked entity
+ */
+export function touchesLockedEntity(keys: string[], lockedEntityIds: Set<string>): boolean {
+    return keys.some((key) => lockedEntityIds.has(key.split(':')[0]));
+}
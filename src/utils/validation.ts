@@ -0,0 +1,277 @@
+/**
+ * Validation Utilities
+ * Shape checks for persisted data. Values read back from storage are untyped
+ * JSON; these guards decide whether they can be used as domain objects.
+ */
+
+import type {
+    AccountMovement,
+    ArchivedJornada,
+    ArchivedJornadaInfo,
+    AuditRecord,
+    Batch,
+    Category,
+    CurrencyCode,
+    Entity,
+    Jornada,
+    OperationMode,
+    PriceListVersion,
+    QualityGrade,
+    RoundingPolicy,
+    SettlementAdjustment,
+    SettlementData,
+    SettlementPayment,
+    SettlementSummary,
+    WeightEntry,
+} from '../types/domain';
+
+// ============================================
+// Primitives
+// ============================================
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isString(value: unknown): value is string {
+    return typeof value === 'string';
+}
+
+/**
+ * Finite number (rejects NaN and Infinity, which JSON turns into null anyway)
+ */
+export function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(isString);
+}
+
+function isOptionalNumber(value: unknown): boolean {
+    return value === undefined || isFiniteNumber(value);
+}
+
+// ============================================
+// Domain Objects
+// ============================================
+
+export function isOperationMode(value: unknown): value is OperationMode {
+    return value === 'DESCARGA' || value === 'TRANSBORDO';
+}
+
+export function isQualityGrade(value: unknown): value is QualityGrade {
+    return value === 'PRIMERA' || value === 'SEGUNDA' || value === 'TERCERA';
+}
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+    return value === 'PEN' || value === 'USD';
+}
+
+export function isRoundingPolicy(value: unknown): value is RoundingPolicy {
+    return value === 'half-up' || value === 'half-even' || value === 'truncate' || value === 'tenth' || value === 'unit';
+}
+
+export function isEntity(value: unknown): value is Entity {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        isString(value.name) &&
+        (value.type === 'PROVIDER' || value.type === 'CLIENT' || value.type === 'WAREHOUSE') &&
+        isFiniteNumber(value.createdAt) &&
+        isOptionalNumber(value.tarePerSack) &&
+        isOptionalNumber(value.shrinkagePercent)
+    );
+}
+
+export function isCategory(value: unknown): value is Category {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        isString(value.name) &&
+        (value.color === undefined || isString(value.color)) &&
+        isFiniteNumber(value.createdAt) &&
+        isOptionalNumber(value.batchSize) &&
+        isOptionalNumber(value.tarePerSack) &&
+        isOptionalNumber(value.shrinkagePercent)
+    );
+}
+
+export function isWeightEntry(value: unknown): value is WeightEntry {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        isFiniteNumber(value.value) &&
+        isFiniteNumber(value.timestamp) &&
+        isString(value.categoryId) &&
+        isString(value.entityId) &&
+        (value.outlier === undefined || typeof value.outlier === 'boolean') &&
+        (value.grade === undefined || isQualityGrade(value.grade))
+    );
+}
+
+export function isBatch(value: unknown): value is Batch {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        Array.isArray(value.entries) &&
+        value.entries.every(isWeightEntry) &&
+        (value.status === 'open' || value.status === 'closed') &&
+        (value.subtotal === null || isFiniteNumber(value.subtotal)) &&
+        isString(value.categoryId) &&
+        isString(value.entityId) &&
+        isOptionalNumber(value.size)
+    );
+}
+
+export function isSettlementData(value: unknown): value is SettlementData {
+    return (
+        isRecord(value) &&
+        isRecord(value.prices) &&
+        Object.values(value.prices).every(isFiniteNumber) &&
+        isFiniteNumber(value.freightRate) &&
+        isFiniteNumber(value.sackValue) &&
+        (value.priceVersionId === undefined || isString(value.priceVersionId)) &&
+        (value.currency === undefined || isCurrencyCode(value.currency)) &&
+        (value.rounding === undefined || isRoundingPolicy(value.rounding)) &&
+        (value.adjustments === undefined ||
+            (Array.isArray(value.adjustments) && value.adjustments.every(isSettlementAdjustment))) &&
+        isOptionalNumber(value.finalizedAt) &&
+        (value.finalSummary === undefined || isSettlementSummary(value.finalSummary)) &&
+        (value.payments === undefined ||
+            (Array.isArray(value.payments) && value.payments.every(isSettlementPayment)))
+    );
+}
+
+/**
+ * Frozen summary of a finalized settlement (checks what the screens read from it)
+ */
+function isSettlementSummary(value: unknown): value is SettlementSummary {
+    return (
+        isRecord(value) &&
+        Array.isArray(value.categoryBreakdown) &&
+        isFiniteNumber(value.grossTotal) &&
+        isFiniteNumber(value.grossWeight) &&
+        isFiniteNumber(value.freightTotal) &&
+        isFiniteNumber(value.sackValue) &&
+        Array.isArray(value.adjustments) &&
+        isFiniteNumber(value.finalAmount)
+    );
+}
+
+export function isSettlementPayment(value: unknown): value is SettlementPayment {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        ['cash', 'yape', 'plin', 'transfer'].includes(value.method as string) &&
+        isFiniteNumber(value.amount) &&
+        (value.reference === undefined || isString(value.reference)) &&
+        isFiniteNumber(value.paidAt)
+    );
+}
+
+export function isSettlementAdjustment(value: unknown): value is SettlementAdjustment {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        isString(value.name) &&
+        ['fixed', 'per-kg', 'per-sack', 'percent'].includes(value.basis as string) &&
+        isFiniteNumber(value.rate) &&
+        (value.direction === 'add' || value.direction === 'deduct')
+    );
+}
+
+function isPriceMap(value: unknown): value is Record<string, number> {
+    return isRecord(value) && Object.values(value).every(isFiniteNumber);
+}
+
+export function isPriceListVersion(value: unknown): value is PriceListVersion {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        isFiniteNumber(value.effectiveFrom) &&
+        isFiniteNumber(value.createdAt) &&
+        isPriceMap(value.prices) &&
+        isRecord(value.entityPrices) &&
+        Object.values(value.entityPrices).every(isPriceMap) &&
+        (value.note === undefined || isString(value.note))
+    );
+}
+
+export function isAccountMovement(value: unknown): value is AccountMovement {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        isString(value.entityId) &&
+        (value.kind === 'advance' || value.kind === 'repayment' || value.kind === 'settlement') &&
+        isFiniteNumber(value.date) &&
+        isFiniteNumber(value.amount) &&
+        value.amount >= 0 &&
+        (value.currency === undefined || isCurrencyCode(value.currency)) &&
+        isString(value.concept) &&
+        (value.jornadaId === undefined || isString(value.jornadaId)) &&
+        isFiniteNumber(value.createdAt)
+    );
+}
+
+export function isJornada(value: unknown): value is Jornada {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        isString(value.date) &&
+        isFiniteNumber(value.openedAt)
+    );
+}
+
+export function isArchivedJornadaInfo(value: unknown): value is ArchivedJornadaInfo {
+    return (
+        isRecord(value) &&
+        isJornada(value) &&
+        isFiniteNumber(value.closedAt) &&
+        isFiniteNumber(value.entryCount) &&
+        isFiniteNumber(value.totalWeight)
+    );
+}
+
+export function isArchivedJornada(value: unknown): value is ArchivedJornada {
+    return (
+        isRecord(value) &&
+        isArchivedJornadaInfo(value) &&
+        isRecord(value.entities) &&
+        Array.isArray(value.entities.DESCARGA) &&
+        value.entities.DESCARGA.every(isEntity) &&
+        Array.isArray(value.entities.TRANSBORDO) &&
+        value.entities.TRANSBORDO.every(isEntity) &&
+        Array.isArray(value.categories) &&
+        value.categories.every(isCategory) &&
+        isRecord(value.batchesByKey) &&
+        Object.values(value.batchesByKey).every((batches) => Array.isArray(batches) && batches.every(isBatch)) &&
+        isRecord(value.settlements) &&
+        Object.values(value.settlements).every(isSettlementData)
+    );
+}
+
+const AUDIT_ACTIONS = [
+    'weight-added',
+    'weight-updated',
+    'weight-deleted',
+    'weight-reviewed',
+    'weight-moved',
+    'category-deleted',
+    'entity-removed',
+];
+
+export function isAuditRecord(value: unknown): value is AuditRecord {
+    return (
+        isRecord(value) &&
+        isString(value.id) &&
+        isFiniteNumber(value.timestamp) &&
+        AUDIT_ACTIONS.includes(value.action as string) &&
+        isString(value.entityId) &&
+        (value.previousValue === null || isFiniteNumber(value.previousValue)) &&
+        (value.newValue === null || isFiniteNumber(value.newValue)) &&
+        (value.entity === undefined || isEntity(value.entity)) &&
+        isString(value.deviceId) &&
+        isString(value.deviceName)
+    );
+}